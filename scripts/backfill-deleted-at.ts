@@ -0,0 +1,11 @@
+// Mengisi deletedAt: null pada blog dan proyek lama agar tetap muncul di query yang memfilter tempat sampah.
+// Server menjalankan hal yang sama saat start; skrip ini untuk mengisinya tanpa menjalankan server
+// Pemakaian: bun scripts/backfill-deleted-at.ts
+import { getDb } from '../server/db';
+import { backfillDeletedAt } from '../server/repositories';
+
+const db = getDb();
+for (const collectionName of ['blogs', 'projects']) {
+  const filled = await backfillDeletedAt(db, collectionName);
+  console.log(`✅ ${filled} dokumen ${collectionName} diberi deletedAt`);
+}
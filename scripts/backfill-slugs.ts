@@ -0,0 +1,41 @@
+// Mengisi slug untuk blog dan proyek lama yang dibuat sebelum fitur slug ada
+// Pemakaian: bun scripts/backfill-slugs.ts (setelah bun scripts/backfill-deleted-at.ts)
+import { getDb } from '../server/db';
+import {
+  createFirestoreBlogRepository,
+  createFirestoreProjectRepository,
+  type ContentRepository
+} from '../server/repositories';
+import { resolveUniqueSlug } from '../server/utils/slug';
+
+async function backfill(name: string, repository: ContentRepository<any>, fallback: string) {
+  let cursor: string | undefined;
+  let updated = 0;
+  do {
+    const page = await repository.list({ limit: 100, cursor });
+    for (const doc of page.items) {
+      if (doc.slug) continue;
+      const slug = await resolveUniqueSlug(repository, doc.title ?? '', fallback, doc.id);
+      await repository.update(doc.id, { slug, previousSlugs: [] });
+      updated++;
+    }
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  console.log(`✅ ${updated} ${name} diberi slug`);
+}
+
+const db = getDb();
+
+// Repository hanya membaca dokumen yang punya deletedAt, jadi tanpa backfill itu dokumen lama terlewat
+// dan slug-nya tidak ikut dicek saat mencari slug yang unik
+for (const collectionName of ['blogs', 'projects']) {
+  const snapshot = await db.collection(collectionName).get();
+  const missing = snapshot.docs.filter(doc => doc.get('deletedAt') === undefined).length;
+  if (missing > 0) {
+    console.error(`❌ ${missing} dokumen ${collectionName} belum punya deletedAt. Jalankan bun scripts/backfill-deleted-at.ts dulu.`);
+    process.exit(1);
+  }
+}
+
+await backfill('blog', createFirestoreBlogRepository(db), 'blog');
+await backfill('proyek', createFirestoreProjectRepository(db), 'project');
@@ -0,0 +1,13 @@
+// Membuat JWT lokal untuk pengujian atau akses admin
+// Pemakaian: JWT_SECRET=... bun scripts/create-token.ts <uid> <admin|editor|viewer> [email]
+import { signToken } from '../server/middleware/auth';
+import type { Role } from '../server/types';
+
+const [uid, role = 'viewer', email] = process.argv.slice(2);
+
+if (!uid || !['admin', 'editor', 'viewer'].includes(role)) {
+  console.error('Pemakaian: bun scripts/create-token.ts <uid> <admin|editor|viewer> [email]');
+  process.exit(1);
+}
+
+console.log(await signToken({ uid, role: role as Role, email }));
@@ -0,0 +1,267 @@
+// Membuat klien TypeScript bertipe dari dokumen OpenAPI (/doc) untuk dipakai frontend
+// Pemakaian: bun scripts/generate-client.ts [output] (default shared/api-client.ts)
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createApp, openApiDocumentConfig } from '../server/app';
+import {
+  createMemoryAnalyticsRepository,
+  createMemoryBlogRepository,
+  createMemoryCommentRepository,
+  createMemoryProjectRepository,
+  createMemoryRevisionRepository,
+  createMemoryTagRepository,
+  createMemoryWebhookDeliveryRepository,
+  createMemoryWebhookRepository
+} from '../server/repositories';
+import { createSearchIndex } from '../server/services/search';
+import { createViewTracker } from '../server/services/analytics';
+import { createEventBus } from '../server/services/events';
+import { createWebhookDispatcher } from '../server/services/webhooks';
+import { createLocalStorageDriver } from '../server/storage';
+
+type Schema = Record<string, any>;
+type OpenApiDocument = ReturnType<ReturnType<typeof createApp>['getOpenAPIDocument']>;
+
+export const DEFAULT_CLIENT_PATH = path.join(import.meta.dir, '..', 'shared', 'api-client.ts');
+
+const METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const;
+
+const pascal = (value: string) => value
+  .split(/[^a-zA-Z0-9]+/)
+  .filter(Boolean)
+  .map(part => part[0].toUpperCase() + part.slice(1))
+  .join('');
+
+// GET /api/blogs/{id}/revisions -> getBlogsByIdRevisions, kecuali route punya operationId sendiri
+export const operationName = (method: string, route: string) => method + route
+  .replace(/^\/api(?=\/|$)/, '')
+  .split('/')
+  .filter(Boolean)
+  .map(segment => (segment.startsWith('{') ? `By${pascal(segment)}` : pascal(segment)))
+  .join('');
+
+const propertyKey = (key: string) => (/^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key));
+
+const isBareNullable = (schema: Schema) => Object.keys(schema).every(key => ['nullable', 'example', 'description', 'default'].includes(key));
+
+function toType(schema: Schema | undefined, indent = ''): string {
+  if (!schema) return 'unknown';
+  if (schema.$ref) return schema.$ref.split('/').pop()!;
+
+  const nullable = (type: string) => (schema.nullable ? `${type} | null` : type);
+  if (schema.allOf) return nullable(schema.allOf.map((part: Schema) => toType(part, indent)).join(' & '));
+
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants) {
+    // z.null() di dalam union ditulis sebagai { nullable: true } tanpa tipe
+    const members = variants.map((part: Schema) => (isBareNullable(part) ? 'null' : toType(part, indent)));
+    return nullable([...new Set(members)].join(' | '));
+  }
+  if (schema.enum) return nullable(schema.enum.map((value: unknown) => JSON.stringify(value)).join(' | '));
+
+  switch (schema.type) {
+    case 'string':
+      return nullable(schema.format === 'binary' ? 'Blob' : 'string');
+    case 'integer':
+    case 'number':
+      return nullable('number');
+    case 'boolean':
+      return nullable('boolean');
+    case 'array':
+      return nullable(`Array<${toType(schema.items, indent)}>`);
+  }
+
+  if (schema.type === 'object' || schema.properties || schema.additionalProperties) {
+    const inner = `${indent}  `;
+    const required = new Set<string>(schema.required ?? []);
+    const lines = Object.entries<Schema>(schema.properties ?? {}).map(([key, value]) =>
+      `${inner}${propertyKey(key)}${required.has(key) ? '' : '?'}: ${toType(value, inner)};`
+    );
+    if (schema.additionalProperties) {
+      const valueType = schema.additionalProperties === true ? 'unknown' : toType(schema.additionalProperties, inner);
+      lines.push(`${inner}[key: string]: ${valueType === 'null' ? 'unknown' : valueType};`);
+    }
+    return nullable(lines.length ? `{\n${lines.join('\n')}\n${indent}}` : 'Record<string, never>');
+  }
+
+  // z.any() dan z.null() sama-sama menjadi { nullable: true }
+  return 'unknown';
+}
+
+const objectType = (entries: Array<[string, string]>, indent: string) =>
+  `{\n${entries.map(([key, type]) => `${indent}  ${key}: ${type};`).join('\n')}\n${indent}}`;
+
+export function renderClient(document: OpenApiDocument): string {
+  const out: string[] = [
+    '// File ini dibuat oleh scripts/generate-client.ts dari dokumen OpenAPI, jangan diubah manual.',
+    '// Jalankan `bun run generate:client` setelah mengubah route atau schema.',
+    ''
+  ];
+
+  for (const [name, schema] of Object.entries<Schema>(document.components?.schemas ?? {})) {
+    out.push(`export type ${name} = ${toType(schema)};`, '');
+  }
+
+  const operations: string[] = [];
+  const table: string[] = [];
+  for (const [route, item] of Object.entries<Schema>(document.paths ?? {})) {
+    for (const method of METHODS) {
+      const operation = item[method];
+      if (!operation) continue;
+      const name: string = operation.operationId ?? operationName(method, route);
+
+      const request: Array<[string, string]> = [];
+      for (const location of ['path', 'query'] as const) {
+        const parameters = (operation.parameters ?? []).filter((parameter: Schema) => parameter.in === location);
+        if (!parameters.length) continue;
+        const type = objectType(parameters.map((parameter: Schema) => [
+          `${propertyKey(parameter.name)}${parameter.required ? '' : '?'}`,
+          toType(parameter.schema, '      ')
+        ]), '      ');
+        const key = location === 'path' ? 'params' : 'query';
+        request.push([parameters.some((parameter: Schema) => parameter.required) ? key : `${key}?`, type]);
+      }
+      const [bodyType, bodySchema] = Object.entries<Schema>(operation.requestBody?.content ?? {})[0] ?? [];
+      if (bodyType) {
+        const type = bodyType === 'multipart/form-data' ? 'FormData' : toType(bodySchema?.schema, '      ');
+        request.push([operation.requestBody.required === false ? 'body?' : 'body', type]);
+      }
+
+      const responses = Object.entries<Schema>(operation.responses ?? {}).map(([status, response]): [string, string] => {
+        const content = response.content ?? {};
+        const json = content['application/json'];
+        const type = json ? toType(json.schema, '      ') : Object.keys(content).length ? 'string' : 'undefined';
+        return [status, type];
+      });
+
+      const summary = operation.summary ?? operation.description ?? Object.values<Schema>(operation.responses ?? {})[0]?.description;
+      operations.push(
+        `  /** ${method.toUpperCase()} ${route}${summary ? ` - ${summary}` : ''} */`,
+        `  ${name}: {`,
+        `    request: ${request.length ? objectType(request, '    ') : 'Record<string, never>'};`,
+        `    responses: ${objectType(responses, '    ')};`,
+        '  };'
+      );
+      table.push(`  ${name}: { method: '${method.toUpperCase()}', path: '${route}', body: ${bodyType ? `'${bodyType}'` : 'null'} },`);
+    }
+  }
+
+  out.push(
+    'export interface Operations {',
+    ...operations,
+    '}',
+    '',
+    'export const OPERATIONS = {',
+    ...table,
+    '} as const;',
+    '',
+    RUNTIME
+  );
+  return out.join('\n');
+}
+
+// Bagian klien yang tidak bergantung pada isi dokumen
+const RUNTIME = `export type OperationName = keyof Operations;
+
+export type ApiResult<R> = {
+  [S in keyof R]: { status: S extends \`\${infer N extends number}\` ? N : S; ok: boolean; data: R[S]; response: Response };
+}[keyof R];
+
+type RequestArgs<K extends OperationName> = Record<string, never> extends Operations[K]['request']
+  ? [request?: Operations[K]['request'], init?: RequestInit]
+  : [request: Operations[K]['request'], init?: RequestInit];
+
+export type ApiClient = {
+  [K in OperationName]: (...args: RequestArgs<K>) => Promise<ApiResult<Operations[K]['responses']>>;
+};
+
+export interface ApiClientOptions {
+  baseUrl: string;
+  // Token JWT/Firebase untuk header Authorization; boleh berupa fungsi agar selalu memakai token terbaru
+  token?: string | null | (() => string | null | undefined | Promise<string | null | undefined>);
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+}
+
+interface RequestParts {
+  params?: Record<string, string | number>;
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: unknown;
+}
+
+export function createApiClient(options: ApiClientOptions): ApiClient {
+  const send = async (name: OperationName, request: RequestParts = {}, init: RequestInit = {}) => {
+    const operation = OPERATIONS[name];
+    const pathname = operation.path.replace(/\\{(\\w+)\\}/g, (_, key: string) => encodeURIComponent(String(request.params?.[key] ?? '')));
+    const url = new URL(pathname, options.baseUrl);
+    for (const [key, value] of Object.entries(request.query ?? {})) {
+      if (value !== undefined) url.searchParams.set(key, String(value));
+    }
+
+    const headers = new Headers(options.headers);
+    new Headers(init.headers).forEach((value, key) => headers.set(key, value));
+    const token = typeof options.token === 'function' ? await options.token() : options.token;
+    if (token) headers.set('Authorization', \`Bearer \${token}\`);
+
+    let body: RequestInit['body'];
+    if (operation.body === 'application/json') {
+      headers.set('Content-Type', 'application/json');
+      body = JSON.stringify(request.body);
+    } else if (operation.body) {
+      // FormData menentukan Content-Type (beserta boundary) sendiri
+      if (!(request.body instanceof FormData)) headers.set('Content-Type', operation.body);
+      body = request.body as RequestInit['body'];
+    }
+
+    const response = await (options.fetch ?? fetch)(url, { ...init, method: operation.method, headers, body });
+    const contentType = response.headers.get('Content-Type') ?? '';
+    const data = contentType.includes('json') ? await response.json() : await response.text();
+    return { status: response.status, ok: response.ok, data, response };
+  };
+
+  const client: Record<string, unknown> = {};
+  for (const name of Object.keys(OPERATIONS) as OperationName[]) {
+    client[name] = (request?: RequestParts, init?: RequestInit) => send(name, request, init);
+  }
+  return client as ApiClient;
+}
+`;
+
+// Dokumen dibuat dari app dengan repository memori; isi data tidak memengaruhi schema
+export async function buildOpenApiDocument(): Promise<OpenApiDocument> {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'bunbackend-openapi-'));
+  try {
+    const baseUrl = 'http://localhost:8787';
+    const storage = await createLocalStorageDriver({ directory, baseUrl });
+    const analytics = createMemoryAnalyticsRepository();
+    const events = createEventBus();
+    const webhooks = createMemoryWebhookRepository();
+    const deliveries = createMemoryWebhookDeliveryRepository();
+    const revisions = { blogs: createMemoryRevisionRepository(), projects: createMemoryRevisionRepository() };
+    const app = createApp({
+      blogs: createMemoryBlogRepository(revisions.blogs),
+      projects: createMemoryProjectRepository(revisions.projects),
+      tags: createMemoryTagRepository(),
+      revisions,
+      comments: createMemoryCommentRepository(),
+      analytics: { repository: analytics, tracker: createViewTracker({ repository: analytics }) },
+      storage,
+      trashStorage: storage,
+      search: createSearchIndex(),
+      events,
+      webhooks: { repository: webhooks, deliveries, dispatcher: createWebhookDispatcher({ webhooks, deliveries, events }) },
+      baseUrl,
+      logger: false
+    });
+    return app.getOpenAPIDocument(openApiDocumentConfig(baseUrl));
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+}
+
+if (import.meta.main) {
+  const output = path.resolve(process.argv[2] ?? DEFAULT_CLIENT_PATH);
+  await fs.writeFile(output, renderClient(await buildOpenApiDocument()));
+  console.log(`Klien API ditulis ke ${path.relative(process.cwd(), output)}`);
+}
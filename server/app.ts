@@ -0,0 +1,272 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
+import { cors } from "hono/cors";
+import { prettyJSON } from "hono/pretty-json";
+import { swaggerUI } from "@hono/swagger-ui";
+import { logger } from "hono/logger";
+
+import { createBlogRoutes } from "./routes/blogs";
+import { createProjectRoutes } from "./routes/projects";
+import { createUploadRoutes, serveUploadedFile } from "./routes/uploads";
+import { createSearchRoutes } from "./routes/search";
+import { createTagRoutes } from "./routes/tags";
+import { createScheduledRoutes } from "./routes/scheduled";
+import { createFeedRoutes } from "./routes/feeds";
+import { createSitemapRoutes } from "./routes/sitemap";
+import { createTrashRoutes } from "./routes/trash";
+import { createAdminRoutes } from "./routes/admin";
+import { createCommentModerationRoutes } from "./routes/comments";
+import { createAnalyticsRoutes } from "./routes/analytics";
+import { createEventRoutes } from "./routes/events";
+import { createWebhookRoutes } from "./routes/webhooks";
+import { CreateBlogSchema, CreateProjectSchema } from "./openapi";
+import { createContentRenderer } from "./services/markdown";
+import type { AnalyticsRepository, BlogRepository, CommentRepository, ProjectRepository, RevisionRepository, TagRepository, WebhookDeliveryRepository, WebhookRepository } from "./repositories";
+import type { StorageDriver } from "./storage";
+import type { SearchIndex } from "./services/search";
+import type { ViewTracker } from "./services/analytics";
+import type { EventBus } from "./services/events";
+import type { WebhookDispatcher } from "./services/webhooks";
+import { DEFAULT_REVISION_RETENTION } from "./services/revisions";
+import { apiError, defaultHook, handleError } from "./errors";
+import { authenticate } from "./middleware/auth";
+import { createDailyQuota, createMemoryRateLimitStore, createRateLimiter, type RateLimitPolicy, type RateLimitStore } from "./middleware/rate-limit";
+import type { AppEnv } from "./types";
+
+// Semua dependensi eksternal di-inject supaya app bisa dijalankan dengan Firestore/GCS
+// di produksi dan dengan implementasi in-memory/lokal di test
+export interface AppDependencies {
+  blogs: BlogRepository;
+  projects: ProjectRepository;
+  tags: TagRepository;
+  revisions: { blogs: RevisionRepository; projects: RevisionRepository };
+  comments: CommentRepository;
+  // Tracker menulis ke repository yang sama dengan yang dibaca laporan
+  analytics: { repository: AnalyticsRepository; tracker: ViewTracker };
+  // Jumlah revisi maksimum per dokumen (default 20)
+  revisionRetention?: number;
+  storage: StorageDriver;
+  // Gambar yang dihapus dipindahkan ke sini sampai dipulihkan atau di-purge
+  trashStorage: StorageDriver;
+  search: SearchIndex;
+  // Sumber event untuk /api/events
+  events: EventBus;
+  // Jeda heartbeat /api/events (default 15 detik)
+  eventHeartbeatMs?: number;
+  // Dispatcher dijalankan terpisah (start/stop) oleh pemanggil, route hanya memakai redeliver
+  webhooks: { repository: WebhookRepository; deliveries: WebhookDeliveryRepository; dispatcher: WebhookDispatcher };
+  baseUrl: string;
+  // Judul dan deskripsi untuk /feed.xml, /atom.xml dan /feed.json
+  feed?: { title?: string; description?: string };
+  // Jumlah URL per file sitemap (default 50.000)
+  sitemapUrlLimit?: number;
+  rateLimit?: RateLimitOptions;
+  logger?: boolean;
+}
+
+export interface RateLimitOptions {
+  // Default: memori proses, cukup selama hanya ada satu instance
+  store?: RateLimitStore;
+  trustProxyHops?: number;
+  policies?: Partial<Record<keyof typeof DEFAULT_RATE_LIMIT_POLICIES, Partial<RateLimitPolicy>>>;
+  // Total byte unggahan per klien per hari (default 200MB)
+  uploadBytesPerDay?: number;
+}
+
+// read: semua GET /api, write: POST/PUT/DELETE /api, upload: POST /api/upload dan
+// comment: POST /api/blogs/{id}/comments (keduanya di atas batas write)
+export const DEFAULT_RATE_LIMIT_POLICIES = {
+  read: { name: 'read', limit: 600, windowMs: 60_000, methods: ['GET'] },
+  write: { name: 'write', limit: 60, windowMs: 60_000, methods: ['POST', 'PUT', 'DELETE'] },
+  upload: { name: 'upload', limit: 30, windowMs: 10 * 60_000, methods: ['POST'] },
+  comment: { name: 'comment', limit: 5, windowMs: 10 * 60_000, methods: ['POST'] }
+} satisfies Record<string, RateLimitPolicy>;
+
+export const DEFAULT_UPLOAD_BYTES_PER_DAY = 200 * 1024 * 1024;
+
+// Dipakai /doc dan scripts/generate-client.ts
+export const openApiDocumentConfig = (baseUrl: string) => ({
+  openapi: '3.0.0',
+  info: {
+    version: '1.0.0',
+    title: 'Blogging and Project Management API',
+    description: 'REST API untuk mengelola blog dan proyek, menggunakan Hono dan Firebase Firestore.'
+  },
+  servers: [
+    {
+      url: baseUrl,
+      description: 'URL server aktif'
+    }
+  ]
+});
+
+export function createApp(deps: AppDependencies) {
+  const app = new OpenAPIHono<AppEnv>({ defaultHook });
+
+  // Middleware
+  if (deps.logger !== false) {
+    app.use("*", logger());
+  }
+  app.use("*", prettyJSON());
+  app.use("*", cors({
+    origin: "https://personal-dissent.vercel.app",
+    allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    allowHeaders: ['Content-Type', 'Authorization'],
+    credentials: true
+  }));
+
+  // Token dibaca lebih dulu supaya batas dihitung per pengguna, bukan per IP, untuk request yang login
+  const rateLimit = deps.rateLimit ?? {};
+  const rateLimitStore = rateLimit.store ?? createMemoryRateLimitStore();
+  const limiter = createRateLimiter({ store: rateLimitStore, trustProxyHops: rateLimit.trustProxyHops });
+  const policy = (name: keyof typeof DEFAULT_RATE_LIMIT_POLICIES) => ({ ...DEFAULT_RATE_LIMIT_POLICIES[name], ...rateLimit.policies?.[name] });
+  app.use('/api/*', authenticate, limiter.limit(policy('read')), limiter.limit(policy('write')));
+  app.use('/api/upload', limiter.limit(policy('upload')));
+  app.use('/api/blogs/:id/comments', limiter.limit(policy('comment')));
+  const uploadQuota = createDailyQuota({
+    name: 'upload-bytes',
+    limit: rateLimit.uploadBytesPerDay ?? DEFAULT_UPLOAD_BYTES_PER_DAY,
+    store: rateLimitStore,
+    clientKey: limiter.clientKey
+  });
+
+  app.get('/', (c) => {
+    return c.json({
+      success: true,
+      data: {
+        status: 'healthy',
+        timestamp: new Date().toISOString()
+      },
+      message: 'API berjalan dengan sukses menggunakan Firestore'
+    });
+  });
+
+  const healthCheckRoute = createRoute({
+    method: 'get',
+    path: '/api/health',
+    responses: {
+      200: {
+        description: 'Status kesehatan API',
+        content: {
+          'application/json': {
+            schema: z.object({
+              success: z.literal(true),
+              data: z.object({
+                status: z.literal('healthy'),
+                timestamp: z.string()
+              }),
+              message: z.string()
+            })
+          }
+        }
+      }
+    },
+    tags: ['Health']
+  });
+
+  app.openapi(healthCheckRoute, async (c) => {
+    return c.json({
+      success: true as const,
+      data: {
+        status: 'healthy' as const,
+        timestamp: new Date().toISOString()
+      },
+      message: 'Server dalam kondisi normal'
+    }, 200);
+  });
+
+
+  const revisionRetention = deps.revisionRetention ?? DEFAULT_REVISION_RETENTION;
+  // Satu cache render dipakai bersama oleh blog dan proyek
+  const renderer = createContentRenderer();
+  app.route('/api/blogs', createBlogRoutes({
+    repository: deps.blogs,
+    tags: deps.tags,
+    revisions: deps.revisions.blogs,
+    search: deps.search,
+    revisionRetention,
+    baseUrl: deps.baseUrl,
+    renderer,
+    comments: deps.comments,
+    events: deps.events
+  }));
+  app.route('/api/projects', createProjectRoutes({
+    repository: deps.projects,
+    tags: deps.tags,
+    revisions: deps.revisions.projects,
+    search: deps.search,
+    revisionRetention,
+    baseUrl: deps.baseUrl,
+    renderer,
+    events: deps.events
+  }));
+  app.route('/api/tags', createTagRoutes({ repository: deps.tags, blogs: deps.blogs, projects: deps.projects }));
+  app.route('/api/comments', createCommentModerationRoutes({ comments: deps.comments, blogs: deps.blogs }));
+  app.route('/api/analytics', createAnalyticsRoutes({
+    tracker: deps.analytics.tracker,
+    repository: deps.analytics.repository,
+    blogs: deps.blogs,
+    projects: deps.projects,
+    clientAddress: limiter.clientAddress
+  }));
+  app.route('/api/search', createSearchRoutes(deps.search));
+  app.route('/api/events', createEventRoutes({ events: deps.events, heartbeatMs: deps.eventHeartbeatMs }));
+  app.route('/api/webhooks', createWebhookRoutes({
+    webhooks: deps.webhooks.repository,
+    deliveries: deps.webhooks.deliveries,
+    dispatcher: deps.webhooks.dispatcher
+  }));
+  app.route('/api/scheduled', createScheduledRoutes({ blogs: deps.blogs, projects: deps.projects }));
+  app.route('/api/trash', createTrashRoutes({
+    blogs: deps.blogs,
+    projects: deps.projects,
+    revisions: deps.revisions,
+    comments: deps.comments,
+    storage: deps.storage,
+    trash: deps.trashStorage,
+    search: deps.search,
+    events: deps.events,
+    baseUrl: deps.baseUrl
+  }));
+  app.route('/api/admin', createAdminRoutes({
+    sources: {
+      blog: { repository: deps.blogs, createSchema: CreateBlogSchema },
+      project: { repository: deps.projects, createSchema: CreateProjectSchema }
+    },
+    storage: deps.storage,
+    search: deps.search
+  }));
+
+  app.route('/api/upload', createUploadRoutes(deps.storage, deps.trashStorage, deps.events, uploadQuota));
+  app.route('/', createFeedRoutes({ blogs: deps.blogs, baseUrl: deps.baseUrl, ...deps.feed }));
+  app.route('/', createSitemapRoutes({
+    blogs: deps.blogs,
+    projects: deps.projects,
+    baseUrl: deps.baseUrl,
+    urlLimit: deps.sitemapUrlLimit
+  }));
+
+  if (deps.storage.kind === 'local') {
+    app.get('/uploads/:filename', serveUploadedFile(deps.storage));
+  }
+
+
+  // --- OpenAPI Documentation
+
+  // Skema keamanan agar Swagger UI bisa mengirim bearer token
+  app.openAPIRegistry.registerComponent('securitySchemes', 'bearerAuth', {
+    type: 'http',
+    scheme: 'bearer',
+    bearerFormat: 'JWT',
+    description: 'JWT lokal (JWT_SECRET) atau Firebase ID token (AUTH_PROVIDER=firebase)'
+  });
+
+  app.doc('/doc', openApiDocumentConfig(deps.baseUrl));
+
+  app.get('/docs', swaggerUI({ url: '/doc' }));
+
+  // --- Not Found & Error Handler
+  app.notFound((c) => apiError(c, 404, 'ROUTE_NOT_FOUND'));
+  app.onError(handleError);
+
+  return app;
+}
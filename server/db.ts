@@ -1,16 +1,36 @@
 import admin from 'firebase-admin';
-import { getFirestore } from 'firebase-admin/firestore';
+import { getFirestore, type Firestore } from 'firebase-admin/firestore';
 import type { ServiceAccount } from 'firebase-admin';
-import serviceAccountJson from '../portofolio-a0a0b-firebase-adminsdk-fbsvc-81638f3220.json' assert { type: "json" };
+import fs from 'fs';
+import path from 'path';
 
-const serviceAccount = serviceAccountJson as ServiceAccount;
+const DEFAULT_SERVICE_ACCOUNT_PATH = './portofolio-a0a0b-firebase-adminsdk-fbsvc-81638f3220.json';
 
-if (!admin.apps.length) {
-  admin.initializeApp({
-    credential: admin.credential.cert(serviceAccount)
-  });
+// Service account dibaca saat pertama kali dibutuhkan, bukan saat modul di-import,
+// supaya test dan mode offline tidak memerlukan kredensial Firebase
+function loadServiceAccount(): ServiceAccount {
+  if (process.env.FIREBASE_SERVICE_ACCOUNT) {
+    return JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT) as ServiceAccount;
+  }
+  const filePath = path.resolve(process.env.FIREBASE_SERVICE_ACCOUNT_FILE ?? DEFAULT_SERVICE_ACCOUNT_PATH);
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as ServiceAccount;
 }
 
-const db = getFirestore();
+export function getFirebaseApp() {
+  if (!admin.apps.length) {
+    admin.initializeApp({
+      credential: admin.credential.cert(loadServiceAccount())
+    });
+  }
+  return admin.app();
+}
+
+let db: Firestore | undefined;
 
-export { db };
\ No newline at end of file
+export function getDb(): Firestore {
+  if (!db) {
+    getFirebaseApp();
+    db = getFirestore();
+  }
+  return db;
+}
@@ -0,0 +1,119 @@
+export type Locale = 'id' | 'en';
+
+export const DEFAULT_LOCALE: Locale = 'id';
+
+export type MessageParams = Record<string, string | number | undefined>;
+
+type Message = string | ((params: MessageParams) => string);
+
+const TYPE_LABELS: Record<Locale, Record<string, string>> = {
+  id: { blog: 'Blog', project: 'Proyek', image: 'Gambar' },
+  en: { blog: 'Blog', project: 'Project', image: 'Image' }
+};
+
+// Kode eror adalah kunci katalog; kode yang sama selalu punya arti yang sama di semua endpoint
+const id = {
+  VALIDATION_FAILED: 'Validasi gagal',
+  REQUIRED: 'Wajib diisi',
+  INVALID_JSON: 'Body JSON tidak valid',
+  INVALID_ID: 'Parameter ID tidak valid',
+  INVALID_CURSOR: 'Cursor paginasi tidak valid',
+  INVALID_AUTH_HEADER: 'Format header Authorization tidak valid',
+  INVALID_TOKEN: 'Token tidak valid atau sudah kedaluwarsa',
+  UNAUTHENTICATED: 'Autentikasi diperlukan',
+  FORBIDDEN: 'Anda tidak memiliki izin untuk aksi ini',
+  ROUTE_NOT_FOUND: 'Rute tidak ditemukan',
+  INTERNAL_ERROR: 'Terjadi eror internal pada server',
+  BLOG_NOT_FOUND: (p) => (p.slug ? `Blog dengan slug ${p.slug} tidak ditemukan` : `Blog dengan ID ${p.id} tidak ditemukan`),
+  PROJECT_NOT_FOUND: (p) => (p.slug ? `Proyek dengan slug ${p.slug} tidak ditemukan` : `Proyek dengan ID ${p.id} tidak ditemukan`),
+  TAG_NOT_FOUND: (p) => `Tag dengan ID ${p.id} tidak ditemukan`,
+  REVISION_NOT_FOUND: (p) => `Revisi ${p.id} tidak ditemukan`,
+  FILE_NOT_FOUND: (p) => (p.filename ? `File ${p.filename} tidak ditemukan` : 'File tidak ditemukan'),
+  SITEMAP_NOT_FOUND: 'Sitemap tidak ditemukan',
+  TRASH_ITEM_NOT_FOUND: (p) => `${TYPE_LABELS.id[p.type!] ?? p.type} ${p.id} tidak ada di tempat sampah`,
+  UNKNOWN_TAGS: (p) => `Tag tidak dikenal: ${p.tags}`,
+  TAG_NOT_REGISTERED: (p) => `Tag ${p.name} belum terdaftar`,
+  TAG_EXISTS: (p) => `Tag ${p.name} sudah ada`,
+  PUBLISHED_AT_REQUIRED: 'publishedAt wajib diisi untuk konten terjadwal',
+  NO_FILE: 'Tidak ada file gambar yang diberikan',
+  FILE_TOO_LARGE: (p) => `Ukuran file harus kurang dari ${p.maxMb}MB`,
+  UNSUPPORTED_FILE_TYPE: 'Hanya file gambar (JPEG, PNG, WebP) yang diperbolehkan',
+  INVALID_IMAGE: 'File gambar rusak atau tidak dapat dibaca',
+  INVALID_FILENAME: 'Nama file tidak valid',
+  FILE_EXISTS: (p) => `File ${p.filename} sudah ada`,
+  UPLOAD_FAILED: 'Gagal mengunggah file',
+  BULK_TOO_LARGE: (p) => `Mode atomic maksimal ${p.limit} operasi; gunakan mode bestEffort untuk lebih banyak`,
+  BULK_ABORTED: 'Tidak ada operasi yang ditulis karena ada yang gagal',
+  OPERATION_SKIPPED: 'Dibatalkan karena operasi lain gagal',
+  DUPLICATE_TARGET: (p) => `${p.id} muncul di lebih dari satu operasi`,
+  DELETE_REQUIRES_ADMIN: 'Hanya admin yang boleh menghapus',
+  WRITE_FAILED: 'Gagal menyimpan ke database',
+  INVALID_RECORD: 'Baris bukan record JSON yang valid',
+  UNKNOWN_RECORD_TYPE: (p) => `Tipe record tidak dikenal: ${p.type}`,
+  INVALID_DATE: 'Bukan tanggal ISO 8601',
+  UPLOAD_MISSING: (p) => `File ${p.filename} tidak ada di storage`,
+  VERSION_CONFLICT: (p) => `Dokumen sudah diubah orang lain (versi ${p.version}); muat ulang sebelum menyimpan`,
+  RATE_LIMITED: (p) => `Terlalu banyak permintaan, coba lagi dalam ${p.retryAfter} detik`,
+  UPLOAD_QUOTA_EXCEEDED: (p) => `Kuota unggahan harian ${p.limitMb}MB terlampaui, sisa ${p.remainingMb}MB`,
+  COMMENT_NOT_FOUND: (p) => `Komentar ${p.id} tidak ditemukan`,
+  COMMENTS_DISABLED: 'Komentar dinonaktifkan untuk blog ini',
+  INVALID_PARENT_COMMENT: (p) => `Komentar ${p.id} tidak bisa dibalas`,
+  WEBHOOK_NOT_FOUND: (p) => `Webhook ${p.id} tidak ditemukan`,
+  WEBHOOK_DELIVERY_NOT_FOUND: (p) => `Pengiriman webhook ${p.id} tidak ditemukan`
+} satisfies Record<string, Message>;
+
+export type ErrorCode = keyof typeof id;
+
+const en: Record<ErrorCode, Message> = {
+  VALIDATION_FAILED: 'Validation failed',
+  REQUIRED: 'Required',
+  INVALID_JSON: 'Malformed JSON body',
+  INVALID_ID: 'Invalid ID parameter',
+  INVALID_CURSOR: 'Invalid pagination cursor',
+  INVALID_AUTH_HEADER: 'Malformed Authorization header',
+  INVALID_TOKEN: 'Invalid or expired token',
+  UNAUTHENTICATED: 'Authentication required',
+  FORBIDDEN: 'You do not have permission to perform this action',
+  ROUTE_NOT_FOUND: 'Route not found',
+  INTERNAL_ERROR: 'Internal server error',
+  BLOG_NOT_FOUND: (p) => (p.slug ? `Blog with slug ${p.slug} not found` : `Blog with ID ${p.id} not found`),
+  PROJECT_NOT_FOUND: (p) => (p.slug ? `Project with slug ${p.slug} not found` : `Project with ID ${p.id} not found`),
+  TAG_NOT_FOUND: (p) => `Tag with ID ${p.id} not found`,
+  REVISION_NOT_FOUND: (p) => `Revision ${p.id} not found`,
+  FILE_NOT_FOUND: (p) => (p.filename ? `File ${p.filename} not found` : 'File not found'),
+  SITEMAP_NOT_FOUND: 'Sitemap not found',
+  TRASH_ITEM_NOT_FOUND: (p) => `${TYPE_LABELS.en[p.type!] ?? p.type} ${p.id} is not in the trash`,
+  UNKNOWN_TAGS: (p) => `Unknown tags: ${p.tags}`,
+  TAG_NOT_REGISTERED: (p) => `Tag ${p.name} does not exist`,
+  TAG_EXISTS: (p) => `Tag ${p.name} already exists`,
+  PUBLISHED_AT_REQUIRED: 'publishedAt is required for scheduled content',
+  NO_FILE: 'No image file was provided',
+  FILE_TOO_LARGE: (p) => `File size must be less than ${p.maxMb}MB`,
+  UNSUPPORTED_FILE_TYPE: 'Only image files (JPEG, PNG, WebP) are allowed',
+  INVALID_IMAGE: 'The image file is corrupt or unreadable',
+  INVALID_FILENAME: 'Invalid filename',
+  FILE_EXISTS: (p) => `File ${p.filename} already exists`,
+  UPLOAD_FAILED: 'File upload failed',
+  BULK_TOO_LARGE: (p) => `Atomic mode allows at most ${p.limit} operations; use bestEffort mode for more`,
+  BULK_ABORTED: 'Nothing was written because an operation failed',
+  OPERATION_SKIPPED: 'Cancelled because another operation failed',
+  DUPLICATE_TARGET: (p) => `${p.id} appears in more than one operation`,
+  DELETE_REQUIRES_ADMIN: 'Only admins may delete',
+  WRITE_FAILED: 'Failed to write to the database',
+  INVALID_RECORD: 'Line is not a valid JSON record',
+  UNKNOWN_RECORD_TYPE: (p) => `Unknown record type: ${p.type}`,
+  INVALID_DATE: 'Not an ISO 8601 date',
+  UPLOAD_MISSING: (p) => `File ${p.filename} is not in storage`,
+  VERSION_CONFLICT: (p) => `The document was changed by someone else (version ${p.version}); reload before saving`,
+  RATE_LIMITED: (p) => `Too many requests, retry in ${p.retryAfter} seconds`,
+  UPLOAD_QUOTA_EXCEEDED: (p) => `Daily upload quota of ${p.limitMb}MB exceeded, ${p.remainingMb}MB left`,
+  COMMENT_NOT_FOUND: (p) => `Comment ${p.id} not found`,
+  COMMENTS_DISABLED: 'Comments are disabled for this blog',
+  INVALID_PARENT_COMMENT: (p) => `Comment ${p.id} cannot be replied to`,
+  WEBHOOK_NOT_FOUND: (p) => `Webhook ${p.id} not found`,
+  WEBHOOK_DELIVERY_NOT_FOUND: (p) => `Webhook delivery ${p.id} not found`
+};
+
+export const MESSAGES: Record<Locale, Record<ErrorCode, Message>> = { id, en };
+
+export const ERROR_CODES = Object.keys(id) as [ErrorCode, ...ErrorCode[]];
@@ -0,0 +1,86 @@
+import type { Context, ErrorHandler } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import type { Hook } from '@hono/zod-openapi';
+import type { ZodError } from 'zod';
+import type { ContentType } from '../utils/urls';
+import { DEFAULT_LOCALE, MESSAGES, type ErrorCode, type Locale, type MessageParams } from './catalog';
+
+export { DEFAULT_LOCALE, ERROR_CODES, type ErrorCode, type Locale, type MessageParams } from './catalog';
+
+export interface ErrorDetail {
+  field: string;
+  message: string;
+}
+
+// "en-US,en;q=0.9,id;q=0.8" -> bahasa pertama (menurut q) yang ada di katalog
+export function resolveLocale(header: string | null | undefined): Locale {
+  const candidates = (header ?? '')
+    .split(',')
+    .map(part => {
+      const [tag, ...attributes] = part.trim().split(';');
+      const q = attributes.map(attribute => attribute.trim()).find(attribute => attribute.startsWith('q='));
+      return { language: tag.split('-')[0].toLowerCase(), q: q ? Number(q.slice(2)) : 1 };
+    })
+    .filter(candidate => candidate.language && candidate.q > 0)
+    .sort((a, b) => b.q - a.q);
+  const match = candidates.find(candidate => candidate.language in MESSAGES);
+  return (match?.language as Locale | undefined) ?? DEFAULT_LOCALE;
+}
+
+export const localeOf = (c: Context) => resolveLocale(c.req.header('Accept-Language'));
+
+export function translate(locale: Locale, code: ErrorCode, params: MessageParams = {}): string {
+  const message = MESSAGES[locale][code];
+  return typeof message === 'function' ? message(params) : message;
+}
+
+// Kode 404 untuk blog/proyek, dipakai router yang melayani keduanya
+export const notFoundCode = (type: ContentType): ErrorCode => (type === 'blog' ? 'BLOG_NOT_FOUND' : 'PROJECT_NOT_FOUND');
+
+export const zodDetails = (error: ZodError): ErrorDetail[] =>
+  error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }));
+
+export interface ErrorOptions {
+  params?: MessageParams;
+  details?: ErrorDetail[];
+}
+
+// Bentuk ErrorResponseSchema: { success: false, data: null, error, code, details? }
+export function errorBody(c: Context, code: ErrorCode, { params, details }: ErrorOptions = {}) {
+  return {
+    success: false as const,
+    data: null,
+    error: translate(localeOf(c), code, params),
+    code,
+    ...(details && { details })
+  };
+}
+
+export function apiError<S extends ContentfulStatusCode>(c: Context, status: S, code: ErrorCode, options?: ErrorOptions) {
+  return c.json(errorBody(c, code, options), status);
+}
+
+// Dipasang di setiap OpenAPIHono agar eror validasi c.req.valid() memakai bentuk yang sama
+export const defaultHook: Hook<any, any, any, any> = (result, c) => {
+  if (!result.success) {
+    return apiError(c, 400, 'VALIDATION_FAILED', { details: zodDetails(result.error) });
+  }
+};
+
+const HTTP_EXCEPTION_CODES: Partial<Record<number, ErrorCode>> = {
+  // Dilempar validator Hono saat body JSON rusak
+  400: 'INVALID_JSON',
+  401: 'UNAUTHENTICATED',
+  403: 'FORBIDDEN',
+  404: 'ROUTE_NOT_FOUND'
+};
+
+// Untuk app.onError: HTTPException tetap memakai status aslinya, eror lain menjadi 500
+export const handleError: ErrorHandler = (err, c) => {
+  if (err instanceof HTTPException) {
+    return apiError(c, err.status as ContentfulStatusCode, HTTP_EXCEPTION_CODES[err.status] ?? 'INTERNAL_ERROR');
+  }
+  console.error('Eror tidak terduga:', err);
+  return apiError(c, 500, 'INTERNAL_ERROR');
+};
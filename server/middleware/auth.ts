@@ -0,0 +1,89 @@
+import type { MiddlewareHandler } from 'hono';
+import { sign, verify } from 'hono/jwt';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirebaseApp } from '../db';
+import { apiError } from '../errors';
+import type { AppEnv, AuthUser, Role } from '../types';
+
+const ROLES: Role[] = ['admin', 'editor', 'viewer'];
+
+const toRole = (value: unknown): Role =>
+  ROLES.includes(value as Role) ? (value as Role) : 'viewer';
+
+const getJwtSecret = () => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET belum diatur');
+  }
+  return secret;
+};
+
+// Verifikasi JWT yang ditandatangani dengan secret lokal (HS256)
+async function verifyJwt(token: string): Promise<AuthUser> {
+  const payload = await verify(token, getJwtSecret(), 'HS256');
+  if (typeof payload.sub !== 'string') {
+    throw new Error('Token tidak memiliki subject');
+  }
+  return {
+    uid: payload.sub,
+    email: typeof payload.email === 'string' ? payload.email : undefined,
+    role: toRole(payload.role)
+  };
+}
+
+// Verifikasi Firebase ID token, role diambil dari custom claim `role`
+async function verifyFirebaseToken(token: string): Promise<AuthUser> {
+  const decoded = await getAuth(getFirebaseApp()).verifyIdToken(token);
+  return {
+    uid: decoded.uid,
+    email: decoded.email,
+    role: toRole(decoded.role)
+  };
+}
+
+export const verifyToken = (token: string) =>
+  process.env.AUTH_PROVIDER === 'firebase' ? verifyFirebaseToken(token) : verifyJwt(token);
+
+// Membuat token untuk pengguna (hanya untuk provider JWT lokal)
+export const signToken = (user: AuthUser, expiresInSeconds = 60 * 60 * 24) =>
+  sign({
+    sub: user.uid,
+    email: user.email,
+    role: user.role,
+    exp: Math.floor(Date.now() / 1000) + expiresInSeconds
+  }, getJwtSecret(), 'HS256');
+
+// Membaca bearer token jika ada; request tanpa token tetap diteruskan sebagai anonim.
+// Token yang sudah diverifikasi middleware sebelumnya (mis. di tingkat app) tidak diverifikasi ulang
+export const authenticate: MiddlewareHandler<AppEnv> = async (c, next) => {
+  const header = c.req.header('Authorization');
+  if (!header || c.get('user')) {
+    await next();
+    return;
+  }
+
+  const [scheme, token] = header.split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    return apiError(c, 401, 'INVALID_AUTH_HEADER');
+  }
+
+  try {
+    c.set('user', await verifyToken(token));
+  } catch (error) {
+    console.warn('Verifikasi token gagal:', error instanceof Error ? error.message : error);
+    return apiError(c, 401, 'INVALID_TOKEN');
+  }
+  await next();
+};
+
+// Membatasi akses hanya untuk role tertentu
+export const requireRole = (...roles: Role[]): MiddlewareHandler<AppEnv> => async (c, next) => {
+  const user = c.get('user');
+  if (!user) {
+    return apiError(c, 401, 'UNAUTHENTICATED');
+  }
+  if (!roles.includes(user.role)) {
+    return apiError(c, 403, 'FORBIDDEN');
+  }
+  await next();
+};
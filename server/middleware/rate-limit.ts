@@ -0,0 +1,181 @@
+import type { Context, MiddlewareHandler } from 'hono';
+import { getConnInfo } from 'hono/bun';
+import { apiError } from '../errors';
+import type { AppEnv } from '../types';
+
+// Penyimpanan counter yang bisa diganti (mis. Redis) agar batas berlaku lintas instance
+export interface RateLimitStore {
+  // Menambah counter sebesar `amount` (boleh negatif) dan mengembalikan nilai barunya.
+  // Counter baru kedaluwarsa setelah ttlMs sejak pertama kali dibuat
+  increment(key: string, amount: number, ttlMs: number): Promise<number>;
+  get(key: string): Promise<number>;
+}
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const counters = new Map<string, { value: number; expiresAt: number }>();
+  let writes = 0;
+
+  const live = (key: string, now: number) => {
+    const counter = counters.get(key);
+    if (counter && counter.expiresAt <= now) {
+      counters.delete(key);
+      return undefined;
+    }
+    return counter;
+  };
+
+  return {
+    async increment(key, amount, ttlMs) {
+      const now = Date.now();
+      // Counter kedaluwarsa dibersihkan sesekali supaya Map tidak terus membesar
+      if (++writes % 1000 === 0) {
+        for (const [candidate, counter] of counters) {
+          if (counter.expiresAt <= now) counters.delete(candidate);
+        }
+      }
+      const counter = live(key, now) ?? { value: 0, expiresAt: now + ttlMs };
+      counter.value += amount;
+      counters.set(key, counter);
+      return counter.value;
+    },
+
+    async get(key) {
+      return live(key, Date.now())?.value ?? 0;
+    }
+  };
+}
+
+export interface RateLimitPolicy {
+  // Bagian dari key counter dan header RateLimit-Policy
+  name: string;
+  limit: number;
+  windowMs: number;
+  // Hanya method ini yang dihitung; kosong berarti semua method
+  methods?: string[];
+}
+
+export interface RateLimiterOptions {
+  store?: RateLimitStore;
+  // Jumlah proxy tepercaya di depan server (Railway: 1). X-Forwarded-For hanya dipercaya jika > 0
+  trustProxyHops?: number;
+}
+
+export interface RateLimiter {
+  // Alamat IP klien, dengan memperhitungkan proxy tepercaya
+  clientAddress(c: Context<AppEnv>): string;
+  // Identitas klien: UID pengguna yang login, selain itu alamat IP
+  clientKey(c: Context<AppEnv>): string;
+  limit(policy: RateLimitPolicy): MiddlewareHandler<AppEnv>;
+}
+
+// Sliding window: counter jendela sebelumnya diberi bobot sesuai sisa porsinya di jendela berjalan
+export function createRateLimiter({ store = createMemoryRateLimitStore(), trustProxyHops = 0 }: RateLimiterOptions = {}): RateLimiter {
+  const clientAddress = (c: Context<AppEnv>) => {
+    if (trustProxyHops > 0) {
+      const forwarded = (c.req.header('X-Forwarded-For') ?? '').split(',').map(part => part.trim()).filter(Boolean);
+      // Setiap proxy tepercaya menambahkan alamat yang ia lihat di ujung kanan; yang lebih kiri bisa dipalsukan klien
+      const address = forwarded[forwarded.length - trustProxyHops];
+      if (address) return address;
+    }
+    try {
+      return getConnInfo(c).remote.address ?? 'unknown';
+    } catch {
+      // app.request() di test tidak punya server Bun
+      return 'unknown';
+    }
+  };
+
+  const clientKey = (c: Context<AppEnv>) => {
+    const user = c.get('user');
+    return user ? `user:${user.uid}` : `ip:${clientAddress(c)}`;
+  };
+
+  const limit = ({ name, limit, windowMs, methods }: RateLimitPolicy): MiddlewareHandler<AppEnv> => async (c, next) => {
+    if (methods?.length && !methods.includes(c.req.method)) {
+      await next();
+      return;
+    }
+
+    const now = Date.now();
+    const window = Math.floor(now / windowMs);
+    const elapsed = now - window * windowMs;
+    const key = `ratelimit:${name}:${clientKey(c)}`;
+    const current = await store.increment(`${key}:${window}`, 1, windowMs * 2);
+    const previous = await store.get(`${key}:${window - 1}`);
+    const estimated = (previous * (windowMs - elapsed)) / windowMs + current;
+    const blocked = estimated > limit;
+
+    // Kalau ada beberapa kebijakan untuk satu request, header menampilkan yang paling ketat.
+    // Ditulis langsung ke c.res agar kebijakan berikutnya bisa membacanya
+    const remaining = Math.max(0, Math.floor(limit - estimated));
+    const shown = c.res.headers.get('RateLimit-Remaining');
+    if (shown === null || remaining <= Number(shown)) {
+      c.res.headers.set('RateLimit-Limit', String(limit));
+      c.res.headers.set('RateLimit-Remaining', String(remaining));
+      c.res.headers.set('RateLimit-Reset', String(Math.ceil((windowMs - elapsed) / 1000)));
+      c.res.headers.set('RateLimit-Policy', `${limit};w=${Math.ceil(windowMs / 1000)}`);
+    }
+
+    if (blocked) {
+      // Request yang ditolak tidak dihitung, supaya klien bisa pulih setelah menunggu
+      const counted = await store.increment(`${key}:${window}`, -1, windowMs * 2);
+      const allowed = limit - 1 - counted;
+      const waitMs = allowed >= 0 && previous > 0
+        ? windowMs - elapsed - (allowed * windowMs) / previous
+        // Jendela ini sendiri sudah penuh: tunggu sampai bobotnya di jendela berikutnya cukup kecil
+        : windowMs - elapsed + Math.max(0, windowMs - ((limit - 1) * windowMs) / counted);
+      const retryAfter = Math.max(1, Math.ceil(waitMs / 1000));
+      c.header('Retry-After', String(retryAfter));
+      return apiError(c, 429, 'RATE_LIMITED', { params: { retryAfter } });
+    }
+    await next();
+  };
+
+  return { clientAddress, clientKey, limit };
+}
+
+export interface QuotaReservation {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Kuota kembali penuh pada tengah malam UTC
+  resetAt: Date;
+}
+
+export interface DailyQuota {
+  // Memesan `amount` dari kuota hari ini; jika melebihi batas, pesanan dibatalkan dan allowed false
+  reserve(c: Context<AppEnv>, amount: number): Promise<QuotaReservation>;
+  // Mengembalikan pesanan yang tidak jadi dipakai, mis. karena unggahan gagal diproses
+  release(c: Context<AppEnv>, amount: number): Promise<void>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function createDailyQuota({ name, limit, store, clientKey }: {
+  name: string;
+  limit: number;
+  store: RateLimitStore;
+  clientKey: (c: Context<AppEnv>) => string;
+}): DailyQuota {
+  const keyOf = (c: Context<AppEnv>) => {
+    const day = new Date().toISOString().slice(0, 10);
+    return `quota:${name}:${clientKey(c)}:${day}`;
+  };
+  const nextMidnight = () => new Date((Math.floor(Date.now() / DAY_MS) + 1) * DAY_MS);
+
+  return {
+    async reserve(c, amount) {
+      const key = keyOf(c);
+      let used = await store.increment(key, amount, DAY_MS);
+      const allowed = used <= limit;
+      if (!allowed) {
+        used = await store.increment(key, -amount, DAY_MS);
+      }
+      return { allowed, limit, remaining: Math.max(0, limit - used), resetAt: nextMidnight() };
+    },
+
+    async release(c, amount) {
+      await store.increment(keyOf(c), -amount, DAY_MS);
+    }
+  };
+}
@@ -1,12 +1,14 @@
 import type { Context, Next } from 'hono';
 import path from 'path';
 import fs from 'fs';
+import { apiError } from '../errors';
 
-// Ensure uploads directory exists
 const uploadsDir = './uploads';
-if (!fs.existsSync(uploadsDir)) {
-  fs.mkdirSync(uploadsDir, { recursive: true });
-}
+
+// Image types accepted for upload, shared with the upload routes
+export const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
+
+export const MAX_UPLOAD_SIZE = 5 * 1024 * 1024;
 
 // Simple file upload handler for Hono
 export const uploadImage = async (c: Context, next: Next) => {
@@ -20,20 +22,13 @@ export const uploadImage = async (c: Context, next: Next) => {
     }
 
     // Validate file type
-    const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
-    if (!allowedTypes.includes(file.type)) {
-      return c.json({
-        success: false,
-        error: 'Only image files (JPEG, PNG, WebP) are allowed'
-      }, 400);
+    if (!ALLOWED_IMAGE_TYPES.includes(file.type)) {
+      return apiError(c, 400, 'UNSUPPORTED_FILE_TYPE');
     }
 
     // Validate file size (5MB limit)
-    if (file.size > 5 * 1024 * 1024) {
-      return c.json({
-        success: false,
-        error: 'File size must be less than 5MB'
-      }, 400);
+    if (file.size > MAX_UPLOAD_SIZE) {
+      return apiError(c, 400, 'FILE_TOO_LARGE', { params: { maxMb: MAX_UPLOAD_SIZE / (1024 * 1024) } });
     }
 
     // Generate unique filename
@@ -43,6 +38,9 @@ export const uploadImage = async (c: Context, next: Next) => {
     const filepath = path.join(uploadsDir, filename);
 
     // Save file
+    if (!fs.existsSync(uploadsDir)) {
+      fs.mkdirSync(uploadsDir, { recursive: true });
+    }
     const buffer = await file.arrayBuffer();
     fs.writeFileSync(filepath, new Uint8Array(buffer));
 
@@ -63,14 +61,9 @@ export const uploadImage = async (c: Context, next: Next) => {
     await next();
   } catch (error) {
     if (error instanceof Error) {
-      return c.json({
-        success: false,
-        error: `File upload error: ${error.message}`
-      }, 400);
+      console.error('File upload error:', error.message);
+      return apiError(c, 400, 'UPLOAD_FAILED');
     }
-    return c.json({
-      success: false,
-      error: 'File upload failed'
-    }, 500);
+    return apiError(c, 500, 'INTERNAL_ERROR');
   }
 };
\ No newline at end of file
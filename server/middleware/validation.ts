@@ -1,28 +1,43 @@
 import { z } from 'zod';
-import { Context, Next } from 'hono';
+import type { Context, Next } from 'hono';
+import { apiError, zodDetails } from '../errors';
+
+const slugSchema = z.string()
+  .min(1, 'Slug is required')
+  .max(100, 'Slug must be 100 characters or less')
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug may only contain lowercase letters, numbers and hyphens');
+
+const tagNamesSchema = z.array(
+  z.string().trim().min(1, 'Tag name is required').max(50, 'Tag name must be 50 characters or less')
+).max(20, 'At most 20 tags are allowed');
 
 // Blog validation schemas
 export const createBlogSchema = z.object({
   title: z.string().min(1, 'Title is required').max(255, 'Title must be 255 characters or less'),
+  slug: slugSchema.optional(),
   excerpt: z.string().optional(),
   content: z.string().min(1, 'Content is required'),
   coverImageUrl: z.string().url('Must be a valid URL').optional().or(z.literal('')),
-  status: z.enum(['draft', 'published']).default('draft'),
+  tags: tagNamesSchema.optional(),
+  status: z.enum(['draft', 'scheduled', 'published']).default('draft'),
   publishedAt: z.string().datetime().optional().or(z.null())
 });
 
 export const updateBlogSchema = z.object({
   title: z.string().min(1, 'Title is required').max(255, 'Title must be 255 characters or less').optional(),
+  slug: slugSchema.optional(),
   excerpt: z.string().optional().or(z.null()),
   content: z.string().min(1, 'Content is required').optional(),
   coverImageUrl: z.string().url('Must be a valid URL').optional().or(z.literal('')).or(z.null()),
-  status: z.enum(['draft', 'published']).optional(),
+  tags: tagNamesSchema.optional(),
+  status: z.enum(['draft', 'scheduled', 'published']).optional(),
   publishedAt: z.string().datetime().optional().or(z.null())
 });
 
 // Project validation schemas
 export const createProjectSchema = z.object({
   title: z.string().min(1, 'Title is required').max(255, 'Title must be 255 characters or less'),
+  slug: slugSchema.optional(),
   excerpt: z.string().optional(),
   abstract: z.string().optional(),
   projectScope: z.string().optional(),
@@ -32,12 +47,14 @@ export const createProjectSchema = z.object({
   documentationLink: z.string().url('Must be a valid URL').optional().or(z.literal('')),
   content: z.string().optional(),
   coverImageUrl: z.string().url('Must be a valid URL').optional().or(z.literal('')),
-  status: z.enum(['draft', 'published']).default('draft'),
+  tags: tagNamesSchema.optional(),
+  status: z.enum(['draft', 'scheduled', 'published']).default('draft'),
   publishedAt: z.string().datetime().optional().or(z.null())
 });
 
 export const updateProjectSchema = z.object({
   title: z.string().min(1, 'Title is required').max(255, 'Title must be 255 characters or less').optional(),
+  slug: slugSchema.optional(),
   excerpt: z.string().optional().or(z.null()),
   abstract: z.string().optional().or(z.null()),
   projectScope: z.string().optional().or(z.null()),
@@ -47,13 +64,17 @@ export const updateProjectSchema = z.object({
   documentationLink: z.string().url('Must be a valid URL').optional().or(z.literal('')).or(z.null()),
   content: z.string().optional().or(z.null()),
   coverImageUrl: z.string().url('Must be a valid URL').optional().or(z.literal('')).or(z.null()),
-  status: z.enum(['draft', 'published']).optional(),
+  tags: tagNamesSchema.optional(),
+  status: z.enum(['draft', 'scheduled', 'published']).optional(),
   publishedAt: z.string().datetime().optional().or(z.null())
 });
 
 // Query parameter validation
 export const statusQuerySchema = z.object({
-  status: z.enum(['draft', 'published']).optional()
+  status: z.enum(['draft', 'scheduled', 'published']).optional(),
+  tag: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1, 'Limit must be at least 1').max(100, 'Limit must be 100 or less').optional(),
+  cursor: z.string().min(1).optional()
 });
 
 // Validation middleware factory
@@ -66,15 +87,9 @@ export function validateBody(schema: z.ZodSchema) {
       await next();
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return c.json({
-          error: 'Validation failed',
-          details: error.errors.map(err => ({
-            field: err.path.join('.'),
-            message: err.message
-          }))
-        }, 400);
+        return apiError(c, 400, 'VALIDATION_FAILED', { details: zodDetails(error) });
       }
-      return c.json({ error: 'Invalid JSON format' }, 400);
+      return apiError(c, 400, 'INVALID_JSON');
     }
   };
 }
@@ -88,15 +103,9 @@ export function validateQuery(schema: z.ZodSchema) {
       await next();
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return c.json({
-          error: 'Invalid query parameters',
-          details: error.errors.map(err => ({
-            field: err.path.join('.'),
-            message: err.message
-          }))
-        }, 400);
+        return apiError(c, 400, 'VALIDATION_FAILED', { details: zodDetails(error) });
       }
-      return c.json({ error: 'Invalid query parameters' }, 400);
+      return apiError(c, 400, 'VALIDATION_FAILED');
     }
   };
 }
@@ -107,7 +116,7 @@ export async function validateIdParam(c: Context, next: Next) {
   const parsedId = parseInt(id);
   
   if (isNaN(parsedId) || parsedId <= 0) {
-    return c.json({ error: 'Invalid ID parameter. Must be a positive integer.' }, 400);
+    return apiError(c, 400, 'INVALID_ID');
   }
   
   c.set('id', parsedId);
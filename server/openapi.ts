@@ -1,73 +1,137 @@
 import { z } from 'zod';
 import { createRoute } from '@hono/zod-openapi';
+import { ERROR_CODES } from './errors';
+
+// Slug yang bisa dipakai di URL publik, contoh: 'belajar-hono-dan-bun'
+const SlugSchema = z.string()
+  .min(1)
+  .max(100)
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug may only contain lowercase letters, numbers and hyphens');
+
+// Nama tag harus sudah terdaftar di koleksi tags
+const TagNamesSchema = z.array(z.string().trim().min(1).max(50)).max(20);
+
+// Field opsional pada input tidak disimpan sama sekali jika kosong, jadi bisa hilang dari respons
+const StoredUrlSchema = z.string().url().or(z.literal('')).nullish();
 
 // Base schemas
 export const BlogSchema = z.object({
-  id: z.number().int().positive().openapi({ example: 1 }),
+  id: z.string().openapi({ example: 'ajL8SflPjZum2GcjBq2e' }),
   title: z.string().max(255).openapi({ example: 'My Blog Post Title' }),
-  excerpt: z.string().nullable().openapi({ example: 'A short excerpt of the blog post' }),
+  slug: z.string().openapi({ example: 'my-blog-post-title' }),
+  previousSlugs: z.array(z.string()).optional().openapi({ example: ['judul-lama'] }),
+  excerpt: z.string().nullish().openapi({ example: 'A short excerpt of the blog post' }),
   content: z.string().openapi({ example: 'Full content of the blog post...' }),
-  coverImageUrl: z.string().url().nullable().openapi({ example: 'https://example.com/image.jpg' }),
-  status: z.enum(['draft', 'published']).openapi({ example: 'published' }),
-  publishedAt: z.string().datetime().nullable().openapi({ example: '2025-06-06T04:11:32.056Z' }),
+  coverImageUrl: StoredUrlSchema.openapi({ example: 'https://example.com/image.jpg' }),
+  tags: z.array(z.string()).optional().openapi({ example: ['TypeScript', 'Hono'] }),
+  status: z.enum(['draft', 'scheduled', 'published']).openapi({ example: 'published' }),
+  publishedAt: z.string().datetime().nullish().openapi({ example: '2025-06-06T04:11:32.056Z' }),
   createdAt: z.string().datetime().openapi({ example: '2025-06-06T04:11:32.091Z' }),
-  updatedAt: z.string().datetime().openapi({ example: '2025-06-06T04:11:32.056Z' })
-});
+  updatedAt: z.string().datetime().openapi({ example: '2025-06-06T04:11:32.056Z' }),
+  // Selalu null di luar /api/trash
+  deletedAt: z.string().datetime().nullish().openapi({ example: null }),
+  deletedBy: z.string().nullish().openapi({ example: null }),
+  // Naik satu setiap kali dokumen diubah; sama dengan ETag detail dan bisa dikirim balik lewat If-Match
+  version: z.number().int().openapi({ example: 3 }),
+  // Jumlah komentar yang disetujui; tidak ada berarti 0
+  commentCount: z.number().int().optional().openapi({ example: 4 }),
+  // Tidak ada berarti komentar diizinkan
+  commentsEnabled: z.boolean().optional().openapi({ example: true })
+}).openapi('Blog');
 
 export const ProjectSchema = z.object({
-  id: z.number().int().positive().openapi({ example: 1 }),
+  id: z.string().openapi({ example: 'ajL8SflPjZum2GcjBq2e' }),
   title: z.string().max(255).openapi({ example: 'My Project Title' }),
-  excerpt: z.string().nullable().openapi({ example: 'A short project excerpt' }),
-  abstract: z.string().nullable().openapi({ example: 'Project abstract description' }),
-  projectScope: z.string().nullable().openapi({ example: 'Web application development' }),
+  slug: z.string().openapi({ example: 'my-project-title' }),
+  previousSlugs: z.array(z.string()).optional().openapi({ example: ['judul-lama'] }),
+  excerpt: z.string().nullish().openapi({ example: 'A short project excerpt' }),
+  abstract: z.string().nullish().openapi({ example: 'Project abstract description' }),
+  projectScope: z.string().nullish().openapi({ example: 'Web application development' }),
   isGroup: z.boolean().openapi({ example: true }),
-  projectLink: z.string().url().nullable().openapi({ example: 'https://project.example.com' }),
-  githubLink: z.string().url().nullable().openapi({ example: 'https://github.com/user/project' }),
-  documentationLink: z.string().url().nullable().openapi({ example: 'https://docs.example.com' }),
-  content: z.string().nullable().openapi({ example: 'Detailed project content...' }),
-  coverImageUrl: z.string().url().nullable().openapi({ example: 'https://example.com/project-image.jpg' }),
-  status: z.enum(['draft', 'published']).openapi({ example: 'published' }),
-  publishedAt: z.string().datetime().nullable().openapi({ example: '2025-06-06T04:11:32.056Z' }),
+  projectLink: StoredUrlSchema.openapi({ example: 'https://project.example.com' }),
+  githubLink: StoredUrlSchema.openapi({ example: 'https://github.com/user/project' }),
+  documentationLink: StoredUrlSchema.openapi({ example: 'https://docs.example.com' }),
+  content: z.string().nullish().openapi({ example: 'Detailed project content...' }),
+  coverImageUrl: StoredUrlSchema.openapi({ example: 'https://example.com/project-image.jpg' }),
+  tags: z.array(z.string()).optional().openapi({ example: ['Machine Learning'] }),
+  status: z.enum(['draft', 'scheduled', 'published']).openapi({ example: 'published' }),
+  publishedAt: z.string().datetime().nullish().openapi({ example: '2025-06-06T04:11:32.056Z' }),
   createdAt: z.string().datetime().openapi({ example: '2025-06-06T04:11:32.091Z' }),
-  updatedAt: z.string().datetime().openapi({ example: '2025-06-06T04:11:32.056Z' })
+  updatedAt: z.string().datetime().openapi({ example: '2025-06-06T04:11:32.056Z' }),
+  // Selalu null di luar /api/trash
+  deletedAt: z.string().datetime().nullish().openapi({ example: null }),
+  deletedBy: z.string().nullish().openapi({ example: null }),
+  version: z.number().int().openapi({ example: 3 })
+}).openapi('Project');
+
+// Hasil render Markdown dari field content
+export const TocEntrySchema = z.object({
+  level: z.number().int().min(1).max(6).openapi({ example: 2 }),
+  text: z.string().openapi({ example: 'Instalasi' }),
+  id: z.string().openapi({ example: 'instalasi' })
+});
+
+export const RenderedContentSchema = z.object({
+  contentHtml: z.string().openapi({ example: '<h2 id="instalasi">Instalasi</h2>\n<p>Jalankan <code>bun install</code>.</p>' }),
+  toc: z.array(TocEntrySchema),
+  wordCount: z.number().int().openapi({ example: 820 }),
+  readingTimeMinutes: z.number().int().openapi({ example: 5 })
 });
 
+export const RenderedBlogSchema = BlogSchema.merge(RenderedContentSchema);
+export const RenderedProjectSchema = ProjectSchema.merge(RenderedContentSchema);
+
+// Item daftar hanya memuat hasil render jika diminta lewat ?render=html
+export const BlogListItemSchema = BlogSchema.merge(RenderedContentSchema.partial());
+export const ProjectListItemSchema = ProjectSchema.merge(RenderedContentSchema.partial());
+
 // Input schemas
 export const CreateBlogSchema = z.object({
   title: z.string().min(1).max(255).openapi({ example: 'My Blog Post Title' }),
+  slug: SlugSchema.optional().openapi({ example: 'my-blog-post-title' }),
   excerpt: z.string().optional().openapi({ example: 'A short excerpt' }),
   content: z.string().min(1).openapi({ example: 'Full content of the blog post...' }),
   coverImageUrl: z.string().url().optional().or(z.literal('')).openapi({ example: 'https://example.com/image.jpg' }),
-  status: z.enum(['draft', 'published']).default('draft').openapi({ example: 'draft' }),
-  publishedAt: z.string().datetime().optional().or(z.null()).openapi({ example: '2025-06-06T04:11:32.056Z' })
+  tags: TagNamesSchema.optional().openapi({ example: ['TypeScript'] }),
+  status: z.enum(['draft', 'scheduled', 'published']).default('draft').openapi({ example: 'draft' }),
+  publishedAt: z.string().datetime().optional().or(z.null()).openapi({ example: '2025-06-06T04:11:32.056Z' }),
+  commentsEnabled: z.boolean().optional().openapi({ example: true })
 });
 
 export const UpdateBlogSchema = z.object({
   title: z.string().min(1).max(255).optional().openapi({ example: 'Updated Blog Title' }),
+  slug: SlugSchema.optional().openapi({ example: 'updated-blog-title' }),
   excerpt: z.string().optional().or(z.null()).openapi({ example: 'Updated excerpt' }),
   content: z.string().min(1).optional().openapi({ example: 'Updated content...' }),
   coverImageUrl: z.string().url().optional().or(z.literal('')).or(z.null()).openapi({ example: 'https://example.com/new-image.jpg' }),
-  status: z.enum(['draft', 'published']).optional().openapi({ example: 'published' }),
-  publishedAt: z.string().datetime().optional().or(z.null()).openapi({ example: '2025-06-06T04:11:32.056Z' })
+  tags: TagNamesSchema.optional().openapi({ example: ['TypeScript'] }),
+  status: z.enum(['draft', 'scheduled', 'published']).optional().openapi({ example: 'published' }),
+  publishedAt: z.string().datetime().optional().or(z.null()).openapi({ example: '2025-06-06T04:11:32.056Z' }),
+  commentsEnabled: z.boolean().optional().openapi({ example: false }),
+  // Alternatif header If-Match: update ditolak dengan 412 jika versi tersimpan sudah berbeda
+  version: z.number().int().min(0).optional().openapi({ example: 3 })
 });
 
 export const CreateProjectSchema = z.object({
   title: z.string().min(1).max(255).openapi({ example: 'My Project Title' }),
-  excerpt: z.string().optional().openapi({ example: 'A short project excerpt' }),
-  abstract: z.string().optional().openapi({ example: 'Project abstract' }),
+  slug: SlugSchema.optional().openapi({ example: 'my-project-title' }),
+  excerpt: z.string().optional().or(z.null()).openapi({ example: 'A short project excerpt' }),
+  abstract: z.string().optional().or(z.null()).openapi({ example: 'Project abstract' }),
   projectScope: z.string().optional().openapi({ example: 'Web application development' }),
   isGroup: z.boolean().default(false).openapi({ example: false }),
   projectLink: z.string().url().optional().or(z.literal('')).openapi({ example: 'https://project.example.com' }),
   githubLink: z.string().url().optional().or(z.literal('')).openapi({ example: 'https://github.com/user/project' }),
-  documentationLink: z.string().url().optional().or(z.literal('')).openapi({ example: 'https://docs.example.com' }),
+  documentationLink: z.string().url().optional().or(z.literal('')).or(z.null()).openapi({ example: 'https://docs.example.com' }),
   content: z.string().optional().openapi({ example: 'Detailed project content...' }),
   coverImageUrl: z.string().url().optional().or(z.literal('')).openapi({ example: 'https://example.com/image.jpg' }),
-  status: z.enum(['draft', 'published']).default('draft').openapi({ example: 'draft' }),
+  tags: TagNamesSchema.optional().openapi({ example: ['TypeScript'] }),
+  status: z.enum(['draft', 'scheduled', 'published']).default('draft').openapi({ example: 'draft' }),
   publishedAt: z.string().datetime().optional().or(z.null()).openapi({ example: '2025-06-06T04:11:32.056Z' })
 });
 
 export const UpdateProjectSchema = z.object({
   title: z.string().min(1).max(255).optional().openapi({ example: 'Updated Project Title' }),
+  slug: SlugSchema.optional().openapi({ example: 'updated-project-title' }),
   excerpt: z.string().optional().or(z.null()).openapi({ example: 'Updated excerpt' }),
   abstract: z.string().optional().or(z.null()).openapi({ example: 'Updated abstract' }),
   projectScope: z.string().optional().or(z.null()).openapi({ example: 'Updated scope' }),
@@ -77,8 +141,57 @@ export const UpdateProjectSchema = z.object({
   documentationLink: z.string().url().optional().or(z.literal('')).or(z.null()).openapi({ example: 'https://newdocs.example.com' }),
   content: z.string().optional().or(z.null()).openapi({ example: 'Updated content...' }),
   coverImageUrl: z.string().url().optional().or(z.literal('')).or(z.null()).openapi({ example: 'https://example.com/new-image.jpg' }),
-  status: z.enum(['draft', 'published']).optional().openapi({ example: 'published' }),
-  publishedAt: z.string().datetime().optional().or(z.null()).openapi({ example: '2025-06-06T04:11:32.056Z' })
+  tags: TagNamesSchema.optional().openapi({ example: ['TypeScript'] }),
+  status: z.enum(['draft', 'scheduled', 'published']).optional().openapi({ example: 'published' }),
+  publishedAt: z.string().datetime().optional().or(z.null()).openapi({ example: '2025-06-06T04:11:32.056Z' }),
+  // Alternatif header If-Match: update ditolak dengan 412 jika versi tersimpan sudah berbeda
+  version: z.number().int().min(0).optional().openapi({ example: 3 })
+});
+
+export const TagSchema = z.object({
+  id: z.string().openapi({ example: 'Xq3vB9kLm2TnR8pWc4Yd' }),
+  name: z.string().openapi({ example: 'Machine Learning' }),
+  slug: z.string().openapi({ example: 'machine-learning' }),
+  description: z.string().nullable().optional().openapi({ example: 'Tulisan seputar machine learning' }),
+  createdAt: z.string().datetime().openapi({ example: '2025-06-06T04:11:32.091Z' }),
+  updatedAt: z.string().datetime().openapi({ example: '2025-06-06T04:11:32.056Z' })
+}).openapi('Tag');
+
+export const TagWithUsageSchema = TagSchema.extend({
+  usage: z.object({
+    blogs: z.number().int().openapi({ example: 3 }),
+    projects: z.number().int().openapi({ example: 1 }),
+    total: z.number().int().openapi({ example: 4 })
+  })
+});
+
+export const CreateTagSchema = z.object({
+  name: z.string().trim().min(1).max(50).openapi({ example: 'Machine Learning' }),
+  description: z.string().max(500).optional().or(z.null()).openapi({ example: 'Tulisan seputar machine learning' })
+});
+
+export const UpdateTagSchema = CreateTagSchema.partial();
+
+export const ContentMetaSchema = z.object({
+  title: z.string().openapi({ example: 'Belajar Hono' }),
+  description: z.string().openapi({ example: 'Ringkasan singkat tulisan, maksimal 160 karakter' }),
+  canonicalUrl: z.string().url().openapi({ example: 'https://example.com/api/blogs/slug/belajar-hono' }),
+  image: z.string().url().nullable().openapi({ example: 'https://example.com/image.jpg' }),
+  openGraph: z.object({
+    type: z.literal('article'),
+    title: z.string(),
+    description: z.string(),
+    url: z.string().url(),
+    image: z.string().url().nullable(),
+    publishedTime: z.string().datetime().nullable(),
+    modifiedTime: z.string().datetime()
+  }),
+  twitter: z.object({
+    card: z.enum(['summary', 'summary_large_image']),
+    title: z.string(),
+    description: z.string(),
+    image: z.string().url().nullable()
+  })
 });
 
 // Response schemas
@@ -86,27 +199,49 @@ export const ApiResponseSchema = <T extends z.ZodTypeAny>(dataSchema: T) =>
   z.object({
     success: z.boolean().openapi({ example: true }),
     data: dataSchema,
-    message: z.string().optional().openapi({ example: 'Operation completed successfully' }),
+    message: z.string().optional().openapi({ example: 'Operasi berhasil' }),
     error: z.string().optional().openapi({ example: 'Error message if any' })
   });
 
+export const PaginationSchema = z.object({
+  limit: z.number().int().openapi({ example: 20 }),
+  nextCursor: z.string().nullable().openapi({ example: 'eyJpZCI6ImFqTDhTZmxQalp1bTJHY2pCcTJlIn0' }),
+  hasMore: z.boolean().openapi({ example: true })
+});
+
+export const PaginatedResponseSchema = <T extends z.ZodTypeAny>(itemSchema: T) =>
+  z.object({
+    success: z.boolean().openapi({ example: true }),
+    data: z.array(itemSchema),
+    pagination: PaginationSchema,
+    message: z.string().optional().openapi({ example: 'Berhasil mengambil 20 blog' })
+  });
+
 export const ErrorResponseSchema = z.object({
   success: z.boolean().openapi({ example: false }),
   data: z.null(),
-  error: z.string().openapi({ example: 'Error message' }),
+  // Pesan mengikuti Accept-Language (id/en); gunakan `code` untuk logika di sisi klien
+  error: z.string().openapi({ example: 'Blog dengan ID ajL8SflPjZum2GcjBq2e tidak ditemukan' }),
+  code: z.enum(ERROR_CODES).openapi({ example: 'BLOG_NOT_FOUND' }),
   details: z.array(z.object({
     field: z.string().openapi({ example: 'title' }),
     message: z.string().openapi({ example: 'Title is required' })
   })).optional()
-});
+}).openapi('ErrorResponse');
+
+// 412 pada update: data berisi dokumen versi terbaru agar klien bisa menggabungkan perubahannya
+export const VersionConflictResponseSchema = <T extends z.ZodTypeAny>(documentSchema: T) =>
+  ErrorResponseSchema.extend({ data: documentSchema });
 
 // Query schemas
 export const StatusQuerySchema = z.object({
-  status: z.enum(['draft', 'published']).optional().openapi({ example: 'published' })
+  status: z.enum(['draft', 'scheduled', 'published']).optional().openapi({ example: 'published' }),
+  tag: z.string().min(1).optional().openapi({ example: 'TypeScript' }),
+  render: z.enum(['html']).optional().openapi({ example: 'html' }),
+  limit: z.coerce.number().int().min(1).max(100).optional().openapi({ example: 20 }),
+  cursor: z.string().min(1).optional().openapi({ example: 'eyJpZCI6ImFqTDhTZmxQalp1bTJHY2pCcTJlIn0' })
 });
 
-import { z } from "zod";
-
 export const IdParamSchema = z.object({
   id: z.string().min(1).openapi({
     param: { name: 'id', in: 'path' },
@@ -114,6 +249,12 @@ export const IdParamSchema = z.object({
   }),
 });
 
+export const SlugParamSchema = z.object({
+  slug: z.string().min(1).openapi({
+    param: { name: 'slug', in: 'path' },
+    example: 'my-blog-post-title',
+  }),
+});
 
 // Upload response schema
 export const UploadResponseSchema = z.object({
@@ -0,0 +1,113 @@
+import { encodeCursor } from '../utils/cursor';
+import { createLruCache, type CacheStats, type LruCacheOptions } from '../utils/lru';
+import { VersionConflictError, type ContentRepository, type ListOptions, type Page } from './types';
+
+type CacheEntry<T> =
+  | { kind: 'item'; item: T }
+  | { kind: 'list'; options: ListOptions; page: Page<T> };
+
+export interface CachedRepository<T extends { id: string }> extends ContentRepository<T> {
+  cacheStats(): CacheStats;
+}
+
+export const isCachedRepository = <T extends { id: string }>(repository: ContentRepository<T>): repository is CachedRepository<T> =>
+  typeof (repository as Partial<CachedRepository<T>>).cacheStats === 'function';
+
+// Field yang tidak ada di data (update parsial) dianggap bisa cocok
+const mayMatch = ({ status, tag }: ListOptions, data: Record<string, any>) =>
+  (!status || !('status' in data) || data.status === status) &&
+  (!tag || !('tags' in data) || (Array.isArray(data.tags) && data.tags.includes(tag)));
+
+// Salinan dangkal agar handler tidak mengubah objek yang tersimpan di cache
+const copy = <T>(item: T): T => ({ ...item });
+
+// Cache LRU di depan list, findById dan findBySlug; semua penulisan lewat repository ini membuang entri terkait.
+// Hasil null tidak disimpan sehingga dokumen baru langsung terlihat.
+export function createCachedRepository<T extends { id: string }>(inner: ContentRepository<T>, options: LruCacheOptions = {}): CachedRepository<T> {
+  const cache = createLruCache<CacheEntry<T>>(options);
+  // Naik setiap kali ada penulisan; hasil baca yang dimulai sebelum penulisan tidak disimpan
+  let generation = 0;
+
+  const remember = async <R>(key: string, load: () => Promise<R>, toEntry: (result: R) => CacheEntry<T> | null) => {
+    const startedAt = generation;
+    const result = await load();
+    const entry = toEntry(result);
+    if (entry && startedAt === generation) {
+      cache.set(key, entry);
+    }
+    return result;
+  };
+
+  const findCachedItem = async (key: string, load: () => Promise<T | null>) => {
+    const hit = cache.get(key);
+    if (hit?.kind === 'item') return copy(hit.item);
+    return remember(key, load, (found): CacheEntry<T> | null => (found ? { kind: 'item', item: copy(found) } : null));
+  };
+
+  // Halaman list dibuang jika memuat dokumen ini, memakainya sebagai cursor, atau filternya cocok dengan isi barunya
+  const invalidate = (id: string, data: Record<string, any> | null) => {
+    generation++;
+    const cursor = encodeCursor(id);
+    cache.deleteWhere(entry => entry.kind === 'item'
+      ? entry.item.id === id
+      : entry.page.items.some(item => item.id === id) || entry.options.cursor === cursor || (data !== null && mayMatch(entry.options, data)));
+  };
+
+  const afterWrite = async <R>(write: () => Promise<R>, changes: (result: R) => Array<[string, Record<string, any> | null]>) => {
+    const result = await write();
+    for (const [id, data] of changes(result)) {
+      invalidate(id, data);
+    }
+    return result;
+  };
+
+  return {
+    ...inner,
+
+    cacheStats: () => cache.stats(),
+
+    async list(listOptions = {}) {
+      const key = `list:${JSON.stringify([listOptions.status, listOptions.tag, listOptions.limit, listOptions.cursor])}`;
+      const hit = cache.get(key);
+      if (hit?.kind === 'list') return { ...hit.page, items: hit.page.items.map(copy) };
+      return remember(key, () => inner.list(listOptions), (page): CacheEntry<T> => ({
+        kind: 'list',
+        options: { ...listOptions },
+        page: { ...page, items: page.items.map(copy) }
+      }));
+    },
+
+    findById: (id) => findCachedItem(`id:${id}`, () => inner.findById(id)),
+
+    findBySlug: (slug) => findCachedItem(`slug:${slug}`, () => inner.findBySlug(slug)),
+
+    create: (data) => afterWrite(() => inner.create(data), created => [[created.id, created]]),
+
+    async update(id, data, updateOptions) {
+      try {
+        return await afterWrite(() => inner.update(id, data, updateOptions), updated => [[id, updated]]);
+      } catch (error) {
+        // Versi di cache bisa jadi sudah usang, misalnya karena ditulis instance lain
+        if (error instanceof VersionConflictError) invalidate(id, error.current);
+        throw error;
+      }
+    },
+
+    delete: (id) => afterWrite(() => inner.delete(id), () => [[id, null]]),
+
+    softDelete: (id, softDeleteOptions) => afterWrite(() => inner.softDelete(id, softDeleteOptions), () => [[id, null]]),
+
+    restore: (id, data) => afterWrite(() => inner.restore(id, data), restored => [[id, restored]]),
+
+    bulkWrite: (writes, bulkWriteOptions) => afterWrite(() => inner.bulkWrite(writes, bulkWriteOptions), () => writes.map(write => [write.id, write.data])),
+
+    incrementCounter: (id, field, amount) => afterWrite(() => inner.incrementCounter(id, field, amount), () => [[id, null]]),
+
+    async replaceTag(from, to) {
+      const changed = await inner.replaceTag(from, to);
+      generation++;
+      cache.clear();
+      return changed;
+    }
+  };
+}
@@ -0,0 +1,630 @@
+import { FieldValue, type DocumentReference, type DocumentSnapshot, type Firestore, type Query, type QueryDocumentSnapshot, type Transaction } from 'firebase-admin/firestore';
+import type { Blog, Comment, Project, Revision, Tag, Webhook, WebhookDelivery } from '../../shared/schema';
+import { encodeCursor, decodeCursor } from '../utils/cursor';
+import { BATCH_LIMIT, DEFAULT_PAGE_LIMIT, BatchAbortedError, InvalidCursorError, VersionConflictError, checkBatchWrite, renameTagIn } from './types';
+import type { AnalyticsRepository, BlogRepository, CommentRepository, ContentRepository, DailyViews, ProjectRepository, RevisionRepository, TagRepository, WebhookDeliveryRepository, WebhookRepository } from './types';
+
+// Revisi dokumen disimpan di subkoleksi `revisions`-nya. Nomor revisi berikutnya dibaca di dalam transaksi pemanggil;
+// ID diturunkan dari nomornya, sehingga dua penulisan bersamaan membaca dokumen yang sama dan salah satunya diulang
+// oleh Firestore dengan nomor berikutnya
+async function nextRevision(transaction: Transaction, docRef: DocumentReference) {
+  const revisions = docRef.collection('revisions');
+  const latest = await transaction.get(revisions.orderBy('revision', 'desc').limit(1));
+  const revision: number = (latest.docs[0]?.get('revision') ?? 0) + 1;
+  const ref = revisions.doc(`r${String(revision).padStart(6, '0')}`);
+  await transaction.get(ref);
+  return { ref, revision };
+}
+
+export function createFirestoreRepository<T extends { id: string }>(
+  db: Firestore,
+  collectionName: string
+): ContentRepository<T> {
+  const collection = () => db.collection(collectionName);
+  // Semua dokumen ditulis dengan deletedAt: null agar filter ini bisa dipakai di query
+  const live = () => collection().where('deletedAt', '==', null);
+
+  const findById = async (id: string) => {
+    const doc = await collection().doc(id).get();
+    return doc.exists && !doc.get('deletedAt') ? ({ id: doc.id, ...doc.data() } as T) : null;
+  };
+
+  const findDeleted = async (id: string) => {
+    const doc = await collection().doc(id).get();
+    return doc.exists && doc.get('deletedAt') ? ({ id: doc.id, ...doc.data() } as T) : null;
+  };
+
+  const findFirst = async (field: string, op: '==' | 'array-contains', value: string) => {
+    const snapshot = await live().where(field, op, value).limit(1).get();
+    const doc = snapshot.docs[0];
+    return doc ? ({ id: doc.id, ...doc.data() } as T) : null;
+  };
+
+  return {
+    findById,
+
+    findDeleted,
+
+    async findManyByIds(ids, { includeDeleted = false } = {}) {
+      if (ids.length === 0) return [];
+      const docs = await db.getAll(...ids.map(id => collection().doc(id)));
+      return docs.map(doc => (doc.exists && (includeDeleted || !doc.get('deletedAt')) ? ({ id: doc.id, ...doc.data() } as T) : null));
+    },
+
+    findBySlug: (slug) => findFirst('slug', '==', slug),
+
+    findByPreviousSlug: (slug) => findFirst('previousSlugs', 'array-contains', slug),
+
+    async list(options = {}) {
+      const limit = options.limit ?? DEFAULT_PAGE_LIMIT;
+      let query: Query = live();
+      if (options.status) {
+        query = query.where('status', '==', options.status);
+      }
+      if (options.tag) {
+        query = query.where('tags', 'array-contains', options.tag);
+      }
+      query = query.orderBy('createdAt', 'desc');
+
+      if (options.cursor) {
+        const cursorId = decodeCursor(options.cursor);
+        const cursorDoc = cursorId ? await collection().doc(cursorId).get() : null;
+        if (!cursorDoc?.exists) {
+          throw new InvalidCursorError(options.cursor);
+        }
+        query = query.startAfter(cursorDoc);
+      }
+
+      // Ambil satu dokumen ekstra untuk mengetahui apakah masih ada halaman berikutnya
+      const snapshot = await query.limit(limit + 1).get();
+      const docs = snapshot.docs.slice(0, limit);
+      const hasMore = snapshot.docs.length > limit;
+      return {
+        items: docs.map(doc => ({ id: doc.id, ...doc.data() } as T)),
+        nextCursor: hasMore ? encodeCursor(docs[docs.length - 1].id) : null,
+        hasMore
+      };
+    },
+
+    async create(data) {
+      const document: Record<string, any> = { deletedAt: null, version: 1, ...data };
+      const docRef = await collection().add(document);
+      return { id: docRef.id, ...document } as T;
+    },
+
+    // Transaksi memastikan dokumen tidak berubah di antara pengecekan dan penulisan; Firestore mengulang otomatis saat bentrok
+    update(id, data, { expectedVersion, revision } = {}) {
+      const docRef = collection().doc(id);
+      return db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(docRef);
+        if (!doc.exists || doc.get('deletedAt')) {
+          return null;
+        }
+        const current = { id, ...doc.data() } as T;
+        const version: number = doc.get('version') ?? 0;
+        if (expectedVersion !== undefined && expectedVersion !== version) {
+          throw new VersionConflictError({ ...current, version });
+        }
+        const next = revision && await nextRevision(transaction, docRef);
+        const changes = { ...data, version: version + 1 };
+        transaction.update(docRef, changes);
+        if (next) {
+          transaction.create(next.ref, { ...revision, revision: next.revision });
+        }
+        return { ...current, ...changes };
+      });
+    },
+
+    newId: () => collection().doc().id,
+
+    async bulkWrite(writes, { atomic = true } = {}) {
+      const results: Array<Error | null> = [];
+      for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+        const chunk = writes.slice(i, i + BATCH_LIMIT);
+        // Transaksi, bukan WriteBatch, karena versi dokumen yang ada harus dibaca untuk set dan expectedVersion
+        const outcome = await db.runTransaction(async (transaction) => {
+          const docRefs = chunk.map(write => collection().doc(write.id));
+          const docs = await transaction.getAll(...docRefs);
+          const rejected = chunk.map((write, j) => checkBatchWrite(write, docs[j].exists ? docs[j].data()! : null));
+          if (atomic && rejected.some(Boolean)) {
+            return chunk.map((write, j) => rejected[j] ?? new BatchAbortedError(write.id));
+          }
+          // Semua pembacaan transaksi harus selesai sebelum penulisan pertama
+          const nextRevisions = [];
+          for (const [j, write] of chunk.entries()) {
+            nextRevisions.push(write.type === 'update' && write.revision && !rejected[j] ? await nextRevision(transaction, docRefs[j]) : null);
+          }
+          for (const [j, write] of chunk.entries()) {
+            if (rejected[j]) continue;
+            const version: number = docs[j].exists ? (docs[j].get('version') ?? 0) + 1 : 1;
+            if (write.type === 'create') {
+              transaction.create(docRefs[j], { deletedAt: null, ...write.data, version });
+            } else if (write.type === 'set') {
+              transaction.set(docRefs[j], { deletedAt: null, ...write.data, version });
+            } else {
+              transaction.update(docRefs[j], { ...write.data, version });
+            }
+            const next = nextRevisions[j];
+            if (next && write.type === 'update') {
+              transaction.create(next.ref, { ...write.revision, revision: next.revision });
+            }
+          }
+          return rejected;
+        }).catch((error: Error) => chunk.map(() => error));
+        // Batch yang gagal di-commit tidak menulis apa pun; batch berikutnya tetap dicoba
+        results.push(...outcome);
+      }
+      return results;
+    },
+
+    async delete(id) {
+      const docRef = collection().doc(id);
+      if (!(await docRef.get()).exists) {
+        return false;
+      }
+      await docRef.delete();
+      return true;
+    },
+
+    async softDelete(id, { deletedAt, deletedBy = null }) {
+      const docRef = collection().doc(id);
+      const doc = await docRef.get();
+      if (!doc.exists || doc.get('deletedAt')) {
+        return false;
+      }
+      await docRef.update({ deletedAt, deletedBy });
+      return true;
+    },
+
+    restore(id, data = {}) {
+      const docRef = collection().doc(id);
+      return db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(docRef);
+        if (!doc.exists || !doc.get('deletedAt')) {
+          return null;
+        }
+        const current = { id, ...doc.data() } as T;
+        const changes = { ...data, deletedAt: null, deletedBy: null, version: (doc.get('version') ?? 0) + 1 };
+        transaction.update(docRef, changes);
+        return { ...current, ...changes };
+      });
+    },
+
+    async listDeleted(options = {}) {
+      let query: Query = options.deletedBefore
+        ? collection().where('deletedAt', '<=', options.deletedBefore)
+        : collection().where('deletedAt', '!=', null);
+      query = query.orderBy('deletedAt', 'desc');
+      if (options.limit) {
+        query = query.limit(options.limit);
+      }
+      const snapshot = await query.get();
+      return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as T));
+    },
+
+    async listRecentlyPublished(limit) {
+      const snapshot = await live()
+        .where('status', '==', 'published')
+        .orderBy('publishedAt', 'desc')
+        .limit(limit)
+        .get();
+      return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as T));
+    },
+
+    async listScheduled(options = {}) {
+      let query: Query = live().where('status', '==', 'scheduled');
+      if (options.dueBefore) {
+        query = query.where('publishedAt', '<=', options.dueBefore);
+      }
+      query = query.orderBy('publishedAt', 'asc');
+      if (options.limit) {
+        query = query.limit(options.limit);
+      }
+      const snapshot = await query.get();
+      return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as T));
+    },
+
+    async countByTag(tag, options = {}) {
+      let query: Query = live().where('tags', 'array-contains', tag);
+      if (options.status) {
+        query = query.where('status', '==', options.status);
+      }
+      const snapshot = await query.count().get();
+      return snapshot.data().count;
+    },
+
+    async replaceTag(from, to) {
+      const snapshot = await collection().where('tags', 'array-contains', from).get();
+      for (let i = 0; i < snapshot.docs.length; i += BATCH_LIMIT) {
+        const batch = db.batch();
+        for (const doc of snapshot.docs.slice(i, i + BATCH_LIMIT)) {
+          batch.update(doc.ref, { tags: renameTagIn(doc.get('tags') ?? [], from, to), version: FieldValue.increment(1) });
+        }
+        await batch.commit();
+      }
+      return snapshot.size;
+    },
+
+    async incrementCounter(id, field, amount) {
+      const docRef = collection().doc(id);
+      if (!(await docRef.get()).exists) {
+        return false;
+      }
+      await docRef.update({ [field]: FieldValue.increment(amount) });
+      return true;
+    }
+  };
+}
+
+// Dokumen yang ditulis sebelum tempat sampah ada tidak punya field deletedAt sehingga tidak cocok dengan
+// filter deletedAt == null. Dijalankan saat start sebelum request dilayani; mengembalikan jumlah dokumen yang diisi
+export async function backfillDeletedAt(db: Firestore, collectionName: string): Promise<number> {
+  const snapshot = await db.collection(collectionName).select('deletedAt').get();
+  const missing = snapshot.docs.filter(doc => doc.get('deletedAt') === undefined);
+  for (let i = 0; i < missing.length; i += BATCH_LIMIT) {
+    const batch = db.batch();
+    missing.slice(i, i + BATCH_LIMIT).forEach(doc => batch.update(doc.ref, { deletedAt: null }));
+    await batch.commit();
+  }
+  return missing.length;
+}
+
+export const createFirestoreBlogRepository = (db: Firestore): BlogRepository =>
+  createFirestoreRepository<Blog>(db, 'blogs');
+
+export const createFirestoreProjectRepository = (db: Firestore): ProjectRepository =>
+  createFirestoreRepository<Project>(db, 'projects');
+
+export function createFirestoreTagRepository(db: Firestore): TagRepository {
+  const collection = () => db.collection('tags');
+
+  const findById = async (id: string) => {
+    const doc = await collection().doc(id).get();
+    return doc.exists ? ({ id: doc.id, ...doc.data() } as Tag) : null;
+  };
+
+  return {
+    findById,
+
+    async list() {
+      const snapshot = await collection().orderBy('nameLower').get();
+      return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Tag));
+    },
+
+    async findByName(name) {
+      const snapshot = await collection().where('nameLower', '==', name.toLowerCase()).limit(1).get();
+      const doc = snapshot.docs[0];
+      return doc ? ({ id: doc.id, ...doc.data() } as Tag) : null;
+    },
+
+    async create(data) {
+      const docRef = await collection().add(data);
+      return { id: docRef.id, ...data };
+    },
+
+    async update(id, data) {
+      const docRef = collection().doc(id);
+      if (!(await docRef.get()).exists) {
+        return null;
+      }
+      await docRef.update(data);
+      return findById(id);
+    },
+
+    async delete(id) {
+      const docRef = collection().doc(id);
+      if (!(await docRef.get()).exists) {
+        return false;
+      }
+      await docRef.delete();
+      return true;
+    }
+  };
+}
+
+// Revisi disimpan di subkoleksi `{collectionName}/{id}/revisions`, tempat yang sama dengan revisi yang ditulis update
+export function createFirestoreRevisionRepository(db: Firestore, collectionName: string): RevisionRepository {
+  const revisions = (documentId: string) => db.collection(collectionName).doc(documentId).collection('revisions');
+
+  const deleteDocs = async (docs: QueryDocumentSnapshot[]) => {
+    for (let i = 0; i < docs.length; i += BATCH_LIMIT) {
+      const batch = db.batch();
+      docs.slice(i, i + BATCH_LIMIT).forEach(doc => batch.delete(doc.ref));
+      await batch.commit();
+    }
+  };
+
+  return {
+    async list(documentId) {
+      const snapshot = await revisions(documentId).orderBy('revision', 'desc').get();
+      return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Revision));
+    },
+
+    async findById(documentId, revisionId) {
+      const doc = await revisions(documentId).doc(revisionId).get();
+      return doc.exists ? ({ id: doc.id, ...doc.data() } as Revision) : null;
+    },
+
+    // Nomor revisi dibaca dan ditulis dalam satu transaksi
+    create(documentId, data) {
+      return db.runTransaction(async (transaction) => {
+        const { ref, revision } = await nextRevision(transaction, db.collection(collectionName).doc(documentId));
+        transaction.create(ref, { ...data, revision });
+        return { id: ref.id, revision, ...data };
+      });
+    },
+
+    async prune(documentId, keep) {
+      const snapshot = await revisions(documentId).orderBy('revision', 'desc').offset(keep).get();
+      await deleteDocs(snapshot.docs);
+      return snapshot.size;
+    },
+
+    async deleteAll(documentId) {
+      const snapshot = await revisions(documentId).get();
+      await deleteDocs(snapshot.docs);
+    }
+  };
+}
+
+// Koleksi tingkat atas agar antrean moderasi bisa di-query lintas blog
+export function createFirestoreCommentRepository(db: Firestore): CommentRepository {
+  const collection = () => db.collection('comments');
+  const toComment = (doc: DocumentSnapshot) => ({ id: doc.id, ...doc.data() } as Comment);
+
+  return {
+    async findById(id) {
+      const doc = await collection().doc(id).get();
+      return doc.exists ? toComment(doc) : null;
+    },
+
+    async list(options = {}) {
+      const limit = options.limit ?? DEFAULT_PAGE_LIMIT;
+      let query: Query = collection();
+      if (options.blogId) {
+        query = query.where('blogId', '==', options.blogId);
+      }
+      if (options.status) {
+        query = query.where('status', '==', options.status);
+      }
+      if (options.flagged !== undefined) {
+        query = query.where('flagged', '==', options.flagged);
+      }
+      query = query.orderBy('createdAt', 'desc');
+
+      if (options.cursor) {
+        const cursorId = decodeCursor(options.cursor);
+        const cursorDoc = cursorId ? await collection().doc(cursorId).get() : null;
+        if (!cursorDoc?.exists) {
+          throw new InvalidCursorError(options.cursor);
+        }
+        query = query.startAfter(cursorDoc);
+      }
+
+      const snapshot = await query.limit(limit + 1).get();
+      const docs = snapshot.docs.slice(0, limit);
+      const hasMore = snapshot.docs.length > limit;
+      return {
+        items: docs.map(toComment),
+        nextCursor: hasMore ? encodeCursor(docs[docs.length - 1].id) : null,
+        hasMore
+      };
+    },
+
+    async listByBlog(blogId, status) {
+      const snapshot = await collection()
+        .where('blogId', '==', blogId)
+        .where('status', '==', status)
+        .orderBy('createdAt', 'asc')
+        .get();
+      return snapshot.docs.map(toComment);
+    },
+
+    async create(data) {
+      const docRef = await collection().add(data);
+      return { id: docRef.id, ...data };
+    },
+
+    // Transaksi mencegah dua moderator yang menyetujui bersamaan menghitung komentar yang sama dua kali
+    setStatus(id, data) {
+      const docRef = collection().doc(id);
+      return db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(docRef);
+        if (!doc.exists) {
+          return null;
+        }
+        transaction.update(docRef, data);
+        const previous = toComment(doc);
+        return { previous: previous.status, comment: { ...previous, ...data } };
+      });
+    },
+
+    delete(id) {
+      const docRef = collection().doc(id);
+      return db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(docRef);
+        if (!doc.exists) {
+          return [];
+        }
+        const replies = await transaction.get(collection().where('parentId', '==', id));
+        const removed = [doc, ...replies.docs];
+        removed.forEach(snapshot => transaction.delete(snapshot.ref));
+        return removed.map(toComment);
+      });
+    },
+
+    async deleteByBlog(blogId) {
+      const snapshot = await collection().where('blogId', '==', blogId).get();
+      for (let i = 0; i < snapshot.docs.length; i += BATCH_LIMIT) {
+        const batch = db.batch();
+        snapshot.docs.slice(i, i + BATCH_LIMIT).forEach(doc => batch.delete(doc.ref));
+        await batch.commit();
+      }
+      return snapshot.size;
+    }
+  };
+}
+
+// Satu dokumen per konten per hari di `analytics_daily`. Penulisan datang dari flush buffer,
+// sehingga dokumen yang ramai pun hanya ditulis sekali per interval flush
+export function createFirestoreAnalyticsRepository(db: Firestore): AnalyticsRepository {
+  const collection = () => db.collection('analytics_daily');
+
+  return {
+    async increment(increments) {
+      for (let i = 0; i < increments.length; i += BATCH_LIMIT) {
+        const batch = db.batch();
+        for (const { type, id, day, views, visitors, referrers } of increments.slice(i, i + BATCH_LIMIT)) {
+          batch.set(collection().doc(`${type}_${id}_${day}`), {
+            type,
+            contentId: id,
+            day,
+            views: FieldValue.increment(views),
+            visitors: FieldValue.increment(visitors),
+            referrers: Object.fromEntries(Object.entries(referrers).map(([domain, count]) => [domain, FieldValue.increment(count)]))
+          }, { merge: true });
+        }
+        await batch.commit();
+      }
+    },
+
+    async listDaily({ from, to, type, id }) {
+      let query: Query = collection();
+      if (type) {
+        query = query.where('type', '==', type);
+      }
+      if (id) {
+        query = query.where('contentId', '==', id);
+      }
+      const snapshot = await query.where('day', '>=', from).where('day', '<=', to).orderBy('day').get();
+      return snapshot.docs.map(doc => ({
+        type: doc.get('type'),
+        id: doc.get('contentId'),
+        day: doc.get('day'),
+        views: doc.get('views') ?? 0,
+        visitors: doc.get('visitors') ?? 0,
+        referrers: doc.get('referrers') ?? {}
+      } as DailyViews));
+    }
+  };
+}
+
+export function createFirestoreWebhookRepository(db: Firestore): WebhookRepository {
+  const collection = () => db.collection('webhooks');
+  const toWebhook = (doc: DocumentSnapshot) => ({ id: doc.id, ...doc.data() } as Webhook);
+
+  const findById = async (id: string) => {
+    const doc = await collection().doc(id).get();
+    return doc.exists ? toWebhook(doc) : null;
+  };
+
+  return {
+    async list() {
+      const snapshot = await collection().orderBy('createdAt', 'desc').get();
+      return snapshot.docs.map(toWebhook);
+    },
+
+    async listByEvent(eventType) {
+      const snapshot = await collection()
+        .where('active', '==', true)
+        .where('events', 'array-contains', eventType)
+        .get();
+      return snapshot.docs.map(toWebhook);
+    },
+
+    findById,
+
+    async create(data) {
+      const docRef = await collection().add(data);
+      return { id: docRef.id, ...data };
+    },
+
+    async update(id, changes) {
+      const docRef = collection().doc(id);
+      const doc = await docRef.get();
+      if (!doc.exists) {
+        return null;
+      }
+      await docRef.update(changes);
+      return { ...toWebhook(doc), ...changes };
+    },
+
+    async delete(id) {
+      const docRef = collection().doc(id);
+      const doc = await docRef.get();
+      if (!doc.exists) {
+        return false;
+      }
+      await docRef.delete();
+      return true;
+    }
+  };
+}
+
+export function createFirestoreWebhookDeliveryRepository(db: Firestore): WebhookDeliveryRepository {
+  const collection = () => db.collection('webhook_deliveries');
+  const toDelivery = (doc: DocumentSnapshot) => ({ id: doc.id, ...doc.data() } as WebhookDelivery);
+
+  return {
+    async create(data) {
+      const docRef = await collection().add(data);
+      return { id: docRef.id, ...data };
+    },
+
+    async findById(id) {
+      const doc = await collection().doc(id).get();
+      return doc.exists ? toDelivery(doc) : null;
+    },
+
+    async update(id, changes) {
+      const docRef = collection().doc(id);
+      const doc = await docRef.get();
+      if (!doc.exists) {
+        return null;
+      }
+      await docRef.update(changes);
+      return { ...toDelivery(doc), ...changes };
+    },
+
+    async listByWebhook(webhookId, { limit = DEFAULT_PAGE_LIMIT, cursor } = {}) {
+      let query: Query = collection().where('webhookId', '==', webhookId).orderBy('createdAt', 'desc');
+      if (cursor) {
+        const cursorId = decodeCursor(cursor);
+        const cursorDoc = cursorId ? await collection().doc(cursorId).get() : null;
+        if (!cursorDoc?.exists || cursorDoc.get('webhookId') !== webhookId) {
+          throw new InvalidCursorError(cursor);
+        }
+        query = query.startAfter(cursorDoc);
+      }
+
+      const snapshot = await query.limit(limit + 1).get();
+      const docs = snapshot.docs.slice(0, limit);
+      const hasMore = snapshot.docs.length > limit;
+      return {
+        items: docs.map(toDelivery),
+        nextCursor: hasMore ? encodeCursor(docs[docs.length - 1].id) : null,
+        hasMore
+      };
+    },
+
+    async listDue(before, limit) {
+      const snapshot = await collection()
+        .where('status', '==', 'pending')
+        .where('nextAttemptAt', '<=', before)
+        .orderBy('nextAttemptAt', 'asc')
+        .limit(limit)
+        .get();
+      return snapshot.docs.map(toDelivery);
+    },
+
+    async deleteByWebhook(webhookId) {
+      const snapshot = await collection().where('webhookId', '==', webhookId).get();
+      for (let i = 0; i < snapshot.docs.length; i += BATCH_LIMIT) {
+        const batch = db.batch();
+        snapshot.docs.slice(i, i + BATCH_LIMIT).forEach(doc => batch.delete(doc.ref));
+        await batch.commit();
+      }
+      return snapshot.size;
+    }
+  };
+}
@@ -0,0 +1,26 @@
+export type { BlogRepository, ProjectRepository, ContentRepository, TagRepository, RevisionRepository, RevisionInput, ListOptions, ScheduledListOptions, DeletedListOptions, Page, BatchWrite, BulkWriteOptions, UpdateOptions, CommentRepository, CommentListOptions, CommentTransition, AnalyticsRepository, ViewIncrement, DailyViews, WebhookRepository, WebhookDeliveryRepository } from './types';
+export { DEFAULT_PAGE_LIMIT, BATCH_LIMIT, InvalidCursorError, VersionConflictError, BatchAbortedError } from './types';
+export {
+  createFirestoreRepository,
+  createFirestoreBlogRepository,
+  createFirestoreProjectRepository,
+  createFirestoreTagRepository,
+  createFirestoreRevisionRepository,
+  createFirestoreCommentRepository,
+  createFirestoreAnalyticsRepository,
+  createFirestoreWebhookRepository,
+  createFirestoreWebhookDeliveryRepository,
+  backfillDeletedAt
+} from './firestore';
+export {
+  createMemoryRepository,
+  createMemoryBlogRepository,
+  createMemoryProjectRepository,
+  createMemoryTagRepository,
+  createMemoryRevisionRepository,
+  createMemoryCommentRepository,
+  createMemoryAnalyticsRepository,
+  createMemoryWebhookRepository,
+  createMemoryWebhookDeliveryRepository
+} from './memory';
+export { createCachedRepository, isCachedRepository, type CachedRepository } from './cached';
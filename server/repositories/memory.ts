@@ -0,0 +1,547 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import type { Blog, Comment, Project, Revision, Tag, Webhook, WebhookDelivery } from '../../shared/schema';
+import { encodeCursor, decodeCursor } from '../utils/cursor';
+import { BATCH_LIMIT, DEFAULT_PAGE_LIMIT, BatchAbortedError, InvalidCursorError, VersionConflictError, checkBatchWrite, renameTagIn } from './types';
+import type { AnalyticsRepository, BatchWrite, BlogRepository, CommentRepository, ContentRepository, DailyViews, ProjectRepository, RevisionInput, RevisionRepository, TagRepository, WebhookDeliveryRepository, WebhookRepository } from './types';
+
+const ID_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+// Meniru format auto-ID Firestore (20 karakter alfanumerik)
+export const generateId = () =>
+  Array.from({ length: 20 }, () => ID_CHARS[Math.floor(Math.random() * ID_CHARS.length)]).join('');
+
+const toMillis = (value: unknown) => (value instanceof Timestamp ? value.toMillis() : 0);
+
+type Entry = [string, Record<string, any>];
+
+// Urutan sama dengan Firestore: createdAt desc, lalu ID dokumen desc
+const compareEntries = ([idA, a]: Entry, [idB, b]: Entry) =>
+  toMillis(b.createdAt) - toMillis(a.createdAt) || idB.localeCompare(idA);
+
+const isLive = (data: Record<string, any>) => !data.deletedAt;
+
+// Implementasi in-memory untuk test dan pengembangan offline. `revisions` menyimpan revisi yang ditulis update dan
+// bulkWrite; tanpa itu penulisan yang membawa revisi ditolak
+export function createMemoryRepository<T extends { id: string }>(revisions?: RevisionRepository): ContentRepository<T> {
+  const documents = new Map<string, Record<string, any>>();
+
+  // Dicek sebelum dokumen ditulis, agar update tidak pernah tertulis tanpa revisinya
+  const revisionWriter = (documentId: string, revision: RevisionInput | undefined) => {
+    if (!revision) return null;
+    if (!revisions) {
+      throw new Error('Repository ini dibuat tanpa penyimpanan revisi');
+    }
+    return () => revisions.create(documentId, revision);
+  };
+
+  const findById = async (id: string) => {
+    const data = documents.get(id);
+    return data && isLive(data) ? ({ id, ...data } as T) : null;
+  };
+
+  const findDeleted = async (id: string) => {
+    const data = documents.get(id);
+    return data && !isLive(data) ? ({ id, ...data } as T) : null;
+  };
+
+  const findFirst = async (predicate: (data: Record<string, any>) => boolean) => {
+    const entry = [...documents.entries()].find(([, data]) => isLive(data) && predicate(data));
+    return entry ? ({ id: entry[0], ...entry[1] } as T) : null;
+  };
+
+  const liveEntries = () => [...documents.entries()].filter(([, data]) => isLive(data));
+
+  // Meniru transaksi bulkWrite Firestore: semua penulisan dicek dulu, lalu yang lolos diterapkan.
+  // Dalam mode atomic satu penolakan membatalkan seluruh batch
+  const commitBatch = async (writes: BatchWrite[], atomic: boolean) => {
+    const writeRevisions = writes.map(write => (write.type === 'update' ? revisionWriter(write.id, write.revision) : null));
+    const created = new Set<string>();
+    const rejected = writes.map(write => {
+      const current = documents.get(write.id) ?? (created.has(write.id) ? {} : null);
+      const error = checkBatchWrite(write, current);
+      if (!error && write.type !== 'update') created.add(write.id);
+      return error;
+    });
+    if (atomic && rejected.some(Boolean)) {
+      return writes.map((write, i) => rejected[i] ?? new BatchAbortedError(write.id));
+    }
+    // Revisi ditulis lebih dulu, sehingga batch yang revisinya gagal tidak mengubah dokumen apa pun
+    await Promise.all(writeRevisions.map((writeRevision, i) => (rejected[i] ? null : writeRevision?.())));
+    for (const [i, write] of writes.entries()) {
+      if (rejected[i]) continue;
+      const existing = documents.get(write.id);
+      // Dokumen yang ditimpa set melanjutkan versinya agar ETag lama tidak berlaku lagi
+      const version = existing ? (existing.version ?? 0) + 1 : 1;
+      documents.set(write.id, write.type === 'update'
+        ? { ...existing, ...write.data, version }
+        : { deletedAt: null, ...write.data, version });
+    }
+    return rejected;
+  };
+
+  return {
+    findById,
+
+    findDeleted,
+
+    async findManyByIds(ids, { includeDeleted = false } = {}) {
+      return ids.map(id => {
+        const data = documents.get(id);
+        return data && (includeDeleted || isLive(data)) ? ({ id, ...data } as T) : null;
+      });
+    },
+
+    findBySlug: (slug) => findFirst(data => data.slug === slug),
+
+    findByPreviousSlug: (slug) => findFirst(data => Array.isArray(data.previousSlugs) && data.previousSlugs.includes(slug)),
+
+    async list(options = {}) {
+      const limit = options.limit ?? DEFAULT_PAGE_LIMIT;
+      const ordered = liveEntries()
+        .filter(([, data]) => !options.status || data.status === options.status)
+        .filter(([, data]) => !options.tag || (data.tags ?? []).includes(options.tag))
+        .sort(compareEntries);
+
+      let start = 0;
+      if (options.cursor) {
+        const cursorId = decodeCursor(options.cursor);
+        const cursorData = cursorId ? documents.get(cursorId) : undefined;
+        if (!cursorId || !cursorData) {
+          throw new InvalidCursorError(options.cursor);
+        }
+        const index = ordered.findIndex(entry => compareEntries(entry, [cursorId, cursorData]) > 0);
+        start = index === -1 ? ordered.length : index;
+      }
+
+      const page = ordered.slice(start, start + limit);
+      const hasMore = ordered.length > start + limit;
+      return {
+        items: page.map(([id, data]) => ({ id, ...data } as T)),
+        nextCursor: hasMore ? encodeCursor(page[page.length - 1][0]) : null,
+        hasMore
+      };
+    },
+
+    async create(data) {
+      const id = generateId();
+      const document: Record<string, any> = { deletedAt: null, version: 1, ...data };
+      documents.set(id, document);
+      return { id, ...document } as T;
+    },
+
+    async update(id, data, { expectedVersion, revision } = {}) {
+      const writeRevision = revisionWriter(id, revision);
+      const existing = documents.get(id);
+      if (!existing || !isLive(existing)) {
+        return null;
+      }
+      const version = existing.version ?? 0;
+      if (expectedVersion !== undefined && expectedVersion !== version) {
+        throw new VersionConflictError({ id, ...existing, version });
+      }
+      // Revisi ditulis lebih dulu, sehingga update yang revisinya gagal tidak mengubah dokumen
+      await writeRevision?.();
+      documents.set(id, { ...existing, ...data, version: version + 1 });
+      return findById(id);
+    },
+
+    newId: generateId,
+
+    async bulkWrite(writes, { atomic = true } = {}) {
+      const results: Array<Error | null> = [];
+      for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+        results.push(...await commitBatch(writes.slice(i, i + BATCH_LIMIT), atomic));
+      }
+      return results;
+    },
+
+    async delete(id) {
+      return documents.delete(id);
+    },
+
+    async softDelete(id, { deletedAt, deletedBy = null }) {
+      const existing = documents.get(id);
+      if (!existing || !isLive(existing)) {
+        return false;
+      }
+      documents.set(id, { ...existing, deletedAt, deletedBy });
+      return true;
+    },
+
+    async restore(id, data = {}) {
+      const existing = documents.get(id);
+      if (!existing || isLive(existing)) {
+        return null;
+      }
+      documents.set(id, { ...existing, ...data, deletedAt: null, deletedBy: null, version: (existing.version ?? 0) + 1 });
+      return findById(id);
+    },
+
+    async listDeleted(options = {}) {
+      const deleted = [...documents.entries()]
+        .filter(([, data]) => !isLive(data))
+        .filter(([, data]) => !options.deletedBefore || toMillis(data.deletedAt) <= options.deletedBefore.toMillis())
+        .sort(([, a], [, b]) => toMillis(b.deletedAt) - toMillis(a.deletedAt))
+        .map(([id, data]) => ({ id, ...data } as T));
+      return options.limit ? deleted.slice(0, options.limit) : deleted;
+    },
+
+    async listRecentlyPublished(limit) {
+      return liveEntries()
+        .filter(([, data]) => data.status === 'published')
+        .sort(([idA, a], [idB, b]) => toMillis(b.publishedAt) - toMillis(a.publishedAt) || idB.localeCompare(idA))
+        .slice(0, limit)
+        .map(([id, data]) => ({ id, ...data } as T));
+    },
+
+    async listScheduled(options = {}) {
+      const scheduled = liveEntries()
+        .filter(([, data]) => data.status === 'scheduled' && data.publishedAt)
+        .filter(([, data]) => !options.dueBefore || toMillis(data.publishedAt) <= options.dueBefore.toMillis())
+        .sort(([, a], [, b]) => toMillis(a.publishedAt) - toMillis(b.publishedAt))
+        .map(([id, data]) => ({ id, ...data } as T));
+      return options.limit ? scheduled.slice(0, options.limit) : scheduled;
+    },
+
+    async countByTag(tag, options = {}) {
+      return liveEntries()
+        .map(([, data]) => data)
+        .filter(data => (data.tags ?? []).includes(tag))
+        .filter(data => !options.status || data.status === options.status)
+        .length;
+    },
+
+    async replaceTag(from, to) {
+      let changed = 0;
+      for (const [id, data] of documents) {
+        if ((data.tags ?? []).includes(from)) {
+          documents.set(id, { ...data, tags: renameTagIn(data.tags, from, to), version: (data.version ?? 0) + 1 });
+          changed++;
+        }
+      }
+      return changed;
+    },
+
+    async incrementCounter(id, field, amount) {
+      const existing = documents.get(id);
+      if (!existing) {
+        return false;
+      }
+      documents.set(id, { ...existing, [field]: (existing[field] ?? 0) + amount });
+      return true;
+    }
+  };
+}
+
+export const createMemoryBlogRepository = (revisions?: RevisionRepository): BlogRepository => createMemoryRepository<Blog>(revisions);
+
+export const createMemoryProjectRepository = (revisions?: RevisionRepository): ProjectRepository => createMemoryRepository<Project>(revisions);
+
+export function createMemoryTagRepository(): TagRepository {
+  const tags = new Map<string, Omit<Tag, 'id'>>();
+
+  const findById = async (id: string) => {
+    const data = tags.get(id);
+    return data ? { id, ...data } : null;
+  };
+
+  return {
+    findById,
+
+    async list() {
+      return [...tags.entries()]
+        .map(([id, data]) => ({ id, ...data }))
+        .sort((a, b) => a.nameLower.localeCompare(b.nameLower));
+    },
+
+    async findByName(name) {
+      const entry = [...tags.entries()].find(([, data]) => data.nameLower === name.toLowerCase());
+      return entry ? { id: entry[0], ...entry[1] } : null;
+    },
+
+    async create(data) {
+      const id = generateId();
+      tags.set(id, { ...data });
+      return { id, ...data };
+    },
+
+    async update(id, data) {
+      const existing = tags.get(id);
+      if (!existing) {
+        return null;
+      }
+      tags.set(id, { ...existing, ...data });
+      return findById(id);
+    },
+
+    async delete(id) {
+      return tags.delete(id);
+    }
+  };
+}
+
+export function createMemoryRevisionRepository(): RevisionRepository {
+  const revisions = new Map<string, Revision[]>();
+
+  // Disimpan urut dari revisi terbaru
+  const listOf = (documentId: string) => revisions.get(documentId) ?? [];
+
+  return {
+    async list(documentId) {
+      return [...listOf(documentId)];
+    },
+
+    async findById(documentId, revisionId) {
+      return listOf(documentId).find(revision => revision.id === revisionId) ?? null;
+    },
+
+    async create(documentId, data) {
+      const existing = listOf(documentId);
+      const created = { id: generateId(), revision: (existing[0]?.revision ?? 0) + 1, ...data };
+      revisions.set(documentId, [created, ...existing]);
+      return created;
+    },
+
+    async prune(documentId, keep) {
+      const existing = listOf(documentId);
+      revisions.set(documentId, existing.slice(0, keep));
+      return Math.max(0, existing.length - keep);
+    },
+
+    async deleteAll(documentId) {
+      revisions.delete(documentId);
+    }
+  };
+}
+
+export function createMemoryCommentRepository(): CommentRepository {
+  const comments = new Map<string, Omit<Comment, 'id'>>();
+  // Urutan penyimpanan, pemecah seri untuk komentar dengan createdAt yang sama
+  const sequence = new Map<string, number>();
+  let nextSequence = 0;
+
+  const findById = async (id: string) => {
+    const data = comments.get(id);
+    return data ? { id, ...data } : null;
+  };
+
+  const entries = () => [...comments.entries()];
+
+  return {
+    findById,
+
+    async list(options = {}) {
+      const limit = options.limit ?? DEFAULT_PAGE_LIMIT;
+      const ordered = entries()
+        .filter(([, data]) => !options.blogId || data.blogId === options.blogId)
+        .filter(([, data]) => !options.status || data.status === options.status)
+        .filter(([, data]) => options.flagged === undefined || data.flagged === options.flagged)
+        .sort(compareEntries);
+
+      let start = 0;
+      if (options.cursor) {
+        const cursorId = decodeCursor(options.cursor);
+        const cursorData = cursorId ? comments.get(cursorId) : undefined;
+        if (!cursorId || !cursorData) {
+          throw new InvalidCursorError(options.cursor);
+        }
+        const index = ordered.findIndex(entry => compareEntries(entry, [cursorId, cursorData]) > 0);
+        start = index === -1 ? ordered.length : index;
+      }
+
+      const page = ordered.slice(start, start + limit);
+      const hasMore = ordered.length > start + limit;
+      return {
+        items: page.map(([id, data]) => ({ id, ...data })),
+        nextCursor: hasMore ? encodeCursor(page[page.length - 1][0]) : null,
+        hasMore
+      };
+    },
+
+    async listByBlog(blogId, status) {
+      return entries()
+        .filter(([, data]) => data.blogId === blogId && data.status === status)
+        .sort(([idA, a], [idB, b]) => toMillis(a.createdAt) - toMillis(b.createdAt) || sequence.get(idA)! - sequence.get(idB)!)
+        .map(([id, data]) => ({ id, ...data }));
+    },
+
+    async create(data) {
+      const id = generateId();
+      comments.set(id, { ...data });
+      sequence.set(id, nextSequence++);
+      return { id, ...data };
+    },
+
+    async setStatus(id, data) {
+      const existing = comments.get(id);
+      if (!existing) {
+        return null;
+      }
+      comments.set(id, { ...existing, ...data });
+      return { previous: existing.status, comment: { id, ...existing, ...data } };
+    },
+
+    async delete(id) {
+      const existing = comments.get(id);
+      if (!existing) {
+        return [];
+      }
+      const removed = entries()
+        .filter(([candidate, data]) => candidate === id || data.parentId === id)
+        .map(([candidate, data]) => ({ id: candidate, ...data }));
+      removed.forEach(comment => {
+        comments.delete(comment.id);
+        sequence.delete(comment.id);
+      });
+      return removed;
+    },
+
+    async deleteByBlog(blogId) {
+      const removed = entries().filter(([, data]) => data.blogId === blogId);
+      removed.forEach(([id]) => {
+        comments.delete(id);
+        sequence.delete(id);
+      });
+      return removed.length;
+    }
+  };
+}
+
+export function createMemoryAnalyticsRepository(): AnalyticsRepository {
+  const days = new Map<string, DailyViews>();
+
+  return {
+    async increment(increments) {
+      for (const { type, id, day, views, visitors, referrers } of increments) {
+        const key = `${type}_${id}_${day}`;
+        const existing = days.get(key) ?? { type, id, day, views: 0, visitors: 0, referrers: {} };
+        const merged = { ...existing.referrers };
+        for (const [domain, count] of Object.entries(referrers)) {
+          merged[domain] = (merged[domain] ?? 0) + count;
+        }
+        days.set(key, { ...existing, views: existing.views + views, visitors: existing.visitors + visitors, referrers: merged });
+      }
+    },
+
+    async listDaily({ from, to, type, id }) {
+      return [...days.values()]
+        .filter(entry => entry.day >= from && entry.day <= to)
+        .filter(entry => (!type || entry.type === type) && (!id || entry.id === id))
+        .sort((a, b) => a.day.localeCompare(b.day))
+        .map(entry => ({ ...entry, referrers: { ...entry.referrers } }));
+    }
+  };
+}
+
+export function createMemoryWebhookRepository(): WebhookRepository {
+  const webhooks = new Map<string, Omit<Webhook, 'id'>>();
+
+  const findById = async (id: string) => {
+    const data = webhooks.get(id);
+    return data ? { id, ...data, events: [...data.events] } : null;
+  };
+
+  const sorted = () => [...webhooks.entries()]
+    .sort(compareEntries)
+    .map(([id, data]) => ({ id, ...data, events: [...data.events] }));
+
+  return {
+    async list() {
+      return sorted();
+    },
+
+    async listByEvent(eventType) {
+      return sorted().filter(webhook => webhook.active && webhook.events.includes(eventType));
+    },
+
+    findById,
+
+    async create(data) {
+      const id = generateId();
+      webhooks.set(id, { ...data });
+      return { id, ...data };
+    },
+
+    async update(id, changes) {
+      const existing = webhooks.get(id);
+      if (!existing) {
+        return null;
+      }
+      webhooks.set(id, { ...existing, ...changes });
+      return findById(id);
+    },
+
+    async delete(id) {
+      return webhooks.delete(id);
+    }
+  };
+}
+
+export function createMemoryWebhookDeliveryRepository(): WebhookDeliveryRepository {
+  const deliveries = new Map<string, Omit<WebhookDelivery, 'id'>>();
+
+  const findById = async (id: string) => {
+    const data = deliveries.get(id);
+    return data ? { id, ...data } : null;
+  };
+
+  return {
+    async create(data) {
+      const id = generateId();
+      deliveries.set(id, { ...data });
+      return { id, ...data };
+    },
+
+    findById,
+
+    async update(id, changes) {
+      const existing = deliveries.get(id);
+      if (!existing) {
+        return null;
+      }
+      deliveries.set(id, { ...existing, ...changes });
+      return findById(id);
+    },
+
+    async listByWebhook(webhookId, { limit = DEFAULT_PAGE_LIMIT, cursor } = {}) {
+      const ordered = [...deliveries.entries()]
+        .filter(([, data]) => data.webhookId === webhookId)
+        .sort(compareEntries);
+
+      let start = 0;
+      if (cursor) {
+        const cursorId = decodeCursor(cursor);
+        const cursorData = cursorId ? deliveries.get(cursorId) : undefined;
+        if (!cursorId || !cursorData || cursorData.webhookId !== webhookId) {
+          throw new InvalidCursorError(cursor);
+        }
+        const index = ordered.findIndex(entry => compareEntries(entry, [cursorId, cursorData]) > 0);
+        start = index === -1 ? ordered.length : index;
+      }
+
+      const page = ordered.slice(start, start + limit);
+      const hasMore = ordered.length > start + limit;
+      return {
+        items: page.map(([id, data]) => ({ id, ...data })),
+        nextCursor: hasMore ? encodeCursor(page[page.length - 1][0]) : null,
+        hasMore
+      };
+    },
+
+    async listDue(before, limit) {
+      return [...deliveries.entries()]
+        .filter(([, data]) => data.status === 'pending' && data.nextAttemptAt && data.nextAttemptAt.toMillis() <= before.toMillis())
+        .sort(([, a], [, b]) => a.nextAttemptAt!.toMillis() - b.nextAttemptAt!.toMillis())
+        .slice(0, limit)
+        .map(([id, data]) => ({ id, ...data }));
+    },
+
+    async deleteByWebhook(webhookId) {
+      let deleted = 0;
+      for (const [id, data] of deliveries) {
+        if (data.webhookId === webhookId && deliveries.delete(id)) deleted++;
+      }
+      return deleted;
+    }
+  };
+}
@@ -0,0 +1,246 @@
+import type { Timestamp } from 'firebase-admin/firestore';
+import type { Blog, Comment, CommentStatus, Project, Revision, Tag, Webhook, WebhookDelivery } from '../../shared/schema';
+import type { Status } from '../types';
+import type { ContentType } from '../utils/urls';
+
+export const DEFAULT_PAGE_LIMIT = 20;
+
+// Batas jumlah operasi dalam satu WriteBatch Firestore
+export const BATCH_LIMIT = 500;
+
+export interface ListOptions {
+  status?: Status;
+  tag?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface ScheduledListOptions {
+  // Hanya item yang publishedAt-nya <= waktu ini
+  dueBefore?: Timestamp;
+  limit?: number;
+}
+
+export interface DeletedListOptions {
+  // Hanya item yang deletedAt-nya <= waktu ini, dipakai saat purge
+  deletedBefore?: Timestamp;
+  limit?: number;
+}
+
+// Satu penulisan dalam bulkWrite; soft delete ditulis sebagai update deletedAt,
+// sedangkan set menimpa seluruh isi dokumen (dipakai saat impor).
+// Update dengan expectedVersion gagal jika versi dokumen sudah berbeda saat batch ditulis,
+// revision ditulis dalam batch yang sama dengan update-nya
+export type BatchWrite =
+  | { type: 'create'; id: string; data: Record<string, any> }
+  | { type: 'update'; id: string; data: Record<string, any>; expectedVersion?: number; revision?: RevisionInput }
+  | { type: 'set'; id: string; data: Record<string, any> };
+
+// Revisi sebelum ditulis; ID dan nomornya diberikan oleh repository
+export type RevisionInput = Omit<Revision, 'id' | 'revision'>;
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+// Dilempar saat cursor tidak bisa di-decode atau dokumennya sudah tidak ada
+export class InvalidCursorError extends Error {
+  constructor(cursor: string) {
+    super(`Cursor tidak valid: ${cursor}`);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+// Dilempar update() saat versi dokumen tidak sama dengan expectedVersion; membawa isi dokumen saat ini
+export class VersionConflictError<T = Record<string, any>> extends Error {
+  constructor(readonly current: T & { id: string; version?: number }) {
+    super(`Versi dokumen ${current.id} sudah berubah menjadi ${current.version ?? 0}`);
+    this.name = 'VersionConflictError';
+  }
+}
+
+// Hasil bulkWrite untuk penulisan yang tidak ikut ditulis karena penulisan lain di batch atomik yang sama gagal
+export class BatchAbortedError extends Error {
+  constructor(id: string) {
+    super(`Penulisan ${id} dibatalkan karena penulisan lain di batch yang sama gagal`);
+    this.name = 'BatchAbortedError';
+  }
+}
+
+// Syarat satu penulisan bulkWrite terhadap isi dokumen saat ini (null jika tidak ada); mengembalikan alasan
+// penolakannya atau null jika boleh ditulis
+export function checkBatchWrite(write: BatchWrite, current: Record<string, any> | null): Error | null {
+  if (write.type === 'create' && current) {
+    return new Error(`Dokumen ${write.id} sudah ada`);
+  }
+  if (write.type === 'update') {
+    if (!current) {
+      return new Error(`Dokumen ${write.id} tidak ditemukan`);
+    }
+    const version: number = current.version ?? 0;
+    if (write.expectedVersion !== undefined && write.expectedVersion !== version) {
+      return new VersionConflictError({ ...current, id: write.id, version });
+    }
+  }
+  return null;
+}
+
+export interface BulkWriteOptions {
+  // true (bawaan): satu penulisan yang ditolak membatalkan seluruh batch-nya.
+  // false: penulisan yang ditolak dilewati dan sisanya tetap ditulis
+  atomic?: boolean;
+}
+
+export interface UpdateOptions {
+  // Versi yang dibaca pemanggil; jika berbeda dengan versi tersimpan, update dibatalkan dengan VersionConflictError
+  expectedVersion?: number;
+  // Isi dokumen sebelum update, disimpan sebagai revisi berikutnya dalam transaksi yang sama dengan update-nya
+  revision?: RevisionInput;
+}
+
+// Operasi penyimpanan yang dibutuhkan oleh router konten.
+// Setiap dokumen punya `version` yang dimulai dari 1 dan naik satu pada setiap update, restore, replaceTag dan penulisan
+// bulkWrite; set yang menimpa dokumen yang sudah ada melanjutkan versinya. Counter tidak mengubah version.
+// Dokumen di tempat sampah (deletedAt terisi) hanya terlihat lewat findDeleted dan listDeleted.
+export interface ContentRepository<T extends { id: string }> {
+  list(options?: ListOptions): Promise<Page<T>>;
+  findById(id: string): Promise<T | null>;
+  // Hasil mengikuti urutan `ids`, null untuk dokumen yang tidak ada atau (tanpa includeDeleted) di tempat sampah
+  findManyByIds(ids: string[], options?: { includeDeleted?: boolean }): Promise<Array<T | null>>;
+  findBySlug(slug: string): Promise<T | null>;
+  // Mencari dokumen yang pernah memakai slug ini sebelum judulnya berubah
+  findByPreviousSlug(slug: string): Promise<T | null>;
+  create(data: Record<string, any>): Promise<T>;
+  // ID untuk dokumen yang dibuat lewat bulkWrite
+  newId(): string;
+  // Ditulis per batch berisi paling banyak BATCH_LIMIT penulisan: create ditolak jika ID sudah ada, update
+  // ditolak jika dokumen tidak ada atau versinya bukan expectedVersion, set selalu boleh (lihat checkBatchWrite).
+  // Mengembalikan null per penulisan yang tertulis, atau erornya: alasan penolakan, BatchAbortedError untuk
+  // penulisan yang ikut batal di batch atomik, atau eror commit untuk semua penulisan di batch itu
+  bulkWrite(writes: BatchWrite[], options?: BulkWriteOptions): Promise<Array<Error | null>>;
+  // Pengecekan keberadaan, pengecekan versi, penulisan dan revisinya berjalan atomik.
+  // Mengembalikan null jika dokumen tidak ditemukan
+  update(id: string, data: Record<string, any>, options?: UpdateOptions): Promise<T | null>;
+  // Menghapus permanen, termasuk dokumen di tempat sampah. Mengembalikan false jika tidak ditemukan
+  delete(id: string): Promise<boolean>;
+  // Memindahkan ke tempat sampah, mengembalikan false jika tidak ditemukan atau sudah terhapus
+  softDelete(id: string, options: { deletedAt: Timestamp; deletedBy?: string | null }): Promise<boolean>;
+  // Mengeluarkan dari tempat sampah sekaligus menulis `data` (mis. slug baru) dalam satu penulisan dan menaikkan
+  // version. Mengembalikan null jika dokumen tidak ada di sana
+  restore(id: string, data?: Record<string, any>): Promise<T | null>;
+  findDeleted(id: string): Promise<T | null>;
+  // Diurutkan dari deletedAt terbaru
+  listDeleted(options?: DeletedListOptions): Promise<T[]>;
+  // Item yang sudah terbit, diurutkan dari publishedAt terbaru
+  listRecentlyPublished(limit: number): Promise<T[]>;
+  // Item berstatus 'scheduled', diurutkan dari publishedAt paling awal
+  listScheduled(options?: ScheduledListOptions): Promise<T[]>;
+  countByTag(tag: string, options?: { status?: Status }): Promise<number>;
+  // Mengganti (atau menghapus jika `to` null) tag di semua dokumen, mengembalikan jumlah dokumen yang berubah
+  replaceTag(from: string, to: string | null): Promise<number>;
+  // Menambah field angka secara atomik (mis. commentCount), juga untuk dokumen di tempat sampah.
+  // version dan updatedAt tidak berubah, sehingga If-Match editor tetap berlaku. Mengembalikan false jika dokumen tidak ada
+  incrementCounter(id: string, field: string, amount: number): Promise<boolean>;
+}
+
+export type BlogRepository = ContentRepository<Blog>;
+export type ProjectRepository = ContentRepository<Project>;
+
+export interface TagRepository {
+  list(): Promise<Tag[]>;
+  findById(id: string): Promise<Tag | null>;
+  // Pencarian nama tidak membedakan huruf besar/kecil
+  findByName(name: string): Promise<Tag | null>;
+  create(data: Omit<Tag, 'id'>): Promise<Tag>;
+  update(id: string, data: Partial<Omit<Tag, 'id'>>): Promise<Tag | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface RevisionRepository {
+  // Revisi terbaru lebih dulu
+  list(documentId: string): Promise<Revision[]>;
+  findById(documentId: string, revisionId: string): Promise<Revision | null>;
+  // Nomor revisi diberikan berurutan per dokumen
+  create(documentId: string, data: RevisionInput): Promise<Revision>;
+  // Menghapus revisi tertua hingga tersisa `keep`, mengembalikan jumlah yang dihapus
+  prune(documentId: string, keep: number): Promise<number>;
+  deleteAll(documentId: string): Promise<void>;
+}
+
+export interface CommentListOptions {
+  blogId?: string;
+  status?: CommentStatus;
+  flagged?: boolean;
+  limit?: number;
+  cursor?: string;
+}
+
+// Hasil moderasi beserta status sebelumnya, dipakai untuk menyesuaikan commentCount
+export interface CommentTransition {
+  previous: CommentStatus;
+  comment: Comment;
+}
+
+export interface CommentRepository {
+  // Terbaru lebih dulu, dipakai antrean moderasi
+  list(options?: CommentListOptions): Promise<Page<Comment>>;
+  // Semua komentar satu blog dengan status tertentu, terlama lebih dulu
+  listByBlog(blogId: string, status: CommentStatus): Promise<Comment[]>;
+  findById(id: string): Promise<Comment | null>;
+  create(data: Omit<Comment, 'id'>): Promise<Comment>;
+  // Status lama dibaca dan status baru ditulis atomik. Mengembalikan null jika komentar tidak ada
+  setStatus(id: string, data: Pick<Comment, 'status' | 'moderatedBy' | 'moderatedAt'>): Promise<CommentTransition | null>;
+  // Menghapus komentar beserta balasannya, mengembalikan semua yang terhapus (kosong jika tidak ada)
+  delete(id: string): Promise<Comment[]>;
+  // Dipakai saat blog dihapus permanen, mengembalikan jumlah yang dihapus
+  deleteByBlog(blogId: string): Promise<number>;
+}
+
+// Hasil agregasi buffer untuk satu dokumen pada satu hari (UTC, YYYY-MM-DD)
+export interface ViewIncrement {
+  type: ContentType;
+  id: string;
+  day: string;
+  views: number;
+  visitors: number;
+  // Jumlah tampilan per domain perujuk
+  referrers: Record<string, number>;
+}
+
+export type DailyViews = ViewIncrement;
+
+export interface AnalyticsRepository {
+  // Menambahkan hasil satu flush; counter yang belum ada dimulai dari 0
+  increment(increments: ViewIncrement[]): Promise<void>;
+  // Rentang hari inklusif; hari tanpa tampilan tidak dikembalikan
+  listDaily(options: { from: string; to: string; type?: ContentType; id?: string }): Promise<DailyViews[]>;
+}
+
+export interface WebhookRepository {
+  // Terbaru lebih dulu; jumlah webhook diharapkan sedikit sehingga tanpa paginasi
+  list(): Promise<Webhook[]>;
+  // Webhook aktif yang berlangganan jenis event ini
+  listByEvent(eventType: string): Promise<Webhook[]>;
+  findById(id: string): Promise<Webhook | null>;
+  create(data: Omit<Webhook, 'id'>): Promise<Webhook>;
+  update(id: string, changes: Partial<Omit<Webhook, 'id'>>): Promise<Webhook | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface WebhookDeliveryRepository {
+  create(data: Omit<WebhookDelivery, 'id'>): Promise<WebhookDelivery>;
+  findById(id: string): Promise<WebhookDelivery | null>;
+  update(id: string, changes: Partial<Omit<WebhookDelivery, 'id'>>): Promise<WebhookDelivery | null>;
+  // Log pengiriman satu webhook, terbaru lebih dulu
+  listByWebhook(webhookId: string, options?: { limit?: number; cursor?: string }): Promise<Page<WebhookDelivery>>;
+  // Pengiriman pending yang jadwal percobaannya sudah lewat, terlama lebih dulu
+  listDue(before: Timestamp, limit: number): Promise<WebhookDelivery[]>;
+  // Dipakai saat webhook dihapus, mengembalikan jumlah yang dihapus
+  deleteByWebhook(webhookId: string): Promise<number>;
+}
+
+// Tag pada dokumen diganti namanya: nama lama diganti, duplikat dibuang
+export const renameTagIn = (tags: string[], from: string, to: string | null) =>
+  [...new Set(tags.flatMap(tag => (tag === from ? (to ? [to] : []) : [tag])))];
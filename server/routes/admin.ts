@@ -0,0 +1,157 @@
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
+import { stream } from 'hono/streaming';
+import { apiError, defaultHook, localeOf } from '../errors';
+import { authenticate, requireRole } from '../middleware/auth';
+import { exportRecords, importRecords, type BackupDependencies } from '../services/backup';
+import { isCachedRepository } from '../repositories';
+import type { CacheStats } from '../utils/lru';
+import type { AppEnv } from '../types';
+import { ApiResponseSchema, ErrorResponseSchema } from '../openapi';
+
+const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+
+const ImportQuerySchema = z.object({
+  // Hanya memvalidasi dan melaporkan hasilnya tanpa menulis apa pun
+  dryRun: z.enum(['true', 'false']).optional().openapi({ example: 'true' }),
+  // skip: ID yang sudah ada dilewati, overwrite: ditimpa, new-id: disimpan sebagai dokumen baru
+  onConflict: z.enum(['skip', 'overwrite', 'new-id']).default('skip').openapi({ example: 'skip' })
+});
+
+const ImportActionSchema = z.enum(['created', 'overwritten', 'skipped', 'failed']);
+
+const ImportReportSchema = z.object({
+  dryRun: z.boolean().openapi({ example: true }),
+  onConflict: ImportQuerySchema.shape.onConflict,
+  summary: z.object({
+    total: z.number().int().openapi({ example: 3 }),
+    created: z.number().int().openapi({ example: 1 }),
+    overwritten: z.number().int().openapi({ example: 0 }),
+    skipped: z.number().int().openapi({ example: 1 }),
+    failed: z.number().int().openapi({ example: 1 })
+  }),
+  results: z.array(z.object({
+    line: z.number().int().openapi({ example: 1 }),
+    type: z.string().nullable().openapi({ example: 'blog' }),
+    id: z.string().nullable().openapi({ example: 'ajL8SflPjZum2GcjBq2e' }),
+    action: ImportActionSchema.openapi({ example: 'created' }),
+    newId: z.string().optional().openapi({ example: 'Hd5sK9wPq2LmZ7xBn1Rt' }),
+    error: z.string().optional().openapi({ example: 'Validasi gagal' }),
+    code: ErrorResponseSchema.shape.code.optional(),
+    details: ErrorResponseSchema.shape.details
+  }))
+});
+
+// --- GET /api/admin/export
+const exportRoute = createRoute({
+  method: 'get',
+  path: '/export',
+  security: [{ bearerAuth: [] }],
+  responses: {
+    200: {
+      description: 'Satu record JSON per baris: {"type":"blog"|"project"|"upload","data":{...}}',
+      content: { [NDJSON_CONTENT_TYPE]: { schema: z.string() } }
+    },
+    401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+    403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' }
+  },
+  tags: ['Admin']
+});
+
+// --- POST /api/admin/import
+const importRoute = createRoute({
+  method: 'post',
+  path: '/import',
+  request: {
+    query: ImportQuerySchema,
+    body: { content: { [NDJSON_CONTENT_TYPE]: { schema: z.string() } } }
+  },
+  middleware: requireRole('admin'),
+  security: [{ bearerAuth: [] }],
+  responses: {
+    200: {
+      description: 'Hasil impor per record',
+      content: { 'application/json': { schema: z.object({ success: z.boolean(), data: ImportReportSchema, message: z.string() }) } }
+    },
+    400: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Parameter query tidak valid' },
+    401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+    403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' },
+    500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+  },
+  tags: ['Admin']
+});
+
+const CacheStatsSchema = z.object({
+  hits: z.number().int().openapi({ example: 120 }),
+  misses: z.number().int().openapi({ example: 14 }),
+  evictions: z.number().int().openapi({ example: 0 }),
+  size: z.number().int().openapi({ example: 14 }),
+  maxEntries: z.number().int().openapi({ example: 500 })
+});
+
+// --- GET /api/admin/cache
+const cacheStatsRoute = createRoute({
+  method: 'get',
+  path: '/cache',
+  middleware: requireRole('admin'),
+  security: [{ bearerAuth: [] }],
+  responses: {
+    200: {
+      description: 'Statistik cache baca per tipe konten; tipe tanpa cache tidak dicantumkan',
+      content: { 'application/json': { schema: ApiResponseSchema(z.object({ blog: CacheStatsSchema.optional(), project: CacheStatsSchema.optional() })) } }
+    },
+    401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+    403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' }
+  },
+  tags: ['Admin']
+});
+
+export function createAdminRoutes(deps: BackupDependencies) {
+  const admin = new OpenAPIHono<AppEnv>({ defaultHook });
+
+  admin.use('*', authenticate);
+
+  // Respons stream tidak cocok dengan tipe handler openapi(), jadi rute didaftarkan ke dokumentasi secara terpisah
+  admin.openAPIRegistry.registerPath(exportRoute);
+  admin.get('/export', requireRole('admin'), (c) => {
+    const date = new Date().toISOString().slice(0, 10);
+    c.header('Content-Type', NDJSON_CONTENT_TYPE);
+    c.header('Content-Disposition', `attachment; filename="export-${date}.ndjson"`);
+    return stream(c, async (output) => {
+      for await (const record of exportRecords(deps)) {
+        await output.write(`${JSON.stringify(record)}\n`);
+      }
+    }, async (error, output) => {
+      // Header sudah terkirim, jadi eror hanya bisa dicatat dan stream diakhiri
+      console.error('Eror mengekspor data:', error);
+      await output.close();
+    });
+  });
+
+  admin.openapi(importRoute, async (c) => {
+    try {
+      const { dryRun, onConflict } = c.req.valid('query');
+      const report = await importRecords(deps, await c.req.text(), { dryRun: dryRun === 'true', onConflict, locale: localeOf(c) });
+      const { created, overwritten, failed } = report.summary;
+      return c.json({
+        success: true,
+        data: report,
+        message: `${report.dryRun ? 'Simulasi impor' : 'Impor'} selesai: ${created} dibuat, ${overwritten} ditimpa, ${failed} gagal`
+      }, 200);
+    } catch (error: any) {
+      console.error('Eror mengimpor data:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  admin.openapi(cacheStatsRoute, (c) => {
+    const stats: Partial<Record<keyof typeof deps.sources, CacheStats>> = {};
+    for (const [type, { repository }] of Object.entries(deps.sources) as Array<[keyof typeof deps.sources, typeof deps.sources.blog]>) {
+      if (isCachedRepository(repository)) {
+        stats[type] = repository.cacheStats();
+      }
+    }
+    return c.json({ success: true, data: stats }, 200);
+  });
+
+  return admin;
+}
@@ -0,0 +1,221 @@
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
+import type { Context } from 'hono';
+import { apiError, defaultHook, notFoundCode } from '../errors';
+import { authenticate, requireRole } from '../middleware/auth';
+import type { AnalyticsRepository, BlogRepository, ContentRepository, ProjectRepository } from '../repositories';
+import { dailySeries, lastDays, rankContent, topReferrers, type ViewTracker } from '../services/analytics';
+import type { ContentType } from '../utils/urls';
+import type { AppEnv } from '../types';
+import { ApiResponseSchema, ErrorResponseSchema } from '../openapi';
+
+const AnalyticsTypeSchema = z.enum(['blog', 'project']);
+
+const RANGE_DAYS = { '7d': 7, '30d': 30, '90d': 90, '365d': 365 } as const;
+
+const RangeSchema = z.enum(['7d', '30d', '90d', '365d']).optional().openapi({ example: '30d' });
+
+const RecordViewSchema = z.object({
+  type: AnalyticsTypeSchema.openapi({ example: 'blog' }),
+  id: z.string().min(1).openapi({ example: 'ajL8SflPjZum2GcjBq2e' }),
+  // document.referrer dari halaman frontend; hanya domainnya yang disimpan
+  referrer: z.string().max(2048).optional().or(z.null()).openapi({ example: 'https://www.google.com/' })
+});
+
+const RecordViewResultSchema = z.object({
+  // false untuk bot dan pengguna yang login
+  counted: z.boolean().openapi({ example: true })
+});
+
+const TopQuerySchema = z.object({
+  type: AnalyticsTypeSchema.optional().openapi({ example: 'blog' }),
+  range: RangeSchema,
+  limit: z.coerce.number().int().min(1).max(50).optional().openapi({ example: 10 })
+});
+
+const RangeQuerySchema = z.object({
+  range: RangeSchema
+});
+
+const AnalyticsParamSchema = z.object({
+  type: AnalyticsTypeSchema.openapi({ param: { name: 'type', in: 'path' }, example: 'blog' }),
+  id: z.string().min(1).openapi({ param: { name: 'id', in: 'path' }, example: 'ajL8SflPjZum2GcjBq2e' })
+});
+
+const ViewTotalsSchema = z.object({
+  views: z.number().int().openapi({ example: 128 }),
+  // Pengunjung unik per hari, dijumlahkan
+  visitors: z.number().int().openapi({ example: 97 })
+});
+
+const TopContentSchema = ViewTotalsSchema.extend({
+  type: AnalyticsTypeSchema.openapi({ example: 'blog' }),
+  id: z.string().openapi({ example: 'ajL8SflPjZum2GcjBq2e' }),
+  // null jika konten sudah dihapus permanen
+  title: z.string().nullable().openapi({ example: 'Memulai dengan Hono' }),
+  slug: z.string().nullable().openapi({ example: 'memulai-dengan-hono' })
+});
+
+const ContentAnalyticsSchema = z.object({
+  type: AnalyticsTypeSchema.openapi({ example: 'blog' }),
+  id: z.string().openapi({ example: 'ajL8SflPjZum2GcjBq2e' }),
+  range: z.string().openapi({ example: '30d' }),
+  totals: ViewTotalsSchema,
+  daily: z.array(ViewTotalsSchema.extend({
+    day: z.string().openapi({ example: '2025-07-01' })
+  })),
+  referrers: z.array(z.object({
+    domain: z.string().openapi({ example: 'google.com' }),
+    views: z.number().int().openapi({ example: 42 })
+  }))
+});
+
+// --- POST /api/analytics/view
+const recordViewRoute = createRoute({
+  method: 'post',
+  path: '/view',
+  request: { body: { content: { 'application/json': { schema: RecordViewSchema } } } },
+  responses: {
+    202: { content: { 'application/json': { schema: ApiResponseSchema(RecordViewResultSchema) } }, description: 'Tampilan dicatat ke buffer dan ditulis pada flush berikutnya' },
+    400: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Validasi gagal' },
+    404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Konten tidak ditemukan atau belum terbit' },
+    429: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Terlalu banyak request' },
+    500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+  },
+  tags: ['Analytics']
+});
+
+// --- GET /api/analytics/top
+const topRoute = createRoute({
+  method: 'get',
+  path: '/top',
+  request: { query: TopQuerySchema },
+  middleware: requireRole('admin', 'editor'),
+  security: [{ bearerAuth: [] }],
+  responses: {
+    200: { content: { 'application/json': { schema: ApiResponseSchema(z.array(TopContentSchema)) } }, description: 'Konten dengan tampilan terbanyak dalam rentang waktu (default 30d)' },
+    400: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Parameter query tidak valid' },
+    401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+    403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' },
+    500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+  },
+  tags: ['Analytics']
+});
+
+// --- GET /api/analytics/{type}/{id}
+const contentAnalyticsRoute = createRoute({
+  method: 'get',
+  path: '/{type}/{id}',
+  request: { params: AnalyticsParamSchema, query: RangeQuerySchema },
+  middleware: requireRole('admin', 'editor'),
+  security: [{ bearerAuth: [] }],
+  responses: {
+    200: { content: { 'application/json': { schema: ApiResponseSchema(ContentAnalyticsSchema) } }, description: 'Total, deret harian (hari tanpa tampilan bernilai 0) dan domain perujuk teratas' },
+    400: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Parameter tidak valid' },
+    401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+    403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' },
+    404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Konten tidak ditemukan' },
+    500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+  },
+  tags: ['Analytics']
+});
+
+export interface AnalyticsRouteDependencies {
+  tracker: ViewTracker;
+  repository: AnalyticsRepository;
+  blogs: BlogRepository;
+  projects: ProjectRepository;
+  clientAddress: (c: Context<AppEnv>) => string;
+}
+
+export function createAnalyticsRoutes({ tracker, repository, blogs, projects, clientAddress }: AnalyticsRouteDependencies) {
+  const analytics = new OpenAPIHono<AppEnv>({ defaultHook });
+  const sources: Record<ContentType, ContentRepository<any>> = { blog: blogs, project: projects };
+
+  analytics.use('*', authenticate);
+
+  // Laporan membaca data yang sudah ditulis, jadi buffer instance ini di-flush lebih dulu
+  const readDaily = async (range: keyof typeof RANGE_DAYS, filter: { type?: ContentType; id?: string }) => {
+    await tracker.flush();
+    const days = lastDays(RANGE_DAYS[range]);
+    const entries = await repository.listDaily({ from: days[0], to: days[days.length - 1], ...filter });
+    return { days, entries };
+  };
+
+  analytics.openapi(recordViewRoute, async (c) => {
+    try {
+      const { type, id, referrer } = c.req.valid('json');
+      const doc = await sources[type].findById(id);
+      if (!doc || doc.status !== 'published') {
+        return apiError(c, 404, notFoundCode(type), { params: { id } });
+      }
+
+      // Editor yang melihat pratinjau tidak ikut dihitung
+      const counted = !c.get('user') && tracker.record({
+        type,
+        id,
+        address: clientAddress(c),
+        userAgent: c.req.header('User-Agent'),
+        referrer
+      });
+      return c.json({ success: true, data: { counted } }, 202);
+    } catch (error: any) {
+      console.error('Eror mencatat tampilan:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  analytics.openapi(topRoute, async (c) => {
+    try {
+      const { type, range = '30d', limit = 10 } = c.req.valid('query');
+      const { entries } = await readDaily(range, { type });
+      const ranked = rankContent(entries, limit);
+
+      const docs = new Map<string, { title?: string; slug?: string | null }>();
+      for (const sourceType of ['blog', 'project'] as const) {
+        const ids = ranked.filter(item => item.type === sourceType).map(item => item.id);
+        if (ids.length === 0) continue;
+        // Konten di tempat sampah tetap ditampilkan dengan judulnya
+        const found = await sources[sourceType].findManyByIds(ids, { includeDeleted: true });
+        ids.forEach((id, index) => {
+          if (found[index]) docs.set(`${sourceType}:${id}`, found[index]);
+        });
+      }
+
+      const data = ranked.map(item => {
+        const doc = docs.get(`${item.type}:${item.id}`);
+        return { ...item, title: doc?.title ?? null, slug: doc?.slug ?? null };
+      });
+      return c.json({ success: true, data, message: `${data.length} konten teratas` }, 200);
+    } catch (error: any) {
+      console.error('Eror mengambil analitik teratas:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  analytics.openapi(contentAnalyticsRoute, async (c) => {
+    try {
+      const { type, id } = c.req.valid('param');
+      const { range = '30d' } = c.req.valid('query');
+      const [doc] = await sources[type].findManyByIds([id], { includeDeleted: true });
+      if (!doc) {
+        return apiError(c, 404, notFoundCode(type), { params: { id } });
+      }
+
+      const { days, entries } = await readDaily(range, { type, id });
+      const daily = dailySeries(entries, days);
+      const totals = daily.reduce(
+        (sum, { views, visitors }) => ({ views: sum.views + views, visitors: sum.visitors + visitors }),
+        { views: 0, visitors: 0 }
+      );
+      return c.json({
+        success: true,
+        data: { type, id, range, totals, daily, referrers: topReferrers(entries) }
+      }, 200);
+    } catch (error: any) {
+      console.error('Eror mengambil analitik konten:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  return analytics;
+}
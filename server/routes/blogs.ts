@@ -1,8 +1,24 @@
 import { OpenAPIHono, createRoute } from '@hono/zod-openapi';
 import { z } from 'zod';
-import { db } from '../db';
-// Perubahan 1: Impor Timestamp secara langsung
-import { Timestamp } from 'firebase-admin/firestore'; 
+import { Timestamp } from 'firebase-admin/firestore';
+import { authenticate, requireRole } from '../middleware/auth';
+import { DEFAULT_PAGE_LIMIT, InvalidCursorError, VersionConflictError, type BlogRepository, type CommentRepository, type RevisionRepository, type TagRepository } from '../repositories';
+import { convertTimestamps, toTimestamp } from '../utils/timestamps';
+import { applyContentCaching, contentValidators, documentValidators, ifMatchVersion, setValidators, versionConflictError } from '../utils/http-cache';
+import { nextPreviousSlugs, resolveUniqueSlug } from '../utils/slug';
+import { resolveTagNames, unknownTagsError } from '../utils/tags';
+import { resolvePublicationStatus } from '../utils/schedule';
+import { buildRevision, pruneRevisions } from '../services/revisions';
+import { buildContentMeta } from '../services/seo';
+import type { ContentRenderer } from '../services/markdown';
+import type { Blog } from '../../shared/schema';
+import type { SearchIndex } from '../services/search';
+import { publishContentChange, type EventBus } from '../services/events';
+import { createRevisionRoutes } from './revisions';
+import { createBulkRoutes } from './bulk';
+import { createBlogCommentRoutes } from './comments';
+import type { AppEnv } from '../types';
+import { apiError, defaultHook } from '../errors';
 
 // Impor Zod schema Anda
 import {
@@ -11,69 +27,72 @@ import {
   UpdateBlogSchema,
   ApiResponseSchema,
   ErrorResponseSchema,
+  VersionConflictResponseSchema,
+  PaginatedResponseSchema,
   StatusQuerySchema,
-  IdParamSchema
+  IdParamSchema,
+  SlugParamSchema,
+  ContentMetaSchema,
+  RenderedBlogSchema,
+  BlogListItemSchema
 } from '../openapi';
 
-const blogs = new OpenAPIHono();
-
-// Helper function untuk konversi Timestamp
-const convertTimestamps = (data: Record<string, any>) => {
-  const converted = { ...data };
-  for (const key in converted) {
-    // Perubahan 2: Gunakan Timestamp langsung
-    if (converted[key] instanceof Timestamp) {
-      converted[key] = converted[key].toDate().toISOString();
-    }
-  }
-  return converted;
-};
-
 
 // GET /blogs
 const getBlogsRoute = createRoute({
   method: 'get',
   path: '/',
   request: { query: StatusQuerySchema },
-  responses: { /* ... responses ... */ },
+  responses: {
+    200: { content: { 'application/json': { schema: PaginatedResponseSchema(BlogListItemSchema) } }, description: 'Daftar blog per halaman' },
+    304: { description: 'Tidak berubah sejak ETag atau Last-Modified yang dikirim klien' },
+    400: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Cursor tidak valid' },
+    500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+  },
   tags: ['Blogs']
 });
-blogs.openapi(getBlogsRoute, async (c) => {
-  try {
-    const { status } = c.req.valid('query');
-    let query = db.collection('blogs');
-    if (status) {
-      query = query.where('status', '==', status) as any;
-    }
-    const snapshot = await query.orderBy('createdAt', 'desc').get();
-    const blogList = snapshot.docs.map(doc => ({ id: doc.id, ...convertTimestamps(doc.data()) }));
-    return c.json({ success: true, data: blogList, message: `Retrieved ${blogList.length} blogs` });
-  } catch (error: any) {
-    console.error('Error fetching blogs:', error);
-    return c.json({ success: false, error: 'Failed to fetch blogs.' }, 500);
-  }
-});
 
 // GET /blogs/:id
 const getBlogByIdRoute = createRoute({
   method: 'get',
   path: '/{id}',
   request: { params: IdParamSchema },
-  responses: { /* ... responses ... */ },
+  responses: {
+    200: { content: { 'application/json': { schema: ApiResponseSchema(RenderedBlogSchema) } }, description: 'Satu data blog beserta hasil render Markdown' },
+    304: { description: 'Tidak berubah sejak ETag atau Last-Modified yang dikirim klien' },
+    404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Blog tidak ditemukan' },
+    500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+  },
   tags: ['Blogs']
 });
-blogs.openapi(getBlogByIdRoute, async (c) => {
-    try {
-        const { id } = c.req.valid('param');
-        const doc = await db.collection('blogs').doc(id).get();
-        if (!doc.exists) {
-            return c.json({ success: false, error: `Blog with ID ${id} not found` }, 404);
-        }
-        return c.json({ success: true, data: { id: doc.id, ...convertTimestamps(doc.data()!) } });
-    } catch (error: any) {
-        console.error('Error fetching blog:', error);
-        return c.json({ success: false, error: 'Failed to fetch blog.' }, 500);
-    }
+
+// GET /blogs/slug/:slug
+const getBlogBySlugRoute = createRoute({
+  method: 'get',
+  path: '/slug/{slug}',
+  request: { params: SlugParamSchema },
+  responses: {
+    200: { content: { 'application/json': { schema: ApiResponseSchema(RenderedBlogSchema) } }, description: 'Satu data blog' },
+    304: { description: 'Tidak berubah sejak ETag atau Last-Modified yang dikirim klien' },
+    301: { description: 'Slug lama, dialihkan ke slug terbaru' },
+    404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Blog tidak ditemukan' },
+    500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+  },
+  tags: ['Blogs']
+});
+
+// GET /blogs/:id/meta
+const getBlogMetaRoute = createRoute({
+  method: 'get',
+  path: '/{id}/meta',
+  request: { params: IdParamSchema },
+  responses: {
+    200: { content: { 'application/json': { schema: ApiResponseSchema(ContentMetaSchema) } }, description: 'Metadata SEO, Open Graph dan Twitter untuk blog' },
+    304: { description: 'Tidak berubah sejak ETag atau Last-Modified yang dikirim klien' },
+    404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Blog tidak ditemukan' },
+    500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+  },
+  tags: ['Blogs']
 });
 
 // POST /blogs
@@ -81,89 +100,306 @@ const createBlogRoute = createRoute({
     method: 'post',
     path: '/',
     request: { body: { content: { 'application/json': { schema: CreateBlogSchema } } } },
-    responses: { /* ... responses ... */ },
+    middleware: requireRole('admin', 'editor'),
+    security: [{ bearerAuth: [] }],
+    responses: {
+      201: { content: { 'application/json': { schema: ApiResponseSchema(z.object({ id: z.string().openapi({ example: 'ajL8SflPjZum2GcjBq2e' }) })) } }, description: 'Blog berhasil dibuat' },
+      400: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Validasi gagal, tag tidak dikenal atau jadwal terbit tidak valid' },
+      401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+      403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' },
+      500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+    },
     tags: ['Blogs']
 });
-blogs.openapi(createBlogRoute, async (c) => {
-    try {
-        const blogData = c.req.valid('json');
-        const now = Timestamp.now(); // Perubahan 3: Gunakan Timestamp langsung
-        const newBlog = {
-            ...blogData,
-            createdAt: now,
-            updatedAt: now,
-            // Perubahan 4: Gunakan Timestamp langsung
-            publishedAt: blogData.publishedAt ? Timestamp.fromDate(new Date(blogData.publishedAt)) : null,
-        };
-        const docRef = await db.collection('blogs').add(newBlog);
-        return c.json({ success: true, data: { id: docRef.id }, message: 'Blog created successfully' }, 201);
-    } catch (error: any) {
-        console.error('Error creating blog:', error);
-        return c.json({ success: false, error: 'Failed to create blog.' }, 500);
-    }
-});
 
 // PUT /blogs/:id
 const updateBlogRoute = createRoute({
     method: 'put',
     path: '/{id}',
     request: { params: IdParamSchema, body: { content: { 'application/json': { schema: UpdateBlogSchema } } } },
-    responses: { /* ... responses ... */ },
+    middleware: requireRole('admin', 'editor'),
+    security: [{ bearerAuth: [] }],
+    responses: {
+      200: { content: { 'application/json': { schema: ApiResponseSchema(BlogSchema) } }, description: 'Blog berhasil diperbarui' },
+      400: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Validasi gagal, tag tidak dikenal atau jadwal terbit tidak valid' },
+      401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+      403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' },
+      404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Blog tidak ditemukan' },
+      412: { content: { 'application/json': { schema: VersionConflictResponseSchema(BlogSchema) } }, description: 'Versi di If-Match atau body sudah usang; data berisi dokumen terbaru' },
+      500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+    },
     tags: ['Blogs']
 });
-blogs.openapi(updateBlogRoute, async (c) => {
-    try {
-        const { id } = c.req.valid('param');
-        const updateData = c.req.valid('json');
-        const docRef = db.collection('blogs').doc(id);
-
-        if (!(await docRef.get()).exists) {
-            return c.json({ success: false, error: `Blog with ID ${id} not found` }, 404);
-        }
-        
-        const finalUpdateData: Record<string, any> = {
-            ...updateData,
-            updatedAt: Timestamp.now(), // Perubahan 5: Gunakan Timestamp langsung
-        };
-
-        if (updateData.publishedAt) {
-            // Perubahan 6: Gunakan Timestamp langsung
-            finalUpdateData.publishedAt = Timestamp.fromDate(new Date(updateData.publishedAt));
-        } else if (updateData.hasOwnProperty('publishedAt')) {
-            finalUpdateData.publishedAt = null;
-        }
-
-        await docRef.update(finalUpdateData);
-        const updatedDoc = await docRef.get();
-        return c.json({ success: true, data: { id: updatedDoc.id, ...convertTimestamps(updatedDoc.data()!) }, message: 'Blog updated successfully' });
-    } catch (error: any) {
-        console.error('Error updating blog:', error);
-        return c.json({ success: false, error: 'Failed to update blog.' }, 500);
-    }
-});
 
 // DELETE /blogs/:id
 const deleteBlogRoute = createRoute({
     method: 'delete',
     path: '/{id}',
     request: { params: IdParamSchema },
-    responses: { /* ... responses ... */ },
+    middleware: requireRole('admin'),
+    security: [{ bearerAuth: [] }],
+    responses: {
+      200: { content: { 'application/json': { schema: ApiResponseSchema(z.null()) } }, description: 'Blog dipindahkan ke tempat sampah' },
+      401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+      403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' },
+      404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Blog tidak ditemukan' },
+      500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+    },
     tags: ['Blogs']
 });
-blogs.openapi(deleteBlogRoute, async (c) => {
+
+export interface BlogRouteDependencies {
+  repository: BlogRepository;
+  tags: TagRepository;
+  revisions: RevisionRepository;
+  search: SearchIndex;
+  // Jumlah revisi maksimum yang disimpan per blog
+  revisionRetention: number;
+  // Dipakai untuk URL kanonik di metadata SEO
+  baseUrl: string;
+  // Render Markdown content menjadi HTML yang aman, di-cache per updatedAt
+  renderer: ContentRenderer;
+  comments: CommentRepository;
+  events: EventBus;
+}
+
+export function createBlogRoutes({ repository, tags, revisions, search, revisionRetention, baseUrl, renderer, comments, events }: BlogRouteDependencies) {
+  const blogs = new OpenAPIHono<AppEnv>({ defaultHook });
+
+  blogs.use('*', authenticate);
+
+  // Field mentah ditambah contentHtml, toc, wordCount dan readingTimeMinutes
+  const withRendered = (blog: Blog) => ({ ...convertTimestamps(blog), ...renderer.render('blog', blog) });
+
+  blogs.openapi(getBlogsRoute, async (c) => {
     try {
-        const { id } = c.req.valid('param');
-        const docRef = db.collection('blogs').doc(id);
-        if (!(await docRef.get()).exists) {
-            return c.json({ success: false, error: `Blog with ID ${id} not found` }, 404);
+      const { status: requestedStatus, tag, render, limit = DEFAULT_PAGE_LIMIT, cursor } = c.req.valid('query');
+      // Pengunjung anonim hanya boleh melihat blog yang sudah dipublikasikan
+      const status = c.get('user') ? requestedStatus : 'published';
+      const page = await repository.list({ status, tag, limit, cursor });
+      // List hanya memakai ETag: item yang keluar dari list tidak mengubah updatedAt item lain
+      const { etag } = contentValidators(page.items, String(page.hasMore));
+      if (applyContentCaching(c, { etag }, { isPublic: !c.get('user') })) {
+        return c.body(null, 304);
+      }
+      const blogList = render === 'html' ? page.items.map(withRendered) : page.items.map(convertTimestamps);
+      return c.json({
+        success: true,
+        data: blogList,
+        pagination: { limit, nextCursor: page.nextCursor, hasMore: page.hasMore },
+        message: `Berhasil mengambil ${blogList.length} blog`
+      }, 200);
+    } catch (error: any) {
+      if (error instanceof InvalidCursorError) {
+        return apiError(c, 400, 'INVALID_CURSOR');
+      }
+      console.error('Error fetching blogs:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  blogs.openapi(getBlogByIdRoute, async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const blog = await repository.findById(id);
+      if (!blog || (!c.get('user') && blog.status !== 'published')) {
+        return apiError(c, 404, 'BLOG_NOT_FOUND', { params: { id } });
+      }
+      if (applyContentCaching(c, documentValidators(blog), { isPublic: !c.get('user') })) {
+        return c.body(null, 304);
+      }
+      return c.json({ success: true, data: withRendered(blog) }, 200);
+    } catch (error: any) {
+      console.error('Error fetching blog:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  blogs.openapi(getBlogBySlugRoute, async (c) => {
+    try {
+      const { slug } = c.req.valid('param');
+      const isVisible = (blog: { status: string }) => Boolean(c.get('user')) || blog.status === 'published';
+
+      const blog = await repository.findBySlug(slug);
+      if (blog && isVisible(blog)) {
+        if (applyContentCaching(c, documentValidators(blog), { isPublic: !c.get('user') })) {
+          return c.body(null, 304);
         }
-        await docRef.delete();
-        return c.json({ success: true, data: null, message: 'Blog deleted successfully' });
+        return c.json({ success: true, data: withRendered(blog) }, 200);
+      }
+
+      // Slug lama tetap berlaku setelah judul berubah
+      const moved = await repository.findByPreviousSlug(slug);
+      if (moved && isVisible(moved)) {
+        return c.redirect(c.req.path.replace(/[^/]+$/, moved.slug), 301);
+      }
+
+      return apiError(c, 404, 'BLOG_NOT_FOUND', { params: { slug } });
     } catch (error: any) {
-        console.error('Error deleting blog:', error);
-        return c.json({ success: false, error: 'Failed to delete blog.' }, 500);
+      console.error('Error fetching blog by slug:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
     }
-});
+  });
+
+  blogs.openapi(getBlogMetaRoute, async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const blog = await repository.findById(id);
+      if (!blog || (!c.get('user') && blog.status !== 'published')) {
+        return apiError(c, 404, 'BLOG_NOT_FOUND', { params: { id } });
+      }
+      if (applyContentCaching(c, documentValidators(blog), { isPublic: !c.get('user') })) {
+        return c.body(null, 304);
+      }
+      return c.json({ success: true, data: buildContentMeta('blog', blog, baseUrl) }, 200);
+    } catch (error: any) {
+      console.error('Error building blog metadata:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  blogs.openapi(createBlogRoute, async (c) => {
+    try {
+      const blogData = c.req.valid('json');
+      const resolvedTags = blogData.tags && await resolveTagNames(tags, blogData.tags);
+      if (resolvedTags?.unknown.length) {
+        return unknownTagsError(c, resolvedTags.unknown);
+      }
+      const publishedAt = toTimestamp(blogData.publishedAt);
+      if (blogData.status === 'scheduled' && !publishedAt) {
+        return apiError(c, 400, 'PUBLISHED_AT_REQUIRED');
+      }
+      const now = Timestamp.now();
+      const newBlog = {
+        ...blogData,
+        tags: resolvedTags ? resolvedTags.names : [],
+        status: resolvePublicationStatus(blogData.status, publishedAt),
+        slug: await resolveUniqueSlug(repository, blogData.slug ?? blogData.title, 'blog'),
+        previousSlugs: [],
+        createdAt: now,
+        updatedAt: now,
+        publishedAt,
+        commentCount: 0,
+      };
+      const created = await repository.create(newBlog);
+      search.index('blog', created);
+      publishContentChange(events, 'blog', null, created, c.get('user')?.uid);
+      return c.json({ success: true, data: { id: created.id }, message: 'Blog berhasil dibuat' }, 201);
+    } catch (error: any) {
+      console.error('Error creating blog:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  blogs.openapi(updateBlogRoute, async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const { version, ...updateData } = c.req.valid('json');
+
+      const existing = await repository.findById(id);
+      if (!existing) {
+        return apiError(c, 404, 'BLOG_NOT_FOUND', { params: { id } });
+      }
+
+      // Versi yang diharapkan dari If-Match, atau dari field version di body
+      const currentVersion = existing.version ?? 0;
+      const expectedVersion = ifMatchVersion(c) ?? version;
+      if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+        return versionConflictError(c, existing);
+      }
+
+      const resolvedTags = updateData.tags && await resolveTagNames(tags, updateData.tags);
+      if (resolvedTags?.unknown.length) {
+        return unknownTagsError(c, resolvedTags.unknown);
+      }
+
+      const finalUpdateData: Record<string, any> = {
+        ...updateData,
+        updatedAt: Timestamp.now(),
+      };
+
+      if (resolvedTags) {
+        finalUpdateData.tags = resolvedTags.names;
+      }
+
+      if (updateData.hasOwnProperty('publishedAt')) {
+        finalUpdateData.publishedAt = toTimestamp(updateData.publishedAt);
+      }
+
+      // Status dihitung ulang jika status atau jadwal terbit berubah
+      if (updateData.status || updateData.hasOwnProperty('publishedAt')) {
+        const status = updateData.status ?? existing.status;
+        const publishedAt = updateData.hasOwnProperty('publishedAt') ? finalUpdateData.publishedAt : existing.publishedAt;
+        if (status === 'scheduled' && !publishedAt) {
+          return apiError(c, 400, 'PUBLISHED_AT_REQUIRED');
+        }
+        finalUpdateData.status = resolvePublicationStatus(status, publishedAt);
+      }
+
+      // Slug dibuat ulang saat judul berubah, kecuali slug diberikan secara eksplisit
+      if (updateData.slug || (updateData.title && updateData.title !== existing.title)) {
+        const slug = await resolveUniqueSlug(repository, updateData.slug ?? updateData.title!, 'blog', id);
+        finalUpdateData.slug = slug;
+        finalUpdateData.previousSlugs = nextPreviousSlugs(existing, slug);
+      }
+
+      // Update ditolak jika dokumen berubah sejak dibaca di atas, sehingga penulisan bersamaan tidak saling menimpa
+      let updated;
+      try {
+        updated = await repository.update(id, finalUpdateData, {
+          expectedVersion: currentVersion,
+          revision: buildRevision(existing, finalUpdateData, c.get('user')?.uid)
+        });
+      } catch (error) {
+        if (error instanceof VersionConflictError) {
+          return versionConflictError(c, error.current as typeof existing);
+        }
+        throw error;
+      }
+      if (!updated) {
+        return apiError(c, 404, 'BLOG_NOT_FOUND', { params: { id } });
+      }
+      await pruneRevisions(revisions, id, revisionRetention);
+      setValidators(c, documentValidators(updated));
+      search.index('blog', updated);
+      publishContentChange(events, 'blog', existing, updated, c.get('user')?.uid);
+      return c.json({ success: true, data: convertTimestamps(updated), message: 'Blog berhasil diperbarui' }, 200);
+    } catch (error: any) {
+      console.error('Error updating blog:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  blogs.openapi(deleteBlogRoute, async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      // Masuk tempat sampah; dihapus permanen lewat /api/trash atau purge otomatis
+      const deleted = await repository.softDelete(id, { deletedAt: Timestamp.now(), deletedBy: c.get('user')?.uid });
+      if (!deleted) {
+        return apiError(c, 404, 'BLOG_NOT_FOUND', { params: { id } });
+      }
+      search.remove('blog', id);
+      events.publish('blog.deleted', { id, userId: c.get('user')?.uid ?? null });
+      return c.json({ success: true, data: null, message: 'Blog dipindahkan ke tempat sampah' }, 200);
+    } catch (error: any) {
+      console.error('Error deleting blog:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
 
+  blogs.route('/', createBlogCommentRoutes({ comments, blogs: repository }));
+  blogs.route('/', createRevisionRoutes({ type: 'blog', repository, revisions, tags, search, events, retention: revisionRetention }));
+  blogs.route('/', createBulkRoutes({
+    type: 'blog',
+    repository,
+    revisions,
+    tags,
+    search,
+    events,
+    retention: revisionRetention,
+    createSchema: CreateBlogSchema,
+    updateSchema: UpdateBlogSchema
+  }));
 
-export default blogs;
\ No newline at end of file
+  return blogs;
+}
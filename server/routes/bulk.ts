@@ -0,0 +1,366 @@
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
+import { Timestamp } from 'firebase-admin/firestore';
+import { apiError, defaultHook, errorBody, localeOf, notFoundCode, translate, zodDetails, type ErrorCode, type ErrorDetail, type ErrorOptions } from '../errors';
+import { requireRole } from '../middleware/auth';
+import { BATCH_LIMIT, BatchAbortedError, VersionConflictError, type BatchWrite, type ContentRepository, type RevisionRepository, type TagRepository } from '../repositories';
+import { toTimestamp } from '../utils/timestamps';
+import { createSlugReservation, nextPreviousSlugs } from '../utils/slug';
+import { resolveTagNames } from '../utils/tags';
+import { resolvePublicationStatus } from '../utils/schedule';
+import { buildRevision, pruneRevisions } from '../services/revisions';
+import type { SearchIndex, SearchableType } from '../services/search';
+import { publishContentChange, type EventBus } from '../services/events';
+import type { AppEnv } from '../types';
+import { ErrorResponseSchema } from '../openapi';
+
+// Batas operasi per permintaan; mode atomic dibatasi satu WriteBatch (BATCH_LIMIT)
+export const MAX_BULK_OPERATIONS = 1000;
+
+const BulkOperationSchema = z.object({
+  op: z.enum(['create', 'update', 'delete', 'setStatus']).openapi({ example: 'update' }),
+  // Wajib untuk update, delete dan setStatus
+  id: z.string().min(1).optional().openapi({ example: 'ajL8SflPjZum2GcjBq2e' }),
+  // Isi create/update, divalidasi dengan schema yang sama seperti endpoint tunggal
+  data: z.record(z.any()).optional().openapi({ example: { title: 'Judul Baru' } }),
+  status: z.enum(['draft', 'scheduled', 'published']).optional().openapi({ example: 'published' }),
+  publishedAt: z.string().datetime().nullable().optional().openapi({ example: '2025-07-01T08:00:00.000Z' })
+});
+
+const BulkRequestSchema = z.object({
+  // atomic: semua operasi berhasil atau tidak ada yang ditulis; bestEffort: operasi yang valid tetap ditulis
+  mode: z.enum(['atomic', 'bestEffort']).default('atomic').openapi({ example: 'atomic' }),
+  operations: z.array(BulkOperationSchema).min(1).max(MAX_BULK_OPERATIONS)
+});
+
+const BulkOperationResultSchema = z.object({
+  index: z.number().int().openapi({ example: 0 }),
+  op: BulkOperationSchema.shape.op,
+  id: z.string().nullable().openapi({ example: 'ajL8SflPjZum2GcjBq2e' }),
+  success: z.boolean().openapi({ example: true }),
+  error: z.string().optional().openapi({ example: 'Blog dengan ID ajL8SflPjZum2GcjBq2e tidak ditemukan' }),
+  code: ErrorResponseSchema.shape.code.optional(),
+  details: ErrorResponseSchema.shape.details
+});
+
+const BulkResultSchema = z.object({
+  mode: BulkRequestSchema.shape.mode,
+  summary: z.object({
+    total: z.number().int().openapi({ example: 3 }),
+    succeeded: z.number().int().openapi({ example: 3 }),
+    failed: z.number().int().openapi({ example: 0 })
+  }),
+  results: z.array(BulkOperationResultSchema)
+});
+
+const BulkResponseSchema = z.object({
+  success: z.boolean().openapi({ example: true }),
+  data: BulkResultSchema,
+  message: z.string().optional().openapi({ example: '3 dari 3 operasi berhasil' }),
+  error: z.string().optional().openapi({ example: 'Tidak ada operasi yang ditulis karena ada yang gagal' }),
+  code: ErrorResponseSchema.shape.code.optional()
+});
+
+type BulkOperation = z.infer<typeof BulkOperationSchema>;
+type BulkOperationResult = z.infer<typeof BulkOperationResultSchema>;
+
+interface PreparedOperation {
+  index: number;
+  op: BulkOperation['op'];
+  write: BatchWrite;
+  existing: (Record<string, any> & { id: string }) | null;
+}
+
+// Pesan diterjemahkan saat hasil disusun, sesuai Accept-Language permintaan
+class OperationError extends Error {
+  constructor(readonly code: ErrorCode, readonly options: ErrorOptions = {}) {
+    super(code);
+    this.name = 'OperationError';
+  }
+}
+
+export interface BulkRouteDependencies {
+  type: SearchableType;
+  repository: ContentRepository<any>;
+  revisions: RevisionRepository;
+  tags: TagRepository;
+  search: SearchIndex;
+  events: EventBus;
+  retention: number;
+  createSchema: z.ZodTypeAny;
+  updateSchema: z.ZodTypeAny;
+}
+
+// Dipasang di dalam router blog/proyek; middleware authenticate sudah dijalankan oleh router induk
+export function createBulkRoutes({ type, repository, revisions, tags, search, events, retention, createSchema, updateSchema }: BulkRouteDependencies) {
+  const routes = new OpenAPIHono<AppEnv>({ defaultHook });
+
+  // --- POST /bulk
+  const bulkRoute = createRoute({
+    method: 'post',
+    path: '/bulk',
+    request: { body: { content: { 'application/json': { schema: BulkRequestSchema } } } },
+    middleware: requireRole('admin', 'editor'),
+    security: [{ bearerAuth: [] }],
+    responses: {
+      200: { content: { 'application/json': { schema: BulkResponseSchema } }, description: 'Hasil per operasi' },
+      400: { content: { 'application/json': { schema: BulkResponseSchema.or(ErrorResponseSchema) } }, description: 'Ada operasi yang gagal dalam mode atomic, atau permintaan tidak valid' },
+      401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+      403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' },
+      500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+    },
+    tags: [type === 'blog' ? 'Blogs' : 'Projects']
+  });
+
+  routes.openapi(bulkRoute, async (c) => {
+    try {
+      const { mode, operations } = c.req.valid('json');
+      const user = c.get('user');
+      const locale = localeOf(c);
+      if (mode === 'atomic' && operations.length > BATCH_LIMIT) {
+        return apiError(c, 400, 'BULK_TOO_LARGE', { params: { limit: BATCH_LIMIT } });
+      }
+
+      // Dokumen target diambil sekaligus, bukan satu per satu
+      const targetIds = [...new Set(operations.flatMap(operation => (operation.op !== 'create' && operation.id ? [operation.id] : [])))];
+      const targetDocs = await repository.findManyByIds(targetIds);
+      const targets = new Map(targetIds.map((id, i) => [id, targetDocs[i]]));
+
+      // Slug yang sudah dibagikan ke operasi sebelumnya dianggap terpakai
+      const reserveSlug = createSlugReservation(repository, type);
+
+      // Nama tag yang sama cukup dicari sekali per permintaan
+      const tagLookups = new Map<string, ReturnType<TagRepository['findByName']>>();
+      const cachedTags: TagRepository = {
+        ...tags,
+        findByName: (name) => {
+          const key = name.toLowerCase();
+          if (!tagLookups.has(key)) tagLookups.set(key, tags.findByName(name));
+          return tagLookups.get(key)!;
+        }
+      };
+
+      const parse = (schema: z.ZodTypeAny, data: unknown): Record<string, any> => {
+        const parsed = schema.safeParse(data ?? {});
+        if (!parsed.success) {
+          throw new OperationError('VALIDATION_FAILED', {
+            details: zodDetails(parsed.error).map(detail => ({ ...detail, field: detail.field || 'data' }))
+          });
+        }
+        return parsed.data;
+      };
+
+      const resolveTags = async (input: string[]) => {
+        const resolved = await resolveTagNames(cachedTags, input);
+        if (resolved.unknown.length) {
+          throw new OperationError('UNKNOWN_TAGS', {
+            params: { tags: resolved.unknown.join(', ') },
+            details: resolved.unknown.map(name => ({ field: 'tags', message: translate(locale, 'TAG_NOT_REGISTERED', { name }) }))
+          });
+        }
+        return resolved.names;
+      };
+
+      const requireScheduleDate = (status: string, publishedAt: unknown) => {
+        if (status === 'scheduled' && !publishedAt) {
+          throw new OperationError('PUBLISHED_AT_REQUIRED');
+        }
+      };
+
+      // Sama dengan PUT /{id}: status dihitung ulang dan slug dibuat ulang saat judul berubah
+      const prepareUpdate = async (existing: Record<string, any> & { id: string }, { version, ...input }: Record<string, any>) => {
+        const currentVersion = existing.version ?? 0;
+        if (version !== undefined && version !== currentVersion) {
+          throw new OperationError('VERSION_CONFLICT', { params: { version: currentVersion } });
+        }
+        const data: Record<string, any> = { ...input, updatedAt: Timestamp.now() };
+        if (input.tags) {
+          data.tags = await resolveTags(input.tags);
+        }
+        if ('publishedAt' in input) {
+          data.publishedAt = toTimestamp(input.publishedAt);
+        }
+        if (input.status || 'publishedAt' in input) {
+          const status = input.status ?? existing.status;
+          const publishedAt = 'publishedAt' in input ? data.publishedAt : existing.publishedAt;
+          requireScheduleDate(status, publishedAt);
+          data.status = resolvePublicationStatus(status, publishedAt);
+        }
+        if (input.slug || (input.title && input.title !== existing.title)) {
+          const slug = await reserveSlug(input.slug ?? input.title, existing.id);
+          data.slug = slug;
+          data.previousSlugs = nextPreviousSlugs(existing, slug);
+        }
+        return data;
+      };
+
+      const requiredDetail = (field: string): ErrorDetail => ({ field, message: translate(locale, 'REQUIRED') });
+
+      const seenIds = new Set<string>();
+      const prepareOperation = async (operation: BulkOperation, index: number): Promise<PreparedOperation> => {
+        if (operation.op === 'create') {
+          const input = parse(createSchema, operation.data);
+          const publishedAt = toTimestamp(input.publishedAt);
+          requireScheduleDate(input.status, publishedAt);
+          const id = repository.newId();
+          const now = Timestamp.now();
+          const data = {
+            ...input,
+            tags: input.tags ? await resolveTags(input.tags) : [],
+            status: resolvePublicationStatus(input.status, publishedAt),
+            slug: await reserveSlug(input.slug ?? input.title, id),
+            previousSlugs: [],
+            createdAt: now,
+            updatedAt: now,
+            publishedAt,
+            // Sama dengan POST /api/blogs agar counter komentar langsung bisa dinaikkan
+            ...(type === 'blog' && { commentCount: 0 })
+          };
+          return { index, op: operation.op, write: { type: 'create', id, data }, existing: null };
+        }
+
+        const { id } = operation;
+        if (!id) {
+          throw new OperationError('VALIDATION_FAILED', { details: [requiredDetail('id')] });
+        }
+        // Dua operasi pada dokumen yang sama dalam satu batch akan saling menimpa
+        if (seenIds.has(id)) {
+          throw new OperationError('DUPLICATE_TARGET', { params: { id } });
+        }
+        seenIds.add(id);
+        const existing = targets.get(id);
+        if (!existing) {
+          throw new OperationError(notFoundCode(type), { params: { id } });
+        }
+
+        switch (operation.op) {
+          case 'update': {
+            const data = await prepareUpdate(existing, parse(updateSchema, operation.data));
+            const revision = buildRevision(existing, data, user?.uid);
+            return { index, op: operation.op, write: { type: 'update', id, data, expectedVersion: existing.version ?? 0, revision }, existing };
+          }
+          case 'setStatus': {
+            if (!operation.status) {
+              throw new OperationError('VALIDATION_FAILED', { details: [requiredDetail('status')] });
+            }
+            const input = parse(updateSchema, {
+              status: operation.status,
+              ...(operation.publishedAt !== undefined && { publishedAt: operation.publishedAt })
+            });
+            const data = await prepareUpdate(existing, input);
+            const revision = buildRevision(existing, data, user?.uid);
+            return { index, op: operation.op, write: { type: 'update', id, data, expectedVersion: existing.version ?? 0, revision }, existing };
+          }
+          case 'delete': {
+            // Sama dengan DELETE /{id} yang hanya boleh dilakukan admin
+            if (user?.role !== 'admin') {
+              throw new OperationError('DELETE_REQUIRES_ADMIN');
+            }
+            const data = { deletedAt: Timestamp.now(), deletedBy: user.uid };
+            return { index, op: operation.op, write: { type: 'update', id, data }, existing };
+          }
+        }
+      };
+
+      // Diproses berurutan agar reservasi slug antaroperasi konsisten
+      const results: BulkOperationResult[] = [];
+      const prepared: PreparedOperation[] = [];
+      const fail = (result: BulkOperationResult, code: ErrorCode, options: ErrorOptions = {}) => {
+        const { error, details } = errorBody(c, code, options);
+        Object.assign(result, { success: false, error, code, ...(details && { details }) });
+      };
+      for (const [index, operation] of operations.entries()) {
+        try {
+          const result = await prepareOperation(operation, index);
+          prepared.push(result);
+          results.push({ index, op: operation.op, id: result.write.id, success: true });
+        } catch (error) {
+          if (!(error instanceof OperationError)) throw error;
+          const result: BulkOperationResult = { index, op: operation.op, id: operation.id ?? null, success: false };
+          fail(result, error.code, error.options);
+          results.push(result);
+        }
+      }
+
+      const summarize = () => {
+        const succeeded = results.filter(result => result.success).length;
+        return { mode, summary: { total: results.length, succeeded, failed: results.length - succeeded }, results };
+      };
+
+      if (mode === 'atomic' && prepared.length < operations.length) {
+        for (const result of results) {
+          if (result.success) fail(result, 'OPERATION_SKIPPED');
+        }
+        // ID yang dibuat untuk create yang dibatalkan tidak pernah ada
+        for (const { index, op } of prepared) {
+          if (op === 'create') results[index].id = null;
+        }
+        const { error, code } = errorBody(c, 'BULK_ABORTED');
+        return c.json({ success: false, data: summarize(), error, code }, 400);
+      }
+
+      // Versi dicek lagi saat batch ditulis, sama dengan PUT /{id}, sehingga edit bersamaan tidak tertimpa.
+      // Dalam mode bestEffort penulisan yang ditolak dilewati tanpa membatalkan sisa batch-nya
+      const writeErrors = await repository.bulkWrite(prepared.map(operation => operation.write), { atomic: mode === 'atomic' });
+      const failWrite = (result: BulkOperationResult, error: Error) => {
+        if (error instanceof VersionConflictError) {
+          fail(result, 'VERSION_CONFLICT', { params: { version: error.current.version ?? 0 } });
+        } else if (error instanceof BatchAbortedError) {
+          fail(result, 'OPERATION_SKIPPED');
+        } else {
+          console.error(`Eror menulis operasi massal ${result.index}:`, error);
+          fail(result, 'WRITE_FAILED');
+        }
+      };
+
+      if (mode === 'atomic' && writeErrors.some(Boolean)) {
+        // Hanya konflik versi yang bisa diperbaiki pemanggil; eror penulisan lain adalah eror server
+        if (!writeErrors.some(error => error instanceof VersionConflictError)) {
+          console.error('Eror menulis operasi massal:', writeErrors.find(Boolean));
+          return apiError(c, 500, 'INTERNAL_ERROR');
+        }
+        for (const [i, { index, op }] of prepared.entries()) {
+          failWrite(results[index], writeErrors[i] ?? new BatchAbortedError(prepared[i].write.id));
+          if (op === 'create') results[index].id = null;
+        }
+        const { error, code } = errorBody(c, 'BULK_ABORTED');
+        return c.json({ success: false, data: summarize(), error, code }, 400);
+      }
+
+      for (const [i, operation] of prepared.entries()) {
+        const result = results[operation.index];
+        const { id, data } = operation.write;
+        const writeError = writeErrors[i];
+        if (writeError) {
+          failWrite(result, writeError);
+          if (operation.op === 'create') result.id = null;
+          continue;
+        }
+
+        if (operation.op === 'delete') {
+          search.remove(type, id);
+          events.publish(`${type}.deleted`, { id, userId: user?.uid ?? null });
+          continue;
+        }
+        if (operation.existing) {
+          await pruneRevisions(revisions, id, retention);
+        }
+        // Versi setelah ditulis: dokumen baru mulai dari 1, update menaikkannya satu
+        const written = { ...operation.existing, deletedAt: null, ...data, id, version: (operation.existing?.version ?? 0) + 1 };
+        search.index(type, written);
+        publishContentChange(events, type, operation.existing, written, user?.uid);
+      }
+
+      const data = summarize();
+      return c.json({
+        success: true,
+        data,
+        message: `${data.summary.succeeded} dari ${data.summary.total} operasi berhasil`
+      }, 200);
+    } catch (error: any) {
+      console.error('Eror menjalankan operasi massal:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  return routes;
+}
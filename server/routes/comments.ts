@@ -0,0 +1,280 @@
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
+import { Timestamp } from 'firebase-admin/firestore';
+import { authenticate, requireRole } from '../middleware/auth';
+import { DEFAULT_PAGE_LIMIT, InvalidCursorError, type BlogRepository, type CommentRepository } from '../repositories';
+import { adjustCommentCount, assessComment, deletionChanges, moderationChanges, threadComments, toCommentResponse } from '../services/comments';
+import type { AppEnv } from '../types';
+import { apiError, defaultHook } from '../errors';
+import { ApiResponseSchema, ErrorResponseSchema, IdParamSchema, PaginatedResponseSchema } from '../openapi';
+
+const CommentStatusSchema = z.enum(['pending', 'approved', 'rejected']);
+
+const PublicCommentSchema = z.object({
+  id: z.string().openapi({ example: 'Kc4mT8vNq2XpL6wRb1Yz' }),
+  parentId: z.string().nullable().openapi({ example: null }),
+  authorName: z.string().nullable().openapi({ example: 'Budi' }),
+  content: z.string().openapi({ example: 'Tulisan yang sangat membantu, terima kasih!' }),
+  createdAt: z.string().datetime().openapi({ example: '2025-06-06T04:11:32.091Z' })
+});
+
+const CommentThreadSchema = PublicCommentSchema.extend({
+  replies: z.array(PublicCommentSchema)
+});
+
+const CommentSchema = PublicCommentSchema.extend({
+  blogId: z.string().openapi({ example: 'ajL8SflPjZum2GcjBq2e' }),
+  authorEmail: z.string().nullable().openapi({ example: 'budi@example.com' }),
+  userId: z.string().nullable().openapi({ example: null }),
+  status: CommentStatusSchema.openapi({ example: 'pending' }),
+  flagged: z.boolean().openapi({ example: false }),
+  flagReasons: z.array(z.string()).openapi({ example: [] }),
+  moderatedBy: z.string().nullable().openapi({ example: 'admin-user' }),
+  moderatedAt: z.string().datetime().nullable().openapi({ example: null })
+}).openapi('Comment');
+
+const CreateCommentSchema = z.object({
+  authorName: z.string().trim().min(1).max(80).optional().or(z.null()).openapi({ example: 'Budi' }),
+  authorEmail: z.string().trim().email().max(254).optional().or(z.null()).openapi({ example: 'budi@example.com' }),
+  content: z.string().trim().min(2).max(2000).openapi({ example: 'Tulisan yang sangat membantu, terima kasih!' }),
+  // Balasan ke balasan ditempelkan ke komentar tingkat atasnya
+  parentId: z.string().min(1).optional().or(z.null()).openapi({ example: null }),
+  // Honeypot: disembunyikan dari pembaca di form, hanya bot yang mengisinya
+  website: z.string().optional().openapi({ example: '' })
+});
+
+const CommentListQuerySchema = z.object({
+  status: CommentStatusSchema.optional().openapi({ example: 'pending' }),
+  blogId: z.string().min(1).optional().openapi({ example: 'ajL8SflPjZum2GcjBq2e' }),
+  flagged: z.enum(['true', 'false']).transform(value => value === 'true').optional().openapi({ example: 'true' }),
+  limit: z.coerce.number().int().min(1).max(100).optional().openapi({ example: 20 }),
+  cursor: z.string().min(1).optional().openapi({ example: 'eyJpZCI6IktjNG1UOHZOcTJYcEw2d1JiMVl6In0' })
+});
+
+const CommentAcceptedSchema = z.object({
+  status: z.literal('pending')
+});
+
+export interface CommentRouteDependencies {
+  comments: CommentRepository;
+  blogs: BlogRepository;
+}
+
+// Dipasang di dalam router blog: GET dan POST /{id}/comments
+export function createBlogCommentRoutes({ comments, blogs }: CommentRouteDependencies) {
+  const routes = new OpenAPIHono<AppEnv>({ defaultHook });
+
+  // --- GET /{id}/comments
+  const listCommentsRoute = createRoute({
+    method: 'get',
+    path: '/{id}/comments',
+    request: { params: IdParamSchema },
+    responses: {
+      200: { content: { 'application/json': { schema: ApiResponseSchema(z.array(CommentThreadSchema)) } }, description: 'Komentar yang disetujui, terlama lebih dulu, dengan balasan satu tingkat' },
+      404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Blog tidak ditemukan' },
+      500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+    },
+    tags: ['Comments']
+  });
+
+  // --- POST /{id}/comments
+  const createCommentRoute = createRoute({
+    method: 'post',
+    path: '/{id}/comments',
+    request: {
+      params: IdParamSchema,
+      body: { content: { 'application/json': { schema: CreateCommentSchema } } }
+    },
+    responses: {
+      202: { content: { 'application/json': { schema: ApiResponseSchema(CommentAcceptedSchema) } }, description: 'Komentar diterima dan menunggu moderasi' },
+      400: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Validasi gagal atau komentar induk tidak bisa dibalas' },
+      403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Komentar dinonaktifkan untuk blog ini' },
+      404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Blog tidak ditemukan' },
+      429: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Terlalu banyak komentar dari klien ini' },
+      500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+    },
+    tags: ['Comments']
+  });
+
+  routes.openapi(listCommentsRoute, async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const blog = await blogs.findById(id);
+      if (!blog || (!c.get('user') && blog.status !== 'published')) {
+        return apiError(c, 404, 'BLOG_NOT_FOUND', { params: { id } });
+      }
+      // Komentar per blog diharapkan sedikit, jadi semuanya dikirim sekaligus tanpa paginasi
+      const approved = await comments.listByBlog(id, 'approved');
+      return c.json({ success: true, data: threadComments(approved) }, 200);
+    } catch (error: any) {
+      console.error('Eror mengambil komentar:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  routes.openapi(createCommentRoute, async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const { website, parentId, authorName = null, authorEmail = null, content } = c.req.valid('json');
+      const accepted = () => c.json({ success: true, data: { status: 'pending' as const }, message: 'Komentar menunggu moderasi' }, 202);
+
+      const blog = await blogs.findById(id);
+      if (!blog || blog.status !== 'published') {
+        return apiError(c, 404, 'BLOG_NOT_FOUND', { params: { id } });
+      }
+      if (blog.commentsEnabled === false) {
+        return apiError(c, 403, 'COMMENTS_DISABLED');
+      }
+
+      // Bot yang mengisi honeypot mendapat jawaban yang sama, tetapi komentarnya tidak disimpan
+      if (website) {
+        return accepted();
+      }
+
+      let threadId: string | null = null;
+      if (parentId) {
+        const parent = await comments.findById(parentId);
+        if (!parent || parent.blogId !== id || parent.status !== 'approved') {
+          return apiError(c, 400, 'INVALID_PARENT_COMMENT', { params: { id: parentId } });
+        }
+        threadId = parent.parentId ?? parent.id;
+      }
+
+      const { flagged, reasons } = assessComment({ authorName, content });
+      await comments.create({
+        blogId: id,
+        parentId: threadId,
+        authorName,
+        authorEmail,
+        userId: c.get('user')?.uid ?? null,
+        content,
+        status: 'pending',
+        flagged,
+        flagReasons: reasons,
+        moderatedBy: null,
+        moderatedAt: null,
+        createdAt: Timestamp.now()
+      });
+      return accepted();
+    } catch (error: any) {
+      console.error('Eror menyimpan komentar:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  return routes;
+}
+
+// Antrean moderasi di /api/comments, khusus admin
+export function createCommentModerationRoutes({ comments, blogs }: CommentRouteDependencies) {
+  const routes = new OpenAPIHono<AppEnv>({ defaultHook });
+
+  routes.use('*', authenticate);
+
+  // --- GET /api/comments
+  const listRoute = createRoute({
+    method: 'get',
+    path: '/',
+    request: { query: CommentListQuerySchema },
+    middleware: requireRole('admin'),
+    security: [{ bearerAuth: [] }],
+    responses: {
+      200: { content: { 'application/json': { schema: PaginatedResponseSchema(CommentSchema) } }, description: 'Komentar terbaru lebih dulu; ?status=pending untuk antrean moderasi' },
+      400: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Parameter query atau cursor tidak valid' },
+      401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+      403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' },
+      500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+    },
+    tags: ['Comments']
+  });
+
+  const moderateRoute = (action: 'approve' | 'reject') => createRoute({
+    method: 'post',
+    path: `/{id}/${action}`,
+    request: { params: IdParamSchema },
+    middleware: requireRole('admin'),
+    security: [{ bearerAuth: [] }],
+    responses: {
+      200: { content: { 'application/json': { schema: ApiResponseSchema(CommentSchema) } }, description: action === 'approve' ? 'Komentar disetujui dan tampil di blog' : 'Komentar ditolak dan disembunyikan' },
+      401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+      403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' },
+      404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Komentar tidak ditemukan' },
+      500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+    },
+    tags: ['Comments']
+  });
+
+  // --- DELETE /api/comments/{id}
+  const deleteRoute = createRoute({
+    method: 'delete',
+    path: '/{id}',
+    request: { params: IdParamSchema },
+    middleware: requireRole('admin'),
+    security: [{ bearerAuth: [] }],
+    responses: {
+      200: { content: { 'application/json': { schema: ApiResponseSchema(z.null()) } }, description: 'Komentar beserta balasannya dihapus permanen' },
+      401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+      403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' },
+      404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Komentar tidak ditemukan' },
+      500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+    },
+    tags: ['Comments']
+  });
+
+  routes.openapi(listRoute, async (c) => {
+    try {
+      const { status, blogId, flagged, limit = DEFAULT_PAGE_LIMIT, cursor } = c.req.valid('query');
+      const page = await comments.list({ status, blogId, flagged, limit, cursor });
+      return c.json({
+        success: true,
+        data: page.items.map(toCommentResponse),
+        pagination: { limit, nextCursor: page.nextCursor, hasMore: page.hasMore },
+        message: `${page.items.length} komentar ditemukan`
+      }, 200);
+    } catch (error: any) {
+      if (error instanceof InvalidCursorError) {
+        return apiError(c, 400, 'INVALID_CURSOR');
+      }
+      console.error('Eror mengambil antrean komentar:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  for (const [action, status] of [['approve', 'approved'], ['reject', 'rejected']] as const) {
+    routes.openapi(moderateRoute(action), async (c) => {
+      try {
+        const { id } = c.req.valid('param');
+        const transition = await comments.setStatus(id, {
+          status,
+          moderatedBy: c.get('user')?.uid ?? null,
+          moderatedAt: Timestamp.now()
+        });
+        if (!transition) {
+          return apiError(c, 404, 'COMMENT_NOT_FOUND', { params: { id } });
+        }
+        const changes = await moderationChanges(comments, transition.comment, transition.previous);
+        await adjustCommentCount(blogs, transition.comment.blogId, changes);
+        return c.json({ success: true, data: toCommentResponse(transition.comment) }, 200);
+      } catch (error: any) {
+        console.error('Eror memoderasi komentar:', error);
+        return apiError(c, 500, 'INTERNAL_ERROR');
+      }
+    });
+  }
+
+  routes.openapi(deleteRoute, async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const removed = await comments.delete(id);
+      if (removed.length === 0) {
+        return apiError(c, 404, 'COMMENT_NOT_FOUND', { params: { id } });
+      }
+      await adjustCommentCount(blogs, removed[0].blogId, await deletionChanges(comments, removed));
+      return c.json({ success: true, data: null, message: `${removed.length} komentar dihapus` }, 200);
+    } catch (error: any) {
+      console.error('Eror menghapus komentar:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  return routes;
+}
@@ -0,0 +1,107 @@
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
+import { streamSSE } from 'hono/streaming';
+import { apiError, defaultHook, zodDetails } from '../errors';
+import { authenticate, requireRole } from '../middleware/auth';
+import { EVENT_RESOURCES, EVENT_TYPES, matchesEventFilter, type AppEvent, type EventBus } from '../services/events';
+import type { AppEnv } from '../types';
+import { ErrorResponseSchema } from '../openapi';
+
+export const DEFAULT_EVENT_HEARTBEAT_MS = 15_000;
+
+// Klien yang terlalu lambat membaca diputus, lalu menyambung ulang dengan Last-Event-ID
+const MAX_PENDING_WRITES = 100;
+
+const EVENT_FILTERS: readonly string[] = [...EVENT_RESOURCES, ...EVENT_TYPES];
+
+const EventsQuerySchema = z.object({
+  // Dipisah koma: `blog` untuk semua event blog, `blog.updated` untuk satu jenis saja
+  types: z.string().optional()
+    .transform(value => value ? value.split(',').map(type => type.trim()).filter(Boolean) : [])
+    .refine(types => types.every(type => EVENT_FILTERS.includes(type)), { message: `Jenis event yang didukung: ${EVENT_FILTERS.join(', ')}` })
+    .openapi({ type: 'string', example: 'blog,upload.deleted' }),
+  // Untuk klien yang tidak bisa mengirim header Last-Event-ID
+  lastEventId: z.string().min(1).optional().openapi({ example: 'm3k9x2a1-42' })
+});
+
+// --- GET /api/events
+const eventsRoute = createRoute({
+  method: 'get',
+  path: '/',
+  request: { query: EventsQuerySchema },
+  security: [{ bearerAuth: [] }],
+  responses: {
+    200: {
+      description: 'Stream Server-Sent Events: blog.*, project.* dan upload.*, dengan heartbeat berupa komentar',
+      content: { 'text/event-stream': { schema: z.string() } }
+    },
+    400: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Jenis event tidak dikenal' },
+    401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+    403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' }
+  },
+  tags: ['Events']
+});
+
+export interface EventRouteDependencies {
+  events: EventBus;
+  heartbeatMs?: number;
+}
+
+const toMessage = (event: AppEvent) => ({
+  id: event.id,
+  event: event.type,
+  data: JSON.stringify({ ...event.data, timestamp: event.timestamp })
+});
+
+export function createEventRoutes({ events, heartbeatMs = DEFAULT_EVENT_HEARTBEAT_MS }: EventRouteDependencies) {
+  const routes = new OpenAPIHono<AppEnv>({ defaultHook });
+
+  routes.use('*', authenticate);
+
+  // Respons stream tidak cocok dengan tipe handler openapi(), jadi rute didaftarkan ke dokumentasi secara terpisah
+  routes.openAPIRegistry.registerPath(eventsRoute);
+  routes.get('/', requireRole('admin', 'editor'), (c) => {
+    const query = EventsQuerySchema.safeParse(c.req.query());
+    if (!query.success) {
+      return apiError(c, 400, 'VALIDATION_FAILED', { details: zodDetails(query.error) });
+    }
+    const { types } = query.data;
+    const lastEventId = c.req.header('Last-Event-ID') ?? query.data.lastEventId;
+
+    return streamSSE(c, async (stream) => {
+      const closed = new Promise<void>(resolve => stream.onAbort(resolve));
+      let queue = Promise.resolve();
+      let pending = 0;
+      // Penulisan diantrekan agar urutan event terjaga
+      const send = (write: () => Promise<unknown>) => {
+        if (pending >= MAX_PENDING_WRITES) {
+          stream.abort();
+          return;
+        }
+        pending++;
+        queue = queue.then(write).then(() => { pending--; });
+      };
+
+      // Replay dan subscribe dilakukan tanpa jeda, jadi tidak ada event yang terlewat di antaranya
+      const missed = lastEventId ? events.since(lastEventId) : [];
+      if (missed === null) {
+        send(() => stream.writeSSE({ event: 'reset', data: JSON.stringify({ reason: 'replay_unavailable' }) }));
+      }
+      for (const event of missed ?? []) {
+        if (matchesEventFilter(event.type, types)) send(() => stream.writeSSE(toMessage(event)));
+      }
+      const unsubscribe = events.subscribe(event => {
+        if (matchesEventFilter(event.type, types)) send(() => stream.writeSSE(toMessage(event)));
+      });
+      const heartbeat = setInterval(() => send(() => stream.write(': heartbeat\n\n')), heartbeatMs);
+
+      try {
+        await closed;
+      } finally {
+        clearInterval(heartbeat);
+        unsubscribe();
+      }
+    });
+  });
+
+  return routes;
+}
@@ -0,0 +1,44 @@
+import { Hono, type Handler } from 'hono';
+import { apiError } from '../errors';
+import type { BlogRepository } from '../repositories';
+import { buildFeed, FEED_CONTENT_TYPES, renderAtom, renderJsonFeed, renderRss, type Feed } from '../services/feeds';
+import { computeEtag, isNotModified, setValidators } from '../utils/http-cache';
+import type { AppEnv } from '../types';
+
+// Jumlah blog terbaru yang dimuat di feed
+const FEED_LIMIT = 20;
+
+export interface FeedRouteDependencies {
+  blogs: BlogRepository;
+  baseUrl: string;
+  title?: string;
+  description?: string;
+}
+
+export function createFeedRoutes({ blogs, baseUrl, title = 'Blog', description = 'Tulisan terbaru' }: FeedRouteDependencies) {
+  const feeds = new Hono<AppEnv>();
+
+  const serve = (contentType: string, render: (feed: Feed) => string): Handler<AppEnv> => async (c) => {
+    try {
+      const feed = buildFeed(await blogs.listRecentlyPublished(FEED_LIMIT), { title, description, baseUrl });
+      const body = render(feed);
+      const validators = { etag: computeEtag(body), lastModified: feed.items.length > 0 ? feed.updatedAt : null };
+
+      setValidators(c, validators);
+      c.header('Cache-Control', 'public, max-age=300');
+      if (isNotModified(c, validators)) {
+        return c.body(null, 304);
+      }
+      return c.body(body, 200, { 'Content-Type': contentType });
+    } catch (error) {
+      console.error('Eror membuat feed:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  };
+
+  feeds.get('/feed.xml', serve(FEED_CONTENT_TYPES.rss, renderRss));
+  feeds.get('/atom.xml', serve(FEED_CONTENT_TYPES.atom, renderAtom));
+  feeds.get('/feed.json', serve(FEED_CONTENT_TYPES.json, renderJsonFeed));
+
+  return feeds;
+}
@@ -1,229 +1,435 @@
 // projects.ts dengan dokumentasi OpenAPI untuk semua endpoint
 import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
-import { db } from '../db';
 import { Timestamp } from 'firebase-admin/firestore';
-import {
-  createProjectSchema,
-  updateProjectSchema,
-  statusQuerySchema
-} from '../middleware/validation';
+import { authenticate, requireRole } from '../middleware/auth';
+import { DEFAULT_PAGE_LIMIT, InvalidCursorError, VersionConflictError, type ProjectRepository, type RevisionRepository, type TagRepository } from '../repositories';
+import { convertTimestamps, toTimestamp } from '../utils/timestamps';
+import { applyContentCaching, contentValidators, documentValidators, ifMatchVersion, setValidators, versionConflictError } from '../utils/http-cache';
+import { nextPreviousSlugs, resolveUniqueSlug } from '../utils/slug';
+import { resolveTagNames, unknownTagsError } from '../utils/tags';
+import { resolvePublicationStatus } from '../utils/schedule';
+import { buildRevision, pruneRevisions } from '../services/revisions';
+import { buildContentMeta } from '../services/seo';
+import type { ContentRenderer } from '../services/markdown';
 import type { Project } from '../../shared/schema';
+import type { SearchIndex } from '../services/search';
+import { publishContentChange, type EventBus } from '../services/events';
+import { createRevisionRoutes } from './revisions';
+import { createBulkRoutes } from './bulk';
+import type { AppEnv } from '../types';
+import { apiError, defaultHook } from '../errors';
 import {
   ProjectSchema,
   CreateProjectSchema,
   UpdateProjectSchema,
   ApiResponseSchema,
   ErrorResponseSchema,
+  VersionConflictResponseSchema,
+  PaginatedResponseSchema,
   StatusQuerySchema,
-  IdParamSchema // Menggunakan IdParamSchema yang sudah benar
+  IdParamSchema, // Menggunakan IdParamSchema yang sudah benar
+  SlugParamSchema,
+  ContentMetaSchema,
+  RenderedProjectSchema,
+  ProjectListItemSchema
 } from '../openapi';
 
-const projects = new OpenAPIHono();
-
-const convertTimestamps = (data: Record<string, any>) => {
-  const converted = { ...data };
-  for (const key in converted) {
-    if (converted[key] instanceof Timestamp) {
-      converted[key] = converted[key].toDate().toISOString();
-    }
-  }
-  return converted;
-};
-
-// Schema definisi eksplisit
-const projectBaseSchema = z.object({
-  title: z.string(),
-  content: z.string(),
-  projectLink: z.string().url(),
-  githubLink: z.string().url(),
-  documentationLink: z.string().url().nullable(),
-  coverImageUrl: z.string().url(),
-  isGroup: z.boolean(),
-  status: z.enum(['draft', 'published']),
-  publishedAt: z.string().datetime().nullable()
-});
-
-const projectSchemaWithId = projectBaseSchema.extend({
-  id: z.string(),
-  createdAt: z.string().datetime(),
-  updatedAt: z.string().datetime()
-});
-
 // --- GET /api/projects
-projects.openapi(createRoute({
+const getProjectsRoute = createRoute({
   method: 'get',
   path: '/',
   request: {
-    query: statusQuerySchema
+    query: StatusQuerySchema
   },
   responses: {
     200: {
       description: 'Daftar proyek berhasil diambil',
       content: {
         'application/json': {
-          schema: z.object({
-            success: z.literal(true),
-            data: z.array(projectSchemaWithId),
-            message: z.string()
-          })
+          schema: PaginatedResponseSchema(ProjectListItemSchema)
         }
       }
-    }
+    },
+    304: { description: 'Tidak berubah sejak ETag atau Last-Modified yang dikirim klien' },
+    400: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Cursor tidak valid' },
+    500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
   },
   tags: ['Projects']
-}), async (c) => {
-  const { status } = c.req.valid('query');
-  let query = db.collection('projects');
-  if (status) {
-    query = query.where('status', '==', status) as any;
-  }
-  const snapshot = await query.orderBy('createdAt', 'desc').get();
-  const projectList = snapshot.docs.map(doc => ({ id: doc.id, ...convertTimestamps(doc.data()) })) as Project[];
-  return c.json({ success: true, data: projectList, message: `Retrieved ${projectList.length} projects` });
 });
 
-// --- GET /api/projects/:id (INI YANG DIPERBAIKI) ---
+// --- GET /api/projects/:id
 const getProjectByIdRoute = createRoute({
   method: 'get',
   path: '/{id}',
   // Menggunakan IdParamSchema yang sudah kita perbaiki sebelumnya
   // Ini memastikan validasinya benar untuk string Firestore
-  request: { 
+  request: {
     params: IdParamSchema
   },
   responses: {
-    200: { content: { 'application/json': { schema: ApiResponseSchema(ProjectSchema) } }, description: 'Satu data proyek' },
+    200: { content: { 'application/json': { schema: ApiResponseSchema(RenderedProjectSchema) } }, description: 'Satu data proyek' },
+    304: { description: 'Tidak berubah sejak ETag atau Last-Modified yang dikirim klien' },
     404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Proyek tidak ditemukan' },
     500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
   },
   tags: ['Projects']
 });
 
-projects.openapi(getProjectByIdRoute, async (c) => {
-    try {
-        // Logika ini sudah benar, masalahnya ada di validasi sebelumnya
-        const { id } = c.req.valid('param');
-        const doc = await db.collection('projects').doc(id).get();
-
-        if (!doc.exists) {
-            return c.json({ success: false, error: `Proyek dengan ID ${id} tidak ditemukan` }, 404);
-        }
-        
-        return c.json({ success: true, data: { id: doc.id, ...convertTimestamps(doc.data()!) } });
+// --- GET /api/projects/slug/:slug
+const getProjectBySlugRoute = createRoute({
+  method: 'get',
+  path: '/slug/{slug}',
+  request: {
+    params: SlugParamSchema
+  },
+  responses: {
+    200: { content: { 'application/json': { schema: ApiResponseSchema(RenderedProjectSchema) } }, description: 'Satu data proyek' },
+    304: { description: 'Tidak berubah sejak ETag atau Last-Modified yang dikirim klien' },
+    301: { description: 'Slug lama, dialihkan ke slug terbaru' },
+    404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Proyek tidak ditemukan' },
+    500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+  },
+  tags: ['Projects']
+});
 
-    } catch (error: any) {
-        console.error('Eror mengambil proyek:', error);
-        return c.json({ success: false, error: 'Gagal mengambil data proyek.' }, 500);
-    }
+// --- GET /api/projects/:id/meta
+const getProjectMetaRoute = createRoute({
+  method: 'get',
+  path: '/{id}/meta',
+  request: {
+    params: IdParamSchema
+  },
+  responses: {
+    200: { content: { 'application/json': { schema: ApiResponseSchema(ContentMetaSchema) } }, description: 'Metadata SEO, Open Graph dan Twitter untuk proyek' },
+    304: { description: 'Tidak berubah sejak ETag atau Last-Modified yang dikirim klien' },
+    404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Proyek tidak ditemukan' },
+    500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+  },
+  tags: ['Projects']
 });
 
 // --- POST /api/projects
-projects.openapi(createRoute({
+const createProjectRoute = createRoute({
   method: 'post',
   path: '/',
   request: {
     body: {
       content: {
-        'application/json': { schema: projectBaseSchema }
+        'application/json': { schema: CreateProjectSchema }
       }
     }
   },
+  middleware: requireRole('admin', 'editor'),
+  security: [{ bearerAuth: [] }],
   responses: {
     201: {
       description: 'Proyek berhasil dibuat',
       content: {
         'application/json': {
-          schema: z.object({ success: z.literal(true), data: projectSchemaWithId, message: z.string() })
+          schema: ApiResponseSchema(ProjectSchema)
         }
       }
-    }
+    },
+    400: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Validasi gagal, tag tidak dikenal atau jadwal terbit tidak valid' },
+    401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+    403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' },
+    500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
   },
   tags: ['Projects']
-}), async (c) => {
-  const validatedData = c.req.valid('json');
-  const now = Timestamp.now();
-  const newProject = {
-    ...validatedData,
-    createdAt: now,
-    updatedAt: now,
-    publishedAt: validatedData.publishedAt ? Timestamp.fromDate(new Date(validatedData.publishedAt)) : null
-  };
-  const docRef = await db.collection('projects').add(newProject);
-  const createdDoc = await docRef.get();
-  return c.json({ success: true, data: { id: docRef.id, ...convertTimestamps(createdDoc.data()!) }, message: 'Project created successfully' }, 201);
 });
 
-// --- PUT /api/projects/:id (INI YANG DIPERBAIKI) ---
+// --- PUT /api/projects/:id
 const updateProjectRoute = createRoute({
     method: 'put',
     path: '/{id}',
-    request: { 
-      params: IdParamSchema, 
-      body: { 
-        content: { 'application/json': { schema: UpdateProjectSchema } } 
-      } 
+    request: {
+      params: IdParamSchema,
+      body: {
+        content: { 'application/json': { schema: UpdateProjectSchema } }
+      }
     },
+    middleware: requireRole('admin', 'editor'),
+    security: [{ bearerAuth: [] }],
     responses: {
         200: { content: { 'application/json': { schema: ApiResponseSchema(ProjectSchema) } }, description: 'Proyek berhasil diperbarui' },
+        400: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Validasi gagal, tag tidak dikenal atau jadwal terbit tidak valid' },
+        401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+        403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' },
         404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Proyek tidak ditemukan' },
+        412: { content: { 'application/json': { schema: VersionConflictResponseSchema(ProjectSchema) } }, description: 'Versi di If-Match atau body sudah usang; data berisi dokumen terbaru' },
         500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
     },
     tags: ['Projects']
 });
-projects.openapi(updateProjectRoute, async (c) => {
-    try {
-        const { id } = c.req.valid('param');
-        const validatedData = c.req.valid('json');
-        const docRef = db.collection('projects').doc(id);
-
-        if (!(await docRef.get()).exists) {
-            return c.json({ success: false, error: `Proyek dengan ID ${id} tidak ditemukan` }, 404);
-        }
-        
-        const updatePayload: Record<string, any> = { 
-          ...validatedData, 
-          updatedAt: Timestamp.now() 
-        };
-
-        // Logika ini diadopsi dari kode Anda karena lebih baik
-        if ('publishedAt' in validatedData) {
-            updatePayload.publishedAt = validatedData.publishedAt ? Timestamp.fromDate(new Date(validatedData.publishedAt)) : null;
-        }
-
-        await docRef.update(updatePayload);
-        const updatedDoc = await docRef.get();
-        return c.json({ success: true, data: { id: updatedDoc.id, ...convertTimestamps(updatedDoc.data()!) }, message: 'Proyek berhasil diperbarui' });
-    } catch (error: any) {
-        console.error('Eror memperbarui proyek:', error);
-        return c.json({ success: false, error: 'Gagal memperbarui proyek.' }, 500);
-    }
-});
 
 // DELETE /projects/:id
 const deleteProjectRoute = createRoute({
     method: 'delete',
     path: '/{id}',
     request: { params: IdParamSchema },
+    middleware: requireRole('admin'),
+    security: [{ bearerAuth: [] }],
     responses: {
-        200: { content: { 'application/json': { schema: ApiResponseSchema(z.null()) } }, description: 'Proyek berhasil dihapus' },
+        200: { content: { 'application/json': { schema: ApiResponseSchema(z.null()) } }, description: 'Proyek dipindahkan ke tempat sampah' },
+        401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+        403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' },
         404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Proyek tidak ditemukan' },
         500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
     },
     tags: ['Projects']
 });
-projects.openapi(deleteProjectRoute, async (c) => {
+
+export interface ProjectRouteDependencies {
+  repository: ProjectRepository;
+  tags: TagRepository;
+  revisions: RevisionRepository;
+  search: SearchIndex;
+  // Jumlah revisi maksimum yang disimpan per project
+  revisionRetention: number;
+  // Dipakai untuk URL kanonik di metadata SEO
+  baseUrl: string;
+  // Render Markdown content menjadi HTML yang aman, di-cache per updatedAt
+  renderer: ContentRenderer;
+  events: EventBus;
+}
+
+export function createProjectRoutes({ repository, tags, revisions, search, revisionRetention, baseUrl, renderer, events }: ProjectRouteDependencies) {
+  const projects = new OpenAPIHono<AppEnv>({ defaultHook });
+
+  projects.use('*', authenticate);
+
+  // Field mentah ditambah contentHtml, toc, wordCount dan readingTimeMinutes
+  const withRendered = (project: Project) => ({ ...convertTimestamps(project), ...renderer.render('project', project) });
+
+  projects.openapi(getProjectsRoute, async (c) => {
+    try {
+      const { status: requestedStatus, tag, render, limit = DEFAULT_PAGE_LIMIT, cursor } = c.req.valid('query');
+      // Pengunjung anonim hanya boleh melihat proyek yang sudah dipublikasikan
+      const status = c.get('user') ? requestedStatus : 'published';
+      const page = await repository.list({ status, tag, limit, cursor });
+      // List hanya memakai ETag: item yang keluar dari list tidak mengubah updatedAt item lain
+      const { etag } = contentValidators(page.items, String(page.hasMore));
+      if (applyContentCaching(c, { etag }, { isPublic: !c.get('user') })) {
+        return c.body(null, 304);
+      }
+      const projectList = render === 'html' ? page.items.map(withRendered) : page.items.map(convertTimestamps);
+      return c.json({
+        success: true,
+        data: projectList,
+        pagination: { limit, nextCursor: page.nextCursor, hasMore: page.hasMore },
+        message: `Berhasil mengambil ${projectList.length} proyek`
+      }, 200);
+    } catch (error: any) {
+      if (error instanceof InvalidCursorError) {
+        return apiError(c, 400, 'INVALID_CURSOR');
+      }
+      console.error('Eror mengambil daftar proyek:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  projects.openapi(getProjectByIdRoute, async (c) => {
     try {
-        const { id } = c.req.valid('param');
-        const docRef = db.collection('projects').doc(id);
-        if (!(await docRef.get()).exists) {
-            return c.json({ success: false, error: `Proyek dengan ID ${id} tidak ditemukan` }, 404);
+      const { id } = c.req.valid('param');
+      const project = await repository.findById(id);
+
+      if (!project || (!c.get('user') && project.status !== 'published')) {
+        return apiError(c, 404, 'PROJECT_NOT_FOUND', { params: { id } });
+      }
+
+      if (applyContentCaching(c, documentValidators(project), { isPublic: !c.get('user') })) {
+        return c.body(null, 304);
+      }
+      return c.json({ success: true, data: withRendered(project) }, 200);
+    } catch (error: any) {
+      console.error('Eror mengambil proyek:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  projects.openapi(getProjectBySlugRoute, async (c) => {
+    try {
+      const { slug } = c.req.valid('param');
+      const isVisible = (project: { status: string }) => Boolean(c.get('user')) || project.status === 'published';
+
+      const project = await repository.findBySlug(slug);
+      if (project && isVisible(project)) {
+        if (applyContentCaching(c, documentValidators(project), { isPublic: !c.get('user') })) {
+          return c.body(null, 304);
         }
-        await docRef.delete();
-        return c.json({ success: true, data: null, message: 'Proyek berhasil dihapus' });
+        return c.json({ success: true, data: withRendered(project) }, 200);
+      }
+
+      // Slug lama tetap berlaku setelah judul berubah
+      const moved = await repository.findByPreviousSlug(slug);
+      if (moved && isVisible(moved)) {
+        return c.redirect(c.req.path.replace(/[^/]+$/, moved.slug), 301);
+      }
+
+      return apiError(c, 404, 'PROJECT_NOT_FOUND', { params: { slug } });
     } catch (error: any) {
-        console.error('Eror menghapus proyek:', error);
-        return c.json({ success: false, error: 'Gagal menghapus proyek.' }, 500);
+      console.error('Eror mengambil proyek berdasarkan slug:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
     }
-});
+  });
+
+  projects.openapi(getProjectMetaRoute, async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const project = await repository.findById(id);
+      if (!project || (!c.get('user') && project.status !== 'published')) {
+        return apiError(c, 404, 'PROJECT_NOT_FOUND', { params: { id } });
+      }
+      if (applyContentCaching(c, documentValidators(project), { isPublic: !c.get('user') })) {
+        return c.body(null, 304);
+      }
+      return c.json({ success: true, data: buildContentMeta('project', project, baseUrl) }, 200);
+    } catch (error: any) {
+      console.error('Eror membuat metadata proyek:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  projects.openapi(createProjectRoute, async (c) => {
+    try {
+      const validatedData = c.req.valid('json');
+      const resolvedTags = validatedData.tags && await resolveTagNames(tags, validatedData.tags);
+      if (resolvedTags?.unknown.length) {
+        return unknownTagsError(c, resolvedTags.unknown);
+      }
+      const publishedAt = toTimestamp(validatedData.publishedAt);
+      if (validatedData.status === 'scheduled' && !publishedAt) {
+        return apiError(c, 400, 'PUBLISHED_AT_REQUIRED');
+      }
+      const now = Timestamp.now();
+      const newProject = {
+        ...validatedData,
+        tags: resolvedTags ? resolvedTags.names : [],
+        status: resolvePublicationStatus(validatedData.status, publishedAt),
+        slug: await resolveUniqueSlug(repository, validatedData.slug ?? validatedData.title, 'project'),
+        previousSlugs: [],
+        createdAt: now,
+        updatedAt: now,
+        publishedAt
+      };
+      const created = await repository.create(newProject);
+      search.index('project', created);
+      publishContentChange(events, 'project', null, created, c.get('user')?.uid);
+      return c.json({ success: true, data: convertTimestamps(created), message: 'Proyek berhasil dibuat' }, 201);
+    } catch (error: any) {
+      console.error('Eror membuat proyek:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  projects.openapi(updateProjectRoute, async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const { version, ...validatedData } = c.req.valid('json');
+
+      const existing = await repository.findById(id);
+      if (!existing) {
+        return apiError(c, 404, 'PROJECT_NOT_FOUND', { params: { id } });
+      }
+
+      // Versi yang diharapkan dari If-Match, atau dari field version di body
+      const currentVersion = existing.version ?? 0;
+      const expectedVersion = ifMatchVersion(c) ?? version;
+      if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+        return versionConflictError(c, existing);
+      }
+
+      const resolvedTags = validatedData.tags && await resolveTagNames(tags, validatedData.tags);
+      if (resolvedTags?.unknown.length) {
+        return unknownTagsError(c, resolvedTags.unknown);
+      }
+
+      const updatePayload: Record<string, any> = {
+        ...validatedData,
+        updatedAt: Timestamp.now()
+      };
+
+      if (resolvedTags) {
+        updatePayload.tags = resolvedTags.names;
+      }
+
+      if ('publishedAt' in validatedData) {
+        updatePayload.publishedAt = toTimestamp(validatedData.publishedAt);
+      }
+
+      // Status dihitung ulang jika status atau jadwal terbit berubah
+      if (validatedData.status || 'publishedAt' in validatedData) {
+        const status = validatedData.status ?? existing.status;
+        const publishedAt = 'publishedAt' in validatedData ? updatePayload.publishedAt : existing.publishedAt;
+        if (status === 'scheduled' && !publishedAt) {
+          return apiError(c, 400, 'PUBLISHED_AT_REQUIRED');
+        }
+        updatePayload.status = resolvePublicationStatus(status, publishedAt);
+      }
+
+      // Slug dibuat ulang saat judul berubah, kecuali slug diberikan secara eksplisit
+      if (validatedData.slug || (validatedData.title && validatedData.title !== existing.title)) {
+        const slug = await resolveUniqueSlug(repository, validatedData.slug ?? validatedData.title!, 'project', id);
+        updatePayload.slug = slug;
+        updatePayload.previousSlugs = nextPreviousSlugs(existing, slug);
+      }
+
+      // Update ditolak jika dokumen berubah sejak dibaca di atas, sehingga penulisan bersamaan tidak saling menimpa
+      let updated;
+      try {
+        updated = await repository.update(id, updatePayload, {
+          expectedVersion: currentVersion,
+          revision: buildRevision(existing, updatePayload, c.get('user')?.uid)
+        });
+      } catch (error) {
+        if (error instanceof VersionConflictError) {
+          return versionConflictError(c, error.current as typeof existing);
+        }
+        throw error;
+      }
+      if (!updated) {
+        return apiError(c, 404, 'PROJECT_NOT_FOUND', { params: { id } });
+      }
+      await pruneRevisions(revisions, id, revisionRetention);
+      setValidators(c, documentValidators(updated));
+      search.index('project', updated);
+      publishContentChange(events, 'project', existing, updated, c.get('user')?.uid);
+      return c.json({ success: true, data: convertTimestamps(updated), message: 'Proyek berhasil diperbarui' }, 200);
+    } catch (error: any) {
+      console.error('Eror memperbarui proyek:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  projects.openapi(deleteProjectRoute, async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      // Masuk tempat sampah; dihapus permanen lewat /api/trash atau purge otomatis
+      const deleted = await repository.softDelete(id, { deletedAt: Timestamp.now(), deletedBy: c.get('user')?.uid });
+      if (!deleted) {
+        return apiError(c, 404, 'PROJECT_NOT_FOUND', { params: { id } });
+      }
+      search.remove('project', id);
+      events.publish('project.deleted', { id, userId: c.get('user')?.uid ?? null });
+      return c.json({ success: true, data: null, message: 'Proyek dipindahkan ke tempat sampah' }, 200);
+    } catch (error: any) {
+      console.error('Eror menghapus proyek:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  projects.route('/', createRevisionRoutes({ type: 'project', repository, revisions, tags, search, events, retention: revisionRetention }));
+  projects.route('/', createBulkRoutes({
+    type: 'project',
+    repository,
+    revisions,
+    tags,
+    search,
+    events,
+    retention: revisionRetention,
+    createSchema: CreateProjectSchema,
+    updateSchema: UpdateProjectSchema
+  }));
 
-export default projects;
+  return projects;
+}
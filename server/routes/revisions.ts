@@ -0,0 +1,283 @@
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
+import { Timestamp } from 'firebase-admin/firestore';
+import type { Revision } from '../../shared/schema';
+import { requireRole } from '../middleware/auth';
+import { VersionConflictError, type ContentRepository, type RevisionRepository, type TagRepository } from '../repositories';
+import { convertTimestamps } from '../utils/timestamps';
+import { documentValidators, ifMatchVersion, setValidators, versionConflictError } from '../utils/http-cache';
+import { nextPreviousSlugs, resolveUniqueSlug } from '../utils/slug';
+import { resolveTagNames } from '../utils/tags';
+import { resolvePublicationStatus } from '../utils/schedule';
+import { buildRevision, diffFields, pruneRevisions } from '../services/revisions';
+import type { SearchIndex, SearchableType } from '../services/search';
+import { publishContentChange, type EventBus } from '../services/events';
+import type { AppEnv } from '../types';
+import { apiError, defaultHook, notFoundCode } from '../errors';
+import { ApiResponseSchema, ErrorResponseSchema, IdParamSchema, VersionConflictResponseSchema } from '../openapi';
+
+const RevisionParamSchema = IdParamSchema.extend({
+  revisionId: z.string().min(1).openapi({
+    param: { name: 'revisionId', in: 'path' },
+    example: 'Vb7kQ2mXn4RtY8pLc3Wz'
+  })
+});
+
+const DiffQuerySchema = z.object({
+  // Tanpa `against`, revisi dibandingkan dengan isi dokumen saat ini
+  against: z.string().min(1).optional().openapi({ example: 'Hd5sK9wPq2LmZ7xBn1Rt' })
+});
+
+const RevisionSummarySchema = z.object({
+  id: z.string().openapi({ example: 'Vb7kQ2mXn4RtY8pLc3Wz' }),
+  revision: z.number().int().openapi({ example: 3 }),
+  title: z.string().nullable().openapi({ example: 'Judul sebelum diubah' }),
+  changedFields: z.array(z.string()).openapi({ example: ['title', 'content'] }),
+  createdBy: z.string().nullable().openapi({ example: 'editor-user' }),
+  createdAt: z.string().datetime().openapi({ example: '2025-06-06T04:11:32.091Z' })
+});
+
+const RevisionSchema = RevisionSummarySchema.extend({
+  snapshot: z.record(z.any()).openapi({ example: { title: 'Judul sebelum diubah', content: '...' } })
+});
+
+const RevisionDiffSchema = z.object({
+  from: z.string().openapi({ example: 'Vb7kQ2mXn4RtY8pLc3Wz' }),
+  to: z.string().openapi({ example: 'current' }),
+  changes: z.array(z.object({
+    field: z.string().openapi({ example: 'content' }),
+    before: z.any(),
+    after: z.any()
+  }))
+});
+
+// Field yang tidak dipulihkan dari snapshot
+const RESTORE_EXCLUDED_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'previousSlugs', 'version', 'commentCount']);
+
+const toRevisionSummary = (revision: Revision) => ({
+  id: revision.id,
+  revision: revision.revision,
+  title: typeof revision.snapshot.title === 'string' ? revision.snapshot.title : null,
+  changedFields: revision.changedFields,
+  createdBy: revision.createdBy ?? null,
+  createdAt: revision.createdAt.toDate().toISOString()
+});
+
+const toRevisionResponse = (revision: Revision) => ({
+  ...toRevisionSummary(revision),
+  snapshot: convertTimestamps(revision.snapshot)
+});
+
+export interface RevisionRouteDependencies {
+  type: SearchableType;
+  repository: ContentRepository<any>;
+  revisions: RevisionRepository;
+  tags: TagRepository;
+  search: SearchIndex;
+  events: EventBus;
+  retention: number;
+}
+
+// Dipasang di dalam router blog/proyek; middleware authenticate sudah dijalankan oleh router induk
+export function createRevisionRoutes({ type, repository, revisions, tags, search, events, retention }: RevisionRouteDependencies) {
+  const routes = new OpenAPIHono<AppEnv>({ defaultHook });
+  const label = type === 'blog' ? 'Blog' : 'Proyek';
+  const openApiTags = [type === 'blog' ? 'Blogs' : 'Projects'];
+
+  // --- GET /{id}/revisions
+  const listRevisionsRoute = createRoute({
+    method: 'get',
+    path: '/{id}/revisions',
+    request: { params: IdParamSchema },
+    middleware: requireRole('admin', 'editor'),
+    security: [{ bearerAuth: [] }],
+    responses: {
+      200: { content: { 'application/json': { schema: ApiResponseSchema(z.array(RevisionSummarySchema)) } }, description: 'Daftar revisi, terbaru lebih dulu' },
+      401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+      403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' },
+      404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: `${label} tidak ditemukan` },
+      500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+    },
+    tags: openApiTags
+  });
+
+  // --- GET /{id}/revisions/{revisionId}
+  const getRevisionRoute = createRoute({
+    method: 'get',
+    path: '/{id}/revisions/{revisionId}',
+    request: { params: RevisionParamSchema },
+    middleware: requireRole('admin', 'editor'),
+    security: [{ bearerAuth: [] }],
+    responses: {
+      200: { content: { 'application/json': { schema: ApiResponseSchema(RevisionSchema) } }, description: 'Satu revisi beserta snapshot lengkap' },
+      401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+      403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' },
+      404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Revisi tidak ditemukan' },
+      500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+    },
+    tags: openApiTags
+  });
+
+  // --- GET /{id}/revisions/{revisionId}/diff
+  const diffRevisionRoute = createRoute({
+    method: 'get',
+    path: '/{id}/revisions/{revisionId}/diff',
+    request: { params: RevisionParamSchema, query: DiffQuerySchema },
+    middleware: requireRole('admin', 'editor'),
+    security: [{ bearerAuth: [] }],
+    responses: {
+      200: { content: { 'application/json': { schema: ApiResponseSchema(RevisionDiffSchema) } }, description: 'Perbedaan per field antara dua versi' },
+      400: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Parameter query tidak valid' },
+      401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+      403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' },
+      404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Revisi tidak ditemukan' },
+      500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+    },
+    tags: openApiTags
+  });
+
+  // --- POST /{id}/revisions/{revisionId}/restore
+  const restoreRevisionRoute = createRoute({
+    method: 'post',
+    path: '/{id}/revisions/{revisionId}/restore',
+    request: { params: RevisionParamSchema },
+    middleware: requireRole('admin', 'editor'),
+    security: [{ bearerAuth: [] }],
+    responses: {
+      200: { content: { 'application/json': { schema: ApiResponseSchema(z.record(z.any())) } }, description: 'Dokumen dipulihkan ke isi revisi' },
+      401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+      403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' },
+      404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Revisi tidak ditemukan' },
+      412: { content: { 'application/json': { schema: VersionConflictResponseSchema(z.record(z.any())) } }, description: 'Versi di If-Match sudah usang atau dokumen berubah saat dipulihkan; data berisi dokumen terbaru' },
+      500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+    },
+    tags: openApiTags
+  });
+
+  routes.openapi(listRevisionsRoute, async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      if (!(await repository.findById(id))) {
+        return apiError(c, 404, notFoundCode(type), { params: { id } });
+      }
+      const revisionList = (await revisions.list(id)).map(toRevisionSummary);
+      return c.json({ success: true, data: revisionList, message: `Berhasil mengambil ${revisionList.length} revisi` }, 200);
+    } catch (error: any) {
+      console.error('Eror mengambil daftar revisi:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  routes.openapi(getRevisionRoute, async (c) => {
+    try {
+      const { id, revisionId } = c.req.valid('param');
+      const revision = await revisions.findById(id, revisionId);
+      if (!revision) {
+        return apiError(c, 404, 'REVISION_NOT_FOUND', { params: { id: revisionId } });
+      }
+      return c.json({ success: true, data: toRevisionResponse(revision) }, 200);
+    } catch (error: any) {
+      console.error('Eror mengambil revisi:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  routes.openapi(diffRevisionRoute, async (c) => {
+    try {
+      const { id, revisionId } = c.req.valid('param');
+      const { against } = c.req.valid('query');
+
+      const revision = await revisions.findById(id, revisionId);
+      if (!revision) {
+        return apiError(c, 404, 'REVISION_NOT_FOUND', { params: { id: revisionId } });
+      }
+
+      let target: Record<string, any> | null;
+      if (against) {
+        target = (await revisions.findById(id, against))?.snapshot ?? null;
+      } else {
+        target = await repository.findById(id);
+      }
+      if (!target) {
+        return against
+          ? apiError(c, 404, 'REVISION_NOT_FOUND', { params: { id: against } })
+          : apiError(c, 404, notFoundCode(type), { params: { id } });
+      }
+
+      return c.json({
+        success: true,
+        data: { from: revisionId, to: against ?? 'current', changes: diffFields(revision.snapshot, target) }
+      }, 200);
+    } catch (error: any) {
+      console.error('Eror membandingkan revisi:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  routes.openapi(restoreRevisionRoute, async (c) => {
+    try {
+      const { id, revisionId } = c.req.valid('param');
+
+      const existing = await repository.findById(id);
+      if (!existing) {
+        return apiError(c, 404, notFoundCode(type), { params: { id } });
+      }
+      const currentVersion = existing.version ?? 0;
+      const expectedVersion = ifMatchVersion(c);
+      if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+        return versionConflictError(c, existing);
+      }
+      const revision = await revisions.findById(id, revisionId);
+      if (!revision) {
+        return apiError(c, 404, 'REVISION_NOT_FOUND', { params: { id: revisionId } });
+      }
+
+      // Field yang belum ada saat revisi dibuat dikosongkan agar isinya benar-benar sama
+      const restorePayload: Record<string, any> = {};
+      for (const field of new Set([...Object.keys(existing), ...Object.keys(revision.snapshot)])) {
+        if (!RESTORE_EXCLUDED_FIELDS.has(field)) {
+          restorePayload[field] = revision.snapshot[field] ?? null;
+        }
+      }
+      restorePayload.updatedAt = Timestamp.now();
+
+      // Slug lama mungkin sudah dipakai dokumen lain sejak revisi ini dibuat
+      if (restorePayload.slug !== existing.slug) {
+        const slug = await resolveUniqueSlug(repository, restorePayload.slug ?? existing.title, type, id);
+        restorePayload.slug = slug;
+        restorePayload.previousSlugs = nextPreviousSlugs(existing, slug);
+      }
+
+      // Tag yang sudah dihapus tidak ikut dipulihkan
+      restorePayload.tags = (await resolveTagNames(tags, restorePayload.tags ?? [])).names;
+      restorePayload.status = resolvePublicationStatus(restorePayload.status ?? 'draft', restorePayload.publishedAt);
+
+      // Sama dengan PUT /{id}: ditolak jika dokumen berubah sejak dibaca di atas. Isi sebelumnya juga disimpan
+      // sebagai revisi sehingga pemulihan bisa dibatalkan
+      let updated;
+      try {
+        updated = await repository.update(id, restorePayload, {
+          expectedVersion: currentVersion,
+          revision: buildRevision(existing, restorePayload, c.get('user')?.uid)
+        });
+      } catch (error) {
+        if (error instanceof VersionConflictError) {
+          return versionConflictError(c, error.current as typeof existing);
+        }
+        throw error;
+      }
+      if (!updated) {
+        return apiError(c, 404, notFoundCode(type), { params: { id } });
+      }
+      await pruneRevisions(revisions, id, retention);
+      setValidators(c, documentValidators(updated));
+      search.index(type, updated);
+      publishContentChange(events, type, existing, updated, c.get('user')?.uid);
+      return c.json({ success: true, data: convertTimestamps(updated), message: `${label} dipulihkan ke revisi ${revision.revision}` }, 200);
+    } catch (error: any) {
+      console.error('Eror memulihkan revisi:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  return routes;
+}
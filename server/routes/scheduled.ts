@@ -0,0 +1,80 @@
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
+import { apiError, defaultHook } from '../errors';
+import { authenticate, requireRole } from '../middleware/auth';
+import type { BlogRepository, ProjectRepository } from '../repositories';
+import type { AppEnv } from '../types';
+import { ApiResponseSchema, ErrorResponseSchema } from '../openapi';
+
+const ScheduledQuerySchema = z.object({
+  type: z.enum(['blog', 'project']).optional().openapi({ example: 'blog' }),
+  limit: z.coerce.number().int().min(1).max(100).optional().openapi({ example: 20 })
+});
+
+const ScheduledItemSchema = z.object({
+  type: z.enum(['blog', 'project']).openapi({ example: 'blog' }),
+  id: z.string().openapi({ example: 'ajL8SflPjZum2GcjBq2e' }),
+  slug: z.string().nullable().openapi({ example: 'rilis-versi-dua' }),
+  title: z.string().openapi({ example: 'Rilis Versi Dua' }),
+  publishedAt: z.string().datetime().openapi({ example: '2025-07-01T08:00:00.000Z' })
+});
+
+// --- GET /api/scheduled
+const getScheduledRoute = createRoute({
+  method: 'get',
+  path: '/',
+  request: { query: ScheduledQuerySchema },
+  middleware: requireRole('admin', 'editor'),
+  security: [{ bearerAuth: [] }],
+  responses: {
+    200: {
+      description: 'Konten terjadwal yang akan terbit, diurutkan dari yang paling dekat',
+      content: { 'application/json': { schema: ApiResponseSchema(z.array(ScheduledItemSchema)) } }
+    },
+    400: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Parameter query tidak valid' },
+    401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+    403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' },
+    500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+  },
+  tags: ['Scheduled']
+});
+
+export interface ScheduledRouteDependencies {
+  blogs: BlogRepository;
+  projects: ProjectRepository;
+}
+
+export function createScheduledRoutes({ blogs, projects }: ScheduledRouteDependencies) {
+  const scheduled = new OpenAPIHono<AppEnv>({ defaultHook });
+
+  scheduled.use('*', authenticate);
+
+  scheduled.openapi(getScheduledRoute, async (c) => {
+    try {
+      const { type, limit = 20 } = c.req.valid('query');
+      const sources = [
+        ...(type !== 'project' ? [['blog', blogs] as const] : []),
+        ...(type !== 'blog' ? [['project', projects] as const] : [])
+      ];
+
+      const items = (await Promise.all(sources.map(async ([itemType, repository]) =>
+        (await repository.listScheduled({ limit })).map(item => ({
+          type: itemType,
+          id: item.id,
+          slug: item.slug ?? null,
+          title: item.title,
+          publishedAt: item.publishedAt!.toDate().toISOString()
+        }))
+      )))
+        .flat()
+        .sort((a, b) => a.publishedAt.localeCompare(b.publishedAt))
+        .slice(0, limit);
+
+      return c.json({ success: true, data: items, message: `Ada ${items.length} konten terjadwal` }, 200);
+    } catch (error: any) {
+      console.error('Eror mengambil konten terjadwal:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  return scheduled;
+}
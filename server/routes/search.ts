@@ -0,0 +1,57 @@
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
+import { defaultHook } from '../errors';
+import { authenticate } from '../middleware/auth';
+import type { SearchIndex } from '../services/search';
+import type { AppEnv } from '../types';
+import { ApiResponseSchema, ErrorResponseSchema } from '../openapi';
+
+const SearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200).openapi({ example: 'typescript hono' }),
+  type: z.enum(['blog', 'project']).optional().openapi({ example: 'blog' }),
+  limit: z.coerce.number().int().min(1).max(50).optional().openapi({ example: 10 })
+});
+
+const SearchResultSchema = z.object({
+  type: z.enum(['blog', 'project']).openapi({ example: 'blog' }),
+  id: z.string().openapi({ example: 'ajL8SflPjZum2GcjBq2e' }),
+  slug: z.string().nullable().openapi({ example: 'belajar-hono' }),
+  title: z.string().openapi({ example: 'Belajar Hono' }),
+  score: z.number().openapi({ example: 2.197 }),
+  highlights: z.array(z.object({
+    field: z.string().openapi({ example: 'content' }),
+    snippet: z.string().openapi({ example: '…membangun API dengan <mark>Hono</mark> dan Bun…' })
+  }))
+});
+
+// --- GET /api/search
+const searchRoute = createRoute({
+  method: 'get',
+  path: '/',
+  request: { query: SearchQuerySchema },
+  responses: {
+    200: {
+      description: 'Hasil pencarian berperingkat dengan potongan teks yang disorot',
+      content: { 'application/json': { schema: ApiResponseSchema(z.array(SearchResultSchema)) } }
+    },
+    400: {
+      description: 'Parameter pencarian tidak valid',
+      content: { 'application/json': { schema: ErrorResponseSchema } }
+    }
+  },
+  tags: ['Search']
+});
+
+export function createSearchRoutes(search: SearchIndex) {
+  const searchRoutes = new OpenAPIHono<AppEnv>({ defaultHook });
+
+  searchRoutes.use('*', authenticate);
+
+  searchRoutes.openapi(searchRoute, (c) => {
+    const { q, type, limit } = c.req.valid('query');
+    // Draft hanya ikut dicari untuk pengguna yang sudah login
+    const results = search.search(q, { type, limit, includeDrafts: Boolean(c.get('user')) });
+    return c.json({ success: true, data: results, message: `Ditemukan ${results.length} hasil` }, 200);
+  });
+
+  return searchRoutes;
+}
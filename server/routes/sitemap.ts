@@ -0,0 +1,77 @@
+import { Hono, type Context } from 'hono';
+import type { BlogRepository, ProjectRepository } from '../repositories';
+import { apiError } from '../errors';
+import {
+  SITEMAP_URL_LIMIT,
+  collectSitemapEntries,
+  latestModification,
+  renderRobots,
+  renderSitemapIndex,
+  renderUrlset
+} from '../services/sitemap';
+import { computeEtag, isNotModified, setValidators } from '../utils/http-cache';
+import type { AppEnv } from '../types';
+
+const XML_CONTENT_TYPE = 'application/xml; charset=utf-8';
+
+export interface SitemapRouteDependencies {
+  blogs: BlogRepository;
+  projects: ProjectRepository;
+  baseUrl: string;
+  // Jumlah URL per file sitemap sebelum dipecah menjadi sitemap index
+  urlLimit?: number;
+}
+
+export function createSitemapRoutes({ blogs, projects, baseUrl, urlLimit = SITEMAP_URL_LIMIT }: SitemapRouteDependencies) {
+  const sitemap = new Hono<AppEnv>();
+
+  const collect = () => collectSitemapEntries(baseUrl, [['blog', blogs], ['project', projects]]);
+
+  const sendXml = (c: Context<AppEnv>, body: string, lastModified: Date | null) => {
+    const validators = { etag: computeEtag(body), lastModified };
+    setValidators(c, validators);
+    c.header('Cache-Control', 'public, max-age=3600');
+    if (isNotModified(c, validators)) {
+      return c.body(null, 304);
+    }
+    return c.body(body, 200, { 'Content-Type': XML_CONTENT_TYPE });
+  };
+
+  // Satu urlset selama jumlah URL masih di bawah batas, selebihnya sitemap index ke /sitemaps/{n}.xml
+  sitemap.get('/sitemap.xml', async (c) => {
+    try {
+      const entries = await collect();
+      if (entries.length <= urlLimit) {
+        return sendXml(c, renderUrlset(entries), latestModification(entries));
+      }
+
+      const chunks = Array.from({ length: Math.ceil(entries.length / urlLimit) }, (_, i) =>
+        entries.slice(i * urlLimit, (i + 1) * urlLimit)
+      );
+      const index = chunks.map((chunk, i) => ({ loc: `${baseUrl}/sitemaps/${i + 1}.xml`, lastmod: latestModification(chunk) }));
+      return sendXml(c, renderSitemapIndex(index), latestModification(entries));
+    } catch (error) {
+      console.error('Eror membuat sitemap:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  sitemap.get('/sitemaps/:file{[0-9]+\\.xml}', async (c) => {
+    try {
+      const page = Number.parseInt(c.req.param('file'), 10);
+      const entries = await collect();
+      const chunk = entries.slice((page - 1) * urlLimit, page * urlLimit);
+      if (page < 1 || chunk.length === 0 || entries.length <= urlLimit) {
+        return apiError(c, 404, 'SITEMAP_NOT_FOUND');
+      }
+      return sendXml(c, renderUrlset(chunk), latestModification(chunk));
+    } catch (error) {
+      console.error('Eror membuat sitemap:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  sitemap.get('/robots.txt', (c) => c.text(renderRobots(baseUrl)));
+
+  return sitemap;
+}
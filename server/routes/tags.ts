@@ -0,0 +1,243 @@
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
+import { Timestamp } from 'firebase-admin/firestore';
+import type { Tag } from '../../shared/schema';
+import { authenticate, requireRole } from '../middleware/auth';
+import { apiError, defaultHook } from '../errors';
+import type { BlogRepository, ProjectRepository, TagRepository } from '../repositories';
+import { slugify } from '../utils/slug';
+import type { AppEnv } from '../types';
+import {
+  TagSchema,
+  TagWithUsageSchema,
+  CreateTagSchema,
+  UpdateTagSchema,
+  ApiResponseSchema,
+  ErrorResponseSchema,
+  IdParamSchema
+} from '../openapi';
+
+// --- GET /api/tags
+const getTagsRoute = createRoute({
+  method: 'get',
+  path: '/',
+  responses: {
+    200: { content: { 'application/json': { schema: ApiResponseSchema(z.array(TagWithUsageSchema)) } }, description: 'Daftar tag beserta jumlah pemakaiannya' },
+    500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+  },
+  tags: ['Tags']
+});
+
+// --- GET /api/tags/:id
+const getTagByIdRoute = createRoute({
+  method: 'get',
+  path: '/{id}',
+  request: { params: IdParamSchema },
+  responses: {
+    200: { content: { 'application/json': { schema: ApiResponseSchema(TagSchema) } }, description: 'Satu data tag' },
+    404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Tag tidak ditemukan' },
+    500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+  },
+  tags: ['Tags']
+});
+
+// --- POST /api/tags
+const createTagRoute = createRoute({
+  method: 'post',
+  path: '/',
+  request: { body: { content: { 'application/json': { schema: CreateTagSchema } } } },
+  middleware: requireRole('admin', 'editor'),
+  security: [{ bearerAuth: [] }],
+  responses: {
+    201: { content: { 'application/json': { schema: ApiResponseSchema(TagSchema) } }, description: 'Tag berhasil dibuat' },
+    400: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Validasi gagal' },
+    401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+    403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' },
+    409: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Nama tag sudah dipakai' },
+    500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+  },
+  tags: ['Tags']
+});
+
+// --- PUT /api/tags/:id
+const updateTagRoute = createRoute({
+  method: 'put',
+  path: '/{id}',
+  request: { params: IdParamSchema, body: { content: { 'application/json': { schema: UpdateTagSchema } } } },
+  middleware: requireRole('admin', 'editor'),
+  security: [{ bearerAuth: [] }],
+  responses: {
+    200: { content: { 'application/json': { schema: ApiResponseSchema(TagSchema) } }, description: 'Tag berhasil diperbarui' },
+    400: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Validasi gagal' },
+    401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+    403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' },
+    404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Tag tidak ditemukan' },
+    409: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Nama tag sudah dipakai' },
+    500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+  },
+  tags: ['Tags']
+});
+
+// --- DELETE /api/tags/:id
+const deleteTagRoute = createRoute({
+  method: 'delete',
+  path: '/{id}',
+  request: { params: IdParamSchema },
+  middleware: requireRole('admin'),
+  security: [{ bearerAuth: [] }],
+  responses: {
+    200: { content: { 'application/json': { schema: ApiResponseSchema(z.null()) } }, description: 'Tag berhasil dihapus' },
+    401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+    403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' },
+    404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Tag tidak ditemukan' },
+    500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+  },
+  tags: ['Tags']
+});
+
+// nameLower hanya dipakai untuk pencarian, tidak ikut dikirim ke klien
+const toTagResponse = (tag: Tag) => ({
+  id: tag.id,
+  name: tag.name,
+  slug: tag.slug,
+  description: tag.description ?? null,
+  createdAt: tag.createdAt.toDate().toISOString(),
+  updatedAt: tag.updatedAt.toDate().toISOString()
+});
+
+export interface TagRouteDependencies {
+  repository: TagRepository;
+  blogs: BlogRepository;
+  projects: ProjectRepository;
+}
+
+export function createTagRoutes({ repository, blogs, projects }: TagRouteDependencies) {
+  const tags = new OpenAPIHono<AppEnv>({ defaultHook });
+
+  tags.use('*', authenticate);
+
+  tags.openapi(getTagsRoute, async (c) => {
+    try {
+      // Pengunjung anonim hanya menghitung konten yang sudah dipublikasikan
+      const status = c.get('user') ? undefined : 'published';
+      const tagList = await Promise.all((await repository.list()).map(async (tag) => {
+        const [blogCount, projectCount] = await Promise.all([
+          blogs.countByTag(tag.name, { status }),
+          projects.countByTag(tag.name, { status })
+        ]);
+        return {
+          ...toTagResponse(tag),
+          usage: { blogs: blogCount, projects: projectCount, total: blogCount + projectCount }
+        };
+      }));
+      return c.json({ success: true, data: tagList, message: `Berhasil mengambil ${tagList.length} tag` }, 200);
+    } catch (error: any) {
+      console.error('Eror mengambil daftar tag:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  tags.openapi(getTagByIdRoute, async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const tag = await repository.findById(id);
+      if (!tag) {
+        return apiError(c, 404, 'TAG_NOT_FOUND', { params: { id } });
+      }
+      return c.json({ success: true, data: toTagResponse(tag) }, 200);
+    } catch (error: any) {
+      console.error('Eror mengambil tag:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  tags.openapi(createTagRoute, async (c) => {
+    try {
+      const { name, description } = c.req.valid('json');
+      if (await repository.findByName(name)) {
+        return apiError(c, 409, 'TAG_EXISTS', { params: { name } });
+      }
+      const now = Timestamp.now();
+      const created = await repository.create({
+        name,
+        nameLower: name.toLowerCase(),
+        slug: slugify(name) || 'tag',
+        description: description ?? null,
+        createdAt: now,
+        updatedAt: now
+      });
+      return c.json({ success: true, data: toTagResponse(created), message: 'Tag berhasil dibuat' }, 201);
+    } catch (error: any) {
+      console.error('Eror membuat tag:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  tags.openapi(updateTagRoute, async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const { name, description } = c.req.valid('json');
+
+      const existing = await repository.findById(id);
+      if (!existing) {
+        return apiError(c, 404, 'TAG_NOT_FOUND', { params: { id } });
+      }
+
+      const updatePayload: Partial<Omit<Tag, 'id'>> = { updatedAt: Timestamp.now() };
+      if (description !== undefined) {
+        updatePayload.description = description;
+      }
+
+      const renamed = name !== undefined && name !== existing.name;
+      if (renamed) {
+        const conflict = await repository.findByName(name);
+        if (conflict && conflict.id !== id) {
+          return apiError(c, 409, 'TAG_EXISTS', { params: { name } });
+        }
+        updatePayload.name = name;
+        updatePayload.nameLower = name.toLowerCase();
+        updatePayload.slug = slugify(name) || 'tag';
+      }
+
+      const updated = await repository.update(id, updatePayload);
+      if (!updated) {
+        return apiError(c, 404, 'TAG_NOT_FOUND', { params: { id } });
+      }
+
+      // Dokumen menyimpan nama tag, jadi perubahan nama harus diteruskan ke semua blog dan proyek
+      if (renamed) {
+        await Promise.all([
+          blogs.replaceTag(existing.name, updated.name),
+          projects.replaceTag(existing.name, updated.name)
+        ]);
+      }
+
+      return c.json({ success: true, data: toTagResponse(updated), message: 'Tag berhasil diperbarui' }, 200);
+    } catch (error: any) {
+      console.error('Eror memperbarui tag:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  tags.openapi(deleteTagRoute, async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const existing = await repository.findById(id);
+      if (!existing) {
+        return apiError(c, 404, 'TAG_NOT_FOUND', { params: { id } });
+      }
+
+      await Promise.all([
+        blogs.replaceTag(existing.name, null),
+        projects.replaceTag(existing.name, null)
+      ]);
+      await repository.delete(id);
+
+      return c.json({ success: true, data: null, message: `Tag ${existing.name} berhasil dihapus` }, 200);
+    } catch (error: any) {
+      console.error('Eror menghapus tag:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  return tags;
+}
@@ -0,0 +1,259 @@
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
+import { Timestamp } from 'firebase-admin/firestore';
+import { apiError, defaultHook } from '../errors';
+import { authenticate, requireRole } from '../middleware/auth';
+import type { BlogRepository, CommentRepository, ContentRepository, ProjectRepository, RevisionRepository } from '../repositories';
+import { VARIANT_FILENAME_PATTERN } from '../services/images';
+import type { SearchIndex } from '../services/search';
+import { deleteImage, moveImage } from '../services/trash';
+import { publishContentChange, type EventBus } from '../services/events';
+import type { StorageDriver } from '../storage';
+import { nextPreviousSlugs, resolveUniqueSlug } from '../utils/slug';
+import { contentUrl, type ContentType } from '../utils/urls';
+import type { AppEnv } from '../types';
+import { ApiResponseSchema, ErrorResponseSchema } from '../openapi';
+
+const TrashTypeSchema = z.enum(['blog', 'project', 'image']);
+
+const TrashQuerySchema = z.object({
+  type: TrashTypeSchema.optional().openapi({ example: 'blog' })
+});
+
+const TrashParamSchema = z.object({
+  type: TrashTypeSchema.openapi({ param: { name: 'type', in: 'path' }, example: 'blog' }),
+  // ID dokumen untuk blog/proyek, nama file untuk gambar
+  id: z.string().min(1).openapi({ param: { name: 'id', in: 'path' }, example: 'ajL8SflPjZum2GcjBq2e' })
+});
+
+const TrashItemSchema = z.object({
+  type: TrashTypeSchema.openapi({ example: 'blog' }),
+  id: z.string().openapi({ example: 'ajL8SflPjZum2GcjBq2e' }),
+  title: z.string().openapi({ example: 'Tulisan yang Terhapus' }),
+  slug: z.string().nullable().openapi({ example: 'tulisan-yang-terhapus' }),
+  deletedAt: z.string().datetime().openapi({ example: '2025-07-01T08:00:00.000Z' }),
+  deletedBy: z.string().nullable().openapi({ example: 'admin-user' })
+});
+
+const RestoredItemSchema = z.object({
+  type: TrashTypeSchema.openapi({ example: 'blog' }),
+  id: z.string().openapi({ example: 'ajL8SflPjZum2GcjBq2e' }),
+  title: z.string().openapi({ example: 'Tulisan yang Terhapus' }),
+  slug: z.string().nullable().openapi({ example: 'tulisan-yang-terhapus' }),
+  url: z.string().url().openapi({ example: 'https://example.com/api/blogs/slug/tulisan-yang-terhapus' })
+});
+
+const IMAGE_FILENAME_PATTERN = /^[a-zA-Z0-9_.-]+\.(jpg|jpeg|png|webp)$/i;
+
+const TYPE_LABELS: Record<z.infer<typeof TrashTypeSchema>, string> = {
+  blog: 'Blog',
+  project: 'Proyek',
+  image: 'Gambar'
+};
+
+// --- GET /api/trash
+const getTrashRoute = createRoute({
+  method: 'get',
+  path: '/',
+  request: { query: TrashQuerySchema },
+  middleware: requireRole('admin', 'editor'),
+  security: [{ bearerAuth: [] }],
+  responses: {
+    200: {
+      description: 'Isi tempat sampah, diurutkan dari yang terakhir dihapus',
+      content: { 'application/json': { schema: ApiResponseSchema(z.array(TrashItemSchema)) } }
+    },
+    400: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Parameter query tidak valid' },
+    401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+    403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' },
+    500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+  },
+  tags: ['Trash']
+});
+
+// --- POST /api/trash/:type/:id/restore
+const restoreTrashRoute = createRoute({
+  method: 'post',
+  path: '/{type}/{id}/restore',
+  request: { params: TrashParamSchema },
+  middleware: requireRole('admin', 'editor'),
+  security: [{ bearerAuth: [] }],
+  responses: {
+    200: {
+      description: 'Item dikeluarkan dari tempat sampah',
+      content: { 'application/json': { schema: ApiResponseSchema(RestoredItemSchema) } }
+    },
+    400: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Nama file tidak valid' },
+    401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+    403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' },
+    404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Item tidak ada di tempat sampah' },
+    409: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Gambar dengan nama yang sama sudah ada' },
+    500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+  },
+  tags: ['Trash']
+});
+
+// --- DELETE /api/trash/:type/:id
+const purgeTrashItemRoute = createRoute({
+  method: 'delete',
+  path: '/{type}/{id}',
+  request: { params: TrashParamSchema },
+  middleware: requireRole('admin'),
+  security: [{ bearerAuth: [] }],
+  responses: {
+    200: {
+      description: 'Item dihapus permanen',
+      content: { 'application/json': { schema: ApiResponseSchema(z.null()) } }
+    },
+    400: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Nama file tidak valid' },
+    401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+    403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' },
+    404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Item tidak ada di tempat sampah' },
+    500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+  },
+  tags: ['Trash']
+});
+
+export interface TrashRouteDependencies {
+  blogs: BlogRepository;
+  projects: ProjectRepository;
+  revisions: { blogs: RevisionRepository; projects: RevisionRepository };
+  // Komentar blog ikut dihapus saat blognya dihapus permanen
+  comments: CommentRepository;
+  storage: StorageDriver;
+  // Storage tempat gambar yang dihapus disimpan sementara
+  trash: StorageDriver;
+  search: SearchIndex;
+  // Item yang dipulihkan muncul lagi sebagai event *.created
+  events: EventBus;
+  baseUrl: string;
+}
+
+export function createTrashRoutes({ blogs, projects, revisions, comments, storage, trash, search, events, baseUrl }: TrashRouteDependencies) {
+  const router = new OpenAPIHono<AppEnv>({ defaultHook });
+
+  router.use('*', authenticate);
+
+  const contentSources: Record<ContentType, { repository: ContentRepository<any>; revisions: RevisionRepository }> = {
+    blog: { repository: blogs, revisions: revisions.blogs },
+    project: { repository: projects, revisions: revisions.projects }
+  };
+
+  router.openapi(getTrashRoute, async (c) => {
+    try {
+      const { type } = c.req.valid('query');
+
+      const content = await Promise.all((['blog', 'project'] as const)
+        .filter(itemType => !type || type === itemType)
+        .map(async itemType => (await contentSources[itemType].repository.listDeleted()).map(item => ({
+          type: itemType,
+          id: item.id as string,
+          title: item.title as string,
+          slug: (item.slug as string | undefined) ?? null,
+          deletedAt: (item.deletedAt as Timestamp).toDate().toISOString(),
+          deletedBy: (item.deletedBy as string | undefined) ?? null
+        }))));
+
+      // Waktu file ditulis ke storage tempat sampah adalah waktu penghapusannya
+      const images = !type || type === 'image'
+        ? (await trash.list())
+          .filter(file => !VARIANT_FILENAME_PATTERN.test(file.filename))
+          .map(file => ({
+            type: 'image' as const,
+            id: file.filename,
+            title: file.filename,
+            slug: null,
+            deletedAt: file.uploadDate ?? new Date(0).toISOString(),
+            deletedBy: null
+          }))
+        : [];
+
+      const items = [...content.flat(), ...images].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+      return c.json({ success: true, data: items, message: `Ada ${items.length} item di tempat sampah` }, 200);
+    } catch (error: any) {
+      console.error('Eror mengambil isi tempat sampah:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  router.openapi(restoreTrashRoute, async (c) => {
+    const { type, id } = c.req.valid('param');
+    const notFound = () => apiError(c, 404, 'TRASH_ITEM_NOT_FOUND', { params: { type, id } });
+
+    try {
+      if (type === 'image') {
+        if (!IMAGE_FILENAME_PATTERN.test(id)) {
+          return apiError(c, 400, 'INVALID_FILENAME');
+        }
+        if (!(await trash.exists(id))) return notFound();
+        if (await storage.exists(id)) {
+          return apiError(c, 409, 'FILE_EXISTS', { params: { filename: id } });
+        }
+        await moveImage(trash, storage, id);
+        events.publish('upload.created', { filename: id, url: storage.publicUrl(id), userId: c.get('user')?.uid ?? null });
+        return c.json({
+          success: true,
+          data: { type, id, title: id, slug: null, url: storage.publicUrl(id) },
+          message: `Gambar ${id} berhasil dipulihkan`
+        }, 200);
+      }
+
+      const { repository } = contentSources[type];
+      const deleted = await repository.findDeleted(id);
+      if (!deleted) return notFound();
+
+      // Slug bisa saja sudah dipakai dokumen lain selama item ini berada di tempat sampah.
+      // Dicek sebelum restore, karena setelahnya findBySlug bisa mengembalikan dokumen ini sendiri.
+      const slug = await resolveUniqueSlug(repository, deleted.slug ?? deleted.title ?? '', type, id);
+      const restorePayload: Record<string, unknown> = { slug, updatedAt: Timestamp.now() };
+      // Slug lama tetap diarahkan ke slug baru, sama seperti saat slug diubah lewat update
+      if (slug !== deleted.slug) {
+        restorePayload.previousSlugs = nextPreviousSlugs(deleted, slug);
+      }
+      // Slug baru ditulis bersama pemulihan agar item tidak pernah aktif dengan slug yang bentrok
+      const restored = await repository.restore(id, restorePayload);
+      if (!restored) return notFound();
+      search.index(type, restored);
+      publishContentChange(events, type, null, restored, c.get('user')?.uid);
+
+      return c.json({
+        success: true,
+        data: { type, id, title: restored.title, slug, url: contentUrl(baseUrl, type, slug) },
+        message: `${TYPE_LABELS[type]} berhasil dipulihkan`
+      }, 200);
+    } catch (error: any) {
+      console.error('Eror memulihkan item dari tempat sampah:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  router.openapi(purgeTrashItemRoute, async (c) => {
+    const { type, id } = c.req.valid('param');
+    const notFound = () => apiError(c, 404, 'TRASH_ITEM_NOT_FOUND', { params: { type, id } });
+
+    try {
+      if (type === 'image') {
+        if (!IMAGE_FILENAME_PATTERN.test(id)) {
+          return apiError(c, 400, 'INVALID_FILENAME');
+        }
+        if (!(await trash.exists(id))) return notFound();
+        await deleteImage(trash, id);
+      } else {
+        // Hanya item yang sudah di tempat sampah yang bisa dihapus permanen
+        const source = contentSources[type];
+        if (!(await source.repository.findDeleted(id))) return notFound();
+        await source.repository.delete(id);
+        await source.revisions.deleteAll(id);
+        if (type === 'blog') {
+          await comments.deleteByBlog(id);
+        }
+      }
+
+      return c.json({ success: true, data: null, message: `${TYPE_LABELS[type]} ${id} dihapus permanen` }, 200);
+    } catch (error: any) {
+      console.error('Eror menghapus permanen item tempat sampah:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,281 @@
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
+import type { Handler } from 'hono';
+import { apiError, defaultHook } from '../errors';
+import { authenticate, requireRole } from '../middleware/auth';
+import { ALLOWED_IMAGE_TYPES, MAX_UPLOAD_SIZE } from '../middleware/upload';
+import type { DailyQuota } from '../middleware/rate-limit';
+import {
+  IMAGE_CACHE_CONTROL,
+  InvalidImageError,
+  VARIANT_FILENAME_PATTERN,
+  processImage,
+  sniffImageType,
+  variantFilename
+} from '../services/images';
+import { moveImage } from '../services/trash';
+import type { EventBus } from '../services/events';
+import type { StorageDriver } from '../storage';
+import type { AppEnv } from '../types';
+import { ApiResponseSchema, ErrorResponseSchema } from '../openapi';
+
+const UploadResponseSchema = z.object({
+  filename: z.string(),
+  url: z.string().url(),
+  uploadDate: z.string().optional()
+});
+
+const ProcessedUploadResponseSchema = UploadResponseSchema.extend({
+  contentType: z.literal('image/webp'),
+  width: z.number().int().openapi({ example: 1920 }),
+  height: z.number().int().openapi({ example: 1080 }),
+  variants: z.array(z.object({
+    width: z.number().int().openapi({ example: 320 }),
+    height: z.number().int().openapi({ example: 180 }),
+    url: z.string().url()
+  })),
+  // Siap dipakai di atribut srcset <img>, termasuk gambar ukuran penuh
+  srcset: z.string().openapi({ example: 'https://.../image-1-320w.webp 320w, https://.../image-1.webp 1920w' })
+});
+
+const FilenameParamSchema = z.object({
+  filename: z.string().min(1).openapi({
+    param: { name: 'filename', in: 'path' },
+    example: 'image-1717650000000-123456789.jpg'
+  })
+});
+
+const BYTES_PER_MB = 1024 * 1024;
+
+// Gambar yang dihapus dipindahkan ke `trash` dan bisa dipulihkan lewat /api/trash.
+// `quota` membatasi total byte yang boleh diunggah tiap klien per hari
+export function createUploadRoutes(storage: StorageDriver, trash: StorageDriver, events: EventBus, quota?: DailyQuota) {
+  const uploads = new OpenAPIHono<AppEnv>({ defaultHook });
+
+  uploads.use('*', authenticate);
+
+  // --- GET /api/upload
+  const getUploadsRoute = createRoute({
+    method: 'get',
+    path: '/',
+    responses: {
+      200: {
+        description: 'Daftar semua gambar yang diunggah',
+        content: { 'application/json': { schema: ApiResponseSchema(z.array(UploadResponseSchema)) } }
+      },
+      500: {
+        description: 'Eror server',
+        content: { 'application/json': { schema: ErrorResponseSchema } }
+      }
+    },
+    tags: ['Upload']
+  });
+
+  uploads.openapi(getUploadsRoute, async (c) => {
+    try {
+      // Varian ukuran tidak ditampilkan terpisah dari gambar utamanya
+      const files = (await storage.list()).filter(file => !VARIANT_FILENAME_PATTERN.test(file.filename));
+      const fileData = files.map(({ filename, url, uploadDate }) => ({ filename, url, uploadDate }));
+      return c.json({ success: true, data: fileData, message: `Berhasil mengambil ${fileData.length} gambar` }, 200);
+    } catch (err) {
+      console.error('Gagal mengambil daftar file dari storage:', err);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  // --- POST /api/upload
+  const uploadRoute = createRoute({
+    method: 'post',
+    path: '/',
+    middleware: requireRole('admin', 'editor'),
+    security: [{ bearerAuth: [] }],
+    request: {
+      body: {
+        content: {
+          'multipart/form-data': {
+            schema: z.object({
+              image: z.instanceof(File).openapi({ type: 'string', format: 'binary' })
+            })
+          }
+        }
+      }
+    },
+    responses: {
+      201: {
+        description: 'Gambar berhasil diunggah, dikonversi ke WebP beserta varian ukurannya',
+        content: { 'application/json': { schema: ApiResponseSchema(ProcessedUploadResponseSchema) } }
+      },
+      400: {
+        description: 'File tidak valid',
+        content: { 'application/json': { schema: ErrorResponseSchema } }
+      },
+      401: {
+        description: 'Autentikasi diperlukan',
+        content: { 'application/json': { schema: ErrorResponseSchema } }
+      },
+      403: {
+        description: 'Akses ditolak',
+        content: { 'application/json': { schema: ErrorResponseSchema } }
+      },
+      429: {
+        description: 'Terlalu banyak unggahan atau kuota unggahan harian habis',
+        content: { 'application/json': { schema: ErrorResponseSchema } }
+      },
+      500: {
+        description: 'Gagal mengunggah gambar',
+        content: { 'application/json': { schema: ErrorResponseSchema } }
+      }
+    },
+    tags: ['Upload']
+  });
+
+  uploads.openapi(uploadRoute, async (c) => {
+    // Byte yang sudah dipesan dari kuota, dikembalikan jika unggahan gagal
+    let reserved = 0;
+    try {
+      const body = await c.req.parseBody();
+      const file = body['image'] as File;
+
+      if (!file) {
+        return apiError(c, 400, 'NO_FILE');
+      }
+
+      if (file.size > MAX_UPLOAD_SIZE) {
+        return apiError(c, 400, 'FILE_TOO_LARGE', { params: { maxMb: MAX_UPLOAD_SIZE / BYTES_PER_MB } });
+      }
+
+      // Tipe file ditentukan dari magic bytes, nama file dan Content-Type dari klien diabaikan
+      const buffer = Buffer.from(await file.arrayBuffer());
+      const detectedType = sniffImageType(buffer);
+      if (!detectedType || !ALLOWED_IMAGE_TYPES.includes(detectedType)) {
+        return apiError(c, 400, 'UNSUPPORTED_FILE_TYPE');
+      }
+
+      if (quota) {
+        const reservation = await quota.reserve(c, file.size);
+        if (!reservation.allowed) {
+          c.header('Retry-After', String(Math.ceil((reservation.resetAt.getTime() - Date.now()) / 1000)));
+          return apiError(c, 429, 'UPLOAD_QUOTA_EXCEEDED', {
+            params: { limitMb: +(reservation.limit / BYTES_PER_MB).toFixed(2), remainingMb: +(reservation.remaining / BYTES_PER_MB).toFixed(2) }
+          });
+        }
+        reserved = file.size;
+      }
+
+      const image = await processImage(buffer);
+
+      const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+      const filename = `image-${uniqueSuffix}.webp`;
+      const options = { contentType: 'image/webp', cacheControl: IMAGE_CACHE_CONTROL };
+
+      const variants = await Promise.all(image.variants.map(async (variant) => {
+        const stored = await storage.put(variantFilename(filename, variant.width), variant.data, options);
+        return { width: variant.width, height: variant.height, url: stored.url };
+      }));
+      const stored = await storage.put(filename, image.original, options);
+
+      const srcset = [...variants, { width: image.width, url: stored.url }]
+        .map(({ width, url }) => `${url} ${width}w`)
+        .join(', ');
+      events.publish('upload.created', { filename: stored.filename, url: stored.url, userId: c.get('user')?.uid ?? null });
+
+      return c.json({
+        success: true,
+        data: {
+          filename: stored.filename,
+          url: stored.url,
+          uploadDate: stored.uploadDate,
+          contentType: 'image/webp' as const,
+          width: image.width,
+          height: image.height,
+          variants,
+          srcset
+        },
+        message: 'Gambar berhasil diunggah'
+      }, 201);
+    } catch (err) {
+      if (reserved) {
+        await quota?.release(c, reserved);
+      }
+      if (err instanceof InvalidImageError) {
+        return apiError(c, 400, 'INVALID_IMAGE');
+      }
+      console.error('Gagal mengunggah gambar ke storage:', err);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  // --- DELETE /api/upload/:filename
+  const deleteUploadRoute = createRoute({
+    method: 'delete',
+    path: '/{filename}',
+    request: {
+      params: FilenameParamSchema
+    },
+    middleware: requireRole('admin'),
+    security: [{ bearerAuth: [] }],
+    responses: {
+      200: {
+        description: 'Gambar dipindahkan ke tempat sampah',
+        content: { 'application/json': { schema: ApiResponseSchema(z.null()) } }
+      },
+      400: {
+        description: 'Nama file tidak valid',
+        content: { 'application/json': { schema: ErrorResponseSchema } }
+      },
+      401: {
+        description: 'Autentikasi diperlukan',
+        content: { 'application/json': { schema: ErrorResponseSchema } }
+      },
+      403: {
+        description: 'Akses ditolak',
+        content: { 'application/json': { schema: ErrorResponseSchema } }
+      },
+      404: {
+        description: 'Gambar tidak ditemukan',
+        content: { 'application/json': { schema: ErrorResponseSchema } }
+      },
+      500: {
+        description: 'Gagal menghapus gambar',
+        content: { 'application/json': { schema: ErrorResponseSchema } }
+      }
+    },
+    tags: ['Upload']
+  });
+
+  uploads.openapi(deleteUploadRoute, async (c) => {
+    const { filename } = c.req.valid('param');
+
+    if (!/^[a-zA-Z0-9_.-]+\.(jpg|jpeg|png|webp)$/i.test(filename)) {
+      return apiError(c, 400, 'INVALID_FILENAME');
+    }
+
+    try {
+      if (!(await storage.exists(filename))) {
+        return apiError(c, 404, 'FILE_NOT_FOUND', { params: { filename } });
+      }
+
+      // Varian ukuran ikut dipindahkan bersama gambar utamanya
+      await moveImage(storage, trash, filename);
+      events.publish('upload.deleted', { filename, userId: c.get('user')?.uid ?? null });
+
+      return c.json({ success: true, data: null, message: `Gambar ${filename} dipindahkan ke tempat sampah` }, 200);
+    } catch (err) {
+      console.error('Gagal menghapus gambar dari storage:', err);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  return uploads;
+}
+
+// Melayani file dari driver lokal di /uploads/:filename
+export const serveUploadedFile = (storage: StorageDriver): Handler<AppEnv> => async (c) => {
+  const file = await storage.get(c.req.param('filename') ?? '');
+  if (!file) {
+    return apiError(c, 404, 'FILE_NOT_FOUND');
+  }
+  return c.body(new Uint8Array(file.data), 200, {
+    'Content-Type': file.contentType ?? 'application/octet-stream',
+    'Cache-Control': IMAGE_CACHE_CONTROL
+  });
+};
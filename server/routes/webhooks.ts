@@ -0,0 +1,326 @@
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
+import { Timestamp } from 'firebase-admin/firestore';
+import { authenticate, requireRole } from '../middleware/auth';
+import { DEFAULT_PAGE_LIMIT, InvalidCursorError, type WebhookDeliveryRepository, type WebhookRepository } from '../repositories';
+import { EVENT_TYPES } from '../services/events';
+import { generateWebhookSecret, toDeliveryResponse, toWebhookResponse, type WebhookDispatcher } from '../services/webhooks';
+import type { AppEnv } from '../types';
+import { apiError, defaultHook } from '../errors';
+import { ApiResponseSchema, ErrorResponseSchema, IdParamSchema, PaginatedResponseSchema } from '../openapi';
+
+const EventTypeSchema = z.enum(EVENT_TYPES);
+
+// Hanya http(s); alamat lain seperti file: atau ftp: ditolak
+const WebhookUrlSchema = z.string().trim().url().max(2048).refine(url => /^https?:\/\//i.test(url), 'URL harus memakai http atau https');
+
+const WebhookSchema = z.object({
+  id: z.string().openapi({ example: 'Wh7kP2mXq9LzR4tYb8Nc' }),
+  url: z.string().openapi({ example: 'https://example.com/hooks/blog' }),
+  events: z.array(z.string()).openapi({ example: ['blog.published'] }),
+  active: z.boolean().openapi({ example: true }),
+  description: z.string().nullable().openapi({ example: 'Bangun ulang situs statis' }),
+  createdBy: z.string().nullable().openapi({ example: 'admin-user' }),
+  createdAt: z.string().datetime().openapi({ example: '2025-06-06T04:11:32.091Z' }),
+  updatedAt: z.string().datetime().openapi({ example: '2025-06-06T04:11:32.091Z' })
+}).openapi('Webhook');
+
+const WebhookWithSecretSchema = WebhookSchema.extend({
+  secret: z.string().openapi({ example: 'whsec_3q2Yx8VbN1kLm0PzR7tWc4dHf6gJ9sAe' })
+});
+
+const WebhookDeliverySchema = z.object({
+  id: z.string().openapi({ example: 'Dl3nV8cXq1LzR4tYb8Mk' }),
+  webhookId: z.string().openapi({ example: 'Wh7kP2mXq9LzR4tYb8Nc' }),
+  eventId: z.string().openapi({ example: 'lx2k9a-42' }),
+  eventType: z.string().openapi({ example: 'blog.published' }),
+  payload: z.string().openapi({ example: '{"id":"lx2k9a-42","type":"blog.published","timestamp":"2025-06-06T04:11:32.091Z","data":{"id":"ajL8SflPjZum2GcjBq2e"}}' }),
+  status: z.enum(['pending', 'succeeded', 'failed']).openapi({ example: 'succeeded' }),
+  attempts: z.number().int().openapi({ example: 1 }),
+  nextAttemptAt: z.string().datetime().nullable().openapi({ example: null }),
+  lastAttemptAt: z.string().datetime().nullable().openapi({ example: '2025-06-06T04:11:32.412Z' }),
+  responseStatus: z.number().int().nullable().openapi({ example: 204 }),
+  error: z.string().nullable().openapi({ example: null }),
+  redeliveryOf: z.string().nullable().openapi({ example: null }),
+  createdAt: z.string().datetime().openapi({ example: '2025-06-06T04:11:32.091Z' })
+}).openapi('WebhookDelivery');
+
+const CreateWebhookSchema = z.object({
+  url: WebhookUrlSchema.openapi({ example: 'https://example.com/hooks/blog' }),
+  events: z.array(EventTypeSchema).min(1).openapi({ example: ['blog.published', 'project.published'] }),
+  // Dibuat otomatis jika tidak diisi
+  secret: z.string().min(16).max(256).optional().openapi({ example: 'rahasia-yang-cukup-panjang' }),
+  description: z.string().trim().max(200).optional().or(z.null()).openapi({ example: 'Bangun ulang situs statis' }),
+  active: z.boolean().default(true).openapi({ example: true })
+});
+
+const UpdateWebhookSchema = z.object({
+  url: WebhookUrlSchema.optional().openapi({ example: 'https://example.com/hooks/blog' }),
+  events: z.array(EventTypeSchema).min(1).optional().openapi({ example: ['blog.published'] }),
+  secret: z.string().min(16).max(256).optional().openapi({ example: 'rahasia-baru-yang-cukup-panjang' }),
+  // Mengganti secret dengan yang dibuat otomatis
+  rotateSecret: z.boolean().optional().openapi({ example: false }),
+  description: z.string().trim().max(200).optional().or(z.null()).openapi({ example: 'Bangun ulang situs statis' }),
+  active: z.boolean().optional().openapi({ example: false })
+});
+
+const DeliveryParamSchema = IdParamSchema.extend({
+  deliveryId: z.string().min(1).openapi({ param: { name: 'deliveryId', in: 'path' }, example: 'Dl3nV8cXq1LzR4tYb8Mk' })
+});
+
+const DeliveryListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional().openapi({ example: 20 }),
+  cursor: z.string().min(1).optional().openapi({ example: 'eyJpZCI6IkRsM25WOGNYcTFMelI0dFliOE1rIn0' })
+});
+
+const errorResponses = {
+  401: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Autentikasi diperlukan' },
+  403: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Akses ditolak' },
+  500: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Eror server' }
+};
+
+export interface WebhookRouteDependencies {
+  webhooks: WebhookRepository;
+  deliveries: WebhookDeliveryRepository;
+  dispatcher: WebhookDispatcher;
+}
+
+// Registrasi webhook di /api/webhooks, khusus admin
+export function createWebhookRoutes({ webhooks, deliveries, dispatcher }: WebhookRouteDependencies) {
+  const routes = new OpenAPIHono<AppEnv>({ defaultHook });
+
+  routes.use('*', authenticate);
+
+  // --- GET /api/webhooks
+  const listRoute = createRoute({
+    method: 'get',
+    path: '/',
+    middleware: requireRole('admin'),
+    security: [{ bearerAuth: [] }],
+    responses: {
+      200: { content: { 'application/json': { schema: ApiResponseSchema(z.array(WebhookSchema)) } }, description: 'Semua webhook, terbaru lebih dulu, tanpa secret' },
+      ...errorResponses
+    },
+    tags: ['Webhooks']
+  });
+
+  // --- POST /api/webhooks
+  const createWebhookRoute = createRoute({
+    method: 'post',
+    path: '/',
+    request: { body: { content: { 'application/json': { schema: CreateWebhookSchema } } } },
+    middleware: requireRole('admin'),
+    security: [{ bearerAuth: [] }],
+    responses: {
+      201: { content: { 'application/json': { schema: ApiResponseSchema(WebhookWithSecretSchema) } }, description: 'Webhook dibuat; secret hanya ditampilkan kali ini' },
+      400: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Validasi gagal' },
+      ...errorResponses
+    },
+    tags: ['Webhooks']
+  });
+
+  // --- GET /api/webhooks/{id}
+  const getRoute = createRoute({
+    method: 'get',
+    path: '/{id}',
+    request: { params: IdParamSchema },
+    middleware: requireRole('admin'),
+    security: [{ bearerAuth: [] }],
+    responses: {
+      200: { content: { 'application/json': { schema: ApiResponseSchema(WebhookSchema) } }, description: 'Detail webhook tanpa secret' },
+      404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Webhook tidak ditemukan' },
+      ...errorResponses
+    },
+    tags: ['Webhooks']
+  });
+
+  // --- PUT /api/webhooks/{id}
+  const updateRoute = createRoute({
+    method: 'put',
+    path: '/{id}',
+    request: {
+      params: IdParamSchema,
+      body: { content: { 'application/json': { schema: UpdateWebhookSchema } } }
+    },
+    middleware: requireRole('admin'),
+    security: [{ bearerAuth: [] }],
+    responses: {
+      200: { content: { 'application/json': { schema: ApiResponseSchema(WebhookWithSecretSchema.partial({ secret: true })) } }, description: 'Webhook diperbarui; secret hanya ada jika diganti' },
+      400: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Validasi gagal' },
+      404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Webhook tidak ditemukan' },
+      ...errorResponses
+    },
+    tags: ['Webhooks']
+  });
+
+  // --- DELETE /api/webhooks/{id}
+  const deleteRoute = createRoute({
+    method: 'delete',
+    path: '/{id}',
+    request: { params: IdParamSchema },
+    middleware: requireRole('admin'),
+    security: [{ bearerAuth: [] }],
+    responses: {
+      200: { content: { 'application/json': { schema: ApiResponseSchema(z.null()) } }, description: 'Webhook beserta log pengirimannya dihapus' },
+      404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Webhook tidak ditemukan' },
+      ...errorResponses
+    },
+    tags: ['Webhooks']
+  });
+
+  // --- GET /api/webhooks/{id}/deliveries
+  const deliveriesRoute = createRoute({
+    method: 'get',
+    path: '/{id}/deliveries',
+    request: { params: IdParamSchema, query: DeliveryListQuerySchema },
+    middleware: requireRole('admin'),
+    security: [{ bearerAuth: [] }],
+    responses: {
+      200: { content: { 'application/json': { schema: PaginatedResponseSchema(WebhookDeliverySchema) } }, description: 'Log pengiriman, terbaru lebih dulu' },
+      400: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Parameter query atau cursor tidak valid' },
+      404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Webhook tidak ditemukan' },
+      ...errorResponses
+    },
+    tags: ['Webhooks']
+  });
+
+  // --- POST /api/webhooks/{id}/deliveries/{deliveryId}/redeliver
+  const redeliverRoute = createRoute({
+    method: 'post',
+    path: '/{id}/deliveries/{deliveryId}/redeliver',
+    request: { params: DeliveryParamSchema },
+    middleware: requireRole('admin'),
+    security: [{ bearerAuth: [] }],
+    responses: {
+      200: { content: { 'application/json': { schema: ApiResponseSchema(WebhookDeliverySchema) } }, description: 'Payload yang sama dikirim ulang sebagai pengiriman baru' },
+      404: { content: { 'application/json': { schema: ErrorResponseSchema } }, description: 'Webhook atau pengiriman tidak ditemukan' },
+      ...errorResponses
+    },
+    tags: ['Webhooks']
+  });
+
+  routes.openapi(listRoute, async (c) => {
+    try {
+      const items = await webhooks.list();
+      return c.json({ success: true, data: items.map(toWebhookResponse), message: `${items.length} webhook ditemukan` }, 200);
+    } catch (error: any) {
+      console.error('Eror mengambil webhook:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  routes.openapi(createWebhookRoute, async (c) => {
+    try {
+      const { url, events, secret = generateWebhookSecret(), description = null, active } = c.req.valid('json');
+      const now = Timestamp.now();
+      const webhook = await webhooks.create({
+        url,
+        events: [...new Set(events)],
+        secret,
+        active,
+        description,
+        createdBy: c.get('user')?.uid ?? null,
+        createdAt: now,
+        updatedAt: now
+      });
+      return c.json({ success: true, data: { ...toWebhookResponse(webhook), secret: webhook.secret }, message: 'Webhook berhasil dibuat' }, 201);
+    } catch (error: any) {
+      console.error('Eror membuat webhook:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  routes.openapi(getRoute, async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const webhook = await webhooks.findById(id);
+      if (!webhook) {
+        return apiError(c, 404, 'WEBHOOK_NOT_FOUND', { params: { id } });
+      }
+      return c.json({ success: true, data: toWebhookResponse(webhook) }, 200);
+    } catch (error: any) {
+      console.error('Eror mengambil webhook:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  routes.openapi(updateRoute, async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const { rotateSecret, secret, events, ...changes } = c.req.valid('json');
+      const nextSecret = secret ?? (rotateSecret ? generateWebhookSecret() : undefined);
+      const webhook = await webhooks.update(id, {
+        ...changes,
+        ...(events && { events: [...new Set(events)] }),
+        ...(nextSecret && { secret: nextSecret }),
+        updatedAt: Timestamp.now()
+      });
+      if (!webhook) {
+        return apiError(c, 404, 'WEBHOOK_NOT_FOUND', { params: { id } });
+      }
+      const data = nextSecret ? { ...toWebhookResponse(webhook), secret: webhook.secret } : toWebhookResponse(webhook);
+      return c.json({ success: true, data, message: 'Webhook berhasil diperbarui' }, 200);
+    } catch (error: any) {
+      console.error('Eror memperbarui webhook:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  routes.openapi(deleteRoute, async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      if (!(await webhooks.delete(id))) {
+        return apiError(c, 404, 'WEBHOOK_NOT_FOUND', { params: { id } });
+      }
+      // Pengiriman pending yang tersisa ikut terhapus sehingga tidak dicoba lagi
+      const removed = await deliveries.deleteByWebhook(id);
+      return c.json({ success: true, data: null, message: `Webhook dihapus beserta ${removed} log pengiriman` }, 200);
+    } catch (error: any) {
+      console.error('Eror menghapus webhook:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  routes.openapi(deliveriesRoute, async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const { limit = DEFAULT_PAGE_LIMIT, cursor } = c.req.valid('query');
+      if (!(await webhooks.findById(id))) {
+        return apiError(c, 404, 'WEBHOOK_NOT_FOUND', { params: { id } });
+      }
+      const page = await deliveries.listByWebhook(id, { limit, cursor });
+      return c.json({
+        success: true,
+        data: page.items.map(toDeliveryResponse),
+        pagination: { limit, nextCursor: page.nextCursor, hasMore: page.hasMore },
+        message: `${page.items.length} pengiriman ditemukan`
+      }, 200);
+    } catch (error: any) {
+      if (error instanceof InvalidCursorError) {
+        return apiError(c, 400, 'INVALID_CURSOR');
+      }
+      console.error('Eror mengambil log webhook:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  routes.openapi(redeliverRoute, async (c) => {
+    try {
+      const { id, deliveryId } = c.req.valid('param');
+      const webhook = await webhooks.findById(id);
+      if (!webhook) {
+        return apiError(c, 404, 'WEBHOOK_NOT_FOUND', { params: { id } });
+      }
+      const original = await deliveries.findById(deliveryId);
+      if (!original || original.webhookId !== id) {
+        return apiError(c, 404, 'WEBHOOK_DELIVERY_NOT_FOUND', { params: { id: deliveryId } });
+      }
+      const delivery = await dispatcher.redeliver(original, webhook);
+      return c.json({ success: true, data: toDeliveryResponse(delivery), message: 'Webhook dikirim ulang' }, 200);
+    } catch (error: any) {
+      console.error('Eror mengirim ulang webhook:', error);
+      return apiError(c, 500, 'INTERNAL_ERROR');
+    }
+  });
+
+  return routes;
+}
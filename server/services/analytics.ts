@@ -0,0 +1,197 @@
+import { createHash, randomBytes } from 'crypto';
+import type { AnalyticsRepository, DailyViews, ViewIncrement } from '../repositories';
+import type { ContentType } from '../utils/urls';
+
+export const DEFAULT_ANALYTICS_FLUSH_INTERVAL_MS = 10_000;
+
+// Pengunjung unik yang diingat per hari; jika penuh, set dikosongkan dan sebagian pengunjung terhitung dua kali
+const MAX_SEEN_VISITORS = 100_000;
+
+const BOT_PATTERN = /bot|crawl|spider|slurp|preview|facebookexternalhit|headless/i;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Hari UTC dalam format YYYY-MM-DD, sama dengan ID dokumen analytics
+export const dayOf = (date: Date) => date.toISOString().slice(0, 10);
+
+// `count` hari terakhir sampai hari ini, terlama lebih dulu
+export const lastDays = (count: number, now = new Date()) =>
+  Array.from({ length: count }, (_, index) => dayOf(new Date(now.getTime() - (count - 1 - index) * DAY_MS)));
+
+// Hanya hostname yang disimpan, tanpa path atau query yang bisa memuat data pribadi
+export function referrerDomain(referrer: string | null | undefined): string | null {
+  if (!referrer) return null;
+  try {
+    const { protocol, hostname } = new URL(referrer);
+    if (protocol !== 'http:' && protocol !== 'https:') return null;
+    return hostname.toLowerCase().replace(/^www\./, '') || null;
+  } catch {
+    return null;
+  }
+}
+
+export interface ViewEvent {
+  type: ContentType;
+  id: string;
+  // Alamat IP klien; hanya dipakai untuk hash dan tidak pernah disimpan
+  address: string;
+  userAgent?: string | null;
+  referrer?: string | null;
+}
+
+export interface ViewTracker {
+  // Mencatat ke buffer, mengembalikan false jika tampilan tidak dihitung (bot)
+  record(event: ViewEvent): boolean;
+  // Menulis buffer ke repository, mengembalikan jumlah dokumen-hari yang ditulis
+  flush(): Promise<number>;
+  start(): void;
+  // Menghentikan timer lalu menulis sisa buffer
+  stop(): Promise<void>;
+}
+
+export interface ViewTrackerOptions {
+  repository: AnalyticsRepository;
+  // Kunci hash pengunjung. Tanpa ini dipakai nilai acak, sehingga pengunjung unik dihitung ulang setelah restart
+  secret?: string;
+  flushIntervalMs?: number;
+}
+
+// Tampilan dikumpulkan di memori dan ditulis per interval, sehingga konten yang ramai tidak menabrak
+// batas penulisan per dokumen Firestore. Pengunjung dikenali lewat hash harian dari IP dan User-Agent;
+// karena tanggal ikut di-hash, pengunjung yang sama tidak bisa dikaitkan antarhari
+export function createViewTracker({
+  repository,
+  secret = randomBytes(32).toString('hex'),
+  flushIntervalMs = DEFAULT_ANALYTICS_FLUSH_INTERVAL_MS
+}: ViewTrackerOptions): ViewTracker {
+  let buffer = new Map<string, ViewIncrement>();
+  let seen = new Set<string>();
+  let seenDay = '';
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const visitorKey = (day: string, { address, userAgent }: ViewEvent) =>
+    createHash('sha256').update(`${secret}:${day}:${address}:${userAgent ?? ''}`).digest('base64url').slice(0, 22);
+
+  const merge = (target: Map<string, ViewIncrement>, increment: ViewIncrement) => {
+    const key = `${increment.type}:${increment.id}:${increment.day}`;
+    const existing = target.get(key);
+    if (!existing) {
+      target.set(key, { ...increment, referrers: { ...increment.referrers } });
+      return;
+    }
+    existing.views += increment.views;
+    existing.visitors += increment.visitors;
+    for (const [domain, count] of Object.entries(increment.referrers)) {
+      existing.referrers[domain] = (existing.referrers[domain] ?? 0) + count;
+    }
+  };
+
+  const record = (event: ViewEvent) => {
+    if (event.userAgent && BOT_PATTERN.test(event.userAgent)) {
+      return false;
+    }
+    const day = dayOf(new Date());
+    if (day !== seenDay || seen.size >= MAX_SEEN_VISITORS) {
+      seen = new Set();
+      seenDay = day;
+    }
+    const visitor = `${event.type}:${event.id}:${visitorKey(day, event)}`;
+    const isNewVisitor = !seen.has(visitor);
+    seen.add(visitor);
+
+    const domain = referrerDomain(event.referrer);
+    merge(buffer, {
+      type: event.type,
+      id: event.id,
+      day,
+      views: 1,
+      visitors: isNewVisitor ? 1 : 0,
+      referrers: domain ? { [domain]: 1 } : {}
+    });
+    return true;
+  };
+
+  const flush = async () => {
+    const pending = buffer;
+    if (pending.size === 0) return 0;
+    buffer = new Map();
+    try {
+      await repository.increment([...pending.values()]);
+      return pending.size;
+    } catch (error) {
+      // Dikembalikan ke buffer agar dicoba lagi pada flush berikutnya
+      for (const increment of pending.values()) merge(buffer, increment);
+      throw error;
+    }
+  };
+
+  const tick = async () => {
+    try {
+      await flush();
+    } catch (error) {
+      console.error('Eror menulis data analitik:', error);
+    }
+  };
+
+  return {
+    record,
+
+    flush,
+
+    start() {
+      if (timer) return;
+      timer = setInterval(tick, flushIntervalMs);
+    },
+
+    async stop() {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+      await tick();
+    }
+  };
+}
+
+export interface ViewTotals {
+  views: number;
+  visitors: number;
+}
+
+// Deret harian lengkap untuk `days`; hari tanpa data bernilai 0
+export function dailySeries(entries: DailyViews[], days: string[]) {
+  const byDay = new Map<string, ViewTotals>();
+  for (const { day, views, visitors } of entries) {
+    const existing = byDay.get(day) ?? { views: 0, visitors: 0 };
+    byDay.set(day, { views: existing.views + views, visitors: existing.visitors + visitors });
+  }
+  return days.map(day => ({ day, ...(byDay.get(day) ?? { views: 0, visitors: 0 }) }));
+}
+
+// Domain perujuk terbanyak lebih dulu
+export function topReferrers(entries: DailyViews[], limit = 10) {
+  const totals = new Map<string, number>();
+  for (const { referrers } of entries) {
+    for (const [domain, count] of Object.entries(referrers)) {
+      totals.set(domain, (totals.get(domain) ?? 0) + count);
+    }
+  }
+  return [...totals.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([domain, views]) => ({ domain, views }));
+}
+
+// Total per konten, tampilan terbanyak lebih dulu. Pengunjung dijumlahkan per hari,
+// jadi orang yang sama di dua hari berbeda terhitung dua kali
+export function rankContent(entries: DailyViews[], limit: number) {
+  const totals = new Map<string, { type: ContentType; id: string } & ViewTotals>();
+  for (const { type, id, views, visitors } of entries) {
+    const key = `${type}:${id}`;
+    const existing = totals.get(key) ?? { type, id, views: 0, visitors: 0 };
+    totals.set(key, { ...existing, views: existing.views + views, visitors: existing.visitors + visitors });
+  }
+  return [...totals.values()]
+    .sort((a, b) => b.views - a.views || b.visitors - a.visitors || a.id.localeCompare(b.id))
+    .slice(0, limit);
+}
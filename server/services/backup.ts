@@ -0,0 +1,255 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import type { z } from '@hono/zod-openapi';
+import { DEFAULT_LOCALE, translate, zodDetails, type ErrorCode, type ErrorDetail, type ErrorOptions, type Locale } from '../errors';
+import type { BatchWrite, ContentRepository } from '../repositories';
+import type { StorageDriver } from '../storage';
+import { convertTimestamps, toTimestamp } from '../utils/timestamps';
+import { createSlugReservation } from '../utils/slug';
+import { resolvePublicationStatus } from '../utils/schedule';
+import type { ContentType } from '../utils/urls';
+import type { SearchIndex } from './search';
+
+export type BackupRecordType = ContentType | 'upload';
+
+// Satu baris NDJSON pada file ekspor
+export interface BackupRecord {
+  type: BackupRecordType;
+  data: Record<string, any>;
+}
+
+export type ConflictPolicy = 'skip' | 'overwrite' | 'new-id';
+
+export type ImportAction = 'created' | 'overwritten' | 'skipped' | 'failed';
+
+export interface ImportResult {
+  // Nomor baris pada file NDJSON, dimulai dari 1
+  line: number;
+  type: string | null;
+  id: string | null;
+  action: ImportAction;
+  // Terisi jika dokumen disimpan dengan ID baru (kebijakan new-id)
+  newId?: string;
+  error?: string;
+  code?: ErrorCode;
+  details?: ErrorDetail[];
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  onConflict: ConflictPolicy;
+  summary: Record<ImportAction, number> & { total: number };
+  results: ImportResult[];
+}
+
+export interface BackupSource {
+  repository: ContentRepository<any>;
+  // Schema yang sama dengan endpoint create
+  createSchema: z.AnyZodObject;
+}
+
+export interface BackupDependencies {
+  sources: Record<ContentType, BackupSource>;
+  storage: StorageDriver;
+  search: SearchIndex;
+}
+
+const EXPORT_PAGE_SIZE = 200;
+
+// Tanggal di luar schema create yang dipertahankan dari file ekspor
+const TIMESTAMP_FIELDS = ['createdAt', 'updatedAt', 'deletedAt'] as const;
+
+// Semua dokumen, termasuk yang ada di tempat sampah, dibaca per halaman agar tidak dimuat sekaligus
+export async function* exportRecords({ sources, storage }: Omit<BackupDependencies, 'search'>): AsyncGenerator<BackupRecord> {
+  for (const type of ['blog', 'project'] as const) {
+    const { repository } = sources[type];
+    let cursor: string | undefined;
+    do {
+      const page = await repository.list({ limit: EXPORT_PAGE_SIZE, cursor });
+      for (const item of page.items) {
+        yield { type, data: convertTimestamps(item) };
+      }
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    for (const item of await repository.listDeleted()) {
+      yield { type, data: convertTimestamps(item) };
+    }
+  }
+
+  // Hanya metadata; isi file tetap berada di storage
+  for (const file of await storage.list()) {
+    yield { type: 'upload', data: { ...file } };
+  }
+}
+
+class RecordError extends Error {
+  constructor(readonly code: ErrorCode, readonly options: ErrorOptions = {}) {
+    super(code);
+    this.name = 'RecordError';
+  }
+}
+
+const isTimestampString = (value: unknown) => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+// Schema create memakai field opsional, bukan nullable. Null pada field seperti itu dianggap kosong
+const dropUnacceptedNulls = (schema: z.AnyZodObject, data: Record<string, any>) =>
+  Object.fromEntries(Object.entries(data).filter(([key, value]) =>
+    value !== null || !(key in schema.shape) || schema.shape[key].safeParse(null).success
+  ));
+
+export async function importRecords(
+  { sources, storage, search }: BackupDependencies,
+  ndjson: string,
+  { dryRun = false, onConflict = 'skip', locale = DEFAULT_LOCALE }: { dryRun?: boolean; onConflict?: ConflictPolicy; locale?: Locale } = {}
+): Promise<ImportReport> {
+  const results: ImportResult[] = [];
+  const failure = (code: ErrorCode, { params, details }: ErrorOptions = {}) => ({
+    action: 'failed' as const,
+    error: translate(locale, code, params),
+    code,
+    ...(details && { details })
+  });
+  const required = (field: string): ErrorDetail[] => [{ field, message: translate(locale, 'REQUIRED') }];
+  const parsed: Array<{ line: number; type: string; data: Record<string, any> }> = [];
+
+  for (const [index, text] of ndjson.split('\n').entries()) {
+    if (!text.trim()) continue;
+    const line = index + 1;
+    try {
+      const record = JSON.parse(text);
+      if (!record || typeof record !== 'object' || typeof record.data !== 'object' || record.data === null) {
+        throw new Error();
+      }
+      parsed.push({ line, type: String(record.type), data: record.data });
+    } catch {
+      results.push({ line, type: null, id: null, ...failure('INVALID_RECORD') });
+    }
+  }
+
+  for (const type of ['blog', 'project'] as const) {
+    const { repository, createSchema } = sources[type];
+    const records = parsed.filter(record => record.type === type);
+    const ids = records.map(record => (typeof record.data.id === 'string' ? record.data.id : ''));
+    const existingDocs = await repository.findManyByIds([...new Set(ids.filter(Boolean))], { includeDeleted: true });
+    const existingById = new Map(existingDocs.flatMap(doc => (doc ? [[doc.id, doc as Record<string, any>] as const] : [])));
+    const reserveSlug = createSlugReservation(repository, type);
+    const seenIds = new Set<string>();
+    const pending: Array<{ result: ImportResult; write: BatchWrite }> = [];
+
+    for (const [i, { line, data }] of records.entries()) {
+      const id = ids[i] || null;
+      try {
+        if (!id) {
+          throw new RecordError('VALIDATION_FAILED', { details: required('id') });
+        }
+        if (seenIds.has(id)) {
+          throw new RecordError('DUPLICATE_TARGET', { params: { id } });
+        }
+        seenIds.add(id);
+
+        const exists = existingById.has(id);
+        if (exists && onConflict === 'skip') {
+          results.push({ line, type, id, action: 'skipped' });
+          continue;
+        }
+
+        const validated = createSchema.safeParse(dropUnacceptedNulls(createSchema, data));
+        const invalidTimestamps = TIMESTAMP_FIELDS
+          .filter(field => data[field] != null && !isTimestampString(data[field]))
+          .map(field => ({ field, message: translate(locale, 'INVALID_DATE') }));
+        if (!validated.success || invalidTimestamps.length) {
+          throw new RecordError('VALIDATION_FAILED', {
+            details: [
+              ...(validated.success ? [] : zodDetails(validated.error).map(detail => ({ ...detail, field: detail.field || 'data' }))),
+              ...invalidTimestamps
+            ]
+          });
+        }
+
+        const targetId = exists && onConflict === 'new-id' ? repository.newId() : id;
+        const input = validated.data;
+        const now = Timestamp.now();
+        const publishedAt = toTimestamp(input.publishedAt);
+        if (input.status === 'scheduled' && !publishedAt) {
+          throw new RecordError('PUBLISHED_AT_REQUIRED', { details: required('publishedAt') });
+        }
+        const document: Record<string, any> = {
+          ...input,
+          tags: input.tags ?? [],
+          status: resolvePublicationStatus(input.status, publishedAt),
+          // Slug asli dipertahankan selama belum dipakai dokumen lain
+          slug: await reserveSlug(input.slug ?? input.title, targetId),
+          previousSlugs: Array.isArray(data.previousSlugs) ? data.previousSlugs.filter((slug: unknown) => typeof slug === 'string') : [],
+          createdAt: toTimestamp(data.createdAt) ?? now,
+          updatedAt: toTimestamp(data.updatedAt) ?? now,
+          publishedAt,
+          deletedAt: toTimestamp(data.deletedAt),
+          deletedBy: typeof data.deletedBy === 'string' ? data.deletedBy : null
+        };
+        // Komentar tetap tersimpan pada ID lama, jadi jumlahnya diambil dari dokumen yang ditimpa;
+        // dokumen baru dengan ID asli memakai nilai dari file. version selalu diatur oleh repository
+        const commentCount = targetId === id ? existingById.get(id)?.commentCount ?? data.commentCount : undefined;
+        if (Number.isInteger(commentCount) && commentCount >= 0) {
+          document.commentCount = commentCount;
+        }
+
+        const result: ImportResult = exists && onConflict === 'overwrite'
+          ? { line, type, id, action: 'overwritten' }
+          : { line, type, id, action: 'created', ...(targetId !== id && { newId: targetId }) };
+        results.push(result);
+        pending.push({ result, write: { type: result.action === 'overwritten' ? 'set' : 'create', id: targetId, data: document } });
+      } catch (error) {
+        if (!(error instanceof RecordError)) throw error;
+        results.push({ line, type, id, ...failure(error.code, error.options) });
+      }
+    }
+
+    if (dryRun || pending.length === 0) continue;
+
+    const writeErrors = await repository.bulkWrite(pending.map(({ write }) => write));
+    pending.forEach(({ result, write }, i) => {
+      if (writeErrors[i]) {
+        console.error(`Eror menulis baris ${result.line} impor:`, writeErrors[i]);
+        Object.assign(result, failure('WRITE_FAILED'));
+        delete result.newId;
+        return;
+      }
+      if (write.data.deletedAt) {
+        search.remove(type, write.id);
+      } else {
+        search.index(type, { ...write.data, id: write.id });
+      }
+    });
+  }
+
+  // Isi file tidak ikut diekspor, jadi metadata upload hanya dicocokkan dengan storage
+  for (const { line, data } of parsed.filter(record => record.type === 'upload')) {
+    const filename = typeof data.filename === 'string' ? data.filename : null;
+    if (!filename) {
+      results.push({ line, type: 'upload', id: null, ...failure('VALIDATION_FAILED', { details: required('filename') }) });
+    } else if (await storage.exists(filename)) {
+      results.push({ line, type: 'upload', id: filename, action: 'skipped' });
+    } else {
+      results.push({ line, type: 'upload', id: filename, ...failure('UPLOAD_MISSING', { params: { filename } }) });
+    }
+  }
+
+  for (const { line, type } of parsed.filter(record => !['blog', 'project', 'upload'].includes(record.type))) {
+    results.push({ line, type, id: null, ...failure('UNKNOWN_RECORD_TYPE', { params: { type } }) });
+  }
+
+  results.sort((a, b) => a.line - b.line);
+  const count = (action: ImportAction) => results.filter(result => result.action === action).length;
+  return {
+    dryRun,
+    onConflict,
+    summary: {
+      total: results.length,
+      created: count('created'),
+      overwritten: count('overwritten'),
+      skipped: count('skipped'),
+      failed: count('failed')
+    },
+    results
+  };
+}
@@ -0,0 +1,104 @@
+import type { Comment, CommentStatus } from '../../shared/schema';
+import type { BlogRepository, CommentRepository } from '../repositories';
+import { convertTimestamps } from '../utils/timestamps';
+
+// Lebih dari ini dianggap promosi
+const MAX_LINKS = 2;
+
+const BLOCKED_TERMS = ['viagra', 'cialis', 'casino', 'slot gacor', 'judi online', 'pinjaman online', 'crypto giveaway', 'seo service'];
+
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+/gi;
+
+export interface SpamAssessment {
+  flagged: boolean;
+  reasons: string[];
+}
+
+// Heuristik sederhana; komentar yang ditandai tetap masuk antrean moderasi, hanya diberi tanda
+export function assessComment({ authorName, content }: { authorName: string | null; content: string }): SpamAssessment {
+  const reasons: string[] = [];
+  const links = content.match(LINK_PATTERN)?.length ?? 0;
+  if (links > MAX_LINKS) {
+    reasons.push('too_many_links');
+  }
+  if (authorName?.match(LINK_PATTERN)) {
+    reasons.push('link_in_name');
+  }
+
+  const text = `${authorName ?? ''} ${content}`.toLowerCase();
+  if (BLOCKED_TERMS.some(term => text.includes(term))) {
+    reasons.push('blocked_terms');
+  }
+
+  const letters = content.replace(/[^a-zA-Z]/g, '');
+  if (letters.length >= 20 && letters.replace(/[^A-Z]/g, '').length / letters.length > 0.7) {
+    reasons.push('shouting');
+  }
+  if (/(.)\1{9,}/.test(content)) {
+    reasons.push('repeated_characters');
+  }
+  return { flagged: reasons.length > 0, reasons };
+}
+
+// Bentuk publik: tanpa email, status dan data moderasi
+export const toPublicComment = (comment: Comment) => ({
+  id: comment.id,
+  parentId: comment.parentId,
+  authorName: comment.authorName,
+  content: comment.content,
+  createdAt: comment.createdAt.toDate().toISOString()
+});
+
+export type PublicComment = ReturnType<typeof toPublicComment>;
+
+// Komentar tingkat atas terlama lebih dulu, masing-masing dengan balasannya.
+// Balasan yang induknya tidak ikut (mis. ditolak belakangan) tidak ditampilkan
+export function threadComments(comments: Comment[]): Array<PublicComment & { replies: PublicComment[] }> {
+  const threads = comments
+    .filter(comment => !comment.parentId)
+    .map(comment => ({ ...toPublicComment(comment), replies: [] as PublicComment[] }));
+  const byId = new Map(threads.map(thread => [thread.id, thread]));
+  for (const comment of comments) {
+    if (comment.parentId) byId.get(comment.parentId)?.replies.push(toPublicComment(comment));
+  }
+  return threads;
+}
+
+export const toCommentResponse = (comment: Comment) => convertTimestamps(comment);
+
+type StatusChange = [CommentStatus | null, CommentStatus | null];
+
+// commentCount hanya menghitung komentar yang terlihat: disetujui, dan untuk balasan, induknya juga disetujui
+const approvedDelta = (from: CommentStatus | null, to: CommentStatus | null) =>
+  Number(to === 'approved') - Number(from === 'approved');
+
+export async function adjustCommentCount(blogs: BlogRepository, blogId: string, changes: StatusChange[]) {
+  const delta = changes.reduce((sum, [from, to]) => sum + approvedDelta(from, to), 0);
+  if (delta !== 0) {
+    await blogs.incrementCounter(blogId, 'commentCount', delta);
+  }
+}
+
+// Perubahan yang terlihat pembaca saat status komentar berganti. Balasan yang disetujui ikut tersembunyi
+// saat induknya tidak lagi disetujui, dan tampil lagi saat induknya disetujui kembali
+export async function moderationChanges(comments: CommentRepository, comment: Comment, previous: CommentStatus): Promise<StatusChange[]> {
+  if (comment.parentId) {
+    const parent = await comments.findById(comment.parentId);
+    return parent?.status === 'approved' ? [[previous, comment.status]] : [];
+  }
+  const replies = (await comments.listByBlog(comment.blogId, 'approved')).filter(reply => reply.parentId === comment.id);
+  return [comment, ...replies].map(() => [previous, comment.status]);
+}
+
+// Perubahan yang terlihat saat komentar dihapus; balasan yang induknya tidak disetujui memang tidak dihitung
+export async function deletionChanges(comments: CommentRepository, removed: Comment[]): Promise<StatusChange[]> {
+  const statusById = new Map(removed.map(comment => [comment.id, comment.status]));
+  const changes: StatusChange[] = [];
+  for (const comment of removed) {
+    const parentStatus = comment.parentId
+      ? statusById.get(comment.parentId) ?? (await comments.findById(comment.parentId))?.status
+      : 'approved';
+    changes.push([parentStatus === 'approved' ? comment.status : null, null]);
+  }
+  return changes;
+}
@@ -0,0 +1,104 @@
+import type { ContentType } from '../utils/urls';
+
+export const EVENT_RESOURCES = ['blog', 'project', 'upload'] as const;
+
+// *.published menyusul *.created atau *.updated saat konten berubah menjadi published
+export const EVENT_TYPES = [
+  'blog.created', 'blog.updated', 'blog.published', 'blog.deleted',
+  'project.created', 'project.updated', 'project.published', 'project.deleted',
+  'upload.created', 'upload.deleted'
+] as const;
+
+export type EventResource = typeof EVENT_RESOURCES[number];
+export type EventType = typeof EVENT_TYPES[number];
+
+export const DEFAULT_EVENT_REPLAY_SIZE = 1000;
+
+export interface AppEvent {
+  // `<boot>-<seq>`: boot berubah setiap proses dimulai, sehingga ID dari proses lama tidak dianggap valid
+  id: string;
+  type: EventType;
+  data: Record<string, unknown>;
+  timestamp: string;
+}
+
+export type EventListener = (event: AppEvent) => void;
+
+export interface EventBus {
+  publish(type: EventType, data: Record<string, unknown>): AppEvent;
+  // Mengembalikan fungsi untuk berhenti berlangganan
+  subscribe(listener: EventListener): () => void;
+  // Event sesudah `lastEventId`, terlama lebih dulu. null jika ID tidak dikenal
+  // atau sudah keluar dari buffer, sehingga klien harus memuat ulang datanya
+  since(lastEventId: string): AppEvent[] | null;
+}
+
+// Event hanya ada di memori proses ini; dengan beberapa instance, klien hanya menerima
+// event dari instance tempat ia terhubung
+export function createEventBus({ replaySize = DEFAULT_EVENT_REPLAY_SIZE }: { replaySize?: number } = {}): EventBus {
+  const boot = Date.now().toString(36);
+  const buffer: AppEvent[] = [];
+  const listeners = new Set<EventListener>();
+  let sequence = 0;
+
+  return {
+    publish(type, data) {
+      const event: AppEvent = { id: `${boot}-${++sequence}`, type, data, timestamp: new Date().toISOString() };
+      buffer.push(event);
+      if (buffer.length > replaySize) buffer.shift();
+      for (const listener of listeners) {
+        // Listener yang gagal tidak boleh menggagalkan request yang memicu event
+        try {
+          listener(event);
+        } catch (error) {
+          console.error('Eror menjalankan listener event:', error);
+        }
+      }
+      return event;
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    since(lastEventId) {
+      const [eventBoot, rawSequence] = lastEventId.split('-');
+      const lastSequence = Number(rawSequence);
+      if (eventBoot !== boot || !Number.isInteger(lastSequence) || lastSequence > sequence) return null;
+      if (lastSequence === sequence) return [];
+      // Event sesudah lastSequence sudah dibuang dari buffer
+      const oldest = buffer.length ? sequence - buffer.length + 1 : sequence + 1;
+      if (lastSequence + 1 < oldest) return null;
+      return buffer.slice(lastSequence + 1 - oldest);
+    }
+  };
+}
+
+// Ringkasan dokumen untuk event; isi lengkap diambil klien lewat GET jika perlu
+export const contentEventData = (doc: { id: string; title?: string; slug?: string | null; status?: string; version?: number }, userId?: string | null) => ({
+  id: doc.id,
+  title: doc.title,
+  slug: doc.slug ?? null,
+  status: doc.status,
+  version: doc.version ?? null,
+  userId: userId ?? null
+});
+
+type ContentEventDocument = Parameters<typeof contentEventData>[0];
+
+// created/updated untuk setiap perubahan, ditambah published saat dokumen baru terbit.
+// `previous` null berarti dokumen baru (atau baru dipulihkan dari tempat sampah)
+export function publishContentChange(events: EventBus, type: ContentType, previous: ContentEventDocument | null, current: ContentEventDocument, userId?: string | null) {
+  const data = contentEventData(current, userId);
+  events.publish(`${type}.${previous ? 'updated' : 'created'}`, data);
+  if (current.status === 'published' && previous?.status !== 'published') {
+    events.publish(`${type}.published`, data);
+  }
+}
+
+// `blog` cocok dengan semua event blog, `blog.updated` hanya dengan event itu
+export const matchesEventFilter = (type: EventType, filters: string[]) =>
+  filters.length === 0 || filters.some(filter => filter === type || type.startsWith(`${filter}.`));
@@ -0,0 +1,150 @@
+import type { Blog } from '../../shared/schema';
+import { escapeHtml } from '../utils/html';
+import { renderMarkdown } from './markdown';
+import { contentIdUrl, contentUrl } from '../utils/urls';
+
+export interface FeedItem {
+  id: string;
+  url: string;
+  title: string;
+  summary: string | null;
+  contentHtml: string;
+  image: string | null;
+  publishedAt: Date;
+  updatedAt: Date;
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  baseUrl: string;
+  // Waktu perubahan terakhir dari item mana pun, dipakai juga untuk Last-Modified
+  updatedAt: Date;
+  items: FeedItem[];
+}
+
+export const FEED_CONTENT_TYPES = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8'
+} as const;
+
+const IMAGE_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif'
+};
+
+const imageType = (url: string) => {
+  const extension = url.split(/[?#]/)[0].match(/\.[a-z0-9]+$/i)?.[0].toLowerCase() ?? '';
+  return IMAGE_TYPES[extension] ?? 'image/jpeg';
+};
+
+// Escape XML sama dengan escape HTML untuk teks dan atribut
+const xml = escapeHtml;
+
+// CDATA tidak boleh memuat "]]>", jadi dipecah menjadi dua blok
+const cdata = (text: string) => `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+export function toFeedItem(blog: Blog, baseUrl: string): FeedItem {
+  const updatedAt = blog.updatedAt.toDate();
+  return {
+    id: contentIdUrl(baseUrl, 'blog', blog.id),
+    url: contentUrl(baseUrl, 'blog', blog.slug),
+    title: blog.title,
+    summary: blog.excerpt || null,
+    contentHtml: renderMarkdown(blog.content).contentHtml,
+    image: blog.coverImageUrl || null,
+    publishedAt: blog.publishedAt?.toDate() ?? updatedAt,
+    updatedAt
+  };
+}
+
+export function buildFeed(blogs: Blog[], options: Omit<Feed, 'items' | 'updatedAt'>): Feed {
+  const items = blogs.map(blog => toFeedItem(blog, options.baseUrl));
+  const updatedAt = new Date(Math.max(0, ...items.map(item => item.updatedAt.getTime())));
+  return { ...options, updatedAt, items };
+}
+
+// RSS 2.0
+export function renderRss(feed: Feed): string {
+  const items = feed.items.map(item => [
+    '    <item>',
+    `      <title>${xml(item.title)}</title>`,
+    `      <link>${xml(item.url)}</link>`,
+    `      <guid isPermaLink="false">${xml(item.id)}</guid>`,
+    `      <pubDate>${item.publishedAt.toUTCString()}</pubDate>`,
+    item.summary ? `      <description>${xml(item.summary)}</description>` : null,
+    `      <content:encoded>${cdata(item.contentHtml)}</content:encoded>`,
+    item.image ? `      <enclosure url="${xml(item.image)}" length="0" type="${imageType(item.image)}"/>` : null,
+    '    </item>'
+  ].filter(Boolean).join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">',
+    '  <channel>',
+    `    <title>${xml(feed.title)}</title>`,
+    `    <link>${xml(feed.baseUrl)}</link>`,
+    `    <description>${xml(feed.description)}</description>`,
+    `    <atom:link href="${xml(`${feed.baseUrl}/feed.xml`)}" rel="self" type="application/rss+xml"/>`,
+    `    <lastBuildDate>${feed.updatedAt.toUTCString()}</lastBuildDate>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    ''
+  ].join('\n');
+}
+
+// Atom 1.0 (RFC 4287)
+export function renderAtom(feed: Feed): string {
+  const entries = feed.items.map(item => [
+    '  <entry>',
+    `    <title>${xml(item.title)}</title>`,
+    `    <link rel="alternate" href="${xml(item.url)}"/>`,
+    `    <id>${xml(item.id)}</id>`,
+    `    <published>${item.publishedAt.toISOString()}</published>`,
+    `    <updated>${item.updatedAt.toISOString()}</updated>`,
+    item.summary ? `    <summary type="text">${xml(item.summary)}</summary>` : null,
+    `    <content type="html">${xml(item.contentHtml)}</content>`,
+    item.image ? `    <link rel="enclosure" href="${xml(item.image)}" type="${imageType(item.image)}"/>` : null,
+    '  </entry>'
+  ].filter(Boolean).join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${xml(feed.title)}</title>`,
+    `  <subtitle>${xml(feed.description)}</subtitle>`,
+    `  <link rel="alternate" href="${xml(feed.baseUrl)}"/>`,
+    `  <link rel="self" href="${xml(`${feed.baseUrl}/atom.xml`)}" type="application/atom+xml"/>`,
+    `  <id>${xml(`${feed.baseUrl}/atom.xml`)}</id>`,
+    `  <updated>${feed.updatedAt.toISOString()}</updated>`,
+    ...entries,
+    '</feed>',
+    ''
+  ].join('\n');
+}
+
+// JSON Feed 1.1 (https://jsonfeed.org/version/1.1)
+export function renderJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.baseUrl,
+    feed_url: `${feed.baseUrl}/feed.json`,
+    items: feed.items.map(item => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      ...(item.summary ? { summary: item.summary } : {}),
+      content_html: item.contentHtml,
+      ...(item.image ? { image: item.image } : {}),
+      date_published: item.publishedAt.toISOString(),
+      date_modified: item.updatedAt.toISOString()
+    }))
+  }, null, 2);
+}
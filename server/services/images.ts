@@ -0,0 +1,85 @@
+import sharp, { type OutputInfo } from 'sharp';
+
+// Lebar varian responsif default (px); varian yang lebih lebar dari gambar asli dilewati
+export const DEFAULT_VARIANT_WIDTHS = [320, 768, 1280];
+
+const WEBP_QUALITY = 80;
+
+// Signature byte awal tiap format yang diterima
+const SIGNATURES: Array<{ type: string; matches: (bytes: Uint8Array) => boolean }> = [
+  { type: 'image/jpeg', matches: bytes => bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff },
+  {
+    type: 'image/png',
+    matches: bytes => [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a].every((byte, i) => bytes[i] === byte)
+  },
+  {
+    type: 'image/webp',
+    matches: bytes =>
+      String.fromCharCode(...bytes.subarray(0, 4)) === 'RIFF' && String.fromCharCode(...bytes.subarray(8, 12)) === 'WEBP'
+  }
+];
+
+// Menentukan tipe gambar dari isi file, bukan dari nama file atau header Content-Type klien
+export function sniffImageType(data: Uint8Array): string | null {
+  return SIGNATURES.find(signature => signature.matches(data))?.type ?? null;
+}
+
+export class InvalidImageError extends Error {
+  constructor(message = 'Gambar tidak dapat dibaca') {
+    super(message);
+    this.name = 'InvalidImageError';
+  }
+}
+
+export interface ImageVariant {
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
+export interface ProcessedImage {
+  width: number;
+  height: number;
+  // Gambar ukuran penuh dalam WebP
+  original: Buffer;
+  variants: ImageVariant[];
+}
+
+// Re-encode ke WebP beserta varian per lebar. Metadata (EXIF/GPS/ICC) tidak ikut ditulis karena
+// sharp membuangnya kecuali diminta, orientasi EXIF diterapkan dulu lewat rotate()
+export async function processImage(data: Buffer, widths = DEFAULT_VARIANT_WIDTHS): Promise<ProcessedImage> {
+  let original: { data: Buffer; info: OutputInfo };
+  try {
+    original = await sharp(data).rotate().webp({ quality: WEBP_QUALITY }).toBuffer({ resolveWithObject: true });
+  } catch (error) {
+    throw new InvalidImageError(error instanceof Error ? error.message : undefined);
+  }
+
+  const { width, height } = original.info;
+  const variants: ImageVariant[] = [];
+  for (const variantWidth of [...new Set(widths)].sort((a, b) => a - b)) {
+    if (variantWidth >= width) break;
+    const variant = await sharp(original.data)
+      .resize({ width: variantWidth })
+      .webp({ quality: WEBP_QUALITY })
+      .toBuffer({ resolveWithObject: true });
+    variants.push({ width: variant.info.width, height: variant.info.height, data: variant.data });
+  }
+
+  return { width, height, original: original.data, variants };
+}
+
+// Nama file varian: image-123.webp -> image-123-320w.webp
+export const variantFilename = (filename: string, width: number) => filename.replace(/\.webp$/, `-${width}w.webp`);
+
+export const VARIANT_FILENAME_PATTERN = /-\d+w\.webp$/;
+
+// Gambar hasil upload tidak pernah ditulis ulang, jadi boleh di-cache selamanya
+export const IMAGE_CACHE_CONTROL = 'public, max-age=31536000';
+
+// Nama file varian milik sebuah gambar utama di antara daftar nama file
+export function variantsOf(filename: string, filenames: string[]): string[] {
+  if (!filename.endsWith('.webp') || VARIANT_FILENAME_PATTERN.test(filename)) return [];
+  const prefix = filename.replace(/\.webp$/, '-');
+  return filenames.filter(name => name.startsWith(prefix) && VARIANT_FILENAME_PATTERN.test(name));
+}
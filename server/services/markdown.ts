@@ -0,0 +1,138 @@
+import { Marked, type Token, type Tokens } from 'marked';
+import type { Timestamp } from 'firebase-admin/firestore';
+import { escapeHtml } from '../utils/html';
+import { slugify } from '../utils/slug';
+import type { ContentType } from '../utils/urls';
+
+export interface TocEntry {
+  level: number;
+  text: string;
+  id: string;
+}
+
+export interface RenderedContent {
+  contentHtml: string;
+  toc: TocEntry[];
+  wordCount: number;
+  readingTimeMinutes: number;
+}
+
+export interface ContentRenderer {
+  // Hasil disimpan per dokumen dan dipakai ulang selama updatedAt belum berubah
+  render(type: ContentType, doc: { id: string; content?: string | null; updatedAt: Timestamp }): RenderedContent;
+  readonly size: number;
+}
+
+const WORDS_PER_MINUTE = 200;
+const DEFAULT_CACHE_SIZE = 500;
+
+const LINK_SCHEMES = new Set(['http', 'https', 'mailto']);
+const IMAGE_SCHEMES = new Set(['http', 'https']);
+
+// URL relatif selalu boleh; URL absolut hanya dengan skema yang diizinkan (menolak javascript:, data:, dst.)
+function safeUrl(href: string, schemes: Set<string>): string | null {
+  // Spasi dan karakter kontrol diabaikan browser, jadi "java\tscript:" tetap terdeteksi
+  const scheme = href.replace(/[\u0000-\u0020\u007f]/g, '').match(/^([a-z][a-z0-9+.-]*):/i)?.[1].toLowerCase();
+  return !scheme || schemes.has(scheme) ? href : null;
+}
+
+// Teks polos dari token inline, misalnya judul "**Hono** & Bun" -> "Hono & Bun"
+const plainText = (tokens: Token[]): string =>
+  tokens.map(token => ('tokens' in token && token.tokens ? plainText(token.tokens) : 'text' in token ? token.text : '')).join('');
+
+// ID heading dihitung saat membuat daftar isi lalu dibaca oleh renderer
+const headingIds = new WeakMap<Tokens.Heading, string>();
+
+const marked = new Marked({
+  gfm: true,
+  renderer: {
+    // HTML mentah di dalam Markdown ditampilkan sebagai teks, bukan dieksekusi
+    html({ text, block }) {
+      return block ? `<p>${escapeHtml(text.trim())}</p>\n` : escapeHtml(text);
+    },
+    heading(token) {
+      const id = headingIds.get(token);
+      const attribute = id ? ` id="${id}"` : '';
+      return `<h${token.depth}${attribute}>${this.parser.parseInline(token.tokens)}</h${token.depth}>\n`;
+    },
+    link({ href, title, tokens }) {
+      const text = this.parser.parseInline(tokens);
+      const url = safeUrl(href, LINK_SCHEMES);
+      if (!url) return text;
+      const titleAttribute = title ? ` title="${escapeHtml(title)}"` : '';
+      const relAttribute = /^https?:/i.test(url) ? ' rel="nofollow noopener noreferrer"' : '';
+      return `<a href="${escapeHtml(url)}"${titleAttribute}${relAttribute}>${text}</a>`;
+    },
+    image({ href, title, text }) {
+      const url = safeUrl(href, IMAGE_SCHEMES);
+      if (!url) return escapeHtml(text);
+      const titleAttribute = title ? ` title="${escapeHtml(title)}"` : '';
+      return `<img src="${escapeHtml(url)}" alt="${escapeHtml(text)}"${titleAttribute} loading="lazy">`;
+    }
+  }
+});
+
+function buildToc(tokens: Token[]): TocEntry[] {
+  const toc: TocEntry[] = [];
+  const used = new Map<string, number>();
+  marked.walkTokens(tokens, token => {
+    if (token.type !== 'heading') return;
+    const heading = token as Tokens.Heading;
+    const text = plainText(heading.tokens).trim();
+    const base = slugify(text) || 'section';
+    const count = used.get(base) ?? 0;
+    used.set(base, count + 1);
+    const id = count === 0 ? base : `${base}-${count + 1}`;
+    headingIds.set(heading, id);
+    toc.push({ level: heading.depth, text, id });
+  });
+  return toc;
+}
+
+export function countWords(html: string): number {
+  const text = html.replace(/<[^>]*>/g, ' ').replace(/&[#a-z0-9]+;/gi, ' ');
+  return text.match(/[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu)?.length ?? 0;
+}
+
+export function renderMarkdown(markdown: string | null | undefined): RenderedContent {
+  const tokens = marked.lexer(markdown ?? '');
+  const toc = buildToc(tokens);
+  const contentHtml = (marked.parser(tokens) as string).trim();
+  const wordCount = countWords(contentHtml);
+  return {
+    contentHtml,
+    toc,
+    wordCount,
+    readingTimeMinutes: wordCount === 0 ? 0 : Math.max(1, Math.ceil(wordCount / WORDS_PER_MINUTE))
+  };
+}
+
+// Cache LRU sederhana berbasis urutan penyisipan Map
+export function createContentRenderer({ maxEntries = DEFAULT_CACHE_SIZE }: { maxEntries?: number } = {}): ContentRenderer {
+  const cache = new Map<string, { version: number; content: string; rendered: RenderedContent }>();
+
+  return {
+    render(type, doc) {
+      const key = `${type}:${doc.id}`;
+      const version = doc.updatedAt.toMillis();
+      const content = doc.content ?? '';
+      const cached = cache.get(key);
+      cache.delete(key);
+      // Dua penulisan dalam milidetik yang sama punya updatedAt sama, jadi isinya ikut dibandingkan
+      if (cached && cached.version === version && cached.content === content) {
+        cache.set(key, cached);
+        return cached.rendered;
+      }
+
+      const rendered = renderMarkdown(content);
+      cache.set(key, { version, content, rendered });
+      if (cache.size > maxEntries) {
+        cache.delete(cache.keys().next().value!);
+      }
+      return rendered;
+    },
+    get size() {
+      return cache.size;
+    }
+  };
+}
@@ -0,0 +1,56 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import type { RevisionInput, RevisionRepository } from '../repositories';
+
+export const DEFAULT_REVISION_RETENTION = 20;
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Field pembukuan yang selalu berubah di setiap update, tidak ikut dibandingkan
+const IGNORED_FIELDS = new Set(['id', 'updatedAt', 'version', 'commentCount']);
+
+const toPlain = (value: unknown): unknown => {
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  if (Array.isArray(value)) return value.map(toPlain);
+  return value ?? null;
+};
+
+// Diff per field antara dua versi dokumen; nilai Timestamp dikembalikan sebagai ISO string
+export function diffFields(before: Record<string, any>, after: Record<string, any>): FieldChange[] {
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter(field => !IGNORED_FIELDS.has(field))
+    .sort();
+
+  return fields
+    .map(field => ({ field, before: toPlain(before[field]), after: toPlain(after[field]) }))
+    .filter(change => JSON.stringify(change.before) !== JSON.stringify(change.after));
+}
+
+// Revisi berisi isi dokumen sebelum `changes` diterapkan; ditulis repository bersama update-nya
+// (opsi `revision` pada update dan bulkWrite)
+export function buildRevision(
+  existing: Record<string, any> & { id: string },
+  changes: Record<string, any>,
+  createdBy: string | null = null
+): RevisionInput {
+  const { id, ...snapshot } = existing;
+  return {
+    snapshot,
+    changedFields: diffFields(snapshot, { ...snapshot, ...changes }).map(change => change.field),
+    createdBy,
+    createdAt: Timestamp.now()
+  };
+}
+
+// Memangkas revisi lama sesuai retensi setelah update tertulis. Kegagalan hanya membuat revisi lama tersimpan
+// lebih lama, jadi dicatat tanpa menggagalkan permintaan
+export async function pruneRevisions(revisions: RevisionRepository, documentId: string, retention = DEFAULT_REVISION_RETENTION) {
+  try {
+    await revisions.prune(documentId, retention);
+  } catch (error) {
+    console.error(`Eror memangkas revisi ${documentId}:`, error);
+  }
+}
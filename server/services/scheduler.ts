@@ -0,0 +1,80 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { VersionConflictError, type ContentRepository } from '../repositories';
+import type { SearchIndex, SearchableType } from './search';
+import { publishContentChange, type EventBus } from './events';
+
+export interface PublishScheduler {
+  // Mempublikasikan semua item terjadwal yang sudah jatuh tempo, mengembalikan jumlahnya
+  runOnce(now?: Date): Promise<number>;
+  start(): void;
+  stop(): void;
+}
+
+export interface PublishSchedulerOptions {
+  sources: Array<[SearchableType, ContentRepository<any>]>;
+  search: SearchIndex;
+  events: EventBus;
+  intervalMs?: number;
+}
+
+// Sweeper di dalam proses Bun yang mengubah item 'scheduled' menjadi 'published' saat publishedAt lewat
+export function createPublishScheduler({ sources, search, events, intervalMs = 60_000 }: PublishSchedulerOptions): PublishScheduler {
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let running = false;
+
+  const runOnce = async (now = new Date()) => {
+    let published = 0;
+    for (const [type, repository] of sources) {
+      const due = await repository.listScheduled({ dueBefore: Timestamp.fromDate(now) });
+      for (const item of due) {
+        // Item yang diubah editor setelah daftar di atas dibaca (mis. dikembalikan ke draft) dilewati;
+        // jika masih terjadwal, item itu terambil lagi di putaran berikutnya
+        const updated = await repository
+          .update(item.id, { status: 'published', updatedAt: Timestamp.now() }, { expectedVersion: item.version ?? 0 })
+          .catch(error => {
+            if (error instanceof VersionConflictError) return null;
+            throw error;
+          });
+        if (updated) {
+          search.index(type, updated);
+          publishContentChange(events, type, item, updated);
+          published++;
+        }
+      }
+    }
+    return published;
+  };
+
+  const tick = async () => {
+    // Lewati tick jika putaran sebelumnya belum selesai
+    if (running) return;
+    running = true;
+    try {
+      const published = await runOnce();
+      if (published > 0) {
+        console.log(`⏰ ${published} konten terjadwal dipublikasikan`);
+      }
+    } catch (error) {
+      console.error('Eror menjalankan jadwal publikasi:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  return {
+    runOnce,
+
+    start() {
+      if (timer) return;
+      void tick();
+      timer = setInterval(tick, intervalMs);
+    },
+
+    stop() {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+    }
+  };
+}
@@ -0,0 +1,198 @@
+import type { ContentRepository } from '../repositories';
+import { escapeHtml } from '../utils/html';
+
+export type SearchableType = 'blog' | 'project';
+
+export interface SearchHighlight {
+  field: string;
+  snippet: string;
+}
+
+export interface SearchResult {
+  type: SearchableType;
+  id: string;
+  slug: string | null;
+  title: string;
+  score: number;
+  highlights: SearchHighlight[];
+}
+
+export interface SearchOptions {
+  type?: SearchableType;
+  limit?: number;
+  includeDrafts?: boolean;
+}
+
+export interface SearchIndex {
+  index(type: SearchableType, doc: Record<string, any> & { id: string }): void;
+  remove(type: SearchableType, id: string): void;
+  search(query: string, options?: SearchOptions): SearchResult[];
+  readonly size: number;
+}
+
+// Field yang diindeks per tipe beserta bobotnya dalam skor
+const FIELD_WEIGHTS: Record<SearchableType, Record<string, number>> = {
+  blog: { title: 3, excerpt: 2, content: 1 },
+  project: { title: 3, abstract: 2, projectScope: 1 }
+};
+
+const STOPWORDS = new Set([
+  'dan', 'yang', 'di', 'ke', 'dari', 'untuk', 'dengan', 'ini', 'itu', 'atau', 'pada',
+  'the', 'and', 'of', 'to', 'in', 'for', 'on', 'with', 'is', 'an', 'or'
+]);
+
+const SNIPPET_RADIUS = 60;
+
+const normalize = (text: string) => text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+export const tokenize = (text: string) =>
+  normalize(text)
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token));
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Potongan teks di sekitar kecocokan pertama, istilah yang cocok dibungkus <mark>
+function buildSnippet(text: string, terms: string[]): string | null {
+  // Posisi di teks ternormalisasi hanya bisa dipakai di teks asli jika panjangnya sama
+  const fold = normalize(text).length === text.length ? normalize : (value: string) => value.toLowerCase();
+  const folded = fold(text);
+  const positions = terms.map(term => folded.search(new RegExp(`\\b${escapeRegExp(term)}`))).filter(index => index >= 0);
+  if (positions.length === 0) return null;
+
+  const first = Math.min(...positions);
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(text.length, first + SNIPPET_RADIUS);
+  const pattern = new RegExp(`\\b(${terms.map(escapeRegExp).join('|')})[a-z0-9]*`, 'g');
+
+  let snippet = '';
+  let cursor = start;
+  for (const match of folded.slice(start, end).matchAll(pattern)) {
+    const matchStart = start + match.index!;
+    snippet += escapeHtml(text.slice(cursor, matchStart));
+    snippet += `<mark>${escapeHtml(text.slice(matchStart, matchStart + match[0].length))}</mark>`;
+    cursor = matchStart + match[0].length;
+  }
+  snippet += escapeHtml(text.slice(cursor, end));
+
+  return `${start > 0 ? '…' : ''}${snippet.trim()}${end < text.length ? '…' : ''}`;
+}
+
+interface IndexedDocument {
+  type: SearchableType;
+  id: string;
+  slug: string | null;
+  title: string;
+  status: string;
+  fields: Record<string, string>;
+  // token -> skor berbobot dokumen ini
+  weights: Map<string, number>;
+}
+
+// Inverted index in-process; cukup untuk jumlah konten portofolio tanpa layanan pencarian eksternal
+export function createSearchIndex(): SearchIndex {
+  const documents = new Map<string, IndexedDocument>();
+  const postings = new Map<string, Set<string>>();
+
+  const keyOf = (type: SearchableType, id: string) => `${type}:${id}`;
+
+  const remove = (type: SearchableType, id: string) => {
+    const key = keyOf(type, id);
+    const existing = documents.get(key);
+    if (!existing) return;
+    for (const token of existing.weights.keys()) {
+      const docs = postings.get(token);
+      docs?.delete(key);
+      if (docs?.size === 0) postings.delete(token);
+    }
+    documents.delete(key);
+  };
+
+  return {
+    get size() {
+      return documents.size;
+    },
+
+    remove,
+
+    index(type, doc) {
+      remove(type, doc.id);
+
+      const fields: Record<string, string> = {};
+      const weights = new Map<string, number>();
+      for (const [field, weight] of Object.entries(FIELD_WEIGHTS[type])) {
+        const value = typeof doc[field] === 'string' ? doc[field] : '';
+        fields[field] = value;
+        for (const token of tokenize(value)) {
+          weights.set(token, (weights.get(token) ?? 0) + weight);
+        }
+      }
+
+      const key = keyOf(type, doc.id);
+      documents.set(key, {
+        type,
+        id: doc.id,
+        slug: doc.slug ?? null,
+        title: doc.title ?? '',
+        status: doc.status,
+        fields,
+        weights
+      });
+      for (const token of weights.keys()) {
+        if (!postings.has(token)) postings.set(token, new Set());
+        postings.get(token)!.add(key);
+      }
+    },
+
+    search(query, options = {}) {
+      const terms = [...new Set(tokenize(query))];
+      if (terms.length === 0) return [];
+
+      const scores = new Map<string, number>();
+      for (const term of terms) {
+        // Kecocokan awalan ("type" -> "typescript") diberi bobot lebih kecil dari kecocokan persis
+        for (const [token, keys] of postings) {
+          if (!token.startsWith(term)) continue;
+          const boost = token === term ? 1 : 0.5;
+          const idf = Math.log(1 + documents.size / keys.size);
+          for (const key of keys) {
+            const tf = documents.get(key)!.weights.get(token)!;
+            scores.set(key, (scores.get(key) ?? 0) + (1 + Math.log(tf)) * idf * boost);
+          }
+        }
+      }
+
+      return [...scores.entries()]
+        .map(([key, score]) => ({ doc: documents.get(key)!, score }))
+        .filter(({ doc }) => !options.type || doc.type === options.type)
+        .filter(({ doc }) => options.includeDrafts || doc.status === 'published')
+        .sort((a, b) => b.score - a.score)
+        .slice(0, options.limit ?? 10)
+        .map(({ doc, score }) => ({
+          type: doc.type,
+          id: doc.id,
+          slug: doc.slug,
+          title: doc.title,
+          score: Math.round(score * 1000) / 1000,
+          highlights: Object.entries(doc.fields)
+            .map(([field, text]) => ({ field, snippet: buildSnippet(text, terms) }))
+            .filter((highlight): highlight is SearchHighlight => highlight.snippet !== null)
+        }));
+    }
+  };
+}
+
+// Mengisi index dari seluruh isi repository saat server start
+export async function populateSearchIndex(
+  search: SearchIndex,
+  sources: Array<[SearchableType, ContentRepository<any>]>
+) {
+  for (const [type, repository] of sources) {
+    let cursor: string | undefined;
+    do {
+      const page = await repository.list({ limit: 100, cursor });
+      page.items.forEach(doc => search.index(type, doc));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+  }
+}
@@ -0,0 +1,71 @@
+import type { Blog, Project } from '../../shared/schema';
+import { contentUrl, type ContentType } from '../utils/urls';
+
+// Panjang deskripsi yang umumnya ditampilkan utuh oleh mesin pencari
+const DESCRIPTION_LENGTH = 160;
+
+export interface ContentMeta {
+  title: string;
+  description: string;
+  canonicalUrl: string;
+  image: string | null;
+  openGraph: {
+    type: 'article';
+    title: string;
+    description: string;
+    url: string;
+    image: string | null;
+    publishedTime: string | null;
+    modifiedTime: string;
+  };
+  twitter: {
+    card: 'summary' | 'summary_large_image';
+    title: string;
+    description: string;
+    image: string | null;
+  };
+}
+
+// Teks polos satu baris, dipotong di batas kata dengan elipsis
+export function summarize(text: string, maxLength = DESCRIPTION_LENGTH): string {
+  const plain = text.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+  if (plain.length <= maxLength) return plain;
+  const cut = plain.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s.,;:!?-]+$/, '')}…`;
+}
+
+const firstFilled = (...values: Array<string | null | undefined>) =>
+  values.find(value => typeof value === 'string' && value.trim().length > 0) ?? '';
+
+// Blog memakai excerpt, proyek memakai abstract; keduanya jatuh ke isi konten jika kosong
+export function buildContentMeta(type: ContentType, doc: Blog | Project, baseUrl: string): ContentMeta {
+  const source = type === 'project'
+    ? firstFilled((doc as Project).abstract, doc.excerpt, doc.content)
+    : firstFilled(doc.excerpt, doc.content);
+  const description = summarize(source);
+  const canonicalUrl = contentUrl(baseUrl, type, doc.slug);
+  const image = doc.coverImageUrl || null;
+
+  return {
+    title: doc.title,
+    description,
+    canonicalUrl,
+    image,
+    openGraph: {
+      type: 'article',
+      title: doc.title,
+      description,
+      url: canonicalUrl,
+      image,
+      publishedTime: doc.publishedAt?.toDate().toISOString() ?? null,
+      modifiedTime: doc.updatedAt.toDate().toISOString()
+    },
+    twitter: {
+      card: image ? 'summary_large_image' : 'summary',
+      title: doc.title,
+      description,
+      image
+    }
+  };
+}
@@ -0,0 +1,75 @@
+import type { ContentRepository } from '../repositories';
+import { escapeHtml } from '../utils/html';
+import { contentUrl, type ContentType } from '../utils/urls';
+
+// Batas URL per file menurut protokol sitemaps.org
+export const SITEMAP_URL_LIMIT = 50_000;
+
+export interface SitemapEntry {
+  loc: string;
+  lastmod: Date | null;
+}
+
+// Semua blog dan proyek yang sudah terbit, dibaca per halaman dari repository
+export async function collectSitemapEntries(
+  baseUrl: string,
+  sources: Array<[ContentType, ContentRepository<any>]>
+): Promise<SitemapEntry[]> {
+  const entries: SitemapEntry[] = [];
+  for (const [type, repository] of sources) {
+    let cursor: string | undefined;
+    do {
+      const page = await repository.list({ status: 'published', limit: 100, cursor });
+      for (const doc of page.items) {
+        entries.push({ loc: contentUrl(baseUrl, type, doc.slug), lastmod: doc.updatedAt?.toDate() ?? null });
+      }
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+  }
+  return entries;
+}
+
+export const latestModification = (entries: SitemapEntry[]) => {
+  const times = entries.map(entry => entry.lastmod?.getTime() ?? 0);
+  return times.some(Boolean) ? new Date(Math.max(...times)) : null;
+};
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8"?>';
+const SITEMAP_NS = 'http://www.sitemaps.org/schemas/sitemap/0.9';
+
+export function renderUrlset(entries: SitemapEntry[]): string {
+  const urls = entries.map(entry => [
+    '  <url>',
+    `    <loc>${escapeHtml(entry.loc)}</loc>`,
+    entry.lastmod ? `    <lastmod>${entry.lastmod.toISOString()}</lastmod>` : null,
+    '  </url>'
+  ].filter(Boolean).join('\n'));
+
+  return [XML_HEADER, `<urlset xmlns="${SITEMAP_NS}">`, ...urls, '</urlset>', ''].join('\n');
+}
+
+export function renderSitemapIndex(sitemaps: SitemapEntry[]): string {
+  const items = sitemaps.map(sitemap => [
+    '  <sitemap>',
+    `    <loc>${escapeHtml(sitemap.loc)}</loc>`,
+    sitemap.lastmod ? `    <lastmod>${sitemap.lastmod.toISOString()}</lastmod>` : null,
+    '  </sitemap>'
+  ].filter(Boolean).join('\n'));
+
+  return [XML_HEADER, `<sitemapindex xmlns="${SITEMAP_NS}">`, ...items, '</sitemapindex>', ''].join('\n');
+}
+
+export function renderRobots(baseUrl: string): string {
+  return [
+    'User-agent: *',
+    'Allow: /',
+    'Disallow: /api/upload',
+    'Disallow: /api/scheduled',
+    'Disallow: /api/search',
+    'Disallow: /doc',
+    'Disallow: /docs',
+    '',
+    `Sitemap: ${baseUrl}/sitemap.xml`,
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,112 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import type { CommentRepository, ContentRepository, RevisionRepository } from '../repositories';
+import type { StorageDriver } from '../storage';
+import type { ContentType } from '../utils/urls';
+import { IMAGE_CACHE_CONTROL, VARIANT_FILENAME_PATTERN, variantsOf } from './images';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Gambar beserta variannya, salinan ditulis dulu sebelum file asal dihapus
+export async function moveImage(from: StorageDriver, to: StorageDriver, filename: string): Promise<string[]> {
+  const filenames = [filename, ...variantsOf(filename, (await from.list()).map(file => file.filename))];
+  for (const name of filenames) {
+    const file = await from.get(name);
+    if (!file) continue;
+    await to.put(name, file.data, { contentType: file.contentType, cacheControl: IMAGE_CACHE_CONTROL });
+    await from.delete(name);
+  }
+  return filenames;
+}
+
+export async function deleteImage(storage: StorageDriver, filename: string): Promise<void> {
+  const variants = variantsOf(filename, (await storage.list()).map(file => file.filename));
+  await Promise.all([filename, ...variants].map(name => storage.delete(name)));
+}
+
+export interface TrashPurger {
+  // Menghapus permanen isi tempat sampah yang melewati masa simpan, mengembalikan jumlahnya
+  runOnce(now?: Date): Promise<number>;
+  start(): void;
+  stop(): void;
+}
+
+export interface TrashPurgerOptions {
+  sources: Array<[ContentType, ContentRepository<any>, RevisionRepository]>;
+  // Storage tempat sampah gambar; waktu upload file di sana adalah waktu penghapusannya
+  images: StorageDriver;
+  // Komentar blog yang dihapus permanen ikut dihapus
+  comments?: CommentRepository;
+  retentionDays?: number;
+  intervalMs?: number;
+}
+
+export function createTrashPurger({
+  sources,
+  images,
+  comments,
+  retentionDays = DEFAULT_TRASH_RETENTION_DAYS,
+  intervalMs = 60 * 60 * 1000
+}: TrashPurgerOptions): TrashPurger {
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let running = false;
+
+  const runOnce = async (now = new Date()) => {
+    const cutoff = new Date(now.getTime() - retentionDays * DAY_MS);
+    let purged = 0;
+
+    for (const [type, repository, revisions] of sources) {
+      const expired = await repository.listDeleted({ deletedBefore: Timestamp.fromDate(cutoff) });
+      for (const item of expired) {
+        if (await repository.delete(item.id)) {
+          await revisions.deleteAll(item.id);
+          if (type === 'blog') await comments?.deleteByBlog(item.id);
+          purged++;
+        }
+      }
+    }
+
+    const expiredFiles = (await images.list()).filter(file => file.uploadDate && new Date(file.uploadDate) <= cutoff);
+    for (const file of expiredFiles) {
+      await images.delete(file.filename);
+      // Varian tidak dihitung sebagai item tersendiri
+      if (!VARIANT_FILENAME_PATTERN.test(file.filename)) purged++;
+    }
+
+    return purged;
+  };
+
+  const tick = async () => {
+    // Lewati tick jika putaran sebelumnya belum selesai
+    if (running) return;
+    running = true;
+    try {
+      const purged = await runOnce();
+      if (purged > 0) {
+        console.log(`🗑️ ${purged} item di tempat sampah dihapus permanen`);
+      }
+    } catch (error) {
+      console.error('Eror mengosongkan tempat sampah:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  return {
+    runOnce,
+
+    start() {
+      if (timer) return;
+      void tick();
+      timer = setInterval(tick, intervalMs);
+    },
+
+    stop() {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+    }
+  };
+}
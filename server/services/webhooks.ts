@@ -0,0 +1,223 @@
+import { createHmac, randomBytes } from 'crypto';
+import { Timestamp } from 'firebase-admin/firestore';
+import type { Webhook, WebhookDelivery } from '../../shared/schema';
+import type { WebhookDeliveryRepository, WebhookRepository } from '../repositories';
+import type { AppEvent, EventBus } from './events';
+
+export const DEFAULT_WEBHOOK_MAX_ATTEMPTS = 8;
+export const DEFAULT_WEBHOOK_RETRY_BASE_MS = 30_000;
+export const DEFAULT_WEBHOOK_TIMEOUT_MS = 10_000;
+export const DEFAULT_WEBHOOK_SWEEP_INTERVAL_MS = 30_000;
+
+// Jumlah pengiriman jatuh tempo yang dicoba per putaran
+const DUE_BATCH_SIZE = 50;
+const MAX_ERROR_LENGTH = 500;
+
+export const generateWebhookSecret = () => `whsec_${randomBytes(24).toString('base64url')}`;
+
+// Timestamp ikut ditandatangani sehingga penerima bisa menolak body lama yang dikirim ulang pihak lain
+export const signWebhookPayload = (secret: string, timestamp: number, body: string) =>
+  createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+// Jeda setelah percobaan ke-`attempts` gagal: base, 2×base, 4×base, ...
+export const retryDelayMs = (attempts: number, baseMs: number) => baseMs * 2 ** (attempts - 1);
+
+// Secret tidak pernah ditampilkan lagi setelah dibuat atau diganti
+export const toWebhookResponse = ({ secret, ...webhook }: Webhook) => ({
+  ...webhook,
+  createdAt: webhook.createdAt.toDate().toISOString(),
+  updatedAt: webhook.updatedAt.toDate().toISOString()
+});
+
+export const toDeliveryResponse = (delivery: WebhookDelivery) => ({
+  ...delivery,
+  nextAttemptAt: delivery.nextAttemptAt?.toDate().toISOString() ?? null,
+  lastAttemptAt: delivery.lastAttemptAt?.toDate().toISOString() ?? null,
+  createdAt: delivery.createdAt.toDate().toISOString()
+});
+
+export interface WebhookDispatcher {
+  // Mencoba ulang pengiriman yang jatuh tempo, mengembalikan jumlah yang dicoba
+  runOnce(now?: Date): Promise<number>;
+  // Membuat pengiriman baru dengan payload yang sama lalu langsung mencobanya, meskipun webhook tidak aktif
+  redeliver(original: WebhookDelivery, webhook: Webhook): Promise<WebhookDelivery>;
+  // Menunggu pengiriman event yang sedang berjalan
+  drain(): Promise<void>;
+  // Mulai mendengarkan event dan mencoba ulang secara berkala
+  start(): void;
+  stop(): Promise<void>;
+}
+
+export interface WebhookDispatcherOptions {
+  webhooks: WebhookRepository;
+  deliveries: WebhookDeliveryRepository;
+  events: EventBus;
+  maxAttempts?: number;
+  retryBaseMs?: number;
+  timeoutMs?: number;
+  intervalMs?: number;
+  fetch?: typeof fetch;
+}
+
+// Pengiriman bersifat at-least-once: penerima sebaiknya mengabaikan `id` event yang sudah pernah diproses
+export function createWebhookDispatcher({
+  webhooks,
+  deliveries,
+  events,
+  maxAttempts = DEFAULT_WEBHOOK_MAX_ATTEMPTS,
+  retryBaseMs = DEFAULT_WEBHOOK_RETRY_BASE_MS,
+  timeoutMs = DEFAULT_WEBHOOK_TIMEOUT_MS,
+  intervalMs = DEFAULT_WEBHOOK_SWEEP_INTERVAL_MS,
+  fetch: send = fetch
+}: WebhookDispatcherOptions): WebhookDispatcher {
+  // ID pengiriman yang sedang dicoba di proses ini, supaya sweeper tidak mengirimnya dua kali
+  const inFlight = new Set<string>();
+  const pending = new Set<Promise<unknown>>();
+  let unsubscribe: (() => void) | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let running = false;
+
+  const post = async (delivery: WebhookDelivery, webhook: Webhook) => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    try {
+      const response = await send(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': delivery.eventType,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': `sha256=${signWebhookPayload(webhook.secret, timestamp, delivery.payload)}`
+        },
+        body: delivery.payload,
+        // Redirect dianggap gagal; URL tujuan harus diperbarui di registrasi
+        redirect: 'manual',
+        signal: AbortSignal.timeout(timeoutMs)
+      });
+      await response.body?.cancel();
+      return { responseStatus: response.status, error: response.ok ? null : `HTTP ${response.status}` };
+    } catch (error: any) {
+      const message = error?.name === 'TimeoutError' ? `Tidak ada respons dalam ${timeoutMs} ms` : String(error?.message ?? error);
+      return { responseStatus: null, error: message.slice(0, MAX_ERROR_LENGTH) };
+    }
+  };
+
+  const attempt = async (delivery: WebhookDelivery, webhook: Webhook) => {
+    inFlight.add(delivery.id);
+    try {
+      const { responseStatus, error } = await post(delivery, webhook);
+      const attempts = delivery.attempts + 1;
+      const finished = !error || attempts >= maxAttempts;
+      const updated = await deliveries.update(delivery.id, {
+        status: !error ? 'succeeded' : finished ? 'failed' : 'pending',
+        attempts,
+        lastAttemptAt: Timestamp.now(),
+        nextAttemptAt: finished ? null : Timestamp.fromMillis(Date.now() + retryDelayMs(attempts, retryBaseMs)),
+        responseStatus,
+        error
+      });
+      return updated ?? delivery;
+    } finally {
+      inFlight.delete(delivery.id);
+    }
+  };
+
+  // Dicatat sebagai pending lebih dulu, sehingga sweeper tetap mengirimnya jika proses berhenti di tengah jalan
+  const createDelivery = (webhook: Webhook, data: Pick<WebhookDelivery, 'eventId' | 'eventType' | 'payload' | 'redeliveryOf'>) => {
+    const now = Timestamp.now();
+    return deliveries.create({
+      webhookId: webhook.id,
+      ...data,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      lastAttemptAt: null,
+      responseStatus: null,
+      error: null,
+      createdAt: now
+    });
+  };
+
+  const dispatch = async (event: AppEvent) => {
+    const targets = await webhooks.listByEvent(event.type);
+    const payload = JSON.stringify({ id: event.id, type: event.type, timestamp: event.timestamp, data: event.data });
+    await Promise.all(targets.map(async (webhook) => {
+      const delivery = await createDelivery(webhook, { eventId: event.id, eventType: event.type, payload, redeliveryOf: null });
+      await attempt(delivery, webhook);
+    }));
+  };
+
+  const track = (promise: Promise<unknown>) => {
+    const tracked = promise
+      .catch(error => console.error('Eror mengirim webhook:', error))
+      .finally(() => pending.delete(tracked));
+    pending.add(tracked);
+  };
+
+  const runOnce = async (now = new Date()) => {
+    let attempted = 0;
+    for (const delivery of await deliveries.listDue(Timestamp.fromDate(now), DUE_BATCH_SIZE)) {
+      if (inFlight.has(delivery.id)) continue;
+      const webhook = await webhooks.findById(delivery.webhookId);
+      if (!webhook?.active) {
+        await deliveries.update(delivery.id, { status: 'failed', nextAttemptAt: null, error: webhook ? 'Webhook tidak aktif' : 'Webhook sudah dihapus' });
+        continue;
+      }
+      await attempt(delivery, webhook);
+      attempted++;
+    }
+    return attempted;
+  };
+
+  const tick = async () => {
+    // Lewati tick jika putaran sebelumnya belum selesai
+    if (running) return;
+    running = true;
+    try {
+      await runOnce();
+    } catch (error) {
+      console.error('Eror mencoba ulang webhook:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const drain = async () => {
+    while (pending.size > 0) {
+      await Promise.all(pending);
+    }
+  };
+
+  return {
+    runOnce,
+
+    async redeliver(original, webhook) {
+      const delivery = await createDelivery(webhook, {
+        eventId: original.eventId,
+        eventType: original.eventType,
+        payload: original.payload,
+        redeliveryOf: original.id
+      });
+      return attempt(delivery, webhook);
+    },
+
+    drain,
+
+    start() {
+      if (timer) return;
+      // Dikirim di latar belakang agar request yang memicu event tidak menunggu penerima webhook
+      unsubscribe = events.subscribe(event => track(dispatch(event)));
+      timer = setInterval(tick, intervalMs);
+    },
+
+    async stop() {
+      unsubscribe?.();
+      unsubscribe = null;
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+      await drain();
+    }
+  };
+}
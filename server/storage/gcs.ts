@@ -0,0 +1,88 @@
+import { Storage } from '@google-cloud/storage';
+import path from 'path';
+import fs from 'fs/promises';
+import type { StorageDriver } from './types';
+
+export interface GcsStorageOptions {
+  bucketName: string;
+  keyFilename?: string;
+  // Awalan nama objek, misalnya 'trash/'; tanpa awalan hanya objek di root bucket yang terlihat
+  prefix?: string;
+}
+
+// === Setup Google Cloud Credentials dari ENV jika perlu ===
+// Jika di Vercel tidak bisa simpan file credentials.json, bisa simpan JSON string di env GCP_SERVICE_ACCOUNT
+async function setupGcpCredentials() {
+  if (!process.env.GOOGLE_APPLICATION_CREDENTIALS && process.env.GCP_SERVICE_ACCOUNT) {
+    const saPath = '/tmp/gcp-sa.json';
+    await fs.writeFile(saPath, process.env.GCP_SERVICE_ACCOUNT);
+    process.env.GOOGLE_APPLICATION_CREDENTIALS = saPath;
+  }
+}
+
+export async function createGcsStorageDriver(options: GcsStorageOptions): Promise<StorageDriver> {
+  await setupGcpCredentials();
+
+  const keyFilename = options.keyFilename
+    ?? process.env.GOOGLE_APPLICATION_CREDENTIALS
+    ?? path.resolve('./bwai-460805-dc1ae9dcb44b.json');
+  const bucket = new Storage({ keyFilename }).bucket(options.bucketName);
+  const prefix = options.prefix ?? '';
+
+  const object = (filename: string) => bucket.file(`${prefix}${filename}`);
+  const publicUrl = (filename: string) => `https://storage.googleapis.com/${bucket.name}/${prefix}${filename}`;
+
+  return {
+    kind: 'gcs',
+    publicUrl,
+
+    async put(filename, data, putOptions = {}) {
+      await object(filename).save(data, {
+        contentType: putOptions.contentType,
+        resumable: false,
+        metadata: putOptions.cacheControl ? { cacheControl: putOptions.cacheControl } : undefined
+      });
+      return {
+        filename,
+        url: publicUrl(filename),
+        size: data.length,
+        contentType: putOptions.contentType,
+        uploadDate: new Date().toISOString()
+      };
+    },
+
+    async get(filename) {
+      const file = object(filename);
+      const [exists] = await file.exists();
+      if (!exists) return null;
+      const [[data], [metadata]] = await Promise.all([file.download(), file.getMetadata()]);
+      return { data, contentType: metadata.contentType };
+    },
+
+    async list() {
+      const [files] = await bucket.getFiles({ prefix, delimiter: '/' });
+      return Promise.all(
+        files.map(async (file) => {
+          const [metadata] = await file.getMetadata();
+          const filename = file.name.slice(prefix.length);
+          return {
+            filename,
+            url: publicUrl(filename),
+            size: metadata.size !== undefined ? Number(metadata.size) : undefined,
+            contentType: metadata.contentType,
+            uploadDate: metadata.timeCreated
+          };
+        })
+      );
+    },
+
+    async delete(filename) {
+      await object(filename).delete();
+    },
+
+    async exists(filename) {
+      const [exists] = await object(filename).exists();
+      return exists;
+    }
+  };
+}
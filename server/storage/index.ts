@@ -0,0 +1,48 @@
+import path from 'path';
+import { createGcsStorageDriver } from './gcs';
+import { createLocalStorageDriver } from './local';
+import type { StorageDriver } from './types';
+
+export type { StorageDriver, StoredFile, PutOptions } from './types';
+export { createGcsStorageDriver, createLocalStorageDriver };
+
+// Memilih driver berdasarkan STORAGE_DRIVER (gcs | local), default gcs
+export function createStorageDriver(baseUrl: string): Promise<StorageDriver> {
+  const driver = process.env.STORAGE_DRIVER ?? 'gcs';
+
+  switch (driver) {
+    case 'local':
+      return createLocalStorageDriver({
+        directory: process.env.UPLOAD_DIR ?? './uploads',
+        baseUrl
+      });
+    case 'gcs':
+      return createGcsStorageDriver({
+        bucketName: process.env.GCS_BUCKET ?? 'janda',
+        keyFilename: process.env.GCS_KEY_FILE
+      });
+    default:
+      throw new Error(`STORAGE_DRIVER tidak dikenal: ${driver}`);
+  }
+}
+
+// Gambar yang dihapus dipindahkan ke sini sampai dipulihkan atau di-purge; isinya tidak dilayani publik
+export function createTrashStorageDriver(baseUrl: string): Promise<StorageDriver> {
+  const driver = process.env.STORAGE_DRIVER ?? 'gcs';
+
+  switch (driver) {
+    case 'local':
+      return createLocalStorageDriver({
+        directory: path.join(process.env.UPLOAD_DIR ?? './uploads', '.trash'),
+        baseUrl
+      });
+    case 'gcs':
+      return createGcsStorageDriver({
+        bucketName: process.env.GCS_BUCKET ?? 'janda',
+        keyFilename: process.env.GCS_KEY_FILE,
+        prefix: 'trash/'
+      });
+    default:
+      throw new Error(`STORAGE_DRIVER tidak dikenal: ${driver}`);
+  }
+}
@@ -0,0 +1,83 @@
+import path from 'path';
+import fs from 'fs/promises';
+import type { StorageDriver } from './types';
+
+export interface LocalStorageOptions {
+  directory: string;
+  baseUrl: string;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml'
+};
+
+const contentTypeFor = (filename: string) =>
+  MIME_TYPES[path.extname(filename).toLowerCase()] ?? 'application/octet-stream';
+
+// Penyimpanan di disk lokal, file dilayani oleh server di /uploads/*
+export async function createLocalStorageDriver(options: LocalStorageOptions): Promise<StorageDriver> {
+  const directory = path.resolve(options.directory);
+  await fs.mkdir(directory, { recursive: true });
+
+  // path.basename mencegah path traversal keluar dari direktori upload
+  const resolve = (filename: string) => path.join(directory, path.basename(filename));
+  const publicUrl = (filename: string) => `${options.baseUrl.replace(/\/$/, '')}/uploads/${filename}`;
+
+  const exists = async (filename: string) => {
+    try {
+      return (await fs.stat(resolve(filename))).isFile();
+    } catch {
+      return false;
+    }
+  };
+
+  return {
+    kind: 'local',
+    publicUrl,
+    exists,
+
+    async put(filename, data, putOptions = {}) {
+      await fs.writeFile(resolve(filename), data);
+      return {
+        filename,
+        url: publicUrl(filename),
+        size: data.length,
+        contentType: putOptions.contentType ?? contentTypeFor(filename),
+        uploadDate: new Date().toISOString()
+      };
+    },
+
+    async get(filename) {
+      if (!(await exists(filename))) return null;
+      return { data: await fs.readFile(resolve(filename)), contentType: contentTypeFor(filename) };
+    },
+
+    async list() {
+      const entries = await fs.readdir(directory, { withFileTypes: true });
+      return Promise.all(
+        entries
+          .filter((entry) => entry.isFile())
+          .map(async (entry) => {
+            const stats = await fs.stat(resolve(entry.name));
+            return {
+              filename: entry.name,
+              url: publicUrl(entry.name),
+              size: stats.size,
+              contentType: contentTypeFor(entry.name),
+              // birthtime tidak tersedia di semua filesystem; file tidak pernah ditulis ulang jadi mtime setara
+              uploadDate: stats.mtime.toISOString()
+            };
+          })
+      );
+    },
+
+    async delete(filename) {
+      await fs.unlink(resolve(filename));
+    }
+  };
+}
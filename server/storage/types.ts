@@ -0,0 +1,24 @@
+// Metadata file yang tersimpan di storage
+export interface StoredFile {
+  filename: string;
+  url: string;
+  size?: number;
+  contentType?: string;
+  uploadDate?: string; // ISO 8601 string
+}
+
+export interface PutOptions {
+  contentType?: string;
+  cacheControl?: string;
+}
+
+// Kontrak yang harus dipenuhi setiap backend penyimpanan upload
+export interface StorageDriver {
+  readonly kind: 'gcs' | 'local';
+  put(filename: string, data: Buffer, options?: PutOptions): Promise<StoredFile>;
+  get(filename: string): Promise<{ data: Buffer; contentType?: string } | null>;
+  list(): Promise<StoredFile[]>;
+  delete(filename: string): Promise<void>;
+  exists(filename: string): Promise<boolean>;
+  publicUrl(filename: string): string;
+}
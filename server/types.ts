@@ -15,10 +15,27 @@ export interface ErrorResponse {
   }>;
 }
 
-// Status enum for blogs and projects
-export type Status = 'draft' | 'published';
+// Status enum for blogs and projects; 'scheduled' items go live once publishedAt has passed
+export type Status = 'draft' | 'scheduled' | 'published';
 
 // Query parameters for filtering
 export interface StatusQueryParams {
   status?: Status;
 }
+
+// Roles used for authorization
+export type Role = 'admin' | 'editor' | 'viewer';
+
+// Authenticated caller identity
+export interface AuthUser {
+  uid: string;
+  email?: string;
+  role: Role;
+}
+
+// Hono env shared by all routers
+export type AppEnv = {
+  Variables: {
+    user?: AuthUser;
+  };
+};
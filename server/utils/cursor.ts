@@ -0,0 +1,12 @@
+// Cursor pagination bersifat opaque bagi klien: base64url dari ID dokumen terakhir
+export const encodeCursor = (id: string) =>
+  Buffer.from(JSON.stringify({ id })).toString('base64url');
+
+export const decodeCursor = (cursor: string): string | null => {
+  try {
+    const { id } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    return typeof id === 'string' && id.length > 0 ? id : null;
+  } catch {
+    return null;
+  }
+};
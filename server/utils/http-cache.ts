@@ -0,0 +1,97 @@
+import { createHash } from 'crypto';
+import { Timestamp } from 'firebase-admin/firestore';
+import type { Context } from 'hono';
+import { errorBody } from '../errors';
+import { convertTimestamps } from './timestamps';
+
+export interface Validators {
+  etag: string;
+  lastModified?: Date | null;
+}
+
+// ETag kuat dari isi respons
+export const computeEtag = (body: string | Uint8Array) =>
+  `"${createHash('sha1').update(body).digest('base64url')}"`;
+
+const etagMatches = (header: string, etag: string) =>
+  header.trim() === '*' ||
+  header.split(',').some(candidate => candidate.trim().replace(/^W\//, '') === etag.replace(/^W\//, ''));
+
+// Conditional GET: If-None-Match didahulukan, If-Modified-Since hanya dipakai jika tidak ada ETag dari klien
+export function isNotModified(c: Context<any>, { etag, lastModified }: Validators): boolean {
+  const ifNoneMatch = c.req.header('If-None-Match');
+  if (ifNoneMatch) {
+    return etagMatches(ifNoneMatch, etag);
+  }
+
+  const ifModifiedSince = c.req.header('If-Modified-Since');
+  if (ifModifiedSince && lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    // Header HTTP-date hanya presisi detik
+    return !Number.isNaN(since) && Math.floor(lastModified.getTime() / 1000) <= Math.floor(since / 1000);
+  }
+  return false;
+}
+
+export function setValidators(c: Context<any>, { etag, lastModified }: Validators) {
+  c.header('ETag', etag);
+  if (lastModified) {
+    c.header('Last-Modified', lastModified.toUTCString());
+  }
+}
+
+// Pengunjung anonim hanya melihat konten terbit sehingga boleh di-cache bersama;
+// pengguna login bisa melihat draft, jadi salinannya privat dan selalu direvalidasi
+export const PUBLIC_CONTENT_CACHE_CONTROL = 'public, max-age=60, stale-while-revalidate=300';
+export const PRIVATE_CONTENT_CACHE_CONTROL = 'private, no-cache';
+
+const toMillis = (value: unknown) => (value instanceof Timestamp ? value.toMillis() : 0);
+
+type VersionedDocument = { id: string; version?: number; updatedAt?: unknown; commentCount?: number };
+
+// ETag lemah dari ID, version, updatedAt dan counter tiap dokumen, sehingga dihitung tanpa merender body.
+// `variant` untuk bagian respons yang tidak tercermin di dokumen (mis. hasMore pada list).
+export function contentValidators(items: VersionedDocument[], variant = ''): Validators {
+  const versions = items.map(item => `${item.id}@${item.version ?? 0}:${toMillis(item.updatedAt)}:${item.commentCount ?? 0}`).join(',');
+  const latest = Math.max(0, ...items.map(item => toMillis(item.updatedAt)));
+  return {
+    etag: `W/"${createHash('sha1').update(`${versions}|${variant}`).digest('base64url')}"`,
+    lastModified: latest > 0 ? new Date(latest) : null
+  };
+}
+
+// ETag kuat satu dokumen adalah nomor versinya, sehingga bisa dikirim balik lewat If-Match saat update.
+// commentCount tidak menaikkan version, jadi ditambahkan sebagai akhiran "versi-jumlah" agar respons lama tidak dijawab 304
+export const documentValidators = (document: VersionedDocument): Validators => ({
+  etag: document.commentCount ? `"${document.version ?? 0}-${document.commentCount}"` : `"${document.version ?? 0}"`,
+  lastModified: document.updatedAt instanceof Timestamp ? document.updatedAt.toDate() : null
+});
+
+// Versi dari If-Match ('*' atau tanpa header: undefined), tanpa akhiran jumlah komentar. If-Match memakai
+// perbandingan kuat, jadi ETag lemah atau yang tidak dikenali menjadi -1 agar selalu ditolak
+export function ifMatchVersion(c: Context<any>): number | undefined {
+  const header = c.req.header('If-Match')?.trim();
+  if (!header || header === '*') {
+    return undefined;
+  }
+  const match = /^"(\d+)(?:-\d+)?"$/.exec(header.split(',')[0].trim());
+  return match ? Number(match[1]) : -1;
+}
+
+// 412 Precondition Failed beserta dokumen terbaru dan ETag-nya
+export function versionConflictError<T extends VersionedDocument>(c: Context<any>, current: T) {
+  setValidators(c, documentValidators(current));
+  return c.json({
+    ...errorBody(c, 'VERSION_CONFLICT', { params: { version: current.version ?? 0 } }),
+    data: convertTimestamps(current)
+  }, 412);
+}
+
+// Menulis validator dan Cache-Control, lalu mengembalikan true jika klien cukup dijawab 304
+export function applyContentCaching(c: Context<any>, validators: Validators, { isPublic }: { isPublic: boolean }): boolean {
+  setValidators(c, validators);
+  c.header('Cache-Control', isPublic ? PUBLIC_CONTENT_CACHE_CONTROL : PRIVATE_CONTENT_CACHE_CONTROL);
+  // Langsung ke c.res: header Vary: Origin dari middleware cors menimpa nilai yang diset lewat c.header()
+  c.res.headers.append('Vary', 'Authorization');
+  return isNotModified(c, validators);
+}
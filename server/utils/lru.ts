@@ -0,0 +1,75 @@
+export interface LruCacheOptions {
+  // Entri paling lama tidak dipakai dibuang saat jumlahnya melewati batas ini
+  maxEntries?: number;
+  // Entri yang lebih tua dari ini dianggap tidak ada; 0 berarti tanpa kedaluwarsa
+  ttlMs?: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  size: number;
+  maxEntries: number;
+}
+
+export interface LruCache<V> {
+  get(key: string): V | undefined;
+  set(key: string, value: V): void;
+  delete(key: string): boolean;
+  // Menghapus semua entri yang cocok, mengembalikan jumlahnya
+  deleteWhere(predicate: (value: V, key: string) => boolean): number;
+  clear(): void;
+  stats(): CacheStats;
+}
+
+// Map menyimpan urutan penyisipan, jadi entri yang dibaca dipindah ke belakang dan yang terdepan paling lama tidak dipakai
+export function createLruCache<V>({ maxEntries = 500, ttlMs = 0 }: LruCacheOptions = {}): LruCache<V> {
+  const entries = new Map<string, { value: V; storedAt: number }>();
+  let hits = 0;
+  let misses = 0;
+  let evictions = 0;
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry || (ttlMs > 0 && Date.now() - entry.storedAt > ttlMs)) {
+        if (entry) entries.delete(key);
+        misses++;
+        return undefined;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      hits++;
+      return entry.value;
+    },
+
+    set(key, value) {
+      entries.delete(key);
+      entries.set(key, { value, storedAt: Date.now() });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+        evictions++;
+      }
+    },
+
+    delete: (key) => entries.delete(key),
+
+    deleteWhere(predicate) {
+      let removed = 0;
+      for (const [key, entry] of entries) {
+        if (predicate(entry.value, key)) {
+          entries.delete(key);
+          removed++;
+        }
+      }
+      return removed;
+    },
+
+    clear() {
+      entries.clear();
+    },
+
+    stats: () => ({ hits, misses, evictions, size: entries.size, maxEntries })
+  };
+}
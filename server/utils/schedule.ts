@@ -0,0 +1,15 @@
+import type { Timestamp } from 'firebase-admin/firestore';
+import type { Status } from '../types';
+
+// Status yang disimpan mengikuti publishedAt: 'published' dengan waktu di masa depan ditahan
+// sebagai 'scheduled', sedangkan 'scheduled' yang waktunya sudah lewat langsung 'published'
+export function resolvePublicationStatus(
+  status: Status,
+  publishedAt: Timestamp | null | undefined,
+  now = Date.now()
+): Status {
+  if (status === 'draft' || !publishedAt) {
+    return status;
+  }
+  return publishedAt.toMillis() > now ? 'scheduled' : 'published';
+}
@@ -0,0 +1,67 @@
+import type { ContentRepository } from '../repositories';
+
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const MAX_SLUG_LENGTH = 100;
+
+// "Belajar Hono & Bun!" -> "belajar-hono-bun"
+export function slugify(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/-+$/, '');
+}
+
+type SlugDocument = { id: string; slug?: string | null; previousSlugs?: string[] | null };
+
+// Slug dianggap terpakai jika menjadi slug aktif atau slug lama (redirect) dokumen lain
+async function isSlugTaken(repository: ContentRepository<any>, slug: string, excludeId?: string) {
+  const [current, previous] = await Promise.all([
+    repository.findBySlug(slug),
+    repository.findByPreviousSlug(slug)
+  ]);
+  return [current, previous].some(doc => doc && doc.id !== excludeId);
+}
+
+// Menambahkan sufiks -2, -3, ... sampai slug tidak bentrok
+export async function resolveUniqueSlug(
+  repository: ContentRepository<any>,
+  source: string,
+  fallback: string,
+  excludeId?: string
+): Promise<string> {
+  const base = slugify(source) || fallback;
+  let candidate = base;
+  for (let suffix = 2; await isSlugTaken(repository, candidate, excludeId); suffix++) {
+    const tail = `-${suffix}`;
+    candidate = `${base.slice(0, MAX_SLUG_LENGTH - tail.length).replace(/-+$/, '')}${tail}`;
+  }
+  return candidate;
+}
+
+// Slug lama disimpan agar URL lama tetap bisa di-redirect setelah judul berubah
+export function nextPreviousSlugs(existing: SlugDocument, newSlug: string): string[] {
+  const history = new Set(existing.previousSlugs ?? []);
+  if (existing.slug && existing.slug !== newSlug) {
+    history.add(existing.slug);
+  }
+  history.delete(newSlug);
+  return [...history];
+}
+
+// Slug yang sudah dibagikan dalam satu permintaan (bulk, impor) dianggap terpakai walau belum ditulis
+export function createSlugReservation(repository: ContentRepository<any>, fallback: string) {
+  const reserved = new Map<string, string>();
+  const scope: ContentRepository<any> = {
+    ...repository,
+    findBySlug: async (slug) => (reserved.has(slug) ? { id: reserved.get(slug)!, slug } : repository.findBySlug(slug))
+  };
+  return async (source: string, id: string) => {
+    const slug = await resolveUniqueSlug(scope, source, fallback, id);
+    reserved.set(slug, id);
+    return slug;
+  };
+}
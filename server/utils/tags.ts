@@ -0,0 +1,31 @@
+import type { Context } from 'hono';
+import { apiError, localeOf, translate } from '../errors';
+import type { TagRepository } from '../repositories';
+
+export interface ResolvedTags {
+  // Nama kanonik sesuai yang tersimpan di koleksi tags, tanpa duplikat
+  names: string[];
+  unknown: string[];
+}
+
+// Mencocokkan input tag (tanpa membedakan huruf besar/kecil) dengan tag yang terdaftar
+export async function resolveTagNames(repository: TagRepository, input: string[]): Promise<ResolvedTags> {
+  const names = new Set<string>();
+  const unknown: string[] = [];
+  for (const name of input) {
+    const tag = await repository.findByName(name);
+    if (tag) {
+      names.add(tag.name);
+    } else {
+      unknown.push(name);
+    }
+  }
+  return { names: [...names], unknown };
+}
+
+// Eror 400 untuk tag yang belum terdaftar, satu detail per tag
+export const unknownTagsError = (c: Context, unknown: string[]) =>
+  apiError(c, 400, 'UNKNOWN_TAGS', {
+    params: { tags: unknown.join(', ') },
+    details: unknown.map(name => ({ field: 'tags', message: translate(localeOf(c), 'TAG_NOT_REGISTERED', { name }) }))
+  });
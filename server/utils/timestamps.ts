@@ -0,0 +1,21 @@
+import { Timestamp } from 'firebase-admin/firestore';
+
+// Bentuk JSON sebuah dokumen: setiap Timestamp di tingkat atas menjadi ISO string
+export type WithIsoTimestamps<T> = {
+  [K in keyof T]: Timestamp extends T[K] ? Exclude<T[K], Timestamp> | string : T[K];
+};
+
+// Helper function untuk konversi Timestamp menjadi ISO string
+export const convertTimestamps = <T extends Record<string, any>>(data: T): WithIsoTimestamps<T> => {
+  const converted: Record<string, any> = { ...data };
+  for (const key in converted) {
+    if (converted[key] instanceof Timestamp) {
+      converted[key] = converted[key].toDate().toISOString();
+    }
+  }
+  return converted as WithIsoTimestamps<T>;
+};
+
+// ISO string (atau null) dari request menjadi Timestamp Firestore
+export const toTimestamp = (value: string | null | undefined) =>
+  value ? Timestamp.fromDate(new Date(value)) : null;
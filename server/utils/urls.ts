@@ -0,0 +1,14 @@
+export type ContentType = 'blog' | 'project';
+
+const COLLECTION_PATHS: Record<ContentType, string> = {
+  blog: '/api/blogs',
+  project: '/api/projects'
+};
+
+// URL kanonik konten; dipakai bersama oleh feed, sitemap dan metadata SEO
+export const contentUrl = (baseUrl: string, type: ContentType, slug: string) =>
+  `${baseUrl}${COLLECTION_PATHS[type]}/slug/${slug}`;
+
+// URL stabil berbasis ID, tidak berubah walaupun slug berganti
+export const contentIdUrl = (baseUrl: string, type: ContentType, id: string) =>
+  `${baseUrl}${COLLECTION_PATHS[type]}/${id}`;
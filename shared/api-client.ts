@@ -0,0 +1,2008 @@
+// File ini dibuat oleh scripts/generate-client.ts dari dokumen OpenAPI, jangan diubah manual.
+// Jalankan `bun run generate:client` setelah mengubah route atau schema.
+
+export type ErrorResponse = {
+  success: boolean;
+  data: unknown;
+  error: string;
+  code: "VALIDATION_FAILED" | "REQUIRED" | "INVALID_JSON" | "INVALID_ID" | "INVALID_CURSOR" | "INVALID_AUTH_HEADER" | "INVALID_TOKEN" | "UNAUTHENTICATED" | "FORBIDDEN" | "ROUTE_NOT_FOUND" | "INTERNAL_ERROR" | "BLOG_NOT_FOUND" | "PROJECT_NOT_FOUND" | "TAG_NOT_FOUND" | "REVISION_NOT_FOUND" | "FILE_NOT_FOUND" | "SITEMAP_NOT_FOUND" | "TRASH_ITEM_NOT_FOUND" | "UNKNOWN_TAGS" | "TAG_NOT_REGISTERED" | "TAG_EXISTS" | "PUBLISHED_AT_REQUIRED" | "NO_FILE" | "FILE_TOO_LARGE" | "UNSUPPORTED_FILE_TYPE" | "INVALID_IMAGE" | "INVALID_FILENAME" | "FILE_EXISTS" | "UPLOAD_FAILED" | "BULK_TOO_LARGE" | "BULK_ABORTED" | "OPERATION_SKIPPED" | "DUPLICATE_TARGET" | "DELETE_REQUIRES_ADMIN" | "WRITE_FAILED" | "INVALID_RECORD" | "UNKNOWN_RECORD_TYPE" | "INVALID_DATE" | "UPLOAD_MISSING" | "VERSION_CONFLICT" | "RATE_LIMITED" | "UPLOAD_QUOTA_EXCEEDED" | "COMMENT_NOT_FOUND" | "COMMENTS_DISABLED" | "INVALID_PARENT_COMMENT" | "WEBHOOK_NOT_FOUND" | "WEBHOOK_DELIVERY_NOT_FOUND";
+  details?: Array<{
+    field: string;
+    message: string;
+  }>;
+};
+
+export type Blog = {
+  id: string;
+  title: string;
+  slug: string;
+  previousSlugs?: Array<string>;
+  excerpt?: string | null;
+  content: string;
+  coverImageUrl?: string | "" | null;
+  tags?: Array<string>;
+  status: "draft" | "scheduled" | "published";
+  publishedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt?: string | null;
+  deletedBy?: string | null;
+  version: number;
+  commentCount?: number;
+  commentsEnabled?: boolean;
+};
+
+export type Project = {
+  id: string;
+  title: string;
+  slug: string;
+  previousSlugs?: Array<string>;
+  excerpt?: string | null;
+  abstract?: string | null;
+  projectScope?: string | null;
+  isGroup: boolean;
+  projectLink?: string | "" | null;
+  githubLink?: string | "" | null;
+  documentationLink?: string | "" | null;
+  content?: string | null;
+  coverImageUrl?: string | "" | null;
+  tags?: Array<string>;
+  status: "draft" | "scheduled" | "published";
+  publishedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt?: string | null;
+  deletedBy?: string | null;
+  version: number;
+};
+
+export type Tag = {
+  id: string;
+  name: string;
+  slug: string;
+  description?: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type Comment = {
+  id: string;
+  parentId: string | null;
+  authorName: string | null;
+  content: string;
+  createdAt: string;
+  blogId: string;
+  authorEmail: string | null;
+  userId: string | null;
+  status: "pending" | "approved" | "rejected";
+  flagged: boolean;
+  flagReasons: Array<string>;
+  moderatedBy: string | null;
+  moderatedAt: string | null;
+};
+
+export type Webhook = {
+  id: string;
+  url: string;
+  events: Array<string>;
+  active: boolean;
+  description: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type WebhookDelivery = {
+  id: string;
+  webhookId: string;
+  eventId: string;
+  eventType: string;
+  payload: string;
+  status: "pending" | "succeeded" | "failed";
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  responseStatus: number | null;
+  error: string | null;
+  redeliveryOf: string | null;
+  createdAt: string;
+};
+
+export interface Operations {
+  /** GET /api/health - Status kesehatan API */
+  getHealth: {
+    request: Record<string, never>;
+    responses: {
+      200: {
+        success: true;
+        data: {
+          status: "healthy";
+          timestamp: string;
+        };
+        message: string;
+      };
+    };
+  };
+  /** GET /api/blogs - Daftar blog per halaman */
+  getBlogs: {
+    request: {
+      query?: {
+        status?: "draft" | "scheduled" | "published";
+        tag?: string;
+        render?: "html";
+        limit?: number;
+        cursor?: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: Array<{
+          id: string;
+          title: string;
+          slug: string;
+          previousSlugs?: Array<string>;
+          excerpt?: string | null;
+          content: string;
+          coverImageUrl?: string | "" | null;
+          tags?: Array<string>;
+          status: "draft" | "scheduled" | "published";
+          publishedAt?: string | null;
+          createdAt: string;
+          updatedAt: string;
+          deletedAt?: string | null;
+          deletedBy?: string | null;
+          version: number;
+          commentCount?: number;
+          commentsEnabled?: boolean;
+          contentHtml?: string;
+          toc?: Array<{
+            level: number;
+            text: string;
+            id: string;
+          }>;
+          wordCount?: number;
+          readingTimeMinutes?: number;
+        }>;
+        pagination: {
+          limit: number;
+          nextCursor: string | null;
+          hasMore: boolean;
+        };
+        message?: string;
+      };
+      304: undefined;
+      400: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** POST /api/blogs - Blog berhasil dibuat */
+  postBlogs: {
+    request: {
+      body: {
+        title: string;
+        slug?: string;
+        excerpt?: string;
+        content: string;
+        coverImageUrl?: string | "";
+        tags?: Array<string>;
+        status?: "draft" | "scheduled" | "published";
+        publishedAt?: string | null;
+        commentsEnabled?: boolean;
+      };
+    };
+    responses: {
+      201: {
+        success: boolean;
+        data: {
+          id: string;
+        };
+        message?: string;
+        error?: string;
+      };
+      400: ErrorResponse;
+      401: ErrorResponse;
+      403: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** GET /api/blogs/{id} - Satu data blog beserta hasil render Markdown */
+  getBlogsById: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: {
+          id: string;
+          title: string;
+          slug: string;
+          previousSlugs?: Array<string>;
+          excerpt?: string | null;
+          content: string;
+          coverImageUrl?: string | "" | null;
+          tags?: Array<string>;
+          status: "draft" | "scheduled" | "published";
+          publishedAt?: string | null;
+          createdAt: string;
+          updatedAt: string;
+          deletedAt?: string | null;
+          deletedBy?: string | null;
+          version: number;
+          commentCount?: number;
+          commentsEnabled?: boolean;
+          contentHtml: string;
+          toc: Array<{
+            level: number;
+            text: string;
+            id: string;
+          }>;
+          wordCount: number;
+          readingTimeMinutes: number;
+        };
+        message?: string;
+        error?: string;
+      };
+      304: undefined;
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** PUT /api/blogs/{id} - Blog berhasil diperbarui */
+  putBlogsById: {
+    request: {
+      params: {
+        id: string;
+      };
+      body: {
+        title?: string;
+        slug?: string;
+        excerpt?: string | null;
+        content?: string;
+        coverImageUrl?: string | "" | null;
+        tags?: Array<string>;
+        status?: "draft" | "scheduled" | "published";
+        publishedAt?: string | null;
+        commentsEnabled?: boolean;
+        version?: number;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: Blog;
+        message?: string;
+        error?: string;
+      };
+      400: ErrorResponse;
+      401: ErrorResponse;
+      403: ErrorResponse;
+      404: ErrorResponse;
+      412: ErrorResponse & {
+        data?: Blog;
+      };
+      500: ErrorResponse;
+    };
+  };
+  /** DELETE /api/blogs/{id} - Blog dipindahkan ke tempat sampah */
+  deleteBlogsById: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: unknown;
+        message?: string;
+        error?: string;
+      };
+      401: ErrorResponse;
+      403: ErrorResponse;
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** GET /api/blogs/slug/{slug} - Satu data blog */
+  getBlogsSlugBySlug: {
+    request: {
+      params: {
+        slug: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: {
+          id: string;
+          title: string;
+          slug: string;
+          previousSlugs?: Array<string>;
+          excerpt?: string | null;
+          content: string;
+          coverImageUrl?: string | "" | null;
+          tags?: Array<string>;
+          status: "draft" | "scheduled" | "published";
+          publishedAt?: string | null;
+          createdAt: string;
+          updatedAt: string;
+          deletedAt?: string | null;
+          deletedBy?: string | null;
+          version: number;
+          commentCount?: number;
+          commentsEnabled?: boolean;
+          contentHtml: string;
+          toc: Array<{
+            level: number;
+            text: string;
+            id: string;
+          }>;
+          wordCount: number;
+          readingTimeMinutes: number;
+        };
+        message?: string;
+        error?: string;
+      };
+      301: undefined;
+      304: undefined;
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** GET /api/blogs/{id}/meta - Metadata SEO, Open Graph dan Twitter untuk blog */
+  getBlogsByIdMeta: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: {
+          title: string;
+          description: string;
+          canonicalUrl: string;
+          image: string | null;
+          openGraph: {
+            type: "article";
+            title: string;
+            description: string;
+            url: string;
+            image: string | null;
+            publishedTime: string | null;
+            modifiedTime: string;
+          };
+          twitter: {
+            card: "summary" | "summary_large_image";
+            title: string;
+            description: string;
+            image: string | null;
+          };
+        };
+        message?: string;
+        error?: string;
+      };
+      304: undefined;
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** GET /api/blogs/{id}/comments - Komentar yang disetujui, terlama lebih dulu, dengan balasan satu tingkat */
+  getBlogsByIdComments: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: Array<{
+          id: string;
+          parentId: string | null;
+          authorName: string | null;
+          content: string;
+          createdAt: string;
+          replies: Array<{
+            id: string;
+            parentId: string | null;
+            authorName: string | null;
+            content: string;
+            createdAt: string;
+          }>;
+        }>;
+        message?: string;
+        error?: string;
+      };
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** POST /api/blogs/{id}/comments - Komentar diterima dan menunggu moderasi */
+  postBlogsByIdComments: {
+    request: {
+      params: {
+        id: string;
+      };
+      body: {
+        authorName?: string | null;
+        authorEmail?: string | null;
+        content: string;
+        parentId?: string | null;
+        website?: string;
+      };
+    };
+    responses: {
+      202: {
+        success: boolean;
+        data: {
+          status: "pending";
+        };
+        message?: string;
+        error?: string;
+      };
+      400: ErrorResponse;
+      403: ErrorResponse;
+      404: ErrorResponse;
+      429: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** GET /api/blogs/{id}/revisions - Daftar revisi, terbaru lebih dulu */
+  getBlogsByIdRevisions: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: Array<{
+          id: string;
+          revision: number;
+          title: string | null;
+          changedFields: Array<string>;
+          createdBy: string | null;
+          createdAt: string;
+        }>;
+        message?: string;
+        error?: string;
+      };
+      401: ErrorResponse;
+      403: ErrorResponse;
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** GET /api/blogs/{id}/revisions/{revisionId} - Satu revisi beserta snapshot lengkap */
+  getBlogsByIdRevisionsByRevisionId: {
+    request: {
+      params: {
+        id: string;
+        revisionId: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: {
+          id: string;
+          revision: number;
+          title: string | null;
+          changedFields: Array<string>;
+          createdBy: string | null;
+          createdAt: string;
+          snapshot: {
+            [key: string]: unknown;
+          };
+        };
+        message?: string;
+        error?: string;
+      };
+      401: ErrorResponse;
+      403: ErrorResponse;
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** GET /api/blogs/{id}/revisions/{revisionId}/diff - Perbedaan per field antara dua versi */
+  getBlogsByIdRevisionsByRevisionIdDiff: {
+    request: {
+      params: {
+        id: string;
+        revisionId: string;
+      };
+      query?: {
+        against?: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: {
+          from: string;
+          to: string;
+          changes: Array<{
+            field: string;
+            before?: unknown;
+            after?: unknown;
+          }>;
+        };
+        message?: string;
+        error?: string;
+      };
+      400: ErrorResponse;
+      401: ErrorResponse;
+      403: ErrorResponse;
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** POST /api/blogs/{id}/revisions/{revisionId}/restore - Dokumen dipulihkan ke isi revisi */
+  postBlogsByIdRevisionsByRevisionIdRestore: {
+    request: {
+      params: {
+        id: string;
+        revisionId: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: {
+          [key: string]: unknown;
+        };
+        message?: string;
+        error?: string;
+      };
+      401: ErrorResponse;
+      403: ErrorResponse;
+      404: ErrorResponse;
+      412: ErrorResponse & {
+        data?: {
+          [key: string]: unknown;
+        };
+      };
+      500: ErrorResponse;
+    };
+  };
+  /** POST /api/blogs/bulk - Hasil per operasi */
+  postBlogsBulk: {
+    request: {
+      body: {
+        mode?: "atomic" | "bestEffort";
+        operations: Array<{
+          op: "create" | "update" | "delete" | "setStatus";
+          id?: string;
+          data?: {
+            [key: string]: unknown;
+          };
+          status?: "draft" | "scheduled" | "published";
+          publishedAt?: string | null;
+        }>;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: {
+          mode?: "atomic" | "bestEffort";
+          summary: {
+            total: number;
+            succeeded: number;
+            failed: number;
+          };
+          results: Array<{
+            index: number;
+            op: "create" | "update" | "delete" | "setStatus";
+            id: string | null;
+            success: boolean;
+            error?: string;
+            code?: "VALIDATION_FAILED" | "REQUIRED" | "INVALID_JSON" | "INVALID_ID" | "INVALID_CURSOR" | "INVALID_AUTH_HEADER" | "INVALID_TOKEN" | "UNAUTHENTICATED" | "FORBIDDEN" | "ROUTE_NOT_FOUND" | "INTERNAL_ERROR" | "BLOG_NOT_FOUND" | "PROJECT_NOT_FOUND" | "TAG_NOT_FOUND" | "REVISION_NOT_FOUND" | "FILE_NOT_FOUND" | "SITEMAP_NOT_FOUND" | "TRASH_ITEM_NOT_FOUND" | "UNKNOWN_TAGS" | "TAG_NOT_REGISTERED" | "TAG_EXISTS" | "PUBLISHED_AT_REQUIRED" | "NO_FILE" | "FILE_TOO_LARGE" | "UNSUPPORTED_FILE_TYPE" | "INVALID_IMAGE" | "INVALID_FILENAME" | "FILE_EXISTS" | "UPLOAD_FAILED" | "BULK_TOO_LARGE" | "BULK_ABORTED" | "OPERATION_SKIPPED" | "DUPLICATE_TARGET" | "DELETE_REQUIRES_ADMIN" | "WRITE_FAILED" | "INVALID_RECORD" | "UNKNOWN_RECORD_TYPE" | "INVALID_DATE" | "UPLOAD_MISSING" | "VERSION_CONFLICT" | "RATE_LIMITED" | "UPLOAD_QUOTA_EXCEEDED" | "COMMENT_NOT_FOUND" | "COMMENTS_DISABLED" | "INVALID_PARENT_COMMENT" | "WEBHOOK_NOT_FOUND" | "WEBHOOK_DELIVERY_NOT_FOUND";
+            details?: Array<{
+              field: string;
+              message: string;
+            }>;
+          }>;
+        };
+        message?: string;
+        error?: string;
+        code?: "VALIDATION_FAILED" | "REQUIRED" | "INVALID_JSON" | "INVALID_ID" | "INVALID_CURSOR" | "INVALID_AUTH_HEADER" | "INVALID_TOKEN" | "UNAUTHENTICATED" | "FORBIDDEN" | "ROUTE_NOT_FOUND" | "INTERNAL_ERROR" | "BLOG_NOT_FOUND" | "PROJECT_NOT_FOUND" | "TAG_NOT_FOUND" | "REVISION_NOT_FOUND" | "FILE_NOT_FOUND" | "SITEMAP_NOT_FOUND" | "TRASH_ITEM_NOT_FOUND" | "UNKNOWN_TAGS" | "TAG_NOT_REGISTERED" | "TAG_EXISTS" | "PUBLISHED_AT_REQUIRED" | "NO_FILE" | "FILE_TOO_LARGE" | "UNSUPPORTED_FILE_TYPE" | "INVALID_IMAGE" | "INVALID_FILENAME" | "FILE_EXISTS" | "UPLOAD_FAILED" | "BULK_TOO_LARGE" | "BULK_ABORTED" | "OPERATION_SKIPPED" | "DUPLICATE_TARGET" | "DELETE_REQUIRES_ADMIN" | "WRITE_FAILED" | "INVALID_RECORD" | "UNKNOWN_RECORD_TYPE" | "INVALID_DATE" | "UPLOAD_MISSING" | "VERSION_CONFLICT" | "RATE_LIMITED" | "UPLOAD_QUOTA_EXCEEDED" | "COMMENT_NOT_FOUND" | "COMMENTS_DISABLED" | "INVALID_PARENT_COMMENT" | "WEBHOOK_NOT_FOUND" | "WEBHOOK_DELIVERY_NOT_FOUND";
+      };
+      400: {
+        success: boolean;
+        data: {
+          mode?: "atomic" | "bestEffort";
+          summary: {
+            total: number;
+            succeeded: number;
+            failed: number;
+          };
+          results: Array<{
+            index: number;
+            op: "create" | "update" | "delete" | "setStatus";
+            id: string | null;
+            success: boolean;
+            error?: string;
+            code?: "VALIDATION_FAILED" | "REQUIRED" | "INVALID_JSON" | "INVALID_ID" | "INVALID_CURSOR" | "INVALID_AUTH_HEADER" | "INVALID_TOKEN" | "UNAUTHENTICATED" | "FORBIDDEN" | "ROUTE_NOT_FOUND" | "INTERNAL_ERROR" | "BLOG_NOT_FOUND" | "PROJECT_NOT_FOUND" | "TAG_NOT_FOUND" | "REVISION_NOT_FOUND" | "FILE_NOT_FOUND" | "SITEMAP_NOT_FOUND" | "TRASH_ITEM_NOT_FOUND" | "UNKNOWN_TAGS" | "TAG_NOT_REGISTERED" | "TAG_EXISTS" | "PUBLISHED_AT_REQUIRED" | "NO_FILE" | "FILE_TOO_LARGE" | "UNSUPPORTED_FILE_TYPE" | "INVALID_IMAGE" | "INVALID_FILENAME" | "FILE_EXISTS" | "UPLOAD_FAILED" | "BULK_TOO_LARGE" | "BULK_ABORTED" | "OPERATION_SKIPPED" | "DUPLICATE_TARGET" | "DELETE_REQUIRES_ADMIN" | "WRITE_FAILED" | "INVALID_RECORD" | "UNKNOWN_RECORD_TYPE" | "INVALID_DATE" | "UPLOAD_MISSING" | "VERSION_CONFLICT" | "RATE_LIMITED" | "UPLOAD_QUOTA_EXCEEDED" | "COMMENT_NOT_FOUND" | "COMMENTS_DISABLED" | "INVALID_PARENT_COMMENT" | "WEBHOOK_NOT_FOUND" | "WEBHOOK_DELIVERY_NOT_FOUND";
+            details?: Array<{
+              field: string;
+              message: string;
+            }>;
+          }>;
+        };
+        message?: string;
+        error?: string;
+        code?: "VALIDATION_FAILED" | "REQUIRED" | "INVALID_JSON" | "INVALID_ID" | "INVALID_CURSOR" | "INVALID_AUTH_HEADER" | "INVALID_TOKEN" | "UNAUTHENTICATED" | "FORBIDDEN" | "ROUTE_NOT_FOUND" | "INTERNAL_ERROR" | "BLOG_NOT_FOUND" | "PROJECT_NOT_FOUND" | "TAG_NOT_FOUND" | "REVISION_NOT_FOUND" | "FILE_NOT_FOUND" | "SITEMAP_NOT_FOUND" | "TRASH_ITEM_NOT_FOUND" | "UNKNOWN_TAGS" | "TAG_NOT_REGISTERED" | "TAG_EXISTS" | "PUBLISHED_AT_REQUIRED" | "NO_FILE" | "FILE_TOO_LARGE" | "UNSUPPORTED_FILE_TYPE" | "INVALID_IMAGE" | "INVALID_FILENAME" | "FILE_EXISTS" | "UPLOAD_FAILED" | "BULK_TOO_LARGE" | "BULK_ABORTED" | "OPERATION_SKIPPED" | "DUPLICATE_TARGET" | "DELETE_REQUIRES_ADMIN" | "WRITE_FAILED" | "INVALID_RECORD" | "UNKNOWN_RECORD_TYPE" | "INVALID_DATE" | "UPLOAD_MISSING" | "VERSION_CONFLICT" | "RATE_LIMITED" | "UPLOAD_QUOTA_EXCEEDED" | "COMMENT_NOT_FOUND" | "COMMENTS_DISABLED" | "INVALID_PARENT_COMMENT" | "WEBHOOK_NOT_FOUND" | "WEBHOOK_DELIVERY_NOT_FOUND";
+      } | ErrorResponse;
+      401: ErrorResponse;
+      403: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** GET /api/projects - Daftar proyek berhasil diambil */
+  getProjects: {
+    request: {
+      query?: {
+        status?: "draft" | "scheduled" | "published";
+        tag?: string;
+        render?: "html";
+        limit?: number;
+        cursor?: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: Array<{
+          id: string;
+          title: string;
+          slug: string;
+          previousSlugs?: Array<string>;
+          excerpt?: string | null;
+          abstract?: string | null;
+          projectScope?: string | null;
+          isGroup: boolean;
+          projectLink?: string | "" | null;
+          githubLink?: string | "" | null;
+          documentationLink?: string | "" | null;
+          content?: string | null;
+          coverImageUrl?: string | "" | null;
+          tags?: Array<string>;
+          status: "draft" | "scheduled" | "published";
+          publishedAt?: string | null;
+          createdAt: string;
+          updatedAt: string;
+          deletedAt?: string | null;
+          deletedBy?: string | null;
+          version: number;
+          contentHtml?: string;
+          toc?: Array<{
+            level: number;
+            text: string;
+            id: string;
+          }>;
+          wordCount?: number;
+          readingTimeMinutes?: number;
+        }>;
+        pagination: {
+          limit: number;
+          nextCursor: string | null;
+          hasMore: boolean;
+        };
+        message?: string;
+      };
+      304: undefined;
+      400: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** POST /api/projects - Proyek berhasil dibuat */
+  postProjects: {
+    request: {
+      body: {
+        title: string;
+        slug?: string;
+        excerpt?: string | null;
+        abstract?: string | null;
+        projectScope?: string;
+        isGroup?: boolean;
+        projectLink?: string | "";
+        githubLink?: string | "";
+        documentationLink?: string | "" | null;
+        content?: string;
+        coverImageUrl?: string | "";
+        tags?: Array<string>;
+        status?: "draft" | "scheduled" | "published";
+        publishedAt?: string | null;
+      };
+    };
+    responses: {
+      201: {
+        success: boolean;
+        data: Project;
+        message?: string;
+        error?: string;
+      };
+      400: ErrorResponse;
+      401: ErrorResponse;
+      403: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** GET /api/projects/{id} - Satu data proyek */
+  getProjectsById: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: {
+          id: string;
+          title: string;
+          slug: string;
+          previousSlugs?: Array<string>;
+          excerpt?: string | null;
+          abstract?: string | null;
+          projectScope?: string | null;
+          isGroup: boolean;
+          projectLink?: string | "" | null;
+          githubLink?: string | "" | null;
+          documentationLink?: string | "" | null;
+          content?: string | null;
+          coverImageUrl?: string | "" | null;
+          tags?: Array<string>;
+          status: "draft" | "scheduled" | "published";
+          publishedAt?: string | null;
+          createdAt: string;
+          updatedAt: string;
+          deletedAt?: string | null;
+          deletedBy?: string | null;
+          version: number;
+          contentHtml: string;
+          toc: Array<{
+            level: number;
+            text: string;
+            id: string;
+          }>;
+          wordCount: number;
+          readingTimeMinutes: number;
+        };
+        message?: string;
+        error?: string;
+      };
+      304: undefined;
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** PUT /api/projects/{id} - Proyek berhasil diperbarui */
+  putProjectsById: {
+    request: {
+      params: {
+        id: string;
+      };
+      body: {
+        title?: string;
+        slug?: string;
+        excerpt?: string | null;
+        abstract?: string | null;
+        projectScope?: string | null;
+        isGroup?: boolean;
+        projectLink?: string | "" | null;
+        githubLink?: string | "" | null;
+        documentationLink?: string | "" | null;
+        content?: string | null;
+        coverImageUrl?: string | "" | null;
+        tags?: Array<string>;
+        status?: "draft" | "scheduled" | "published";
+        publishedAt?: string | null;
+        version?: number;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: Project;
+        message?: string;
+        error?: string;
+      };
+      400: ErrorResponse;
+      401: ErrorResponse;
+      403: ErrorResponse;
+      404: ErrorResponse;
+      412: ErrorResponse & {
+        data?: Project;
+      };
+      500: ErrorResponse;
+    };
+  };
+  /** DELETE /api/projects/{id} - Proyek dipindahkan ke tempat sampah */
+  deleteProjectsById: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: unknown;
+        message?: string;
+        error?: string;
+      };
+      401: ErrorResponse;
+      403: ErrorResponse;
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** GET /api/projects/slug/{slug} - Satu data proyek */
+  getProjectsSlugBySlug: {
+    request: {
+      params: {
+        slug: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: {
+          id: string;
+          title: string;
+          slug: string;
+          previousSlugs?: Array<string>;
+          excerpt?: string | null;
+          abstract?: string | null;
+          projectScope?: string | null;
+          isGroup: boolean;
+          projectLink?: string | "" | null;
+          githubLink?: string | "" | null;
+          documentationLink?: string | "" | null;
+          content?: string | null;
+          coverImageUrl?: string | "" | null;
+          tags?: Array<string>;
+          status: "draft" | "scheduled" | "published";
+          publishedAt?: string | null;
+          createdAt: string;
+          updatedAt: string;
+          deletedAt?: string | null;
+          deletedBy?: string | null;
+          version: number;
+          contentHtml: string;
+          toc: Array<{
+            level: number;
+            text: string;
+            id: string;
+          }>;
+          wordCount: number;
+          readingTimeMinutes: number;
+        };
+        message?: string;
+        error?: string;
+      };
+      301: undefined;
+      304: undefined;
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** GET /api/projects/{id}/meta - Metadata SEO, Open Graph dan Twitter untuk proyek */
+  getProjectsByIdMeta: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: {
+          title: string;
+          description: string;
+          canonicalUrl: string;
+          image: string | null;
+          openGraph: {
+            type: "article";
+            title: string;
+            description: string;
+            url: string;
+            image: string | null;
+            publishedTime: string | null;
+            modifiedTime: string;
+          };
+          twitter: {
+            card: "summary" | "summary_large_image";
+            title: string;
+            description: string;
+            image: string | null;
+          };
+        };
+        message?: string;
+        error?: string;
+      };
+      304: undefined;
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** GET /api/projects/{id}/revisions - Daftar revisi, terbaru lebih dulu */
+  getProjectsByIdRevisions: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: Array<{
+          id: string;
+          revision: number;
+          title: string | null;
+          changedFields: Array<string>;
+          createdBy: string | null;
+          createdAt: string;
+        }>;
+        message?: string;
+        error?: string;
+      };
+      401: ErrorResponse;
+      403: ErrorResponse;
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** GET /api/projects/{id}/revisions/{revisionId} - Satu revisi beserta snapshot lengkap */
+  getProjectsByIdRevisionsByRevisionId: {
+    request: {
+      params: {
+        id: string;
+        revisionId: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: {
+          id: string;
+          revision: number;
+          title: string | null;
+          changedFields: Array<string>;
+          createdBy: string | null;
+          createdAt: string;
+          snapshot: {
+            [key: string]: unknown;
+          };
+        };
+        message?: string;
+        error?: string;
+      };
+      401: ErrorResponse;
+      403: ErrorResponse;
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** GET /api/projects/{id}/revisions/{revisionId}/diff - Perbedaan per field antara dua versi */
+  getProjectsByIdRevisionsByRevisionIdDiff: {
+    request: {
+      params: {
+        id: string;
+        revisionId: string;
+      };
+      query?: {
+        against?: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: {
+          from: string;
+          to: string;
+          changes: Array<{
+            field: string;
+            before?: unknown;
+            after?: unknown;
+          }>;
+        };
+        message?: string;
+        error?: string;
+      };
+      400: ErrorResponse;
+      401: ErrorResponse;
+      403: ErrorResponse;
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** POST /api/projects/{id}/revisions/{revisionId}/restore - Dokumen dipulihkan ke isi revisi */
+  postProjectsByIdRevisionsByRevisionIdRestore: {
+    request: {
+      params: {
+        id: string;
+        revisionId: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: {
+          [key: string]: unknown;
+        };
+        message?: string;
+        error?: string;
+      };
+      401: ErrorResponse;
+      403: ErrorResponse;
+      404: ErrorResponse;
+      412: ErrorResponse & {
+        data?: {
+          [key: string]: unknown;
+        };
+      };
+      500: ErrorResponse;
+    };
+  };
+  /** POST /api/projects/bulk - Hasil per operasi */
+  postProjectsBulk: {
+    request: {
+      body: {
+        mode?: "atomic" | "bestEffort";
+        operations: Array<{
+          op: "create" | "update" | "delete" | "setStatus";
+          id?: string;
+          data?: {
+            [key: string]: unknown;
+          };
+          status?: "draft" | "scheduled" | "published";
+          publishedAt?: string | null;
+        }>;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: {
+          mode?: "atomic" | "bestEffort";
+          summary: {
+            total: number;
+            succeeded: number;
+            failed: number;
+          };
+          results: Array<{
+            index: number;
+            op: "create" | "update" | "delete" | "setStatus";
+            id: string | null;
+            success: boolean;
+            error?: string;
+            code?: "VALIDATION_FAILED" | "REQUIRED" | "INVALID_JSON" | "INVALID_ID" | "INVALID_CURSOR" | "INVALID_AUTH_HEADER" | "INVALID_TOKEN" | "UNAUTHENTICATED" | "FORBIDDEN" | "ROUTE_NOT_FOUND" | "INTERNAL_ERROR" | "BLOG_NOT_FOUND" | "PROJECT_NOT_FOUND" | "TAG_NOT_FOUND" | "REVISION_NOT_FOUND" | "FILE_NOT_FOUND" | "SITEMAP_NOT_FOUND" | "TRASH_ITEM_NOT_FOUND" | "UNKNOWN_TAGS" | "TAG_NOT_REGISTERED" | "TAG_EXISTS" | "PUBLISHED_AT_REQUIRED" | "NO_FILE" | "FILE_TOO_LARGE" | "UNSUPPORTED_FILE_TYPE" | "INVALID_IMAGE" | "INVALID_FILENAME" | "FILE_EXISTS" | "UPLOAD_FAILED" | "BULK_TOO_LARGE" | "BULK_ABORTED" | "OPERATION_SKIPPED" | "DUPLICATE_TARGET" | "DELETE_REQUIRES_ADMIN" | "WRITE_FAILED" | "INVALID_RECORD" | "UNKNOWN_RECORD_TYPE" | "INVALID_DATE" | "UPLOAD_MISSING" | "VERSION_CONFLICT" | "RATE_LIMITED" | "UPLOAD_QUOTA_EXCEEDED" | "COMMENT_NOT_FOUND" | "COMMENTS_DISABLED" | "INVALID_PARENT_COMMENT" | "WEBHOOK_NOT_FOUND" | "WEBHOOK_DELIVERY_NOT_FOUND";
+            details?: Array<{
+              field: string;
+              message: string;
+            }>;
+          }>;
+        };
+        message?: string;
+        error?: string;
+        code?: "VALIDATION_FAILED" | "REQUIRED" | "INVALID_JSON" | "INVALID_ID" | "INVALID_CURSOR" | "INVALID_AUTH_HEADER" | "INVALID_TOKEN" | "UNAUTHENTICATED" | "FORBIDDEN" | "ROUTE_NOT_FOUND" | "INTERNAL_ERROR" | "BLOG_NOT_FOUND" | "PROJECT_NOT_FOUND" | "TAG_NOT_FOUND" | "REVISION_NOT_FOUND" | "FILE_NOT_FOUND" | "SITEMAP_NOT_FOUND" | "TRASH_ITEM_NOT_FOUND" | "UNKNOWN_TAGS" | "TAG_NOT_REGISTERED" | "TAG_EXISTS" | "PUBLISHED_AT_REQUIRED" | "NO_FILE" | "FILE_TOO_LARGE" | "UNSUPPORTED_FILE_TYPE" | "INVALID_IMAGE" | "INVALID_FILENAME" | "FILE_EXISTS" | "UPLOAD_FAILED" | "BULK_TOO_LARGE" | "BULK_ABORTED" | "OPERATION_SKIPPED" | "DUPLICATE_TARGET" | "DELETE_REQUIRES_ADMIN" | "WRITE_FAILED" | "INVALID_RECORD" | "UNKNOWN_RECORD_TYPE" | "INVALID_DATE" | "UPLOAD_MISSING" | "VERSION_CONFLICT" | "RATE_LIMITED" | "UPLOAD_QUOTA_EXCEEDED" | "COMMENT_NOT_FOUND" | "COMMENTS_DISABLED" | "INVALID_PARENT_COMMENT" | "WEBHOOK_NOT_FOUND" | "WEBHOOK_DELIVERY_NOT_FOUND";
+      };
+      400: {
+        success: boolean;
+        data: {
+          mode?: "atomic" | "bestEffort";
+          summary: {
+            total: number;
+            succeeded: number;
+            failed: number;
+          };
+          results: Array<{
+            index: number;
+            op: "create" | "update" | "delete" | "setStatus";
+            id: string | null;
+            success: boolean;
+            error?: string;
+            code?: "VALIDATION_FAILED" | "REQUIRED" | "INVALID_JSON" | "INVALID_ID" | "INVALID_CURSOR" | "INVALID_AUTH_HEADER" | "INVALID_TOKEN" | "UNAUTHENTICATED" | "FORBIDDEN" | "ROUTE_NOT_FOUND" | "INTERNAL_ERROR" | "BLOG_NOT_FOUND" | "PROJECT_NOT_FOUND" | "TAG_NOT_FOUND" | "REVISION_NOT_FOUND" | "FILE_NOT_FOUND" | "SITEMAP_NOT_FOUND" | "TRASH_ITEM_NOT_FOUND" | "UNKNOWN_TAGS" | "TAG_NOT_REGISTERED" | "TAG_EXISTS" | "PUBLISHED_AT_REQUIRED" | "NO_FILE" | "FILE_TOO_LARGE" | "UNSUPPORTED_FILE_TYPE" | "INVALID_IMAGE" | "INVALID_FILENAME" | "FILE_EXISTS" | "UPLOAD_FAILED" | "BULK_TOO_LARGE" | "BULK_ABORTED" | "OPERATION_SKIPPED" | "DUPLICATE_TARGET" | "DELETE_REQUIRES_ADMIN" | "WRITE_FAILED" | "INVALID_RECORD" | "UNKNOWN_RECORD_TYPE" | "INVALID_DATE" | "UPLOAD_MISSING" | "VERSION_CONFLICT" | "RATE_LIMITED" | "UPLOAD_QUOTA_EXCEEDED" | "COMMENT_NOT_FOUND" | "COMMENTS_DISABLED" | "INVALID_PARENT_COMMENT" | "WEBHOOK_NOT_FOUND" | "WEBHOOK_DELIVERY_NOT_FOUND";
+            details?: Array<{
+              field: string;
+              message: string;
+            }>;
+          }>;
+        };
+        message?: string;
+        error?: string;
+        code?: "VALIDATION_FAILED" | "REQUIRED" | "INVALID_JSON" | "INVALID_ID" | "INVALID_CURSOR" | "INVALID_AUTH_HEADER" | "INVALID_TOKEN" | "UNAUTHENTICATED" | "FORBIDDEN" | "ROUTE_NOT_FOUND" | "INTERNAL_ERROR" | "BLOG_NOT_FOUND" | "PROJECT_NOT_FOUND" | "TAG_NOT_FOUND" | "REVISION_NOT_FOUND" | "FILE_NOT_FOUND" | "SITEMAP_NOT_FOUND" | "TRASH_ITEM_NOT_FOUND" | "UNKNOWN_TAGS" | "TAG_NOT_REGISTERED" | "TAG_EXISTS" | "PUBLISHED_AT_REQUIRED" | "NO_FILE" | "FILE_TOO_LARGE" | "UNSUPPORTED_FILE_TYPE" | "INVALID_IMAGE" | "INVALID_FILENAME" | "FILE_EXISTS" | "UPLOAD_FAILED" | "BULK_TOO_LARGE" | "BULK_ABORTED" | "OPERATION_SKIPPED" | "DUPLICATE_TARGET" | "DELETE_REQUIRES_ADMIN" | "WRITE_FAILED" | "INVALID_RECORD" | "UNKNOWN_RECORD_TYPE" | "INVALID_DATE" | "UPLOAD_MISSING" | "VERSION_CONFLICT" | "RATE_LIMITED" | "UPLOAD_QUOTA_EXCEEDED" | "COMMENT_NOT_FOUND" | "COMMENTS_DISABLED" | "INVALID_PARENT_COMMENT" | "WEBHOOK_NOT_FOUND" | "WEBHOOK_DELIVERY_NOT_FOUND";
+      } | ErrorResponse;
+      401: ErrorResponse;
+      403: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** GET /api/tags - Daftar tag beserta jumlah pemakaiannya */
+  getTags: {
+    request: Record<string, never>;
+    responses: {
+      200: {
+        success: boolean;
+        data: Array<Tag & {
+          usage: {
+            blogs: number;
+            projects: number;
+            total: number;
+          };
+        }>;
+        message?: string;
+        error?: string;
+      };
+      500: ErrorResponse;
+    };
+  };
+  /** POST /api/tags - Tag berhasil dibuat */
+  postTags: {
+    request: {
+      body: {
+        name: string;
+        description?: string | null;
+      };
+    };
+    responses: {
+      201: {
+        success: boolean;
+        data: Tag;
+        message?: string;
+        error?: string;
+      };
+      400: ErrorResponse;
+      401: ErrorResponse;
+      403: ErrorResponse;
+      409: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** GET /api/tags/{id} - Satu data tag */
+  getTagsById: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: Tag;
+        message?: string;
+        error?: string;
+      };
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** PUT /api/tags/{id} - Tag berhasil diperbarui */
+  putTagsById: {
+    request: {
+      params: {
+        id: string;
+      };
+      body: {
+        name?: string;
+        description?: string | null;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: Tag;
+        message?: string;
+        error?: string;
+      };
+      400: ErrorResponse;
+      401: ErrorResponse;
+      403: ErrorResponse;
+      404: ErrorResponse;
+      409: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** DELETE /api/tags/{id} - Tag berhasil dihapus */
+  deleteTagsById: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: unknown;
+        message?: string;
+        error?: string;
+      };
+      401: ErrorResponse;
+      403: ErrorResponse;
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** GET /api/comments - Komentar terbaru lebih dulu; ?status=pending untuk antrean moderasi */
+  getComments: {
+    request: {
+      query?: {
+        status?: "pending" | "approved" | "rejected";
+        blogId?: string;
+        flagged?: "true" | "false";
+        limit?: number;
+        cursor?: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: Array<Comment>;
+        pagination: {
+          limit: number;
+          nextCursor: string | null;
+          hasMore: boolean;
+        };
+        message?: string;
+      };
+      400: ErrorResponse;
+      401: ErrorResponse;
+      403: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** POST /api/comments/{id}/approve - Komentar disetujui dan tampil di blog */
+  postCommentsByIdApprove: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: Comment;
+        message?: string;
+        error?: string;
+      };
+      401: ErrorResponse;
+      403: ErrorResponse;
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** POST /api/comments/{id}/reject - Komentar ditolak dan disembunyikan */
+  postCommentsByIdReject: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: Comment;
+        message?: string;
+        error?: string;
+      };
+      401: ErrorResponse;
+      403: ErrorResponse;
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** DELETE /api/comments/{id} - Komentar beserta balasannya dihapus permanen */
+  deleteCommentsById: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: unknown;
+        message?: string;
+        error?: string;
+      };
+      401: ErrorResponse;
+      403: ErrorResponse;
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** POST /api/analytics/view - Tampilan dicatat ke buffer dan ditulis pada flush berikutnya */
+  postAnalyticsView: {
+    request: {
+      body: {
+        type: "blog" | "project";
+        id: string;
+        referrer?: string | null;
+      };
+    };
+    responses: {
+      202: {
+        success: boolean;
+        data: {
+          counted: boolean;
+        };
+        message?: string;
+        error?: string;
+      };
+      400: ErrorResponse;
+      404: ErrorResponse;
+      429: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** GET /api/analytics/top - Konten dengan tampilan terbanyak dalam rentang waktu (default 30d) */
+  getAnalyticsTop: {
+    request: {
+      query?: {
+        type?: "blog" | "project";
+        range?: "7d" | "30d" | "90d" | "365d";
+        limit?: number;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: Array<{
+          views: number;
+          visitors: number;
+          type: "blog" | "project";
+          id: string;
+          title: string | null;
+          slug: string | null;
+        }>;
+        message?: string;
+        error?: string;
+      };
+      400: ErrorResponse;
+      401: ErrorResponse;
+      403: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** GET /api/analytics/{type}/{id} - Total, deret harian (hari tanpa tampilan bernilai 0) dan domain perujuk teratas */
+  getAnalyticsByTypeById: {
+    request: {
+      params: {
+        type: "blog" | "project";
+        id: string;
+      };
+      query?: {
+        range?: "7d" | "30d" | "90d" | "365d";
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: {
+          type: "blog" | "project";
+          id: string;
+          range: string;
+          totals: {
+            views: number;
+            visitors: number;
+          };
+          daily: Array<{
+            views: number;
+            visitors: number;
+            day: string;
+          }>;
+          referrers: Array<{
+            domain: string;
+            views: number;
+          }>;
+        };
+        message?: string;
+        error?: string;
+      };
+      400: ErrorResponse;
+      401: ErrorResponse;
+      403: ErrorResponse;
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** GET /api/search - Hasil pencarian berperingkat dengan potongan teks yang disorot */
+  getSearch: {
+    request: {
+      query: {
+        q: string;
+        type?: "blog" | "project";
+        limit?: number;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: Array<{
+          type: "blog" | "project";
+          id: string;
+          slug: string | null;
+          title: string;
+          score: number;
+          highlights: Array<{
+            field: string;
+            snippet: string;
+          }>;
+        }>;
+        message?: string;
+        error?: string;
+      };
+      400: ErrorResponse;
+    };
+  };
+  /** GET /api/events - Stream Server-Sent Events: blog.*, project.* dan upload.*, dengan heartbeat berupa komentar */
+  getEvents: {
+    request: {
+      query?: {
+        types?: string;
+        lastEventId?: string;
+      };
+    };
+    responses: {
+      200: string;
+      400: ErrorResponse;
+      401: ErrorResponse;
+      403: ErrorResponse;
+    };
+  };
+  /** GET /api/webhooks - Semua webhook, terbaru lebih dulu, tanpa secret */
+  getWebhooks: {
+    request: Record<string, never>;
+    responses: {
+      200: {
+        success: boolean;
+        data: Array<Webhook>;
+        message?: string;
+        error?: string;
+      };
+      401: ErrorResponse;
+      403: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** POST /api/webhooks - Webhook dibuat; secret hanya ditampilkan kali ini */
+  postWebhooks: {
+    request: {
+      body: {
+        url: string;
+        events: Array<"blog.created" | "blog.updated" | "blog.published" | "blog.deleted" | "project.created" | "project.updated" | "project.published" | "project.deleted" | "upload.created" | "upload.deleted">;
+        secret?: string;
+        description?: string | null;
+        active?: boolean;
+      };
+    };
+    responses: {
+      201: {
+        success: boolean;
+        data: Webhook & {
+          secret: string;
+        };
+        message?: string;
+        error?: string;
+      };
+      400: ErrorResponse;
+      401: ErrorResponse;
+      403: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** GET /api/webhooks/{id} - Detail webhook tanpa secret */
+  getWebhooksById: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: Webhook;
+        message?: string;
+        error?: string;
+      };
+      401: ErrorResponse;
+      403: ErrorResponse;
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** PUT /api/webhooks/{id} - Webhook diperbarui; secret hanya ada jika diganti */
+  putWebhooksById: {
+    request: {
+      params: {
+        id: string;
+      };
+      body: {
+        url?: string;
+        events?: Array<"blog.created" | "blog.updated" | "blog.published" | "blog.deleted" | "project.created" | "project.updated" | "project.published" | "project.deleted" | "upload.created" | "upload.deleted">;
+        secret?: string;
+        rotateSecret?: boolean;
+        description?: string | null;
+        active?: boolean;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: Webhook & {
+          secret?: string;
+        };
+        message?: string;
+        error?: string;
+      };
+      400: ErrorResponse;
+      401: ErrorResponse;
+      403: ErrorResponse;
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** DELETE /api/webhooks/{id} - Webhook beserta log pengirimannya dihapus */
+  deleteWebhooksById: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: unknown;
+        message?: string;
+        error?: string;
+      };
+      401: ErrorResponse;
+      403: ErrorResponse;
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** GET /api/webhooks/{id}/deliveries - Log pengiriman, terbaru lebih dulu */
+  getWebhooksByIdDeliveries: {
+    request: {
+      params: {
+        id: string;
+      };
+      query?: {
+        limit?: number;
+        cursor?: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: Array<WebhookDelivery>;
+        pagination: {
+          limit: number;
+          nextCursor: string | null;
+          hasMore: boolean;
+        };
+        message?: string;
+      };
+      400: ErrorResponse;
+      401: ErrorResponse;
+      403: ErrorResponse;
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** POST /api/webhooks/{id}/deliveries/{deliveryId}/redeliver - Payload yang sama dikirim ulang sebagai pengiriman baru */
+  postWebhooksByIdDeliveriesByDeliveryIdRedeliver: {
+    request: {
+      params: {
+        id: string;
+        deliveryId: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: WebhookDelivery;
+        message?: string;
+        error?: string;
+      };
+      401: ErrorResponse;
+      403: ErrorResponse;
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** GET /api/scheduled - Konten terjadwal yang akan terbit, diurutkan dari yang paling dekat */
+  getScheduled: {
+    request: {
+      query?: {
+        type?: "blog" | "project";
+        limit?: number;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: Array<{
+          type: "blog" | "project";
+          id: string;
+          slug: string | null;
+          title: string;
+          publishedAt: string;
+        }>;
+        message?: string;
+        error?: string;
+      };
+      400: ErrorResponse;
+      401: ErrorResponse;
+      403: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** GET /api/trash - Isi tempat sampah, diurutkan dari yang terakhir dihapus */
+  getTrash: {
+    request: {
+      query?: {
+        type?: "blog" | "project" | "image";
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: Array<{
+          type: "blog" | "project" | "image";
+          id: string;
+          title: string;
+          slug: string | null;
+          deletedAt: string;
+          deletedBy: string | null;
+        }>;
+        message?: string;
+        error?: string;
+      };
+      400: ErrorResponse;
+      401: ErrorResponse;
+      403: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** POST /api/trash/{type}/{id}/restore - Item dikeluarkan dari tempat sampah */
+  postTrashByTypeByIdRestore: {
+    request: {
+      params: {
+        type: "blog" | "project" | "image";
+        id: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: {
+          type: "blog" | "project" | "image";
+          id: string;
+          title: string;
+          slug: string | null;
+          url: string;
+        };
+        message?: string;
+        error?: string;
+      };
+      400: ErrorResponse;
+      401: ErrorResponse;
+      403: ErrorResponse;
+      404: ErrorResponse;
+      409: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** DELETE /api/trash/{type}/{id} - Item dihapus permanen */
+  deleteTrashByTypeById: {
+    request: {
+      params: {
+        type: "blog" | "project" | "image";
+        id: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: unknown;
+        message?: string;
+        error?: string;
+      };
+      400: ErrorResponse;
+      401: ErrorResponse;
+      403: ErrorResponse;
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** GET /api/admin/export - Satu record JSON per baris: {"type":"blog"|"project"|"upload","data":{...}} */
+  getAdminExport: {
+    request: Record<string, never>;
+    responses: {
+      200: string;
+      401: ErrorResponse;
+      403: ErrorResponse;
+    };
+  };
+  /** POST /api/admin/import - Hasil impor per record */
+  postAdminImport: {
+    request: {
+      query?: {
+        dryRun?: "true" | "false";
+        onConflict?: "skip" | "overwrite" | "new-id";
+      };
+      body: string;
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: {
+          dryRun: boolean;
+          onConflict?: "skip" | "overwrite" | "new-id";
+          summary: {
+            total: number;
+            created: number;
+            overwritten: number;
+            skipped: number;
+            failed: number;
+          };
+          results: Array<{
+            line: number;
+            type: string | null;
+            id: string | null;
+            action: "created" | "overwritten" | "skipped" | "failed";
+            newId?: string;
+            error?: string;
+            code?: "VALIDATION_FAILED" | "REQUIRED" | "INVALID_JSON" | "INVALID_ID" | "INVALID_CURSOR" | "INVALID_AUTH_HEADER" | "INVALID_TOKEN" | "UNAUTHENTICATED" | "FORBIDDEN" | "ROUTE_NOT_FOUND" | "INTERNAL_ERROR" | "BLOG_NOT_FOUND" | "PROJECT_NOT_FOUND" | "TAG_NOT_FOUND" | "REVISION_NOT_FOUND" | "FILE_NOT_FOUND" | "SITEMAP_NOT_FOUND" | "TRASH_ITEM_NOT_FOUND" | "UNKNOWN_TAGS" | "TAG_NOT_REGISTERED" | "TAG_EXISTS" | "PUBLISHED_AT_REQUIRED" | "NO_FILE" | "FILE_TOO_LARGE" | "UNSUPPORTED_FILE_TYPE" | "INVALID_IMAGE" | "INVALID_FILENAME" | "FILE_EXISTS" | "UPLOAD_FAILED" | "BULK_TOO_LARGE" | "BULK_ABORTED" | "OPERATION_SKIPPED" | "DUPLICATE_TARGET" | "DELETE_REQUIRES_ADMIN" | "WRITE_FAILED" | "INVALID_RECORD" | "UNKNOWN_RECORD_TYPE" | "INVALID_DATE" | "UPLOAD_MISSING" | "VERSION_CONFLICT" | "RATE_LIMITED" | "UPLOAD_QUOTA_EXCEEDED" | "COMMENT_NOT_FOUND" | "COMMENTS_DISABLED" | "INVALID_PARENT_COMMENT" | "WEBHOOK_NOT_FOUND" | "WEBHOOK_DELIVERY_NOT_FOUND";
+            details?: Array<{
+              field: string;
+              message: string;
+            }>;
+          }>;
+        };
+        message: string;
+      };
+      400: ErrorResponse;
+      401: ErrorResponse;
+      403: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** GET /api/admin/cache - Statistik cache baca per tipe konten; tipe tanpa cache tidak dicantumkan */
+  getAdminCache: {
+    request: Record<string, never>;
+    responses: {
+      200: {
+        success: boolean;
+        data: {
+          blog?: {
+            hits: number;
+            misses: number;
+            evictions: number;
+            size: number;
+            maxEntries: number;
+          };
+          project?: {
+            hits: number;
+            misses: number;
+            evictions: number;
+            size: number;
+            maxEntries: number;
+          };
+        };
+        message?: string;
+        error?: string;
+      };
+      401: ErrorResponse;
+      403: ErrorResponse;
+    };
+  };
+  /** GET /api/upload - Daftar semua gambar yang diunggah */
+  getUpload: {
+    request: Record<string, never>;
+    responses: {
+      200: {
+        success: boolean;
+        data: Array<{
+          filename: string;
+          url: string;
+          uploadDate?: string;
+        }>;
+        message?: string;
+        error?: string;
+      };
+      500: ErrorResponse;
+    };
+  };
+  /** POST /api/upload - Gambar berhasil diunggah, dikonversi ke WebP beserta varian ukurannya */
+  postUpload: {
+    request: {
+      body: FormData;
+    };
+    responses: {
+      201: {
+        success: boolean;
+        data: {
+          filename: string;
+          url: string;
+          uploadDate?: string;
+          contentType: "image/webp";
+          width: number;
+          height: number;
+          variants: Array<{
+            width: number;
+            height: number;
+            url: string;
+          }>;
+          srcset: string;
+        };
+        message?: string;
+        error?: string;
+      };
+      400: ErrorResponse;
+      401: ErrorResponse;
+      403: ErrorResponse;
+      429: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+  /** DELETE /api/upload/{filename} - Gambar dipindahkan ke tempat sampah */
+  deleteUploadByFilename: {
+    request: {
+      params: {
+        filename: string;
+      };
+    };
+    responses: {
+      200: {
+        success: boolean;
+        data: unknown;
+        message?: string;
+        error?: string;
+      };
+      400: ErrorResponse;
+      401: ErrorResponse;
+      403: ErrorResponse;
+      404: ErrorResponse;
+      500: ErrorResponse;
+    };
+  };
+}
+
+export const OPERATIONS = {
+  getHealth: { method: 'GET', path: '/api/health', body: null },
+  getBlogs: { method: 'GET', path: '/api/blogs', body: null },
+  postBlogs: { method: 'POST', path: '/api/blogs', body: 'application/json' },
+  getBlogsById: { method: 'GET', path: '/api/blogs/{id}', body: null },
+  putBlogsById: { method: 'PUT', path: '/api/blogs/{id}', body: 'application/json' },
+  deleteBlogsById: { method: 'DELETE', path: '/api/blogs/{id}', body: null },
+  getBlogsSlugBySlug: { method: 'GET', path: '/api/blogs/slug/{slug}', body: null },
+  getBlogsByIdMeta: { method: 'GET', path: '/api/blogs/{id}/meta', body: null },
+  getBlogsByIdComments: { method: 'GET', path: '/api/blogs/{id}/comments', body: null },
+  postBlogsByIdComments: { method: 'POST', path: '/api/blogs/{id}/comments', body: 'application/json' },
+  getBlogsByIdRevisions: { method: 'GET', path: '/api/blogs/{id}/revisions', body: null },
+  getBlogsByIdRevisionsByRevisionId: { method: 'GET', path: '/api/blogs/{id}/revisions/{revisionId}', body: null },
+  getBlogsByIdRevisionsByRevisionIdDiff: { method: 'GET', path: '/api/blogs/{id}/revisions/{revisionId}/diff', body: null },
+  postBlogsByIdRevisionsByRevisionIdRestore: { method: 'POST', path: '/api/blogs/{id}/revisions/{revisionId}/restore', body: null },
+  postBlogsBulk: { method: 'POST', path: '/api/blogs/bulk', body: 'application/json' },
+  getProjects: { method: 'GET', path: '/api/projects', body: null },
+  postProjects: { method: 'POST', path: '/api/projects', body: 'application/json' },
+  getProjectsById: { method: 'GET', path: '/api/projects/{id}', body: null },
+  putProjectsById: { method: 'PUT', path: '/api/projects/{id}', body: 'application/json' },
+  deleteProjectsById: { method: 'DELETE', path: '/api/projects/{id}', body: null },
+  getProjectsSlugBySlug: { method: 'GET', path: '/api/projects/slug/{slug}', body: null },
+  getProjectsByIdMeta: { method: 'GET', path: '/api/projects/{id}/meta', body: null },
+  getProjectsByIdRevisions: { method: 'GET', path: '/api/projects/{id}/revisions', body: null },
+  getProjectsByIdRevisionsByRevisionId: { method: 'GET', path: '/api/projects/{id}/revisions/{revisionId}', body: null },
+  getProjectsByIdRevisionsByRevisionIdDiff: { method: 'GET', path: '/api/projects/{id}/revisions/{revisionId}/diff', body: null },
+  postProjectsByIdRevisionsByRevisionIdRestore: { method: 'POST', path: '/api/projects/{id}/revisions/{revisionId}/restore', body: null },
+  postProjectsBulk: { method: 'POST', path: '/api/projects/bulk', body: 'application/json' },
+  getTags: { method: 'GET', path: '/api/tags', body: null },
+  postTags: { method: 'POST', path: '/api/tags', body: 'application/json' },
+  getTagsById: { method: 'GET', path: '/api/tags/{id}', body: null },
+  putTagsById: { method: 'PUT', path: '/api/tags/{id}', body: 'application/json' },
+  deleteTagsById: { method: 'DELETE', path: '/api/tags/{id}', body: null },
+  getComments: { method: 'GET', path: '/api/comments', body: null },
+  postCommentsByIdApprove: { method: 'POST', path: '/api/comments/{id}/approve', body: null },
+  postCommentsByIdReject: { method: 'POST', path: '/api/comments/{id}/reject', body: null },
+  deleteCommentsById: { method: 'DELETE', path: '/api/comments/{id}', body: null },
+  postAnalyticsView: { method: 'POST', path: '/api/analytics/view', body: 'application/json' },
+  getAnalyticsTop: { method: 'GET', path: '/api/analytics/top', body: null },
+  getAnalyticsByTypeById: { method: 'GET', path: '/api/analytics/{type}/{id}', body: null },
+  getSearch: { method: 'GET', path: '/api/search', body: null },
+  getEvents: { method: 'GET', path: '/api/events', body: null },
+  getWebhooks: { method: 'GET', path: '/api/webhooks', body: null },
+  postWebhooks: { method: 'POST', path: '/api/webhooks', body: 'application/json' },
+  getWebhooksById: { method: 'GET', path: '/api/webhooks/{id}', body: null },
+  putWebhooksById: { method: 'PUT', path: '/api/webhooks/{id}', body: 'application/json' },
+  deleteWebhooksById: { method: 'DELETE', path: '/api/webhooks/{id}', body: null },
+  getWebhooksByIdDeliveries: { method: 'GET', path: '/api/webhooks/{id}/deliveries', body: null },
+  postWebhooksByIdDeliveriesByDeliveryIdRedeliver: { method: 'POST', path: '/api/webhooks/{id}/deliveries/{deliveryId}/redeliver', body: null },
+  getScheduled: { method: 'GET', path: '/api/scheduled', body: null },
+  getTrash: { method: 'GET', path: '/api/trash', body: null },
+  postTrashByTypeByIdRestore: { method: 'POST', path: '/api/trash/{type}/{id}/restore', body: null },
+  deleteTrashByTypeById: { method: 'DELETE', path: '/api/trash/{type}/{id}', body: null },
+  getAdminExport: { method: 'GET', path: '/api/admin/export', body: null },
+  postAdminImport: { method: 'POST', path: '/api/admin/import', body: 'application/x-ndjson' },
+  getAdminCache: { method: 'GET', path: '/api/admin/cache', body: null },
+  getUpload: { method: 'GET', path: '/api/upload', body: null },
+  postUpload: { method: 'POST', path: '/api/upload', body: 'multipart/form-data' },
+  deleteUploadByFilename: { method: 'DELETE', path: '/api/upload/{filename}', body: null },
+} as const;
+
+export type OperationName = keyof Operations;
+
+export type ApiResult<R> = {
+  [S in keyof R]: { status: S extends `${infer N extends number}` ? N : S; ok: boolean; data: R[S]; response: Response };
+}[keyof R];
+
+type RequestArgs<K extends OperationName> = Record<string, never> extends Operations[K]['request']
+  ? [request?: Operations[K]['request'], init?: RequestInit]
+  : [request: Operations[K]['request'], init?: RequestInit];
+
+export type ApiClient = {
+  [K in OperationName]: (...args: RequestArgs<K>) => Promise<ApiResult<Operations[K]['responses']>>;
+};
+
+export interface ApiClientOptions {
+  baseUrl: string;
+  // Token JWT/Firebase untuk header Authorization; boleh berupa fungsi agar selalu memakai token terbaru
+  token?: string | null | (() => string | null | undefined | Promise<string | null | undefined>);
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+}
+
+interface RequestParts {
+  params?: Record<string, string | number>;
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: unknown;
+}
+
+export function createApiClient(options: ApiClientOptions): ApiClient {
+  const send = async (name: OperationName, request: RequestParts = {}, init: RequestInit = {}) => {
+    const operation = OPERATIONS[name];
+    const pathname = operation.path.replace(/\{(\w+)\}/g, (_, key: string) => encodeURIComponent(String(request.params?.[key] ?? '')));
+    const url = new URL(pathname, options.baseUrl);
+    for (const [key, value] of Object.entries(request.query ?? {})) {
+      if (value !== undefined) url.searchParams.set(key, String(value));
+    }
+
+    const headers = new Headers(options.headers);
+    new Headers(init.headers).forEach((value, key) => headers.set(key, value));
+    const token = typeof options.token === 'function' ? await options.token() : options.token;
+    if (token) headers.set('Authorization', `Bearer ${token}`);
+
+    let body: RequestInit['body'];
+    if (operation.body === 'application/json') {
+      headers.set('Content-Type', 'application/json');
+      body = JSON.stringify(request.body);
+    } else if (operation.body) {
+      // FormData menentukan Content-Type (beserta boundary) sendiri
+      if (!(request.body instanceof FormData)) headers.set('Content-Type', operation.body);
+      body = request.body as RequestInit['body'];
+    }
+
+    const response = await (options.fetch ?? fetch)(url, { ...init, method: operation.method, headers, body });
+    const contentType = response.headers.get('Content-Type') ?? '';
+    const data = contentType.includes('json') ? await response.json() : await response.text();
+    return { status: response.status, ok: response.ok, data, response };
+  };
+
+  const client: Record<string, unknown> = {};
+  for (const name of Object.keys(OPERATIONS) as OperationName[]) {
+    client[name] = (request?: RequestParts, init?: RequestInit) => send(name, request, init);
+  }
+  return client as ApiClient;
+}
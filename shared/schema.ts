@@ -2,18 +2,32 @@ import type { firestore } from 'firebase-admin';
 export interface Blog {
   id: string; 
   title: string;
+  slug: string;
+  previousSlugs?: string[];
   excerpt?: string | null; 
   content: string;
   coverImageUrl?: string | null; 
-  status: 'draft' | 'published'; 
+  tags?: string[];
+  status: 'draft' | 'scheduled' | 'published'; 
   publishedAt?: firestore.Timestamp | null; 
   createdAt: firestore.Timestamp;
   updatedAt: firestore.Timestamp;
+  // Terisi saat dipindahkan ke tempat sampah
+  deletedAt?: firestore.Timestamp | null;
+  deletedBy?: string | null;
+  // Naik satu setiap kali dokumen diubah, dipakai sebagai ETag untuk If-Match
+  version: number;
+  // Jumlah komentar yang disetujui; tidak ada berarti 0
+  commentCount?: number;
+  // Tidak ada berarti komentar diizinkan
+  commentsEnabled?: boolean;
 }
 
 export interface Project {
   id: string; 
   title: string;
+  slug: string;
+  previousSlugs?: string[];
   excerpt?: string | null;
   abstract?: string | null;
   projectScope?: string | null;
@@ -23,10 +37,95 @@ export interface Project {
   documentationLink?: string | null;
   content?: string | null;
   coverImageUrl?: string | null;
-  status: 'draft' | 'published';
+  tags?: string[];
+  status: 'draft' | 'scheduled' | 'published';
   publishedAt?: firestore.Timestamp | null;
   createdAt: firestore.Timestamp;
   updatedAt: firestore.Timestamp;
+  deletedAt?: firestore.Timestamp | null;
+  deletedBy?: string | null;
+  // Naik satu setiap kali dokumen diubah, dipakai sebagai ETag untuk If-Match
+  version: number;
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+  nameLower: string;
+  slug: string;
+  description?: string | null;
+  createdAt: firestore.Timestamp;
+  updatedAt: firestore.Timestamp;
+}
+
+export type CommentStatus = 'pending' | 'approved' | 'rejected';
+
+// Komentar pembaca pada blog, disimpan di koleksi `comments`
+export interface Comment {
+  id: string;
+  blogId: string;
+  // Balasan hanya satu tingkat: parentId selalu menunjuk komentar tingkat atas
+  parentId: string | null;
+  authorName: string | null;
+  // Hanya terlihat oleh admin
+  authorEmail: string | null;
+  // UID jika pengirim sedang login
+  userId: string | null;
+  content: string;
+  status: CommentStatus;
+  // Hasil heuristik spam; komentar tetap masuk antrean moderasi
+  flagged: boolean;
+  flagReasons: string[];
+  moderatedBy: string | null;
+  moderatedAt: firestore.Timestamp | null;
+  createdAt: firestore.Timestamp;
+}
+
+// Tujuan webhook, disimpan di koleksi `webhooks`
+export interface Webhook {
+  id: string;
+  url: string;
+  // Jenis event yang dikirim, mis. blog.published
+  events: string[];
+  // Kunci HMAC-SHA256; hanya ditampilkan saat webhook dibuat atau kuncinya diganti
+  secret: string;
+  active: boolean;
+  description: string | null;
+  createdBy: string | null;
+  createdAt: firestore.Timestamp;
+  updatedAt: firestore.Timestamp;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+// Satu pengiriman event ke satu webhook beserta hasil percobaan terakhirnya, di koleksi `webhook_deliveries`
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  eventId: string;
+  eventType: string;
+  // Body JSON persis seperti yang ditandatangani dan dikirim
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  // Jadwal percobaan berikutnya; null jika sudah selesai
+  nextAttemptAt: firestore.Timestamp | null;
+  lastAttemptAt: firestore.Timestamp | null;
+  responseStatus: number | null;
+  error: string | null;
+  // ID pengiriman asal jika ini dikirim ulang secara manual
+  redeliveryOf: string | null;
+  createdAt: firestore.Timestamp;
+}
+
+// Salinan dokumen sebelum diubah, disimpan di subkoleksi `revisions`
+export interface Revision {
+  id: string;
+  revision: number;
+  snapshot: Record<string, any>;
+  changedFields: string[];
+  createdBy?: string | null;
+  createdAt: firestore.Timestamp;
 }
 export type InsertBlog = Omit<Blog, 'id' | 'createdAt' | 'updatedAt'>;
 export type UpdateBlog = Partial<Omit<InsertBlog, 'publishedAt'>>;
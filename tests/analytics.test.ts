@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { createMemoryAnalyticsRepository } from '../server/repositories';
+import { createViewTracker, dayOf, referrerDomain } from '../server/services/analytics';
+import { authHeaders, createTestApp, jsonRequest, readJson } from './helpers';
+
+type TestApp = Awaited<ReturnType<typeof createTestApp>>;
+
+const BROWSER = 'Mozilla/5.0 (X11; Linux x86_64) Firefox/128.0';
+
+describe('View analytics', () => {
+  let ctx: TestApp;
+
+  beforeEach(async () => {
+    ctx = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await ctx.cleanup();
+  });
+
+  const createBlog = async (title: string, status = 'published') => {
+    const res = await ctx.app.request('/api/blogs', await jsonRequest('POST', { title, content: 'Isi', status }, 'editor'));
+    return (await readJson(res)).data.id as string;
+  };
+
+  const view = (body: Record<string, unknown>, headers: Record<string, string> = {}) =>
+    ctx.app.request('/api/analytics/view', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'User-Agent': BROWSER, ...headers },
+      body: JSON.stringify(body)
+    });
+
+  const report = async (path: string) =>
+    readJson(await ctx.app.request(`/api/analytics${path}`, { headers: await authHeaders('editor') }));
+
+  test('views are counted per day with unique visitors and referrer domains only', async () => {
+    const blogId = await createBlog('Dibaca');
+    expect(await readJson(await view({ type: 'blog', id: blogId, referrer: 'https://www.Google.com/search?q=rahasia' }))).toMatchObject({ success: true, data: { counted: true } });
+    await view({ type: 'blog', id: blogId, referrer: 'https://news.example.com/item?id=1' });
+    await view({ type: 'blog', id: blogId }, { 'User-Agent': 'Mozilla/5.0 (Macintosh) Safari/605.1.15' });
+
+    const { data } = await report(`/blog/${blogId}?range=7d`);
+    expect(data.totals).toEqual({ views: 3, visitors: 2 });
+    expect(data.daily).toHaveLength(7);
+    expect(data.daily[6]).toEqual({ day: dayOf(new Date()), views: 3, visitors: 2 });
+    expect(data.daily.slice(0, 6).every((day: any) => day.views === 0)).toBe(true);
+    expect(data.referrers).toEqual([{ domain: 'google.com', views: 1 }, { domain: 'news.example.com', views: 1 }]);
+
+    // Tidak ada IP, User-Agent atau path perujuk yang tersimpan
+    const stored = JSON.stringify(await ctx.analytics.repository.listDaily({ from: '2000-01-01', to: '2999-12-31' }));
+    expect(stored).not.toContain('rahasia');
+    expect(stored).not.toContain('Firefox');
+  });
+
+  test('bots and logged-in users are not counted, unpublished content is rejected', async () => {
+    const blogId = await createBlog('Publik');
+    const draftId = await createBlog('Draft', 'draft');
+
+    expect((await readJson(await view({ type: 'blog', id: blogId }, { 'User-Agent': 'Googlebot/2.1 (+http://www.google.com/bot.html)' }))).data.counted).toBe(false);
+    const editor = await ctx.app.request('/api/analytics/view', await jsonRequest('POST', { type: 'blog', id: blogId }, 'editor'));
+    expect((await readJson(editor)).data.counted).toBe(false);
+
+    const draft = await view({ type: 'blog', id: draftId });
+    expect(draft.status).toBe(404);
+    expect((await readJson(draft)).code).toBe('BLOG_NOT_FOUND');
+    expect((await view({ type: 'project', id: blogId })).status).toBe(404);
+    expect((await view({ type: 'page', id: blogId })).status).toBe(400);
+
+    expect((await report(`/blog/${blogId}`)).data.totals).toEqual({ views: 0, visitors: 0 });
+  });
+
+  test('top content is ranked by views with titles, and reports are restricted', async () => {
+    const popular = await createBlog('Populer');
+    const quiet = await createBlog('Sepi');
+    for (let i = 0; i < 3; i++) {
+      await view({ type: 'blog', id: popular });
+    }
+    await view({ type: 'blog', id: quiet });
+
+    const { data } = await report('/top?type=blog&range=30d');
+    expect(data.map((item: any) => [item.title, item.views, item.visitors])).toEqual([['Populer', 3, 1], ['Sepi', 1, 1]]);
+    expect(data[0]).toMatchObject({ type: 'blog', id: popular, slug: 'populer' });
+    expect((await report('/top?limit=1')).data).toHaveLength(1);
+    expect((await report('/top?type=project')).data).toEqual([]);
+
+    expect((await ctx.app.request('/api/analytics/top')).status).toBe(401);
+    expect((await ctx.app.request('/api/analytics/top', { headers: await authHeaders('viewer') })).status).toBe(403);
+    expect((await ctx.app.request('/api/analytics/top?range=2d', { headers: await authHeaders('editor') })).status).toBe(400);
+    expect((await report('/blog/tidak-ada')).code).toBe('BLOG_NOT_FOUND');
+  });
+
+  test('the tracker buffers views into one write per document and day, and keeps them if a flush fails', async () => {
+    const repository = createMemoryAnalyticsRepository();
+    let failures = 1;
+    const calls: number[] = [];
+    const tracker = createViewTracker({
+      repository: {
+        ...repository,
+        async increment(increments) {
+          calls.push(increments.length);
+          if (failures-- > 0) throw new Error('Firestore tidak tersedia');
+          await repository.increment(increments);
+        }
+      },
+      secret: 'rahasia'
+    });
+
+    for (let i = 0; i < 50; i++) {
+      tracker.record({ type: 'blog', id: 'a', address: `10.0.0.${i % 5}`, userAgent: BROWSER, referrer: 'https://t.co/x' });
+    }
+    tracker.record({ type: 'project', id: 'b', address: '10.0.0.1', userAgent: BROWSER });
+
+    expect(await tracker.flush().catch(error => error.message)).toBe('Firestore tidak tersedia');
+    tracker.record({ type: 'blog', id: 'a', address: '10.0.0.9', userAgent: BROWSER });
+    expect(await tracker.flush()).toBe(2);
+    expect(await tracker.flush()).toBe(0);
+    expect(calls).toEqual([2, 2]);
+
+    const [blog] = await repository.listDaily({ from: '2000-01-01', to: '2999-12-31', type: 'blog' });
+    const [project] = await repository.listDaily({ from: '2000-01-01', to: '2999-12-31', type: 'project' });
+    expect(blog).toMatchObject({ id: 'a', views: 51, visitors: 6, referrers: { 't.co': 50 } });
+    expect(project).toMatchObject({ id: 'b', views: 1, visitors: 1, referrers: {} });
+  });
+
+  test('referrers are reduced to a lowercase domain without www', () => {
+    expect(referrerDomain('https://WWW.Example.com/path?q=1')).toBe('example.com');
+    expect(referrerDomain('http://sub.example.co.id')).toBe('sub.example.co.id');
+    expect(referrerDomain('android-app://com.google.android.gm')).toBeNull();
+    expect(referrerDomain('bukan url')).toBeNull();
+    expect(referrerDomain(null)).toBeNull();
+  });
+});
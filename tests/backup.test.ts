@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { authHeaders, createTestApp, jsonRequest, readJson } from './helpers';
+
+type TestApp = Awaited<ReturnType<typeof createTestApp>>;
+
+const validProject = {
+  title: 'Portfolio API',
+  content: 'Detail proyek',
+  projectLink: 'https://project.example.com',
+  githubLink: 'https://github.com/user/project',
+  documentationLink: null,
+  coverImageUrl: 'https://example.com/cover.jpg',
+  isGroup: false,
+  status: 'published',
+  publishedAt: '2025-06-06T04:11:32.056Z'
+};
+
+describe('Admin export and import', () => {
+  let ctx: TestApp;
+  let target: TestApp;
+
+  beforeEach(async () => {
+    ctx = await createTestApp();
+    target = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await ctx.cleanup();
+    await target.cleanup();
+  });
+
+  const createBlog = async (app: TestApp, title: string) => {
+    const res = await app.app.request('/api/blogs', await jsonRequest('POST', { title, content: 'Isi', status: 'published', publishedAt: '2025-06-06T04:11:32.056Z' }, 'editor'));
+    return (await readJson(res)).data.id as string;
+  };
+
+  const exportFrom = async (app: TestApp) => {
+    const res = await app.app.request('/api/admin/export', { headers: await authHeaders('admin') });
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toBe('application/x-ndjson');
+    return res.text();
+  };
+
+  const importInto = async (app: TestApp, body: string, query = '') =>
+    app.app.request(`/api/admin/import${query}`, {
+      method: 'POST',
+      body,
+      headers: { ...(await authHeaders('admin')), 'Content-Type': 'application/x-ndjson' }
+    });
+
+  test('exports every blog, project and trashed item as NDJSON with ISO timestamps', async () => {
+    const blogId = await createBlog(ctx, 'Tulisan');
+    const trashedId = await createBlog(ctx, 'Terhapus');
+    await ctx.app.request(`/api/blogs/${trashedId}`, { method: 'DELETE', headers: await authHeaders('admin') });
+    await ctx.app.request('/api/projects', await jsonRequest('POST', validProject, 'editor'));
+
+    const lines = (await exportFrom(ctx)).trim().split('\n').map(line => JSON.parse(line));
+    expect(lines.map(line => line.type)).toEqual(['blog', 'blog', 'project']);
+    expect(lines[0].data).toMatchObject({ id: blogId, slug: 'tulisan', createdAt: expect.stringMatching(/Z$/), deletedAt: null });
+    expect(lines[1].data).toMatchObject({ id: trashedId, deletedBy: 'admin-user' });
+    expect(typeof lines[1].data.deletedAt).toBe('string');
+  });
+
+  test('imports an export into another instance, keeping IDs and timestamps', async () => {
+    const blogId = await createBlog(ctx, 'Pindahan');
+    const original = (await ctx.blogs.findById(blogId))!;
+    await ctx.app.request('/api/projects', await jsonRequest('POST', validProject, 'editor'));
+    const dump = await exportFrom(ctx);
+
+    const dryRun = await readJson(await importInto(target, dump, '?dryRun=true'));
+    expect(dryRun.data.dryRun).toBe(true);
+    expect(dryRun.data.summary).toMatchObject({ total: 2, created: 2, failed: 0 });
+    expect((await target.blogs.list()).items).toEqual([]);
+
+    const res = await importInto(target, dump);
+    expect(res.status).toBe(200);
+    expect((await readJson(res)).data.summary).toMatchObject({ created: 2, failed: 0 });
+
+    const imported = (await target.blogs.findById(blogId))!;
+    expect(imported.slug).toBe('pindahan');
+    expect(imported.createdAt.toMillis()).toBe(original.createdAt.toMillis());
+    expect(imported.updatedAt.toMillis()).toBe(original.updatedAt.toMillis());
+    expect((await readJson(await target.app.request('/api/search?q=pindahan'))).data).toHaveLength(1);
+  });
+
+  test('applies the conflict policy to IDs that already exist', async () => {
+    const blogId = await createBlog(ctx, 'Konflik');
+    const dump = (await exportFrom(ctx)).replace('"title":"Konflik"', '"title":"Konflik Baru"');
+
+    const skipped = await readJson(await importInto(ctx, dump));
+    expect(skipped.data.results).toEqual([{ line: 1, type: 'blog', id: blogId, action: 'skipped' }]);
+    expect((await ctx.blogs.findById(blogId))?.title).toBe('Konflik');
+
+    const overwritten = await readJson(await importInto(ctx, dump, '?onConflict=overwrite'));
+    expect(overwritten.data.summary.overwritten).toBe(1);
+    expect(await ctx.blogs.findById(blogId)).toMatchObject({ title: 'Konflik Baru', slug: 'konflik' });
+
+    const copied = await readJson(await importInto(ctx, dump, '?onConflict=new-id'));
+    const { newId } = copied.data.results[0];
+    expect(copied.data.results[0].action).toBe('created');
+    expect(newId).not.toBe(blogId);
+    expect((await ctx.blogs.findById(newId))?.slug).toBe('konflik-2');
+  });
+
+  test('overwriting keeps the comment count and continues the version', async () => {
+    const blogId = await createBlog(ctx, 'Ramai');
+    await ctx.app.request(`/api/blogs/${blogId}`, await jsonRequest('PUT', { content: 'Isi kedua' }, 'editor'));
+    await ctx.app.request(`/api/blogs/${blogId}/comments`, await jsonRequest('POST', { content: 'Komentar pembaca' }));
+    const [pending] = (await readJson(await ctx.app.request('/api/comments?status=pending', { headers: await authHeaders('admin') }))).data;
+    await ctx.app.request(`/api/comments/${pending.id}/approve`, { method: 'POST', headers: await authHeaders('admin') });
+    const dump = await exportFrom(ctx);
+    expect(JSON.parse(dump).data).toMatchObject({ commentCount: 1, version: 2 });
+
+    await importInto(ctx, dump, '?onConflict=overwrite');
+    expect(await ctx.blogs.findById(blogId)).toMatchObject({ commentCount: 1, version: 3 });
+
+    await importInto(target, dump);
+    expect(await target.blogs.findById(blogId)).toMatchObject({ commentCount: 1, version: 1 });
+  });
+
+  test('reports invalid lines and records without writing them', async () => {
+    const body = [
+      'bukan json',
+      JSON.stringify({ type: 'blog', data: { id: 'tanpa-judul', content: 'Isi' } }),
+      JSON.stringify({ type: 'komentar', data: { id: 'x' } }),
+      JSON.stringify({ type: 'upload', data: { filename: 'hilang.webp', url: 'http://localhost:8787/uploads/hilang.webp' } })
+    ].join('\n');
+
+    const { data } = await readJson(await importInto(ctx, body));
+    expect(data.summary).toMatchObject({ total: 4, failed: 4 });
+    expect(data.results[0]).toMatchObject({ line: 1, error: 'Baris bukan record JSON yang valid' });
+    expect(data.results[1].details).toEqual([{ field: 'title', message: 'Required' }]);
+    expect(data.results[2].error).toBe('Tipe record tidak dikenal: komentar');
+    expect(data.results[3].error).toBe('File hilang.webp tidak ada di storage');
+    expect(await ctx.blogs.findManyByIds(['tanpa-judul'], { includeDeleted: true })).toEqual([null]);
+  });
+
+  test('export and import are admin-only', async () => {
+    expect((await ctx.app.request('/api/admin/export', { headers: await authHeaders('editor') })).status).toBe(403);
+    expect((await ctx.app.request('/api/admin/export')).status).toBe(401);
+    const res = await ctx.app.request('/api/admin/import', { method: 'POST', body: '', headers: await authHeaders('editor') });
+    expect(res.status).toBe(403);
+  });
+});
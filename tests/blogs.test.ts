@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { authHeaders, createTestApp, jsonRequest, readJson } from './helpers';
+
+type TestApp = Awaited<ReturnType<typeof createTestApp>>;
+
+const validBlog = {
+  title: 'Belajar Hono',
+  excerpt: 'Ringkasan singkat',
+  content: 'Isi lengkap tulisan',
+  status: 'published',
+  publishedAt: '2025-06-06T04:11:32.056Z'
+};
+
+describe('Blog routes', () => {
+  let ctx: TestApp;
+
+  beforeEach(async () => {
+    ctx = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await ctx.cleanup();
+  });
+
+  const createBlog = async (body: Record<string, unknown> = validBlog) => {
+    const res = await ctx.app.request('/api/blogs', await jsonRequest('POST', body, 'editor'));
+    expect(res.status).toBe(201);
+    return (await readJson(res)).data.id as string;
+  };
+
+  test('POST /api/blogs creates a blog and returns its id', async () => {
+    const id = await createBlog();
+    const stored = await ctx.blogs.findById(id);
+    expect(stored?.title).toBe('Belajar Hono');
+  });
+
+  test('POST /api/blogs rejects invalid payloads', async () => {
+    const res = await ctx.app.request('/api/blogs', await jsonRequest('POST', { title: '' }, 'editor'));
+    expect(res.status).toBe(400);
+    expect((await readJson(res)).success).toBe(false);
+  });
+
+  test('POST /api/blogs requires authentication and an editor role', async () => {
+    const anonymous = await ctx.app.request('/api/blogs', await jsonRequest('POST', validBlog));
+    expect(anonymous.status).toBe(401);
+
+    const viewer = await ctx.app.request('/api/blogs', await jsonRequest('POST', validBlog, 'viewer'));
+    expect(viewer.status).toBe(403);
+  });
+
+  test('GET /api/blogs/:id converts Firestore timestamps to ISO strings', async () => {
+    const id = await createBlog();
+    const res = await ctx.app.request(`/api/blogs/${id}`);
+    expect(res.status).toBe(200);
+
+    const { data } = await readJson(res);
+    expect(data.id).toBe(id);
+    expect(data.publishedAt).toBe('2025-06-06T04:11:32.056Z');
+    expect(new Date(data.createdAt).toISOString()).toBe(data.createdAt);
+    expect(new Date(data.updatedAt).toISOString()).toBe(data.updatedAt);
+  });
+
+  test('GET /api/blogs/:id returns 404 for unknown ids', async () => {
+    const res = await ctx.app.request('/api/blogs/does-not-exist');
+    expect(res.status).toBe(404);
+    expect((await readJson(res)).success).toBe(false);
+  });
+
+  test('GET /api/blogs only returns published blogs to anonymous callers', async () => {
+    await createBlog();
+    const draftId = await createBlog({ ...validBlog, title: 'Draft', status: 'draft' });
+
+    const anonymous = await readJson(await ctx.app.request('/api/blogs?status=draft'));
+    expect(anonymous.data.map((blog: any) => blog.status)).toEqual(['published']);
+
+    const hiddenDraft = await ctx.app.request(`/api/blogs/${draftId}`);
+    expect(hiddenDraft.status).toBe(404);
+
+    const viewer = await ctx.app.request('/api/blogs?status=draft', { headers: await authHeaders('viewer') });
+    const { data } = await readJson(viewer);
+    expect(data).toHaveLength(1);
+    expect(data[0].id).toBe(draftId);
+  });
+
+  test('GET /api/blogs paginates with an opaque cursor', async () => {
+    const ids = [await createBlog(), await createBlog(), await createBlog()];
+
+    const first = await readJson(await ctx.app.request('/api/blogs?limit=2'));
+    expect(first.data).toHaveLength(2);
+    expect(first.pagination).toMatchObject({ limit: 2, hasMore: true });
+    expect(first.pagination.nextCursor).toBeString();
+
+    const second = await readJson(await ctx.app.request(`/api/blogs?limit=2&cursor=${first.pagination.nextCursor}`));
+    expect(second.data).toHaveLength(1);
+    expect(second.pagination).toEqual({ limit: 2, nextCursor: null, hasMore: false });
+
+    const seen = [...first.data, ...second.data].map((blog: any) => blog.id);
+    expect(seen.sort()).toEqual(ids.sort());
+  });
+
+  test('GET /api/blogs rejects invalid cursors and limits', async () => {
+    const badCursor = await ctx.app.request('/api/blogs?cursor=not-a-cursor');
+    expect(badCursor.status).toBe(400);
+
+    const badLimit = await ctx.app.request('/api/blogs?limit=0');
+    expect(badLimit.status).toBe(400);
+  });
+
+  test('PUT /api/blogs/:id updates fields and clears publishedAt', async () => {
+    const id = await createBlog();
+    const res = await ctx.app.request(`/api/blogs/${id}`, await jsonRequest('PUT', { title: 'Judul Baru', publishedAt: null }, 'editor'));
+    expect(res.status).toBe(200);
+
+    const { data } = await readJson(res);
+    expect(data.title).toBe('Judul Baru');
+    expect(data.publishedAt).toBeNull();
+    expect(data.content).toBe(validBlog.content);
+  });
+
+  test('PUT /api/blogs/:id returns 404 for unknown ids', async () => {
+    const res = await ctx.app.request('/api/blogs/missing', await jsonRequest('PUT', { title: 'x' }, 'editor'));
+    expect(res.status).toBe(404);
+  });
+
+  test('PUT /api/blogs/:id rejects invalid payloads', async () => {
+    const id = await createBlog();
+    const res = await ctx.app.request(`/api/blogs/${id}`, await jsonRequest('PUT', { coverImageUrl: 'not-a-url' }, 'editor'));
+    expect(res.status).toBe(400);
+  });
+
+  test('POST /api/blogs generates unique slugs from the title', async () => {
+    const firstId = await createBlog({ ...validBlog, title: 'Halo Dunia!' });
+    const secondId = await createBlog({ ...validBlog, title: 'Halo   dunia' });
+    const customId = await createBlog({ ...validBlog, slug: 'slug-kustom' });
+
+    expect((await ctx.blogs.findById(firstId))?.slug).toBe('halo-dunia');
+    expect((await ctx.blogs.findById(secondId))?.slug).toBe('halo-dunia-2');
+    expect((await ctx.blogs.findById(customId))?.slug).toBe('slug-kustom');
+
+    const invalid = await ctx.app.request('/api/blogs', await jsonRequest('POST', { ...validBlog, slug: 'Bukan Slug' }, 'editor'));
+    expect(invalid.status).toBe(400);
+  });
+
+  test('GET /api/blogs/slug/:slug resolves slugs and redirects old ones', async () => {
+    const id = await createBlog({ ...validBlog, title: 'Judul Lama' });
+
+    const current = await ctx.app.request('/api/blogs/slug/judul-lama');
+    expect(current.status).toBe(200);
+    expect((await readJson(current)).data.id).toBe(id);
+
+    await ctx.app.request(`/api/blogs/${id}`, await jsonRequest('PUT', { title: 'Judul Baru' }, 'editor'));
+
+    const redirected = await ctx.app.request('/api/blogs/slug/judul-lama');
+    expect(redirected.status).toBe(301);
+    expect(redirected.headers.get('Location')).toBe('/api/blogs/slug/judul-baru');
+
+    // Slug lama tetap dicadangkan sehingga tidak bisa dipakai blog lain
+    const otherId = await createBlog({ ...validBlog, title: 'Judul Lama' });
+    expect((await ctx.blogs.findById(otherId))?.slug).toBe('judul-lama-2');
+
+    const missing = await ctx.app.request('/api/blogs/slug/tidak-ada');
+    expect(missing.status).toBe(404);
+  });
+
+  test('DELETE /api/blogs/:id is restricted to admins', async () => {
+    const id = await createBlog();
+
+    const editor = await ctx.app.request(`/api/blogs/${id}`, { method: 'DELETE', headers: await authHeaders('editor') });
+    expect(editor.status).toBe(403);
+
+    const admin = await ctx.app.request(`/api/blogs/${id}`, { method: 'DELETE', headers: await authHeaders('admin') });
+    expect(admin.status).toBe(200);
+    expect(await ctx.blogs.findById(id)).toBeNull();
+
+    const again = await ctx.app.request(`/api/blogs/${id}`, { method: 'DELETE', headers: await authHeaders('admin') });
+    expect(again.status).toBe(404);
+  });
+});
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { Role } from '../server/types';
+import { createTestApp, jsonRequest, readJson } from './helpers';
+
+type TestApp = Awaited<ReturnType<typeof createTestApp>>;
+
+describe('Bulk operations', () => {
+  let ctx: TestApp;
+
+  beforeEach(async () => {
+    ctx = await createTestApp();
+    await ctx.app.request('/api/tags', await jsonRequest('POST', { name: 'Hono' }, 'editor'));
+  });
+
+  afterEach(async () => {
+    await ctx.cleanup();
+  });
+
+  const bulk = async (body: unknown, role: Role = 'admin', path = '/api/blogs/bulk') =>
+    ctx.app.request(path, await jsonRequest('POST', body, role));
+
+  const createBlog = async (title: string) => {
+    const res = await ctx.app.request('/api/blogs', await jsonRequest('POST', { title, content: 'Isi', status: 'draft' }, 'editor'));
+    return (await ctx.blogs.findById((await readJson(res)).data.id))!;
+  };
+
+  test('runs create, update, setStatus and delete together and reports each result', async () => {
+    const first = await createBlog('Pertama');
+    const second = await createBlog('Kedua');
+
+    const res = await bulk({
+      operations: [
+        { op: 'create', data: { title: 'Baru', content: 'Isi baru', tags: ['hono'] } },
+        { op: 'create', data: { title: 'Baru', content: 'Isi lain' } },
+        { op: 'update', id: first.id, data: { title: 'Pertama Diubah' } },
+        { op: 'setStatus', id: second.id, status: 'published', publishedAt: '2025-06-06T04:11:32.056Z' }
+      ]
+    });
+    expect(res.status).toBe(200);
+    const { data } = await readJson(res);
+    expect(data.mode).toBe('atomic');
+    expect(data.summary).toEqual({ total: 4, succeeded: 4, failed: 0 });
+    expect(data.results.map((result: any) => result.success)).toEqual([true, true, true, true]);
+
+    // Slug yang dipakai operasi sebelumnya dalam batch yang sama tidak dipakai lagi
+    const created = await Promise.all(data.results.slice(0, 2).map((result: any) => ctx.blogs.findById(result.id)));
+    expect(created.map(blog => blog?.slug)).toEqual(['baru', 'baru-2']);
+    expect(created[0]?.tags).toEqual(['Hono']);
+    expect(created.map(blog => blog?.commentCount)).toEqual([0, 0]);
+
+    expect(await ctx.blogs.findById(first.id)).toMatchObject({ slug: 'pertama-diubah', previousSlugs: ['pertama'] });
+    expect((await ctx.blogs.findById(second.id))?.status).toBe('published');
+    expect(await ctx.revisions.blogs.list(first.id)).toHaveLength(1);
+    expect((await readJson(await ctx.app.request('/api/search?q=kedua'))).data).toHaveLength(1);
+
+    const removed = await bulk({ operations: [{ op: 'delete', id: first.id }] });
+    expect((await readJson(removed)).data.summary.succeeded).toBe(1);
+    expect(await ctx.blogs.findDeleted(first.id)).toMatchObject({ deletedBy: 'admin-user' });
+  });
+
+  test('atomic mode writes nothing when one operation fails', async () => {
+    const blog = await createBlog('Tetap');
+
+    const res = await bulk({
+      operations: [
+        { op: 'update', id: blog.id, data: { title: 'Berubah' } },
+        { op: 'create', data: { content: 'Tanpa judul' } },
+        { op: 'delete', id: 'tidak-ada' }
+      ]
+    });
+    expect(res.status).toBe(400);
+    const body = await readJson(res);
+    expect(body.success).toBe(false);
+    expect(body.data.summary).toEqual({ total: 3, succeeded: 0, failed: 3 });
+    expect(body.data.results[0].error).toBe('Dibatalkan karena operasi lain gagal');
+    expect(body.data.results[1].details).toEqual([expect.objectContaining({ field: 'title' })]);
+    expect(body.data.results[2].error).toContain('tidak ditemukan');
+
+    expect((await ctx.blogs.findById(blog.id))?.title).toBe('Tetap');
+    expect((await ctx.blogs.list()).items).toHaveLength(1);
+  });
+
+  test('best-effort mode writes the valid operations and reports the rest', async () => {
+    const blog = await createBlog('Sebagian');
+
+    const res = await bulk({
+      mode: 'bestEffort',
+      operations: [
+        { op: 'update', id: blog.id, data: { tags: ['tidak-terdaftar'] } },
+        { op: 'setStatus', id: blog.id, status: 'published' },
+        { op: 'create', data: { title: 'Lolos', content: 'Isi' } },
+        { op: 'setStatus', id: 'tidak-ada', status: 'draft' }
+      ]
+    });
+    expect(res.status).toBe(200);
+    const { data } = await readJson(res);
+    expect(data.summary).toEqual({ total: 4, succeeded: 1, failed: 3 });
+    expect(data.results[0]).toMatchObject({ success: false, details: [{ field: 'tags', message: 'Tag tidak-terdaftar belum terdaftar' }] });
+    // Dokumen yang sama tidak boleh muncul di dua operasi
+    expect(data.results[1].error).toContain('lebih dari satu operasi');
+    const createdId = data.results[2].id;
+    expect(data.results[2].success).toBe(true);
+    expect(await ctx.blogs.findById(createdId)).toMatchObject({ title: 'Lolos', slug: 'lolos' });
+  });
+
+  test('only admins may delete, and atomic requests are limited to one batch', async () => {
+    const blog = await createBlog('Milik Admin');
+
+    const res = await bulk({ mode: 'bestEffort', operations: [{ op: 'delete', id: blog.id }] }, 'editor');
+    expect((await readJson(res)).data.results[0]).toMatchObject({ success: false, error: 'Hanya admin yang boleh menghapus' });
+    expect(await ctx.blogs.findById(blog.id)).not.toBeNull();
+
+    expect((await bulk({ operations: [{ op: 'delete', id: blog.id }] }, 'viewer')).status).toBe(403);
+
+    const tooMany = Array.from({ length: 501 }, () => ({ op: 'setStatus', id: blog.id, status: 'draft' }));
+    expect((await bulk({ operations: tooMany })).status).toBe(400);
+  });
+
+  test('best-effort writes are chunked at the batch limit', async () => {
+    const operations = Array.from({ length: 501 }, (_, i) => ({
+      op: 'create',
+      data: {
+        title: `Proyek ${i}`,
+        content: 'Detail',
+        projectLink: 'https://project.example.com',
+        githubLink: 'https://github.com/user/project',
+        documentationLink: null,
+        coverImageUrl: 'https://example.com/cover.jpg',
+        isGroup: false,
+        status: 'draft',
+        publishedAt: null
+      }
+    }));
+
+    const res = await bulk({ mode: 'bestEffort', operations }, 'editor', '/api/projects/bulk');
+    expect(res.status).toBe(200);
+    expect((await readJson(res)).data.summary).toEqual({ total: 501, succeeded: 501, failed: 0 });
+    expect((await ctx.projects.list({ limit: 1000 })).items).toHaveLength(501);
+  });
+});
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { createLruCache } from '../server/utils/lru';
+import { PRIVATE_CONTENT_CACHE_CONTROL, PUBLIC_CONTENT_CACHE_CONTROL } from '../server/utils/http-cache';
+import { authHeaders, createTestApp, jsonRequest, readJson } from './helpers';
+
+type TestApp = Awaited<ReturnType<typeof createTestApp>>;
+
+describe('HTTP caching and read cache', () => {
+  let ctx: TestApp;
+
+  beforeEach(async () => {
+    ctx = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await ctx.cleanup();
+  });
+
+  const createBlog = async (body: Record<string, unknown>) => {
+    const res = await ctx.app.request('/api/blogs', await jsonRequest('POST', { content: 'Isi', status: 'published', ...body }, 'editor'));
+    return (await readJson(res)).data.id as string;
+  };
+
+  // updatedAt berpresisi milidetik; jeda kecil memastikan penulisan berikutnya punya versi berbeda
+  const updateBlog = async (id: string, body: Record<string, unknown>) => {
+    await Bun.sleep(5);
+    return ctx.app.request(`/api/blogs/${id}`, await jsonRequest('PUT', body, 'editor'));
+  };
+
+  const cacheStats = async () =>
+    (await readJson(await ctx.app.request('/api/admin/cache', { headers: await authHeaders('admin') }))).data;
+
+  test('detail responses carry validators and answer conditional requests with 304', async () => {
+    const id = await createBlog({ title: 'Validator' });
+    const first = await ctx.app.request(`/api/blogs/${id}`);
+    const etag = first.headers.get('ETag')!;
+    const lastModified = first.headers.get('Last-Modified')!;
+    expect(etag).toBe('"1"');
+    expect(new Date(lastModified).toString()).not.toBe('Invalid Date');
+    expect(first.headers.get('Cache-Control')).toBe(PUBLIC_CONTENT_CACHE_CONTROL);
+    expect(first.headers.get('Vary')).toContain('Authorization');
+
+    const byEtag = await ctx.app.request(`/api/blogs/${id}`, { headers: { 'If-None-Match': etag } });
+    expect(byEtag.status).toBe(304);
+    expect(await byEtag.text()).toBe('');
+    expect(byEtag.headers.get('ETag')).toBe(etag);
+
+    const byDate = await ctx.app.request(`/api/blogs/${id}`, { headers: { 'If-Modified-Since': lastModified } });
+    expect(byDate.status).toBe(304);
+    const olderDate = new Date(Date.parse(lastModified) - 60_000).toUTCString();
+    expect((await ctx.app.request(`/api/blogs/${id}`, { headers: { 'If-Modified-Since': olderDate } })).status).toBe(200);
+
+    const slug = await ctx.app.request('/api/blogs/slug/validator', { headers: { 'If-None-Match': etag } });
+    expect(slug.status).toBe(304);
+    expect((await ctx.app.request(`/api/blogs/${id}/meta`, { headers: { 'If-None-Match': etag } })).status).toBe(304);
+
+    await updateBlog(id, { content: 'Isi baru' });
+    const changed = await ctx.app.request(`/api/blogs/${id}`, { headers: { 'If-None-Match': etag } });
+    expect(changed.status).toBe(200);
+    expect(changed.headers.get('ETag')).not.toBe(etag);
+    expect((await readJson(changed)).data.content).toBe('Isi baru');
+  });
+
+  test('list ETags change when items are added or removed and authenticated reads stay private', async () => {
+    const id = await createBlog({ title: 'Pertama' });
+    const list = await ctx.app.request('/api/blogs');
+    const etag = list.headers.get('ETag')!;
+    expect(list.headers.get('Last-Modified')).toBeNull();
+    expect(list.headers.get('Cache-Control')).toBe(PUBLIC_CONTENT_CACHE_CONTROL);
+    expect((await ctx.app.request('/api/projects', { headers: { 'If-None-Match': '*' } })).status).toBe(304);
+    expect((await ctx.app.request('/api/blogs', { headers: { 'If-None-Match': etag } })).status).toBe(304);
+
+    await createBlog({ title: 'Kedua' });
+    const grown = await ctx.app.request('/api/blogs', { headers: { 'If-None-Match': etag } });
+    expect(grown.status).toBe(200);
+    expect((await readJson(grown)).data).toHaveLength(2);
+
+    const grownEtag = grown.headers.get('ETag')!;
+    await ctx.app.request(`/api/blogs/${id}`, { method: 'DELETE', headers: await authHeaders('admin') });
+    const shrunk = await ctx.app.request('/api/blogs', { headers: { 'If-None-Match': grownEtag } });
+    expect(shrunk.status).toBe(200);
+    expect((await readJson(shrunk)).data.map((blog: any) => blog.title)).toEqual(['Kedua']);
+
+    const editor = await ctx.app.request('/api/blogs', { headers: await authHeaders('editor') });
+    expect(editor.headers.get('Cache-Control')).toBe(PRIVATE_CONTENT_CACHE_CONTROL);
+    expect((await ctx.app.request('/api/blogs/tidak-ada')).headers.get('ETag')).toBeNull();
+  });
+
+  test('the read cache serves repeated reads and writes invalidate only what they touch', async () => {
+    const first = await createBlog({ title: 'Satu' });
+    // List diurutkan menurut createdAt; jeda agar urutannya pasti
+    await Bun.sleep(5);
+    const second = await createBlog({ title: 'Dua' });
+
+    await ctx.app.request(`/api/blogs/${first}`);
+    await ctx.app.request(`/api/blogs/${second}`);
+    await ctx.app.request('/api/blogs');
+    const cold = await cacheStats();
+    await ctx.app.request(`/api/blogs/${first}`);
+    await ctx.app.request(`/api/blogs/${second}`);
+    await ctx.app.request('/api/blogs');
+    const warm = await cacheStats();
+    expect(warm.blog.hits - cold.blog.hits).toBe(3);
+    expect(warm.blog.misses).toBe(cold.blog.misses);
+    expect(warm.project).toMatchObject({ hits: 0, size: 0 });
+
+    await updateBlog(first, { title: 'Satu Lagi' });
+    const afterUpdate = await cacheStats();
+    expect(afterUpdate.blog.size).toBe(1);
+    expect((await readJson(await ctx.app.request(`/api/blogs/${first}`))).data.title).toBe('Satu Lagi');
+    expect((await readJson(await ctx.app.request('/api/blogs'))).data.map((blog: any) => blog.title)).toEqual(['Dua', 'Satu Lagi']);
+    await ctx.app.request(`/api/blogs/${second}`);
+    expect((await cacheStats()).blog.hits).toBe(afterUpdate.blog.hits + 1);
+
+    // Draft tidak muncul di list anonim, tetapi list yang memuatnya tetap dibuang
+    await updateBlog(second, { status: 'draft' });
+    expect((await readJson(await ctx.app.request('/api/blogs'))).data.map((blog: any) => blog.title)).toEqual(['Satu Lagi']);
+    expect((await ctx.app.request(`/api/blogs/${second}`)).status).toBe(404);
+
+    // Perubahan lewat jalur lain (bulk, rename tag) juga melewati repository yang sama
+    await ctx.app.request('/api/blogs/bulk', await jsonRequest('POST', { operations: [{ op: 'setStatus', id: second, status: 'published' }] }, 'admin'));
+    expect((await readJson(await ctx.app.request('/api/blogs'))).data).toHaveLength(2);
+  });
+
+  test('the LRU evicts the least recently used entry and expires entries after the TTL', async () => {
+    const cache = createLruCache<number>({ maxEntries: 2 });
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBe(1);
+    expect(cache.stats()).toEqual({ hits: 2, misses: 1, evictions: 1, size: 2, maxEntries: 2 });
+
+    const expiring = createLruCache<number>({ ttlMs: 10 });
+    expiring.set('a', 1);
+    await Bun.sleep(20);
+    expect(expiring.get('a')).toBeUndefined();
+    expect(expiring.stats().size).toBe(0);
+  });
+});
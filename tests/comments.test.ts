@@ -0,0 +1,219 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { Timestamp } from 'firebase-admin/firestore';
+import { createMemoryCommentRepository } from '../server/repositories';
+import { assessComment } from '../server/services/comments';
+import { authHeaders, createTestApp, jsonRequest, readJson } from './helpers';
+
+type TestApp = Awaited<ReturnType<typeof createTestApp>>;
+
+describe('Blog comments and moderation', () => {
+  let ctx: TestApp;
+
+  beforeEach(async () => {
+    // Batas komentar per klien diuji terpisah di bawah
+    ctx = await createTestApp({ rateLimit: { policies: { comment: { limit: 100 } } } });
+  });
+
+  afterEach(async () => {
+    await ctx.cleanup();
+  });
+
+  const createBlog = async (body: Record<string, unknown> = {}) => {
+    const res = await ctx.app.request('/api/blogs', await jsonRequest('POST', { title: 'Berkomentar', content: 'Isi', status: 'published', ...body }, 'editor'));
+    return (await readJson(res)).data.id as string;
+  };
+
+  const comment = (blogId: string, body: Record<string, unknown>) =>
+    ctx.app.request(`/api/blogs/${blogId}/comments`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+  const queue = async (query = 'status=pending') =>
+    (await readJson(await ctx.app.request(`/api/comments?${query}`, { headers: await authHeaders('admin') }))).data;
+
+  const moderate = async (id: string, action: 'approve' | 'reject') =>
+    ctx.app.request(`/api/comments/${id}/${action}`, { method: 'POST', headers: await authHeaders('admin') });
+
+  const commentCountOf = async (blogId: string) =>
+    (await readJson(await ctx.app.request(`/api/blogs/${blogId}`))).data.commentCount;
+
+  test('new comments wait in the moderation queue and only approved ones are public', async () => {
+    const blogId = await createBlog();
+    const res = await comment(blogId, { authorName: 'Budi', authorEmail: 'budi@example.com', content: 'Tulisan yang bagus' });
+    expect(res.status).toBe(202);
+    expect(await readJson(res)).toMatchObject({ success: true, data: { status: 'pending' } });
+
+    expect((await readJson(await ctx.app.request(`/api/blogs/${blogId}/comments`))).data).toEqual([]);
+    const [pending] = await queue();
+    expect(pending).toMatchObject({ blogId, authorName: 'Budi', authorEmail: 'budi@example.com', status: 'pending', flagged: false });
+
+    const approved = await moderate(pending.id, 'approve');
+    expect(approved.status).toBe(200);
+    expect((await readJson(approved)).data).toMatchObject({ status: 'approved', moderatedBy: 'admin-user' });
+
+    const [publicComment] = (await readJson(await ctx.app.request(`/api/blogs/${blogId}/comments`))).data;
+    expect(publicComment).toEqual({
+      id: pending.id,
+      parentId: null,
+      authorName: 'Budi',
+      content: 'Tulisan yang bagus',
+      createdAt: pending.createdAt,
+      replies: []
+    });
+    expect(await queue()).toEqual([]);
+  });
+
+  test('replies are threaded one level deep under approved comments', async () => {
+    const blogId = await createBlog();
+    await comment(blogId, { content: 'Komentar utama' });
+    const [root] = await queue();
+    expect((await readJson(await comment(blogId, { content: 'Balasan dini', parentId: root.id }))).code).toBe('INVALID_PARENT_COMMENT');
+    await moderate(root.id, 'approve');
+
+    await comment(blogId, { authorName: 'Sari', content: 'Balasan pertama', parentId: root.id });
+    const [reply] = await queue();
+    await moderate(reply.id, 'approve');
+    // Balasan ke balasan ditempelkan ke komentar utama
+    await comment(blogId, { content: 'Balasan kedua', parentId: reply.id });
+    const [nested] = await queue();
+    expect(nested.parentId).toBe(root.id);
+    await moderate(nested.id, 'approve');
+
+    const otherBlog = await createBlog({ title: 'Blog Lain' });
+    expect((await comment(otherBlog, { content: 'Salah tempat', parentId: root.id })).status).toBe(400);
+
+    const threads = (await readJson(await ctx.app.request(`/api/blogs/${blogId}/comments`))).data;
+    expect(threads).toHaveLength(1);
+    expect(threads[0].replies.map((item: any) => item.content)).toEqual(['Balasan pertama', 'Balasan kedua']);
+  });
+
+  test('comments created in the same millisecond keep the order they were stored in', async () => {
+    const repository = createMemoryCommentRepository();
+    const createdAt = Timestamp.now();
+    const contents = Array.from({ length: 20 }, (_, i) => `Komentar ${i}`);
+    for (const content of contents) {
+      await repository.create({
+        blogId: 'b1', parentId: null, authorName: null, authorEmail: null, userId: null, content,
+        status: 'approved', flagged: false, flagReasons: [], moderatedBy: null, moderatedAt: null, createdAt
+      });
+    }
+    expect((await repository.listByBlog('b1', 'approved')).map(item => item.content)).toEqual(contents);
+  });
+
+  test('commentCount follows approvals, rejections and deletions', async () => {
+    const blogId = await createBlog();
+    await comment(blogId, { content: 'Satu' });
+    await comment(blogId, { content: 'Dua' });
+    expect(await commentCountOf(blogId)).toBe(0);
+
+    const pending = await queue();
+    const first = pending.find((item: any) => item.content === 'Satu');
+    const second = pending.find((item: any) => item.content === 'Dua');
+    await moderate(first.id, 'approve');
+    await moderate(second.id, 'approve');
+    // Menyetujui ulang tidak menghitung dua kali
+    await moderate(first.id, 'approve');
+    expect(await commentCountOf(blogId)).toBe(2);
+
+    await comment(blogId, { content: 'Balasan', parentId: first.id });
+    const [reply] = await queue();
+    await moderate(reply.id, 'approve');
+    expect(await commentCountOf(blogId)).toBe(3);
+
+    await moderate(second.id, 'reject');
+    expect(await commentCountOf(blogId)).toBe(2);
+
+    // Menghapus komentar utama ikut menghapus balasannya
+    const deleted = await ctx.app.request(`/api/comments/${first.id}`, { method: 'DELETE', headers: await authHeaders('admin') });
+    expect(deleted.status).toBe(200);
+    expect(await commentCountOf(blogId)).toBe(0);
+    expect(await queue('')).toHaveLength(1);
+    expect((await ctx.app.request(`/api/comments/${first.id}`, { method: 'DELETE', headers: await authHeaders('admin') })).status).toBe(404);
+
+    // Perubahan jumlah komentar tidak dicatat sebagai revisi
+    const revisions = (await readJson(await ctx.app.request(`/api/blogs/${blogId}/revisions`, { headers: await authHeaders('editor') }))).data;
+    expect(revisions).toEqual([]);
+  });
+
+  test('rejecting a comment also stops counting the approved replies it hides', async () => {
+    const blogId = await createBlog();
+    await comment(blogId, { content: 'Komentar utama' });
+    const [root] = await queue();
+    await moderate(root.id, 'approve');
+    for (const content of ['Balasan satu', 'Balasan dua']) {
+      await comment(blogId, { content, parentId: root.id });
+      const [reply] = await queue();
+      await moderate(reply.id, 'approve');
+    }
+    expect(await commentCountOf(blogId)).toBe(3);
+
+    await moderate(root.id, 'reject');
+    expect((await readJson(await ctx.app.request(`/api/blogs/${blogId}/comments`))).data).toEqual([]);
+    expect(await commentCountOf(blogId)).toBe(0);
+
+    // Menyetujui balasan yang induknya ditolak tidak mengubah jumlah yang terlihat
+    const [hiddenReply] = await queue('status=approved');
+    await moderate(hiddenReply.id, 'reject');
+    await moderate(hiddenReply.id, 'approve');
+    expect(await commentCountOf(blogId)).toBe(0);
+
+    await moderate(root.id, 'approve');
+    expect(await commentCountOf(blogId)).toBe(3);
+    await moderate(root.id, 'reject');
+    await ctx.app.request(`/api/comments/${root.id}`, { method: 'DELETE', headers: await authHeaders('admin') });
+    expect(await commentCountOf(blogId)).toBe(0);
+  });
+
+  test('validation, honeypot, spam flags, disabled comments and unpublished blogs', async () => {
+    const blogId = await createBlog();
+    const invalid = await comment(blogId, { content: 'x', authorEmail: 'bukan-email' });
+    expect(invalid.status).toBe(400);
+    expect((await readJson(invalid)).details.map((detail: any) => detail.field).sort()).toEqual(['authorEmail', 'content']);
+    expect((await comment(blogId, { content: 'a'.repeat(2001) })).status).toBe(400);
+
+    // Bot mendapat jawaban yang sama, tetapi tidak ada yang disimpan
+    const bot = await comment(blogId, { content: 'Beli sekarang', website: 'https://spam.example.com' });
+    expect(bot.status).toBe(202);
+    expect(await queue('')).toEqual([]);
+
+    await comment(blogId, { content: 'Kunjungi https://a.example https://b.example https://c.example untuk casino' });
+    const [flagged] = await queue('flagged=true');
+    expect(flagged.flagReasons).toEqual(['too_many_links', 'blocked_terms']);
+    expect(await queue('flagged=false')).toEqual([]);
+
+    await ctx.app.request(`/api/blogs/${blogId}`, await jsonRequest('PUT', { commentsEnabled: false }, 'editor'));
+    const disabled = await comment(blogId, { content: 'Masih bisa?' });
+    expect(disabled.status).toBe(403);
+    expect((await readJson(disabled)).code).toBe('COMMENTS_DISABLED');
+
+    const draftId = await createBlog({ title: 'Draft', status: 'draft' });
+    expect((await comment(draftId, { content: 'Halo draft' })).status).toBe(404);
+    expect((await ctx.app.request(`/api/blogs/${draftId}/comments`)).status).toBe(404);
+  });
+
+  test('moderation routes are admin-only and blog comments are removed on permanent delete', async () => {
+    const blogId = await createBlog();
+    await comment(blogId, { content: 'Akan hilang' });
+    expect((await ctx.app.request('/api/comments', { headers: await authHeaders('editor') })).status).toBe(403);
+    expect((await ctx.app.request('/api/comments')).status).toBe(401);
+    expect((await moderate('tidak-ada', 'approve')).status).toBe(404);
+
+    await ctx.app.request(`/api/blogs/${blogId}`, { method: 'DELETE', headers: await authHeaders('admin') });
+    await ctx.app.request(`/api/trash/blog/${blogId}`, { method: 'DELETE', headers: await authHeaders('admin') });
+    expect(await queue('')).toEqual([]);
+  });
+
+  test('anonymous comment submissions have their own stricter rate limit', async () => {
+    await ctx.cleanup();
+    ctx = await createTestApp({ rateLimit: { policies: { comment: { limit: 2 } } } });
+    const blogId = await createBlog();
+    expect((await comment(blogId, { content: 'Satu' })).status).toBe(202);
+    expect((await comment(blogId, { content: 'Dua' })).status).toBe(202);
+    expect((await comment(blogId, { content: 'Tiga' })).status).toBe(429);
+    expect((await ctx.app.request(`/api/blogs/${blogId}/comments`)).status).toBe(200);
+  });
+
+  test('the spam heuristic flags links, blocked terms, shouting and repeated characters', () => {
+    expect(assessComment({ authorName: 'Budi', content: 'Terima kasih, sangat membantu!' })).toEqual({ flagged: false, reasons: [] });
+    expect(assessComment({ authorName: 'www.murah.example', content: 'INI PENAWARAN TERBAIK UNTUK ANDA!!!' }).reasons).toEqual(['link_in_name', 'shouting']);
+    expect(assessComment({ authorName: null, content: 'Bagussssssssssss' }).reasons).toEqual(['repeated_characters']);
+  });
+});
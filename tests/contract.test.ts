@@ -0,0 +1,234 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import fs from 'fs/promises';
+import { Timestamp } from 'firebase-admin/firestore';
+import sharp from 'sharp';
+import type { ZodTypeAny } from 'zod';
+import { DEFAULT_CLIENT_PATH, buildOpenApiDocument, renderClient } from '../scripts/generate-client';
+import type { Role } from '../server/types';
+import { authHeaders, createTestApp, readJson } from './helpers';
+
+type TestApp = Awaited<ReturnType<typeof createTestApp>>;
+
+interface Contract {
+  method: string;
+  path: string;
+  pattern: RegExp;
+  responses: Record<string, { content?: Record<string, { schema: unknown }> }>;
+}
+
+// Route OpenAPI yang terdaftar, termasuk sub-router yang dipasang lewat app.route()
+const contractsOf = (app: TestApp['app']): Contract[] =>
+  app.openAPIRegistry.definitions.flatMap(definition => {
+    if (definition.type !== 'route') return [];
+    const { method, path, responses } = definition.route;
+    const pattern = new RegExp(`^${path.replace(/\{[^}]+\}/g, '[^/]+')}$`);
+    return [{ method: method.toUpperCase(), path, pattern, responses: responses as Contract['responses'] }];
+  });
+
+describe('OpenAPI contract', () => {
+  let ctx: TestApp;
+  let contracts: Contract[];
+  let checked: Set<string>;
+
+  beforeEach(async () => {
+    ctx = await createTestApp();
+    contracts = contractsOf(ctx.app);
+    checked = new Set();
+  });
+
+  afterEach(async () => {
+    await ctx.cleanup();
+  });
+
+  // Setiap respons harus memakai status yang dideklarasikan dan lolos validasi schema-nya
+  const call = async (method: string, url: string, { role, body, headers = {} }: { role?: Role; body?: unknown; headers?: Record<string, string> } = {}) => {
+    const init: RequestInit = { method, headers: { ...headers, ...(role ? await authHeaders(role) : {}) } };
+    if (body instanceof FormData || typeof body === 'string') {
+      init.body = body;
+    } else if (body !== undefined) {
+      init.body = JSON.stringify(body);
+      (init.headers as Record<string, string>)['Content-Type'] = 'application/json';
+    }
+    const res = await ctx.app.request(url, init);
+
+    const { pathname } = new URL(url, 'http://localhost');
+    const contract = contracts
+      .filter(candidate => candidate.method === method && candidate.pattern.test(pathname))
+      .sort((a, b) => a.path.split('{').length - b.path.split('{').length)[0];
+    const label = `${method} ${pathname} -> ${res.status}`;
+    expect(contract, `${label} tidak punya route OpenAPI`).toBeDefined();
+    const declared = contract.responses[res.status];
+    expect(declared, `${label} tidak dideklarasikan`).toBeDefined();
+    checked.add(`${method} ${contract.path} ${res.status}`);
+
+    const mediaType = (res.headers.get('Content-Type') ?? '').split(';')[0];
+    if (!declared.content) return res;
+    const schema = declared.content[mediaType]?.schema as ZodTypeAny | undefined;
+    expect(schema, `${label} mengirim ${mediaType} yang tidak dideklarasikan`).toBeDefined();
+    if (mediaType === 'application/json') {
+      const result = schema!.safeParse(await res.clone().json());
+      expect(result.success ? [] : result.error.issues, label).toEqual([]);
+    }
+    return res;
+  };
+
+  const dataOf = async (res: Response) => (await readJson(res)).data;
+
+  test('every route declares typed success and error responses', () => {
+    for (const contract of contracts) {
+      const statuses = Object.keys(contract.responses);
+      expect(statuses.some(status => status.startsWith('2')), `${contract.method} ${contract.path}`).toBe(true);
+      for (const status of statuses.filter(status => status !== '301' && status !== '304')) {
+        expect(contract.responses[status].content, `${contract.method} ${contract.path} ${status}`).toBeDefined();
+      }
+    }
+  });
+
+  test('blog, project, tag, revision and bulk responses match their schemas', async () => {
+    await call('GET', '/api/health');
+    const tag = await dataOf(await call('POST', '/api/tags', { role: 'editor', body: { name: 'Hono' } }));
+    await call('POST', '/api/tags', { role: 'editor', body: { name: 'Hono' } });
+    await call('POST', '/api/tags', { role: 'editor', body: { name: '' } });
+    await call('PUT', `/api/tags/${tag.id}`, { role: 'editor', body: { description: 'Framework web' } });
+    await call('GET', '/api/tags');
+    await call('GET', `/api/tags/${tag.id}`);
+    await call('GET', '/api/tags/tidak-ada');
+
+    for (const [type, extra] of [
+      ['blogs', {}],
+      ['projects', { projectLink: 'https://p.example.com', githubLink: 'https://github.com/u/p', documentationLink: null, coverImageUrl: 'https://example.com/c.jpg', isGroup: false, publishedAt: null }]
+    ] as const) {
+      const base = `/api/${type}`;
+      const body = { title: 'Belajar Hono', content: '# Judul\n\nIsi', tags: ['hono'], status: 'published', ...extra };
+      const { id } = await dataOf(await call('POST', base, { role: 'editor', body }));
+      await call('POST', base, { role: 'editor', body: { content: 'Tanpa judul' } });
+      await call('POST', base, { role: 'editor', body: { ...body, tags: ['tidak-ada'] } });
+      await call('POST', base, { body });
+      await call('POST', base, { role: 'viewer', body });
+
+      await call('GET', base);
+      await call('GET', `${base}?render=html&limit=1`);
+      await call('GET', `${base}?cursor=rusak`, { role: 'editor' });
+      const detail = await call('GET', `${base}/${id}`);
+      await call('GET', `${base}/${id}`, { headers: { 'If-None-Match': detail.headers.get('ETag')! } });
+      await call('GET', `${base}/slug/belajar-hono`);
+      await call('GET', `${base}/${id}/meta`);
+      await call('PUT', `${base}/${id}`, { role: 'editor', body: { title: 'Belajar Hono Lanjutan' } });
+      await call('PUT', `${base}/${id}`, { role: 'editor', body: { title: 'Usang', version: 1 } });
+      await call('GET', `${base}/slug/belajar-hono`);
+      await call('GET', `${base}/tidak-ada`);
+
+      const revisions = await dataOf(await call('GET', `${base}/${id}/revisions`, { role: 'editor' }));
+      await call('GET', `${base}/${id}/revisions/${revisions[0].id}`, { role: 'editor' });
+      await call('GET', `${base}/${id}/revisions/${revisions[0].id}/diff`, { role: 'editor' });
+      await call('GET', `${base}/${id}/revisions/tidak-ada`, { role: 'editor' });
+      await call('POST', `${base}/${id}/revisions/${revisions[0].id}/restore`, { role: 'editor' });
+
+      await call('POST', `${base}/bulk`, { role: 'admin', body: { operations: [{ op: 'setStatus', id, status: 'draft' }] } });
+      await call('POST', `${base}/bulk`, { role: 'admin', body: { operations: [{ op: 'delete', id: 'tidak-ada' }] } });
+      await call('POST', `${base}/bulk`, { role: 'admin', body: { operations: [] } });
+
+      await call('DELETE', `${base}/${id}`, { role: 'admin' });
+      await call('DELETE', `${base}/${id}`, { role: 'admin' });
+    }
+
+    await call('DELETE', `/api/tags/${tag.id}`, { role: 'admin' });
+    expect(checked.size).toBeGreaterThan(40);
+  });
+
+  test('search, comment, scheduled, trash, upload and admin responses match their schemas', async () => {
+    const blog = await dataOf(await call('POST', '/api/blogs', { role: 'editor', body: { title: 'Cari Saya', content: 'Isi', status: 'published' } }));
+    await call('POST', '/api/blogs', {
+      role: 'editor',
+      body: { title: 'Nanti', content: 'Isi', status: 'scheduled', publishedAt: new Date(Date.now() + 86_400_000).toISOString() }
+    });
+    await call('GET', '/api/search?q=cari');
+    await call('GET', '/api/search?q=');
+    await call('POST', `/api/blogs/${blog.id}/comments`, { body: { authorName: 'Budi', content: 'Tulisan yang bagus' } });
+    await call('POST', `/api/blogs/${blog.id}/comments`, { body: { content: 'x' } });
+    await call('POST', `/api/blogs/${blog.id}/comments`, { body: { content: 'Balasan', parentId: 'tidak-ada' } });
+    const [comment] = await dataOf(await call('GET', '/api/comments?status=pending', { role: 'admin' }));
+    await call('POST', `/api/comments/${comment.id}/approve`, { role: 'admin' });
+    await call('GET', `/api/blogs/${blog.id}/comments`);
+    await call('POST', `/api/comments/${comment.id}/reject`, { role: 'admin' });
+    await call('GET', '/api/comments?cursor=rusak', { role: 'admin' });
+    await call('GET', '/api/comments', { role: 'editor' });
+    await call('DELETE', `/api/comments/${comment.id}`, { role: 'admin' });
+    await call('DELETE', `/api/comments/${comment.id}`, { role: 'admin' });
+    await call('GET', '/api/scheduled', { role: 'editor' });
+    await call('GET', '/api/scheduled?type=komentar', { role: 'editor' });
+    await (await call('GET', '/api/events?types=blog', { role: 'editor' })).body?.cancel();
+    await call('GET', '/api/events?types=komentar', { role: 'editor' });
+    await call('GET', '/api/events');
+    await call('GET', '/api/events', { role: 'viewer' });
+    await call('POST', '/api/analytics/view', { body: { type: 'blog', id: blog.id, referrer: 'https://www.google.com/' } });
+    await call('POST', '/api/analytics/view', { body: { type: 'blog', id: 'tidak-ada' } });
+    await call('POST', '/api/analytics/view', { body: { type: 'halaman', id: blog.id } });
+    await call('GET', '/api/analytics/top?range=7d', { role: 'editor' });
+    await call('GET', '/api/analytics/top?range=1d', { role: 'editor' });
+    await call('GET', '/api/analytics/top');
+    await call('GET', '/api/analytics/top', { role: 'viewer' });
+    await call('GET', `/api/analytics/blog/${blog.id}`, { role: 'editor' });
+    await call('GET', '/api/analytics/project/tidak-ada', { role: 'editor' });
+
+    const webhook = await dataOf(await call('POST', '/api/webhooks', { role: 'admin', body: { url: 'http://127.0.0.1:1/hook', events: ['blog.deleted'] } }));
+    await call('POST', '/api/webhooks', { role: 'admin', body: { url: 'ftp://example.com', events: [] } });
+    await call('GET', '/api/webhooks', { role: 'admin' });
+    await call('GET', '/api/webhooks', { role: 'editor' });
+    await call('GET', '/api/webhooks');
+    await call('GET', `/api/webhooks/${webhook.id}`, { role: 'admin' });
+    await call('GET', '/api/webhooks/tidak-ada', { role: 'admin' });
+    await call('PUT', `/api/webhooks/${webhook.id}`, { role: 'admin', body: { rotateSecret: true, active: false } });
+    await call('PUT', `/api/webhooks/${webhook.id}`, { role: 'admin', body: { events: ['komentar.created'] } });
+    const delivery = await ctx.webhooks.deliveries.create({
+      webhookId: webhook.id,
+      eventId: 'uji-1',
+      eventType: 'blog.deleted',
+      payload: '{}',
+      status: 'failed',
+      attempts: 1,
+      nextAttemptAt: null,
+      lastAttemptAt: null,
+      responseStatus: 500,
+      error: 'HTTP 500',
+      redeliveryOf: null,
+      createdAt: Timestamp.now()
+    });
+    await call('GET', `/api/webhooks/${webhook.id}/deliveries?limit=1`, { role: 'admin' });
+    await call('GET', `/api/webhooks/${webhook.id}/deliveries?cursor=rusak`, { role: 'admin' });
+    await call('POST', `/api/webhooks/${webhook.id}/deliveries/${delivery.id}/redeliver`, { role: 'admin' });
+    await call('POST', `/api/webhooks/${webhook.id}/deliveries/tidak-ada/redeliver`, { role: 'admin' });
+    await call('DELETE', `/api/webhooks/${webhook.id}`, { role: 'admin' });
+    await call('DELETE', `/api/webhooks/${webhook.id}`, { role: 'admin' });
+
+    const form = new FormData();
+    const image = await sharp({ create: { width: 400, height: 300, channels: 3, background: '#336699' } }).jpeg().toBuffer();
+    form.append('image', new File([image], 'cover.jpg', { type: 'image/jpeg' }));
+    const upload = await dataOf(await call('POST', '/api/upload', { role: 'editor', body: form }));
+    await call('POST', '/api/upload', { role: 'editor', body: new FormData() });
+    await call('GET', '/api/upload');
+    await call('DELETE', `/api/upload/${upload.filename}`, { role: 'admin' });
+    await call('DELETE', '/api/upload/tidak-ada.webp', { role: 'admin' });
+
+    await call('DELETE', `/api/blogs/${blog.id}`, { role: 'admin' });
+    await call('GET', '/api/trash', { role: 'editor' });
+    await call('GET', '/api/trash?type=komentar', { role: 'editor' });
+    await call('POST', `/api/trash/blog/${blog.id}/restore`, { role: 'editor' });
+    await call('POST', `/api/trash/image/${upload.filename}/restore`, { role: 'editor' });
+    await call('DELETE', `/api/trash/blog/${blog.id}`, { role: 'admin' });
+    await call('DELETE', '/api/trash/image/bukan-gambar.txt', { role: 'admin' });
+
+    const exported = await call('GET', '/api/admin/export', { role: 'admin' });
+    await call('POST', '/api/admin/import?dryRun=true', { role: 'admin', body: await exported.text() });
+    await call('POST', '/api/admin/import?onConflict=semua', { role: 'admin', body: '' });
+    await call('GET', '/api/admin/export', { role: 'editor' });
+    await call('GET', '/api/admin/cache', { role: 'admin' });
+  });
+
+  test('the generated client is up to date with the OpenAPI document', async () => {
+    const generated = renderClient(await buildOpenApiDocument());
+    expect(await fs.readFile(DEFAULT_CLIENT_PATH, 'utf8')).toBe(generated);
+    expect(generated).toContain('getBlogsById: {');
+    expect(generated).toContain('export function createApiClient(');
+  });
+});
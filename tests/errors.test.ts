@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { resolveLocale } from '../server/errors';
+import { authHeaders, createTestApp, jsonRequest, readJson } from './helpers';
+
+type TestApp = Awaited<ReturnType<typeof createTestApp>>;
+
+describe('Error responses', () => {
+  let ctx: TestApp;
+
+  beforeEach(async () => {
+    ctx = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await ctx.cleanup();
+  });
+
+  test('validation failures use the shared envelope with field details', async () => {
+    const res = await ctx.app.request('/api/blogs', await jsonRequest('POST', { content: 'Tanpa judul' }, 'editor'));
+    expect(res.status).toBe(400);
+    const body = await readJson(res);
+    expect(body).toMatchObject({ success: false, data: null, code: 'VALIDATION_FAILED', error: 'Validasi gagal' });
+    expect(body.details.map((detail: any) => detail.field)).toEqual(['title']);
+  });
+
+  test('localizes messages from Accept-Language while the code stays the same', async () => {
+    const id = 'tidak-ada';
+    const indonesian = await readJson(await ctx.app.request(`/api/blogs/${id}`));
+    const english = await readJson(await ctx.app.request(`/api/blogs/${id}`, { headers: { 'Accept-Language': 'en-US,en;q=0.9' } }));
+
+    expect(indonesian).toMatchObject({ code: 'BLOG_NOT_FOUND', error: `Blog dengan ID ${id} tidak ditemukan` });
+    expect(english).toMatchObject({ code: 'BLOG_NOT_FOUND', error: `Blog with ID ${id} not found` });
+
+    expect(resolveLocale('fr-FR, en;q=0.5')).toBe('en');
+    expect(resolveLocale('fr-FR')).toBe('id');
+    expect(resolveLocale(undefined)).toBe('id');
+  });
+
+  test('unknown routes, malformed JSON and auth failures carry stable codes', async () => {
+    const missing = await ctx.app.request('/api/tidak-ada');
+    expect(missing.status).toBe(404);
+    expect((await readJson(missing)).code).toBe('ROUTE_NOT_FOUND');
+
+    const malformed = await ctx.app.request('/api/blogs', {
+      method: 'POST',
+      body: '{"title":',
+      headers: { ...(await authHeaders('editor')), 'Content-Type': 'application/json' }
+    });
+    expect(malformed.status).toBe(400);
+    expect(await readJson(malformed)).toMatchObject({ success: false, code: 'INVALID_JSON' });
+
+    const anonymous = await ctx.app.request('/api/blogs', await jsonRequest('POST', { title: 'x', content: 'x' }));
+    expect((await readJson(anonymous)).code).toBe('UNAUTHENTICATED');
+
+    const viewer = await ctx.app.request('/api/blogs', await jsonRequest('POST', { title: 'x', content: 'x' }, 'viewer'));
+    expect(viewer.status).toBe(403);
+    expect((await readJson(viewer)).code).toBe('FORBIDDEN');
+
+    const badToken = await ctx.app.request('/api/blogs', { method: 'POST', headers: { Authorization: 'Bearer rusak' } });
+    expect((await readJson(badToken)).code).toBe('INVALID_TOKEN');
+  });
+
+  test('bulk results and import reports include per-item codes', async () => {
+    const res = await ctx.app.request('/api/blogs/bulk', await jsonRequest('POST', {
+      operations: [{ op: 'delete', id: 'tidak-ada' }]
+    }, 'admin'));
+    const body = await readJson(res);
+    expect(body.code).toBe('BULK_ABORTED');
+    expect(body.data.results[0].code).toBe('BLOG_NOT_FOUND');
+
+    const report = await readJson(await ctx.app.request('/api/admin/import', {
+      method: 'POST',
+      body: 'bukan json',
+      headers: { ...(await authHeaders('admin')), 'Accept-Language': 'en' }
+    }));
+    expect(report.data.results[0]).toMatchObject({ code: 'INVALID_RECORD', error: 'Line is not a valid JSON record' });
+  });
+});
@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import sharp from 'sharp';
+import { createEventBus } from '../server/services/events';
+import { authHeaders, createTestApp, jsonRequest, readJson } from './helpers';
+
+type TestApp = Awaited<ReturnType<typeof createTestApp>>;
+
+interface Message {
+  event?: string;
+  id?: string;
+  data?: any;
+  comment?: string;
+}
+
+const parseMessage = (raw: string): Message => {
+  const message: Message = {};
+  for (const line of raw.split('\n')) {
+    if (line.startsWith(':')) message.comment = line.slice(1).trim();
+    else if (line.startsWith('event: ')) message.event = line.slice(7);
+    else if (line.startsWith('id: ')) message.id = line.slice(4);
+    else if (line.startsWith('data: ')) message.data = JSON.parse(line.slice(6));
+  }
+  return message;
+};
+
+describe('Server-Sent Events', () => {
+  let ctx: TestApp;
+  const streams: Array<() => Promise<void>> = [];
+
+  beforeEach(async () => {
+    ctx = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await Promise.all(streams.splice(0).map(close => close()));
+    await ctx.cleanup();
+  });
+
+  const open = async (query = '', headers: Record<string, string> = {}) => {
+    const res = await ctx.app.request(`/api/events${query}`, { headers: { ...(await authHeaders('editor')), ...headers } });
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toContain('text/event-stream');
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    streams.push(() => reader.cancel());
+
+    // Membaca sampai `count` pesan lengkap diterima
+    const next = async (count = 1) => {
+      const messages: Message[] = [];
+      while (messages.length < count) {
+        const end = buffered.indexOf('\n\n');
+        if (end >= 0) {
+          messages.push(parseMessage(buffered.slice(0, end)));
+          buffered = buffered.slice(end + 2);
+          continue;
+        }
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffered += decoder.decode(value, { stream: true });
+      }
+      return messages;
+    };
+    return { next };
+  };
+
+  const createBlog = async (title: string) => {
+    const res = await ctx.app.request('/api/blogs', await jsonRequest('POST', { title, content: 'Isi', status: 'published' }, 'editor'));
+    return (await readJson(res)).data.id as string;
+  };
+
+  test('blog, project and upload changes are streamed as they happen', async () => {
+    const stream = await open();
+    const blogId = await createBlog('Langsung');
+    await ctx.app.request(`/api/blogs/${blogId}`, await jsonRequest('PUT', { title: 'Langsung Diubah' }, 'editor'));
+    await ctx.app.request(`/api/blogs/${blogId}`, { method: 'DELETE', headers: await authHeaders('admin') });
+
+    const [created, published, updated, deleted] = await stream.next(4);
+    expect(created).toMatchObject({ event: 'blog.created', data: { id: blogId, title: 'Langsung', slug: 'langsung', status: 'published', version: 1, userId: 'editor-user' } });
+    expect(created.id).toBeString();
+    // Blog yang langsung terbit juga memicu blog.published
+    expect(published).toMatchObject({ event: 'blog.published', data: { id: blogId, version: 1 } });
+    expect(updated).toMatchObject({ event: 'blog.updated', data: { id: blogId, title: 'Langsung Diubah', version: 2 } });
+    expect(deleted).toMatchObject({ event: 'blog.deleted', data: { id: blogId, userId: 'admin-user' } });
+    expect(typeof deleted.data.timestamp).toBe('string');
+
+    await ctx.app.request('/api/projects/bulk', await jsonRequest('POST', {
+      operations: [{ op: 'create', data: { title: 'Massal', content: 'Isi', projectLink: 'https://p.example.com', githubLink: 'https://github.com/u/p', documentationLink: null, coverImageUrl: 'https://example.com/c.jpg', isGroup: false, status: 'draft', publishedAt: null } }]
+    }, 'editor'));
+    const [bulkCreated] = await stream.next();
+    expect(bulkCreated).toMatchObject({ event: 'project.created', data: { title: 'Massal', status: 'draft', version: 1 } });
+
+    const form = new FormData();
+    const image = await sharp({ create: { width: 40, height: 30, channels: 3, background: '#336699' } }).jpeg().toBuffer();
+    form.append('image', new File([image], 'cover.jpg', { type: 'image/jpeg' }));
+    const upload = (await readJson(await ctx.app.request('/api/upload', { method: 'POST', body: form, headers: await authHeaders('editor') }))).data;
+    await ctx.app.request(`/api/upload/${upload.filename}`, { method: 'DELETE', headers: await authHeaders('admin') });
+    const [uploaded, removed] = await stream.next(2);
+    expect(uploaded).toMatchObject({ event: 'upload.created', data: { filename: upload.filename, url: upload.url } });
+    expect(removed).toMatchObject({ event: 'upload.deleted', data: { filename: upload.filename } });
+  });
+
+  test('types filters by resource or by exact event type', async () => {
+    const stream = await open('?types=project,blog.deleted');
+    const blogId = await createBlog('Disaring');
+    await ctx.app.request(`/api/blogs/${blogId}`, { method: 'DELETE', headers: await authHeaders('admin') });
+
+    const [deleted] = await stream.next();
+    expect(deleted).toMatchObject({ event: 'blog.deleted', data: { id: blogId } });
+
+    const invalid = await ctx.app.request('/api/events?types=blog,komentar', { headers: await authHeaders('editor') });
+    expect(invalid.status).toBe(400);
+    expect((await readJson(invalid)).code).toBe('VALIDATION_FAILED');
+  });
+
+  test('Last-Event-ID resumes from the replay buffer, or asks the client to reload', async () => {
+    const first = await open();
+    await createBlog('Satu');
+    await createBlog('Dua');
+    await createBlog('Tiga');
+    const [one] = await first.next();
+
+    const resumed = await open('', { 'Last-Event-ID': one.id! });
+    expect((await resumed.next(5)).map(message => `${message.event} ${message.data.title}`)).toEqual([
+      'blog.published Satu',
+      'blog.created Dua',
+      'blog.published Dua',
+      'blog.created Tiga',
+      'blog.published Tiga'
+    ]);
+
+    const viaQuery = await open(`?lastEventId=${encodeURIComponent(one.id!)}&types=blog.created`);
+    expect((await viaQuery.next()).map(message => message.data.title)).toEqual(['Dua']);
+
+    const unknown = await open('', { 'Last-Event-ID': 'proses-lama-7' });
+    expect(await unknown.next()).toEqual([{ event: 'reset', data: { reason: 'replay_unavailable' } }]);
+  });
+
+  test('the replay buffer is bounded and ids from an older process are rejected', () => {
+    const bus = createEventBus({ replaySize: 2 });
+    const first = bus.publish('blog.created', { id: 'a' });
+    const second = bus.publish('blog.updated', { id: 'a' });
+    expect(bus.since(first.id)).toEqual([second]);
+    expect(bus.since(second.id)).toEqual([]);
+
+    const third = bus.publish('blog.deleted', { id: 'a' });
+    const fourth = bus.publish('blog.created', { id: 'b' });
+    expect(bus.since(second.id)).toEqual([third, fourth]);
+    // `second` sudah dibuang dari buffer, jadi event sesudah `first` tidak lengkap lagi
+    expect(bus.since(first.id)).toBeNull();
+    expect(bus.since(`${fourth.id}0`)).toBeNull();
+    expect(bus.since(fourth.id.replace(/^[^-]+/, 'lama'))).toBeNull();
+  });
+
+  test('heartbeats keep idle connections open and the stream is limited to editors', async () => {
+    await ctx.cleanup();
+    ctx = await createTestApp({ eventHeartbeatMs: 20 });
+    const stream = await open();
+    expect(await stream.next()).toEqual([{ comment: 'heartbeat' }]);
+
+    expect((await ctx.app.request('/api/events')).status).toBe(401);
+    expect((await ctx.app.request('/api/events', { headers: await authHeaders('viewer') })).status).toBe(403);
+  });
+});
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { BASE_URL, createTestApp, jsonRequest, readJson } from './helpers';
+
+type TestApp = Awaited<ReturnType<typeof createTestApp>>;
+
+describe('Feeds', () => {
+  let ctx: TestApp;
+
+  beforeEach(async () => {
+    ctx = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await ctx.cleanup();
+  });
+
+  const createBlog = async (body: Record<string, unknown>) => {
+    const res = await ctx.app.request('/api/blogs', await jsonRequest('POST', { content: 'Isi', status: 'published', ...body }, 'editor'));
+    return (await readJson(res)).data.id as string;
+  };
+
+  const seed = async () => {
+    await createBlog({
+      title: 'Tulisan Lama',
+      excerpt: 'Ringkasan lama',
+      publishedAt: '2025-01-01T00:00:00.000Z',
+      coverImageUrl: 'https://cdn.example.com/cover.png'
+    });
+    await createBlog({
+      title: 'Tom & Jerry <3',
+      content: 'Paragraf satu.\n\nParagraf <dua>',
+      publishedAt: '2025-03-01T00:00:00.000Z'
+    });
+    await createBlog({ title: 'Draf', status: 'draft', publishedAt: '2025-04-01T00:00:00.000Z' });
+  };
+
+  test('GET /feed.json lists published blogs newest first as JSON Feed 1.1', async () => {
+    await seed();
+    const res = await ctx.app.request('/feed.json');
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toBe('application/feed+json; charset=utf-8');
+
+    const feed = await readJson(res);
+    expect(feed.version).toBe('https://jsonfeed.org/version/1.1');
+    expect(feed.feed_url).toBe(`${BASE_URL}/feed.json`);
+    expect(feed.items.map((item: any) => item.title)).toEqual(['Tom & Jerry <3', 'Tulisan Lama']);
+
+    const [latest, older] = feed.items;
+    expect(latest.url).toBe(`${BASE_URL}/api/blogs/slug/tom-jerry-3`);
+    expect(latest.content_html).toBe('<p>Paragraf satu.</p>\n<p>Paragraf &lt;dua&gt;</p>');
+    expect(latest.date_published).toBe('2025-03-01T00:00:00.000Z');
+    expect(older).toMatchObject({ summary: 'Ringkasan lama', image: 'https://cdn.example.com/cover.png' });
+  });
+
+  test('GET /feed.xml renders RSS 2.0 with enclosures and escaped titles', async () => {
+    await seed();
+    const res = await ctx.app.request('/feed.xml');
+    expect(res.headers.get('Content-Type')).toBe('application/rss+xml; charset=utf-8');
+
+    const body = await res.text();
+    expect(body).toStartWith('<?xml version="1.0" encoding="UTF-8"?>\n<rss version="2.0"');
+    expect(body).toContain('<title>Tom &amp; Jerry &lt;3</title>');
+    expect(body).toContain('<enclosure url="https://cdn.example.com/cover.png" length="0" type="image/png"/>');
+    expect(body).toContain('<pubDate>Sat, 01 Mar 2025 00:00:00 GMT</pubDate>');
+    expect(body).not.toContain('Draf');
+  });
+
+  test('GET /atom.xml renders an Atom feed', async () => {
+    await seed();
+    const res = await ctx.app.request('/atom.xml');
+    expect(res.headers.get('Content-Type')).toBe('application/atom+xml; charset=utf-8');
+
+    const body = await res.text();
+    expect(body).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+    expect(body).toContain('<summary type="text">Ringkasan lama</summary>');
+    expect(body).toContain('<published>2025-03-01T00:00:00.000Z</published>');
+    expect(body.match(/<entry>/g)).toHaveLength(2);
+  });
+
+  test('supports conditional GET with ETag and Last-Modified', async () => {
+    await seed();
+    const first = await ctx.app.request('/feed.xml');
+    const etag = first.headers.get('ETag')!;
+    const lastModified = first.headers.get('Last-Modified')!;
+    expect(etag).toMatch(/^".+"$/);
+    expect(lastModified).toBeString();
+
+    const byEtag = await ctx.app.request('/feed.xml', { headers: { 'If-None-Match': etag } });
+    expect(byEtag.status).toBe(304);
+    expect(await byEtag.text()).toBe('');
+
+    const byDate = await ctx.app.request('/feed.xml', { headers: { 'If-Modified-Since': lastModified } });
+    expect(byDate.status).toBe(304);
+
+    await createBlog({ title: 'Baru', publishedAt: '2025-05-01T00:00:00.000Z' });
+    const changed = await ctx.app.request('/feed.xml', { headers: { 'If-None-Match': etag } });
+    expect(changed.status).toBe(200);
+    expect(changed.headers.get('ETag')).not.toBe(etag);
+  });
+});
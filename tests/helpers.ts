@@ -0,0 +1,105 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createApp, type AppDependencies } from '../server/app';
+import { signToken } from '../server/middleware/auth';
+import {
+  createCachedRepository,
+  createMemoryAnalyticsRepository,
+  createMemoryBlogRepository,
+  createMemoryCommentRepository,
+  createMemoryProjectRepository,
+  createMemoryRevisionRepository,
+  createMemoryTagRepository,
+  createMemoryWebhookDeliveryRepository,
+  createMemoryWebhookRepository
+} from '../server/repositories';
+import { createLocalStorageDriver } from '../server/storage';
+import { createSearchIndex } from '../server/services/search';
+import { createViewTracker } from '../server/services/analytics';
+import { createEventBus } from '../server/services/events';
+import { createWebhookDispatcher } from '../server/services/webhooks';
+import type { Role } from '../server/types';
+
+process.env.JWT_SECRET ??= 'test-secret';
+
+export const BASE_URL = 'http://localhost:8787';
+
+export async function createTestApp(overrides: Partial<AppDependencies> = {}) {
+  // Lewat cache baca seperti di produksi, supaya invalidasi ikut teruji di semua test
+  const revisions = { blogs: createMemoryRevisionRepository(), projects: createMemoryRevisionRepository() };
+  const blogs = createCachedRepository(createMemoryBlogRepository(revisions.blogs));
+  const projects = createCachedRepository(createMemoryProjectRepository(revisions.projects));
+  const tags = createMemoryTagRepository();
+  const comments = createMemoryCommentRepository();
+  // Tracker tidak di-start; laporan analitik melakukan flush sendiri sebelum membaca
+  const analyticsRepository = createMemoryAnalyticsRepository();
+  const analytics = { repository: analyticsRepository, tracker: createViewTracker({ repository: analyticsRepository, secret: 'test-secret' }) };
+  const uploadDir = await fs.mkdtemp(path.join(os.tmpdir(), 'bunbackend-uploads-'));
+  const storage = await createLocalStorageDriver({ directory: uploadDir, baseUrl: BASE_URL });
+  const trashStorage = await createLocalStorageDriver({ directory: path.join(uploadDir, '.trash'), baseUrl: BASE_URL });
+
+  const search = createSearchIndex();
+  const events = createEventBus();
+  // Dispatcher tidak di-start; test webhook menjalankannya sendiri
+  const webhookRepository = createMemoryWebhookRepository();
+  const webhookDeliveries = createMemoryWebhookDeliveryRepository();
+  const webhooks = {
+    repository: webhookRepository,
+    deliveries: webhookDeliveries,
+    dispatcher: createWebhookDispatcher({ webhooks: webhookRepository, deliveries: webhookDeliveries, events })
+  };
+
+  const app = createApp({
+    blogs,
+    projects,
+    tags,
+    revisions,
+    comments,
+    analytics,
+    revisionRetention: 5,
+    storage,
+    trashStorage,
+    search,
+    events,
+    webhooks,
+    baseUrl: BASE_URL,
+    logger: false,
+    ...overrides
+  });
+
+  return {
+    app,
+    blogs,
+    projects,
+    tags,
+    revisions,
+    comments,
+    analytics,
+    storage,
+    trashStorage,
+    search,
+    events,
+    webhooks,
+    uploadDir,
+    cleanup: () => fs.rm(uploadDir, { recursive: true, force: true })
+  };
+}
+
+export async function authHeaders(role: Role): Promise<Record<string, string>> {
+  const token = await signToken({ uid: `${role}-user`, role });
+  return { Authorization: `Bearer ${token}` };
+}
+
+export async function jsonRequest(method: string, body: unknown, role?: Role): Promise<RequestInit> {
+  return {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(role ? await authHeaders(role) : {})
+    },
+    body: JSON.stringify(body)
+  };
+}
+
+export const readJson = (res: Response): Promise<any> => res.json();
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { Timestamp } from 'firebase-admin/firestore';
+import { createContentRenderer, renderMarkdown } from '../server/services/markdown';
+import { createTestApp, jsonRequest, readJson } from './helpers';
+
+type TestApp = Awaited<ReturnType<typeof createTestApp>>;
+
+const ARTICLE = [
+  '# Belajar **Hono**',
+  '',
+  'Pendahuluan singkat dengan [tautan](https://hono.dev).',
+  '',
+  '## Instalasi',
+  '',
+  '```sh',
+  'bun add hono',
+  '```',
+  '',
+  '## Instalasi',
+  '',
+  'Sekali lagi.'
+].join('\n');
+
+describe('Markdown rendering', () => {
+  test('builds a table of contents with unique heading ids', () => {
+    const rendered = renderMarkdown(ARTICLE);
+    expect(rendered.toc).toEqual([
+      { level: 1, text: 'Belajar Hono', id: 'belajar-hono' },
+      { level: 2, text: 'Instalasi', id: 'instalasi' },
+      { level: 2, text: 'Instalasi', id: 'instalasi-2' }
+    ]);
+    expect(rendered.contentHtml).toContain('<h1 id="belajar-hono">Belajar <strong>Hono</strong></h1>');
+    expect(rendered.contentHtml).toContain('<h2 id="instalasi-2">Instalasi</h2>');
+    expect(rendered.contentHtml).toContain('<a href="https://hono.dev" rel="nofollow noopener noreferrer">tautan</a>');
+  });
+
+  test('escapes raw HTML and drops unsafe URLs', () => {
+    const { contentHtml } = renderMarkdown([
+      'Halo <script>alert(1)</script> <img src=x onerror=alert(1)>',
+      '',
+      '[klik](javascript:alert(1)) ![foto](data:image/png;base64,AAAA) [surel](mailto:a@example.com)',
+      '',
+      '<iframe src="https://evil.example"></iframe>'
+    ].join('\n'));
+
+    expect(contentHtml).not.toMatch(/<(script|iframe|img)/);
+    expect(contentHtml).not.toContain('javascript:');
+    expect(contentHtml).not.toContain('data:image');
+    expect(contentHtml).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(contentHtml).toContain('klik foto <a href="mailto:a@example.com">surel</a>');
+    expect(contentHtml).toContain('<p>&lt;iframe src=&quot;https://evil.example&quot;&gt;&lt;/iframe&gt;</p>');
+  });
+
+  test('counts words and rounds reading time up', () => {
+    expect(renderMarkdown('')).toMatchObject({ contentHtml: '', wordCount: 0, readingTimeMinutes: 0 });
+    expect(renderMarkdown('satu **dua** tiga')).toMatchObject({ wordCount: 3, readingTimeMinutes: 1 });
+    expect(renderMarkdown('kata '.repeat(401)).readingTimeMinutes).toBe(3);
+  });
+
+  test('reuses cached output until updatedAt changes', () => {
+    const renderer = createContentRenderer({ maxEntries: 2 });
+    const updatedAt = Timestamp.fromMillis(1_000);
+    const first = renderer.render('blog', { id: 'a', content: 'Awal', updatedAt });
+    expect(renderer.render('blog', { id: 'a', content: 'Awal', updatedAt })).toBe(first);
+
+    const changed = renderer.render('blog', { id: 'a', content: 'Baru', updatedAt: Timestamp.fromMillis(2_000) });
+    expect(changed.contentHtml).toBe('<p>Baru</p>');
+
+    renderer.render('project', { id: 'a', content: 'Proyek', updatedAt });
+    renderer.render('blog', { id: 'b', content: 'Lain', updatedAt });
+    expect(renderer.size).toBe(2);
+  });
+});
+
+describe('Rendered content in responses', () => {
+  let ctx: TestApp;
+
+  beforeEach(async () => {
+    ctx = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await ctx.cleanup();
+  });
+
+  const createBlog = async (content: string) => {
+    const res = await ctx.app.request('/api/blogs', await jsonRequest('POST', { title: 'Belajar Hono', content, status: 'published' }, 'editor'));
+    return (await readJson(res)).data.id as string;
+  };
+
+  test('GET /api/blogs/{id} returns contentHtml, toc and reading time next to the raw content', async () => {
+    const id = await createBlog(ARTICLE);
+    const { data } = await readJson(await ctx.app.request(`/api/blogs/${id}`));
+
+    expect(data.content).toBe(ARTICLE);
+    expect(data.contentHtml).toContain('<pre><code class="language-sh">bun add hono');
+    expect(data.toc).toHaveLength(3);
+    expect(data.wordCount).toBeGreaterThan(0);
+    expect(data.readingTimeMinutes).toBe(1);
+  });
+
+  test('re-renders after an update', async () => {
+    const id = await createBlog('Versi *pertama*');
+    expect((await readJson(await ctx.app.request(`/api/blogs/${id}`))).data.contentHtml).toBe('<p>Versi <em>pertama</em></p>');
+
+    await ctx.app.request(`/api/blogs/${id}`, await jsonRequest('PUT', { content: 'Versi **kedua**' }, 'editor'));
+    const bySlug = await readJson(await ctx.app.request('/api/blogs/slug/belajar-hono'));
+    expect(bySlug.data.contentHtml).toBe('<p>Versi <strong>kedua</strong></p>');
+  });
+
+  test('lists include rendered fields only with ?render=html', async () => {
+    await createBlog('## Judul');
+
+    const plain = await readJson(await ctx.app.request('/api/blogs'));
+    expect(plain.data[0]).not.toHaveProperty('contentHtml');
+
+    const rendered = await readJson(await ctx.app.request('/api/blogs?render=html'));
+    expect(rendered.data[0]).toMatchObject({ contentHtml: '<h2 id="judul">Judul</h2>', toc: [{ level: 2, text: 'Judul', id: 'judul' }] });
+  });
+
+  test('GET /api/projects/{id} renders project content', async () => {
+    const res = await ctx.app.request('/api/projects', await jsonRequest('POST', {
+      title: 'Proyek',
+      content: '- satu\n- dua',
+      projectLink: 'https://example.com',
+      githubLink: 'https://github.com/example/repo',
+      documentationLink: null,
+      coverImageUrl: 'https://example.com/cover.jpg',
+      isGroup: false,
+      status: 'published',
+      publishedAt: null
+    }, 'editor'));
+    const id = (await readJson(res)).data.id;
+
+    const { data } = await readJson(await ctx.app.request(`/api/projects/${id}`));
+    expect(data.contentHtml).toBe('<ul>\n<li>satu</li>\n<li>dua</li>\n</ul>');
+    expect(data.wordCount).toBe(2);
+  });
+});
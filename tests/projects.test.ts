@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { authHeaders, createTestApp, jsonRequest, readJson } from './helpers';
+
+type TestApp = Awaited<ReturnType<typeof createTestApp>>;
+
+const validProject = {
+  title: 'Portfolio API',
+  content: 'Detail proyek',
+  projectLink: 'https://project.example.com',
+  githubLink: 'https://github.com/user/project',
+  documentationLink: null,
+  coverImageUrl: 'https://example.com/cover.jpg',
+  isGroup: false,
+  status: 'published',
+  publishedAt: '2025-06-06T04:11:32.056Z'
+};
+
+describe('Project routes', () => {
+  let ctx: TestApp;
+
+  beforeEach(async () => {
+    ctx = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await ctx.cleanup();
+  });
+
+  const createProject = async (body: Record<string, unknown> = validProject) => {
+    // Beri jeda agar createdAt setiap proyek berbeda dan urutannya deterministik
+    await Bun.sleep(2);
+    const res = await ctx.app.request('/api/projects', await jsonRequest('POST', body, 'admin'));
+    expect(res.status).toBe(201);
+    return (await readJson(res)).data;
+  };
+
+  test('POST /api/projects returns the created project with ISO timestamps', async () => {
+    const project = await createProject();
+    expect(project.id).toBeString();
+    expect(project.title).toBe('Portfolio API');
+    expect(project.publishedAt).toBe('2025-06-06T04:11:32.056Z');
+    expect(new Date(project.createdAt).toISOString()).toBe(project.createdAt);
+  });
+
+  test('POST /api/projects and bulk create only require a title, as published in the schema', async () => {
+    const project = await createProject({ title: 'Catatan Singkat' });
+    expect(project).toMatchObject({ title: 'Catatan Singkat', status: 'draft', isGroup: false });
+
+    const bulk = await ctx.app.request('/api/projects/bulk', await jsonRequest('POST', {
+      operations: [{ op: 'create', data: { title: 'Massal Singkat' } }]
+    }, 'admin'));
+    expect(bulk.status).toBe(200);
+    expect((await readJson(bulk)).data.results[0]).toMatchObject({ success: true });
+  });
+
+  test('POST /api/projects rejects invalid payloads', async () => {
+    const res = await ctx.app.request('/api/projects', await jsonRequest('POST', { ...validProject, githubLink: 'nope' }, 'admin'));
+    expect(res.status).toBe(400);
+  });
+
+  test('GET /api/projects lists newest first and hides drafts from anonymous callers', async () => {
+    const first = await createProject();
+    const draft = await createProject({ ...validProject, title: 'Draft', status: 'draft' });
+
+    const anonymous = await readJson(await ctx.app.request('/api/projects'));
+    expect(anonymous.data.map((project: any) => project.id)).toEqual([first.id]);
+
+    const viewer = await readJson(await ctx.app.request('/api/projects', { headers: await authHeaders('viewer') }));
+    expect(viewer.data.map((project: any) => project.id)).toEqual([draft.id, first.id]);
+  });
+
+  test('GET /api/projects returns pagination metadata', async () => {
+    const older = await createProject();
+    const newer = await createProject({ ...validProject, title: 'Newer' });
+
+    const first = await readJson(await ctx.app.request('/api/projects?limit=1'));
+    expect(first.data.map((project: any) => project.id)).toEqual([newer.id]);
+    expect(first.pagination.hasMore).toBe(true);
+
+    const second = await readJson(await ctx.app.request(`/api/projects?limit=1&cursor=${first.pagination.nextCursor}`));
+    expect(second.data.map((project: any) => project.id)).toEqual([older.id]);
+    expect(second.pagination.hasMore).toBe(false);
+  });
+
+  test('GET /api/projects/:id returns 404 for unknown ids', async () => {
+    const res = await ctx.app.request('/api/projects/unknown');
+    expect(res.status).toBe(404);
+  });
+
+  test('PUT /api/projects/:id updates a project', async () => {
+    const project = await createProject();
+    const res = await ctx.app.request(`/api/projects/${project.id}`, await jsonRequest('PUT', { isGroup: true }, 'editor'));
+    expect(res.status).toBe(200);
+
+    const { data } = await readJson(res);
+    expect(data.isGroup).toBe(true);
+    expect(data.title).toBe(project.title);
+  });
+
+  test('PUT /api/projects/:id returns 404 for unknown ids', async () => {
+    const res = await ctx.app.request('/api/projects/unknown', await jsonRequest('PUT', { isGroup: true }, 'editor'));
+    expect(res.status).toBe(404);
+  });
+
+  test('GET /api/projects/slug/:slug finds projects by slug', async () => {
+    const project = await createProject();
+    expect(project.slug).toBe('portfolio-api');
+
+    const res = await ctx.app.request('/api/projects/slug/portfolio-api');
+    expect(res.status).toBe(200);
+    expect((await readJson(res)).data.id).toBe(project.id);
+
+    await ctx.app.request(`/api/projects/${project.id}`, await jsonRequest('PUT', { slug: 'api-portofolio' }, 'editor'));
+    const redirected = await ctx.app.request('/api/projects/slug/portfolio-api');
+    expect(redirected.status).toBe(301);
+    expect(redirected.headers.get('Location')).toBe('/api/projects/slug/api-portofolio');
+  });
+
+  test('DELETE /api/projects/:id removes the project', async () => {
+    const project = await createProject();
+    const res = await ctx.app.request(`/api/projects/${project.id}`, { method: 'DELETE', headers: await authHeaders('admin') });
+    expect(res.status).toBe(200);
+
+    const missing = await ctx.app.request(`/api/projects/${project.id}`, { method: 'DELETE', headers: await authHeaders('admin') });
+    expect(missing.status).toBe(404);
+  });
+});
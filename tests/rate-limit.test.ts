@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import sharp from 'sharp';
+import { createMemoryRateLimitStore, type RateLimitStore } from '../server/middleware/rate-limit';
+import type { RateLimitOptions } from '../server/app';
+import { authHeaders, createTestApp, jsonRequest, readJson } from './helpers';
+
+type TestApp = Awaited<ReturnType<typeof createTestApp>>;
+
+describe('Rate limiting and upload quotas', () => {
+  let ctx: TestApp;
+
+  const setup = async (rateLimit: RateLimitOptions) => {
+    ctx = await createTestApp({ rateLimit });
+  };
+
+  afterEach(async () => {
+    await ctx.cleanup();
+  });
+
+  const createTag = async (name: string, role: 'editor' | 'admin' = 'editor') =>
+    ctx.app.request('/api/tags', await jsonRequest('POST', { name }, role));
+
+  test('limits writes per authenticated user with RateLimit-* and Retry-After headers', async () => {
+    await setup({ policies: { write: { limit: 2 } } });
+
+    const first = await createTag('Satu');
+    expect(first.status).toBe(201);
+    expect(first.headers.get('RateLimit-Limit')).toBe('2');
+    expect(first.headers.get('RateLimit-Remaining')).toBe('1');
+    expect(first.headers.get('RateLimit-Policy')).toBe('2;w=60');
+    expect(Number(first.headers.get('RateLimit-Reset'))).toBeWithin(1, 61);
+
+    expect((await createTag('Dua')).status).toBe(201);
+    const limited = await createTag('Tiga');
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('RateLimit-Remaining')).toBe('0');
+    expect(Number(limited.headers.get('Retry-After'))).toBeWithin(1, 121);
+    expect(await readJson(limited)).toMatchObject({ success: false, code: 'RATE_LIMITED' });
+
+    // Pengguna lain punya jatah sendiri, dan GET memakai kebijakan read
+    expect((await createTag('Tiga', 'admin')).status).toBe(201);
+    const read = await ctx.app.request('/api/tags', { headers: await authHeaders('editor') });
+    expect(read.status).toBe(200);
+    expect(read.headers.get('RateLimit-Limit')).toBe('600');
+  });
+
+  test('keys anonymous clients by the address added by the trusted proxy', async () => {
+    await setup({ trustProxyHops: 1, policies: { read: { limit: 1 } } });
+    const get = (forwardedFor: string) => ctx.app.request('/api/blogs', { headers: { 'X-Forwarded-For': forwardedFor } });
+
+    expect((await get('10.0.0.1, 203.0.113.7')).status).toBe(200);
+    // Alamat paling kiri bisa dipalsukan klien, jadi tidak mengubah identitasnya
+    expect((await get('10.0.0.2, 203.0.113.7')).status).toBe(429);
+    expect((await get('203.0.113.8')).status).toBe(200);
+  });
+
+  test('the sliding window frees capacity gradually and works with a custom store', async () => {
+    const memory = createMemoryRateLimitStore();
+    const keys = new Set<string>();
+    const store: RateLimitStore = {
+      increment: (key, amount, ttlMs) => {
+        keys.add(key);
+        return memory.increment(key, amount, ttlMs);
+      },
+      get: (key) => memory.get(key)
+    };
+    await setup({ store, policies: { read: { limit: 2, windowMs: 200 } } });
+    const get = () => ctx.app.request('/api/health');
+
+    // Tunggu awal jendela baru agar hasilnya tidak bergantung pada waktu mulai test
+    await Bun.sleep(200 - (Date.now() % 200));
+    expect((await get()).status).toBe(200);
+    expect((await get()).status).toBe(200);
+    expect((await get()).status).toBe(429);
+
+    // Di awal jendela berikutnya dua request tadi masih berbobot hampir penuh
+    await Bun.sleep(200 - (Date.now() % 200) + 5);
+    expect((await get()).status).toBe(429);
+    await Bun.sleep(150);
+    expect((await get()).status).toBe(200);
+    expect([...keys].every(key => key.startsWith('ratelimit:read:ip:unknown:'))).toBe(true);
+  });
+
+  test('enforces a daily upload byte quota and refunds failed uploads', async () => {
+    const image = await sharp({ create: { width: 64, height: 64, channels: 3, background: '#336699' } }).jpeg().toBuffer();
+    await setup({ uploadBytesPerDay: image.length * 2 + 3 });
+    const upload = async (data: Uint8Array) => {
+      const form = new FormData();
+      form.append('image', new File([data], 'cover.jpg', { type: 'image/jpeg' }));
+      return ctx.app.request('/api/upload', { method: 'POST', body: form, headers: await authHeaders('editor') });
+    };
+
+    expect((await upload(image)).status).toBe(201);
+    // File rusak tidak menghabiskan kuota
+    expect((await upload(new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0, 0]))).status).toBe(400);
+    expect((await upload(image)).status).toBe(201);
+
+    const exceeded = await upload(image);
+    expect(exceeded.status).toBe(429);
+    expect(Number(exceeded.headers.get('Retry-After'))).toBeWithin(1, 86_401);
+    expect(await readJson(exceeded)).toMatchObject({ code: 'UPLOAD_QUOTA_EXCEEDED' });
+    expect(await ctx.storage.list()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { createMemoryBlogRepository, createMemoryRevisionRepository } from '../server/repositories';
+import { authHeaders, createTestApp, jsonRequest, readJson } from './helpers';
+
+type TestApp = Awaited<ReturnType<typeof createTestApp>>;
+
+describe('Revision history', () => {
+  let ctx: TestApp;
+
+  beforeEach(async () => {
+    ctx = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await ctx.cleanup();
+  });
+
+  const createBlog = async (body: Record<string, unknown> = {}) => {
+    const res = await ctx.app.request('/api/blogs', await jsonRequest('POST', {
+      title: 'Versi Satu',
+      content: 'Paragraf asli',
+      status: 'published',
+      ...body
+    }, 'editor'));
+    return (await readJson(res)).data.id as string;
+  };
+
+  const updateBlog = async (id: string, body: Record<string, unknown>) =>
+    ctx.app.request(`/api/blogs/${id}`, await jsonRequest('PUT', body, 'editor'));
+
+  const listRevisions = async (id: string, path = '/api/blogs') =>
+    readJson(await ctx.app.request(`${path}/${id}/revisions`, { headers: await authHeaders('editor') }));
+
+  test('every update snapshots the previous document', async () => {
+    const id = await createBlog();
+    await updateBlog(id, { content: 'Paragraf kedua' });
+    await updateBlog(id, { title: 'Versi Tiga' });
+
+    const { data } = await listRevisions(id);
+    expect(data.map((revision: any) => [revision.revision, revision.changedFields])).toEqual([
+      [2, ['previousSlugs', 'slug', 'title']],
+      [1, ['content']]
+    ]);
+    expect(data[1].createdBy).toBe('editor-user');
+
+    const detail = await readJson(await ctx.app.request(`/api/blogs/${id}/revisions/${data[1].id}`, { headers: await authHeaders('admin') }));
+    expect(detail.data.snapshot).toMatchObject({ title: 'Versi Satu', content: 'Paragraf asli' });
+    expect(detail.data.snapshot.createdAt).toBeString();
+  });
+
+  test('an update whose revision cannot be written is not saved', async () => {
+    await ctx.cleanup();
+    const revisions = {
+      blogs: { ...createMemoryRevisionRepository(), create: async () => { throw new Error('Revisi gagal ditulis'); } },
+      projects: createMemoryRevisionRepository()
+    };
+    ctx = await createTestApp({ blogs: createMemoryBlogRepository(revisions.blogs), revisions });
+    const id = await createBlog();
+
+    expect((await updateBlog(id, { content: 'Paragraf kedua' })).status).toBe(500);
+    const current = await readJson(await ctx.app.request(`/api/blogs/${id}`));
+    expect(current.data).toMatchObject({ content: 'Paragraf asli', version: 1 });
+  });
+
+  test('revision routes require an editor or admin', async () => {
+    const id = await createBlog();
+    expect((await ctx.app.request(`/api/blogs/${id}/revisions`)).status).toBe(401);
+    expect((await ctx.app.request(`/api/blogs/${id}/revisions`, { headers: await authHeaders('viewer') })).status).toBe(403);
+    expect((await ctx.app.request('/api/blogs/missing/revisions', { headers: await authHeaders('editor') })).status).toBe(404);
+  });
+
+  test('diffs a revision against the current document or another revision', async () => {
+    const id = await createBlog();
+    await updateBlog(id, { content: 'Paragraf kedua' });
+    await updateBlog(id, { content: 'Paragraf ketiga', excerpt: 'Ringkasan' });
+    const [second, first] = (await listRevisions(id)).data;
+
+    const headers = await authHeaders('editor');
+    const current = await readJson(await ctx.app.request(`/api/blogs/${id}/revisions/${first.id}/diff`, { headers }));
+    expect(current.data.to).toBe('current');
+    expect(current.data.changes).toEqual([
+      { field: 'content', before: 'Paragraf asli', after: 'Paragraf ketiga' },
+      { field: 'excerpt', before: null, after: 'Ringkasan' }
+    ]);
+
+    const between = await readJson(await ctx.app.request(`/api/blogs/${id}/revisions/${first.id}/diff?against=${second.id}`, { headers }));
+    expect(between.data.changes).toEqual([{ field: 'content', before: 'Paragraf asli', after: 'Paragraf kedua' }]);
+
+    const missing = await ctx.app.request(`/api/blogs/${id}/revisions/${first.id}/diff?against=nope`, { headers });
+    expect(missing.status).toBe(404);
+  });
+
+  test('restore brings back the snapshot and records the current state as a new revision', async () => {
+    const id = await createBlog();
+    await updateBlog(id, { title: 'Judul Baru', content: 'Paragraf hilang' });
+    const [first] = (await listRevisions(id)).data;
+
+    const res = await ctx.app.request(`/api/blogs/${id}/revisions/${first.id}/restore`, { method: 'POST', headers: await authHeaders('editor') });
+    expect(res.status).toBe(200);
+    const { data } = await readJson(res);
+    expect(data).toMatchObject({ title: 'Versi Satu', content: 'Paragraf asli', slug: 'versi-satu' });
+
+    const revisions = (await listRevisions(id)).data;
+    expect(revisions).toHaveLength(2);
+    expect(revisions[0].title).toBe('Judul Baru');
+
+    const search = await readJson(await ctx.app.request('/api/search?q=paragraf%20asli'));
+    expect(search.data.map((result: any) => result.id)).toEqual([id]);
+  });
+
+  test('keeps at most the configured number of revisions and drops them when the document is purged', async () => {
+    const id = await createBlog();
+    for (let i = 1; i <= 7; i++) {
+      await updateBlog(id, { content: `Isi ${i}` });
+    }
+
+    const { data } = await listRevisions(id);
+    expect(data.map((revision: any) => revision.revision)).toEqual([7, 6, 5, 4, 3]);
+
+    // Masih disimpan selama blog berada di tempat sampah
+    await ctx.app.request(`/api/blogs/${id}`, { method: 'DELETE', headers: await authHeaders('admin') });
+    expect(await ctx.revisions.blogs.list(id)).toHaveLength(5);
+
+    await ctx.app.request(`/api/trash/blog/${id}`, { method: 'DELETE', headers: await authHeaders('admin') });
+    expect(await ctx.revisions.blogs.list(id)).toEqual([]);
+  });
+
+  test('projects keep their own revision history', async () => {
+    const res = await ctx.app.request('/api/projects', await jsonRequest('POST', {
+      title: 'Proyek',
+      content: 'Awal',
+      projectLink: 'https://example.com',
+      githubLink: 'https://github.com/example/repo',
+      documentationLink: null,
+      coverImageUrl: 'https://example.com/cover.jpg',
+      isGroup: false,
+      status: 'published',
+      publishedAt: null
+    }, 'editor'));
+    const id = (await readJson(res)).data.id;
+    await ctx.app.request(`/api/projects/${id}`, await jsonRequest('PUT', { content: 'Revisi' }, 'editor'));
+
+    const { data } = await listRevisions(id, '/api/projects');
+    expect(data).toHaveLength(1);
+    expect(data[0].changedFields).toEqual(['content']);
+  });
+});
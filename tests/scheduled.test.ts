@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { createPublishScheduler } from '../server/services/scheduler';
+import { authHeaders, createTestApp, jsonRequest, readJson } from './helpers';
+
+type TestApp = Awaited<ReturnType<typeof createTestApp>>;
+
+const HOUR = 60 * 60 * 1000;
+const inHours = (hours: number) => new Date(Date.now() + hours * HOUR).toISOString();
+
+describe('Scheduled publishing', () => {
+  let ctx: TestApp;
+
+  beforeEach(async () => {
+    ctx = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await ctx.cleanup();
+  });
+
+  const createBlog = async (body: Record<string, unknown>) => {
+    const res = await ctx.app.request('/api/blogs', await jsonRequest('POST', { content: 'isi', ...body }, 'editor'));
+    expect(res.status).toBe(201);
+    return (await readJson(res)).data.id as string;
+  };
+
+  test('published items with a future publishedAt are held as scheduled and hidden from the public', async () => {
+    const id = await createBlog({ title: 'Nanti', status: 'published', publishedAt: inHours(2) });
+    await createBlog({ title: 'Sekarang', status: 'published', publishedAt: inHours(-1) });
+
+    expect((await ctx.blogs.findById(id))!.status).toBe('scheduled');
+
+    const anonymous = await readJson(await ctx.app.request('/api/blogs?status=published'));
+    expect(anonymous.data.map((blog: any) => blog.title)).toEqual(['Sekarang']);
+    expect((await ctx.app.request(`/api/blogs/${id}`)).status).toBe(404);
+
+    const search = await readJson(await ctx.app.request('/api/search?q=nanti'));
+    expect(search.data).toHaveLength(0);
+  });
+
+  test('scheduled status requires publishedAt', async () => {
+    const res = await ctx.app.request('/api/blogs', await jsonRequest('POST', { title: 'x', content: 'isi', status: 'scheduled' }, 'editor'));
+    expect(res.status).toBe(400);
+
+    const id = await createBlog({ title: 'Draf', status: 'draft' });
+    const update = await ctx.app.request(`/api/blogs/${id}`, await jsonRequest('PUT', { status: 'scheduled' }, 'editor'));
+    expect(update.status).toBe(400);
+  });
+
+  test('the sweeper publishes due items and stamps updatedAt', async () => {
+    const soon = await createBlog({ title: 'Segera Terbit', status: 'scheduled', publishedAt: inHours(1) });
+    const later = await createBlog({ title: 'Masih Lama', status: 'scheduled', publishedAt: inHours(48) });
+    const before = (await ctx.blogs.findById(soon))!.updatedAt.toMillis();
+
+    const scheduler = createPublishScheduler({ sources: [['blog', ctx.blogs], ['project', ctx.projects]], search: ctx.search, events: ctx.events });
+    const events: string[] = [];
+    ctx.events.subscribe(event => events.push(`${event.type} ${event.data.status}`));
+    expect(await scheduler.runOnce(new Date(Date.now() + 2 * HOUR))).toBe(1);
+    expect(events).toEqual(['blog.updated published', 'blog.published published']);
+
+    const published = (await ctx.blogs.findById(soon))!;
+    expect(published.status).toBe('published');
+    expect(published.updatedAt.toMillis()).toBeGreaterThanOrEqual(before);
+    expect((await ctx.blogs.findById(later))!.status).toBe('scheduled');
+
+    const search = await readJson(await ctx.app.request('/api/search?q=segera'));
+    expect(search.data.map((result: any) => result.id)).toEqual([soon]);
+  });
+
+  test('moving publishedAt into the past publishes a scheduled item immediately', async () => {
+    const id = await createBlog({ title: 'Maju', status: 'scheduled', publishedAt: inHours(5) });
+    const res = await ctx.app.request(`/api/blogs/${id}`, await jsonRequest('PUT', { publishedAt: inHours(-1) }, 'editor'));
+    expect((await readJson(res)).data.status).toBe('published');
+  });
+
+  test('GET /api/scheduled lists upcoming items for editors, soonest first', async () => {
+    await createBlog({ title: 'Kedua', status: 'scheduled', publishedAt: inHours(3) });
+    await createBlog({ title: 'Sudah Terbit', status: 'published', publishedAt: inHours(-3) });
+    const project = await ctx.app.request('/api/projects', await jsonRequest('POST', {
+      title: 'Pertama',
+      content: 'isi',
+      projectLink: 'https://example.com',
+      githubLink: 'https://github.com/example/repo',
+      documentationLink: null,
+      coverImageUrl: 'https://example.com/cover.jpg',
+      isGroup: false,
+      status: 'scheduled',
+      publishedAt: inHours(1)
+    }, 'editor'));
+    expect(project.status).toBe(201);
+
+    expect((await ctx.app.request('/api/scheduled')).status).toBe(401);
+
+    const res = await ctx.app.request('/api/scheduled', { headers: await authHeaders('editor') });
+    const { data } = await readJson(res);
+    expect(data.map((item: any) => [item.type, item.title])).toEqual([['project', 'Pertama'], ['blog', 'Kedua']]);
+
+    const blogsOnly = await readJson(await ctx.app.request('/api/scheduled?type=blog', { headers: await authHeaders('admin') }));
+    expect(blogsOnly.data).toHaveLength(1);
+  });
+});
@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { authHeaders, createTestApp, jsonRequest, readJson } from './helpers';
+
+type TestApp = Awaited<ReturnType<typeof createTestApp>>;
+
+describe('Search route', () => {
+  let ctx: TestApp;
+
+  beforeEach(async () => {
+    ctx = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await ctx.cleanup();
+  });
+
+  const createBlog = async (body: Record<string, unknown>) => {
+    const res = await ctx.app.request('/api/blogs', await jsonRequest('POST', { status: 'published', ...body }, 'editor'));
+    return (await readJson(res)).data.id as string;
+  };
+
+  const search = async (query: string, headers: Record<string, string> = {}) =>
+    readJson(await ctx.app.request(`/api/search?${query}`, { headers }));
+
+  test('ranks title matches above body matches and highlights snippets', async () => {
+    const bodyOnly = await createBlog({ title: 'Catatan Harian', content: 'Hari ini saya mencoba TypeScript <b>baru</b>.' });
+    const inTitle = await createBlog({ title: 'Belajar TypeScript', content: 'Panduan dasar.' });
+
+    const { data } = await search('q=typescript');
+    expect(data.map((result: any) => result.id)).toEqual([inTitle, bodyOnly]);
+
+    const highlight = data[1].highlights.find((h: any) => h.field === 'content');
+    expect(highlight.snippet).toContain('<mark>TypeScript</mark>');
+    expect(highlight.snippet).toContain('&lt;b&gt;');
+  });
+
+  test('searches project abstract and scope and filters by type', async () => {
+    await createBlog({ title: 'Machine learning di blog', content: 'isi' });
+    const res = await ctx.app.request('/api/projects', await jsonRequest('POST', {
+      title: 'Deteksi Wajah',
+      content: 'detail',
+      projectLink: 'https://project.example.com',
+      githubLink: 'https://github.com/user/project',
+      documentationLink: null,
+      coverImageUrl: 'https://example.com/cover.jpg',
+      isGroup: false,
+      status: 'published',
+      publishedAt: null
+    }, 'editor'));
+    const projectId = (await readJson(res)).data.id;
+    await ctx.app.request(`/api/projects/${projectId}`, await jsonRequest('PUT', { abstract: 'Model machine learning', projectScope: 'Computer vision' }, 'editor'));
+
+    const { data } = await search('q=machine&type=project');
+    expect(data).toHaveLength(1);
+    expect(data[0]).toMatchObject({ type: 'project', id: projectId });
+
+    expect((await search('q=vision')).data[0].id).toBe(projectId);
+  });
+
+  test('keeps the index in sync with updates and deletes', async () => {
+    const id = await createBlog({ title: 'Bun runtime', content: 'cepat' });
+    await ctx.app.request(`/api/blogs/${id}`, await jsonRequest('PUT', { title: 'Deno runtime' }, 'editor'));
+
+    expect((await search('q=bun')).data).toHaveLength(0);
+    expect((await search('q=deno')).data).toHaveLength(1);
+
+    await ctx.app.request(`/api/blogs/${id}`, { method: 'DELETE', headers: await authHeaders('admin') });
+    expect((await search('q=deno')).data).toHaveLength(0);
+  });
+
+  test('hides drafts from anonymous searches', async () => {
+    await createBlog({ title: 'Rahasia', content: 'draft', status: 'draft' });
+
+    expect((await search('q=rahasia')).data).toHaveLength(0);
+    expect((await search('q=rahasia', await authHeaders('viewer'))).data).toHaveLength(1);
+  });
+
+  test('rejects an empty query', async () => {
+    const res = await ctx.app.request('/api/search?q=');
+    expect(res.status).toBe(400);
+  });
+});
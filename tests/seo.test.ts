@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { BASE_URL, authHeaders, createTestApp, jsonRequest, readJson } from './helpers';
+
+type TestApp = Awaited<ReturnType<typeof createTestApp>>;
+
+describe('Sitemap & SEO', () => {
+  let ctx: TestApp;
+
+  afterEach(async () => {
+    await ctx.cleanup();
+  });
+
+  const projectDefaults = {
+    projectLink: 'https://example.com',
+    githubLink: 'https://github.com/example/repo',
+    documentationLink: null,
+    coverImageUrl: 'https://example.com/cover.jpg',
+    isGroup: false,
+    publishedAt: null
+  };
+
+  const create = async (type: 'blogs' | 'projects', body: Record<string, unknown>) => {
+    const defaults = type === 'projects' ? projectDefaults : {};
+    const res = await ctx.app.request(`/api/${type}`, await jsonRequest('POST', { content: 'Isi', status: 'published', ...defaults, ...body }, 'editor'));
+    return (await readJson(res)).data.id as string;
+  };
+
+  test('GET /sitemap.xml lists published blogs and projects with lastmod', async () => {
+    ctx = await createTestApp();
+    await create('blogs', { title: 'Halo Dunia' });
+    await create('projects', { title: 'Proyek Satu' });
+    await create('blogs', { title: 'Masih Draf', status: 'draft' });
+
+    const res = await ctx.app.request('/sitemap.xml');
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toBe('application/xml; charset=utf-8');
+    expect(res.headers.get('ETag')).toMatch(/^".+"$/);
+
+    const body = await res.text();
+    expect(body).toContain('<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">');
+    expect(body).toContain(`<loc>${BASE_URL}/api/blogs/slug/halo-dunia</loc>`);
+    expect(body).toContain(`<loc>${BASE_URL}/api/projects/slug/proyek-satu</loc>`);
+    expect(body).not.toContain('masih-draf');
+    expect(body.match(/<lastmod>\d{4}-\d{2}-\d{2}T[^<]+<\/lastmod>/g)).toHaveLength(2);
+
+    const cached = await ctx.app.request('/sitemap.xml', { headers: { 'If-None-Match': res.headers.get('ETag')! } });
+    expect(cached.status).toBe(304);
+  });
+
+  test('switches to a sitemap index once the per-file limit is exceeded', async () => {
+    ctx = await createTestApp({ sitemapUrlLimit: 2 });
+    for (const title of ['Satu', 'Dua', 'Tiga']) {
+      await create('blogs', { title });
+    }
+
+    const index = await (await ctx.app.request('/sitemap.xml')).text();
+    expect(index).toContain('<sitemapindex');
+    expect(index).toContain(`<loc>${BASE_URL}/sitemaps/1.xml</loc>`);
+    expect(index).toContain(`<loc>${BASE_URL}/sitemaps/2.xml</loc>`);
+
+    const first = await (await ctx.app.request('/sitemaps/1.xml')).text();
+    const second = await (await ctx.app.request('/sitemaps/2.xml')).text();
+    expect(first.match(/<url>/g)).toHaveLength(2);
+    expect(second.match(/<url>/g)).toHaveLength(1);
+    expect((await ctx.app.request('/sitemaps/3.xml')).status).toBe(404);
+  });
+
+  test('GET /robots.txt points crawlers at the sitemap', async () => {
+    ctx = await createTestApp();
+    const res = await ctx.app.request('/robots.txt');
+    const body = await res.text();
+    expect(res.headers.get('Content-Type')).toStartWith('text/plain');
+    expect(body).toContain('Disallow: /api/upload');
+    expect(body).toContain(`Sitemap: ${BASE_URL}/sitemap.xml`);
+  });
+
+  test('GET /api/blogs/{id}/meta derives description from excerpt', async () => {
+    ctx = await createTestApp();
+    const id = await create('blogs', {
+      title: 'Belajar Hono',
+      excerpt: 'Ringkasan singkat',
+      coverImageUrl: 'https://cdn.example.com/hono.png'
+    });
+
+    const res = await ctx.app.request(`/api/blogs/${id}/meta`);
+    expect(res.status).toBe(200);
+    const { data } = await readJson(res);
+    expect(data).toMatchObject({
+      title: 'Belajar Hono',
+      description: 'Ringkasan singkat',
+      canonicalUrl: `${BASE_URL}/api/blogs/slug/belajar-hono`,
+      image: 'https://cdn.example.com/hono.png',
+      openGraph: { type: 'article', url: `${BASE_URL}/api/blogs/slug/belajar-hono` },
+      twitter: { card: 'summary_large_image', image: 'https://cdn.example.com/hono.png' }
+    });
+  });
+
+  test('GET /api/projects/{id}/meta prefers abstract and truncates long text', async () => {
+    ctx = await createTestApp();
+    const id = await create('projects', { title: 'Riset', abstract: 'kata '.repeat(60), excerpt: 'Tidak dipakai' });
+
+    const { data } = await readJson(await ctx.app.request(`/api/projects/${id}/meta`));
+    expect(data.description.length).toBeLessThanOrEqual(160);
+    expect(data.description).toEndWith('kata…');
+    expect(data.canonicalUrl).toBe(`${BASE_URL}/api/projects/slug/riset`);
+    expect(data.twitter.card).toBe('summary_large_image');
+  });
+
+  test('falls back to content and a summary card without a cover image', async () => {
+    ctx = await createTestApp();
+    const id = await create('blogs', { title: 'Tanpa Sampul', content: '<p>Paragraf   pertama.</p>' });
+
+    const { data } = await readJson(await ctx.app.request(`/api/blogs/${id}/meta`));
+    expect(data.description).toBe('Paragraf pertama.');
+    expect(data.image).toBeNull();
+    expect(data.twitter.card).toBe('summary');
+  });
+
+  test('hides metadata of unpublished content from anonymous callers', async () => {
+    ctx = await createTestApp();
+    const id = await create('blogs', { title: 'Rahasia', status: 'draft' });
+
+    expect((await ctx.app.request(`/api/blogs/${id}/meta`)).status).toBe(404);
+    expect((await ctx.app.request(`/api/blogs/${id}/meta`, { headers: await authHeaders('editor') })).status).toBe(200);
+  });
+});
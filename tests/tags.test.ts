@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { authHeaders, createTestApp, jsonRequest, readJson } from './helpers';
+
+type TestApp = Awaited<ReturnType<typeof createTestApp>>;
+
+describe('Tags routes', () => {
+  let ctx: TestApp;
+
+  beforeEach(async () => {
+    ctx = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await ctx.cleanup();
+  });
+
+  const createTag = async (name: string) => {
+    const res = await ctx.app.request('/api/tags', await jsonRequest('POST', { name }, 'editor'));
+    expect(res.status).toBe(201);
+    return (await readJson(res)).data.id as string;
+  };
+
+  const createBlog = async (body: Record<string, unknown>) =>
+    ctx.app.request('/api/blogs', await jsonRequest('POST', { content: 'isi', status: 'published', ...body }, 'editor'));
+
+  const createProject = async (body: Record<string, unknown>) =>
+    ctx.app.request('/api/projects', await jsonRequest('POST', {
+      content: 'isi',
+      projectLink: 'https://example.com',
+      githubLink: 'https://github.com/example/repo',
+      documentationLink: null,
+      coverImageUrl: 'https://example.com/cover.jpg',
+      isGroup: false,
+      status: 'published',
+      publishedAt: null,
+      ...body
+    }, 'editor'));
+
+  test('creates tags with slugs and rejects case-insensitive duplicates', async () => {
+    const res = await ctx.app.request('/api/tags', await jsonRequest('POST', { name: 'Machine Learning' }, 'editor'));
+    expect(res.status).toBe(201);
+    const { data } = await readJson(res);
+    expect(data).toMatchObject({ name: 'Machine Learning', slug: 'machine-learning' });
+    expect(data.nameLower).toBeUndefined();
+
+    const duplicate = await ctx.app.request('/api/tags', await jsonRequest('POST', { name: 'machine learning' }, 'admin'));
+    expect(duplicate.status).toBe(409);
+
+    const anonymous = await ctx.app.request('/api/tags', await jsonRequest('POST', { name: 'Hono' }));
+    expect(anonymous.status).toBe(401);
+  });
+
+  test('stores canonical tag names and rejects unknown tags', async () => {
+    await createTag('TypeScript');
+
+    const created = await createBlog({ title: 'Belajar TS', tags: ['typescript', 'TypeScript'] });
+    expect(created.status).toBe(201);
+    const { data } = await readJson(created);
+    expect((await ctx.blogs.findById(data.id))!.tags).toEqual(['TypeScript']);
+
+    const unknown = await createBlog({ title: 'Belajar Rust', tags: ['Rust'] });
+    expect(unknown.status).toBe(400);
+    const body = await readJson(unknown);
+    expect(body.code).toBe('UNKNOWN_TAGS');
+    expect(body.details).toEqual([{ field: 'tags', message: 'Tag Rust belum terdaftar' }]);
+
+    const project = await createProject({ title: 'Proyek', tags: ['Go'] });
+    expect(project.status).toBe(400);
+  });
+
+  test('filters blog and project lists by tag', async () => {
+    await createTag('TypeScript');
+    await createTag('Python');
+    await createBlog({ title: 'Satu', tags: ['TypeScript'] });
+    await createBlog({ title: 'Dua', tags: ['Python'] });
+    await createProject({ title: 'Tiga', tags: ['TypeScript', 'Python'] });
+
+    const blogs = await readJson(await ctx.app.request('/api/blogs?tag=TypeScript'));
+    expect(blogs.data.map((blog: any) => blog.title)).toEqual(['Satu']);
+
+    const projects = await readJson(await ctx.app.request('/api/projects?tag=Python'));
+    expect(projects.data.map((project: any) => project.title)).toEqual(['Tiga']);
+  });
+
+  test('lists tags with usage counts, counting drafts only for signed-in users', async () => {
+    await createTag('TypeScript');
+    await createTag('Hono');
+    await createBlog({ title: 'Satu', tags: ['TypeScript'] });
+    await createBlog({ title: 'Draf', tags: ['TypeScript'], status: 'draft' });
+    await createProject({ title: 'Dua', tags: ['TypeScript'] });
+
+    const publicList = await readJson(await ctx.app.request('/api/tags'));
+    expect(publicList.data.map((tag: any) => [tag.name, tag.usage.total])).toEqual([['Hono', 0], ['TypeScript', 2]]);
+
+    const editorList = await readJson(await ctx.app.request('/api/tags', { headers: await authHeaders('editor') }));
+    const typescript = editorList.data.find((tag: any) => tag.name === 'TypeScript');
+    expect(typescript.usage).toEqual({ blogs: 2, projects: 1, total: 3 });
+  });
+
+  test('renaming a tag updates every document that references it', async () => {
+    const id = await createTag('ML');
+    await createBlog({ title: 'Satu', tags: ['ML'] });
+    await createProject({ title: 'Dua', tags: ['ML'] });
+
+    const res = await ctx.app.request(`/api/tags/${id}`, await jsonRequest('PUT', { name: 'Machine Learning' }, 'editor'));
+    expect(res.status).toBe(200);
+    expect((await readJson(res)).data.slug).toBe('machine-learning');
+
+    const blogs = await readJson(await ctx.app.request('/api/blogs?tag=Machine%20Learning'));
+    expect(blogs.data[0].tags).toEqual(['Machine Learning']);
+    const projects = await readJson(await ctx.app.request('/api/projects?tag=ML'));
+    expect(projects.data).toHaveLength(0);
+  });
+
+  test('deleting a tag removes it from documents and requires admin', async () => {
+    const id = await createTag('Lama');
+    await createTag('Baru');
+    await createBlog({ title: 'Satu', tags: ['Lama', 'Baru'] });
+
+    const forbidden = await ctx.app.request(`/api/tags/${id}`, { method: 'DELETE', headers: await authHeaders('editor') });
+    expect(forbidden.status).toBe(403);
+
+    const res = await ctx.app.request(`/api/tags/${id}`, { method: 'DELETE', headers: await authHeaders('admin') });
+    expect(res.status).toBe(200);
+
+    const blogs = await readJson(await ctx.app.request('/api/blogs'));
+    expect(blogs.data[0].tags).toEqual(['Baru']);
+    expect((await ctx.app.request(`/api/tags/${id}`)).status).toBe(404);
+  });
+});
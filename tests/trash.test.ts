@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import sharp from 'sharp';
+import { createMemoryBlogRepository } from '../server/repositories';
+import { createTrashPurger } from '../server/services/trash';
+import { authHeaders, createTestApp, jsonRequest, readJson } from './helpers';
+
+type TestApp = Awaited<ReturnType<typeof createTestApp>>;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('Trash', () => {
+  let ctx: TestApp;
+
+  beforeEach(async () => {
+    ctx = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await ctx.cleanup();
+  });
+
+  const createBlog = async (title: string) => {
+    const res = await ctx.app.request('/api/blogs', await jsonRequest('POST', { title, content: 'Isi rahasia', status: 'published' }, 'editor'));
+    return (await ctx.blogs.findById((await readJson(res)).data.id))!;
+  };
+
+  const deleteBlog = async (id: string) =>
+    ctx.app.request(`/api/blogs/${id}`, { method: 'DELETE', headers: await authHeaders('admin') });
+
+  const listTrash = async (query = '') =>
+    readJson(await ctx.app.request(`/api/trash${query}`, { headers: await authHeaders('editor') }));
+
+  const restore = async (type: string, id: string) =>
+    ctx.app.request(`/api/trash/${type}/${id}/restore`, { method: 'POST', headers: await authHeaders('editor') });
+
+  const uploadImage = async () => {
+    const image = await sharp({ create: { width: 800, height: 400, channels: 3, background: '#336699' } }).jpeg().toBuffer();
+    const form = new FormData();
+    form.append('image', new File([image], 'cover.jpg', { type: 'image/jpeg' }));
+    const res = await ctx.app.request('/api/upload', { method: 'POST', body: form, headers: await authHeaders('editor') });
+    return (await readJson(res)).data.filename as string;
+  };
+
+  test('DELETE hides a blog from every normal read and lists it in the trash', async () => {
+    const blog = await createBlog('Rahasia Dapur');
+    expect((await deleteBlog(blog.id)).status).toBe(200);
+
+    expect((await ctx.app.request(`/api/blogs/${blog.id}`, { headers: await authHeaders('admin') })).status).toBe(404);
+    expect((await ctx.app.request(`/api/blogs/slug/${blog.slug}`)).status).toBe(404);
+    expect((await readJson(await ctx.app.request('/api/blogs'))).data).toEqual([]);
+    expect((await readJson(await ctx.app.request('/api/search?q=rahasia'))).data).toEqual([]);
+    expect(await (await ctx.app.request('/sitemap.xml')).text()).not.toContain(blog.slug);
+
+    const update = await ctx.app.request(`/api/blogs/${blog.id}`, await jsonRequest('PUT', { title: 'Baru' }, 'editor'));
+    expect(update.status).toBe(404);
+    expect((await deleteBlog(blog.id)).status).toBe(404);
+
+    const trash = await listTrash();
+    expect(trash.data).toEqual([{
+      type: 'blog',
+      id: blog.id,
+      title: 'Rahasia Dapur',
+      slug: 'rahasia-dapur',
+      deletedAt: expect.any(String),
+      deletedBy: 'admin-user'
+    }]);
+  });
+
+  test('restores a blog and gives it a new slug if the old one was taken meanwhile', async () => {
+    const original = await createBlog('Catatan');
+    await deleteBlog(original.id);
+    const replacement = await createBlog('Catatan');
+    expect(replacement.slug).toBe('catatan');
+
+    const res = await restore('blog', original.id);
+    expect(res.status).toBe(200);
+    const { data } = await readJson(res);
+    expect(data).toMatchObject({ type: 'blog', id: original.id, slug: 'catatan-2' });
+    expect(data.url).toEndWith('/api/blogs/slug/catatan-2');
+
+    expect((await ctx.app.request(`/api/blogs/${original.id}`)).status).toBe(200);
+    expect((await readJson(await ctx.app.request('/api/search?q=catatan'))).data).toHaveLength(2);
+    expect((await listTrash()).data).toEqual([]);
+    expect((await restore('blog', original.id)).status).toBe(404);
+
+    // Slug lama dicatat; begitu pemakainya yang baru dihapus, URL lama diarahkan ke slug hasil restore
+    expect((await ctx.blogs.findById(original.id))?.previousSlugs).toEqual(['catatan']);
+    await deleteBlog(replacement.id);
+    const redirected = await ctx.app.request('/api/blogs/slug/catatan');
+    expect(redirected.status).toBe(301);
+    expect(redirected.headers.get('Location')).toEndWith('/api/blogs/slug/catatan-2');
+  });
+
+  test('the new slug is written together with the restore, not as a separate update', async () => {
+    await ctx.cleanup();
+    const inner = createMemoryBlogRepository();
+    ctx = await createTestApp({ blogs: { ...inner, update: async () => { throw new Error('Update tidak boleh dipanggil'); } } });
+    const createViaApi = async () => {
+      const res = await ctx.app.request('/api/blogs', await jsonRequest('POST', { title: 'Catatan', content: 'Isi', status: 'published' }, 'editor'));
+      return (await readJson(res)).data.id as string;
+    };
+    const id = await createViaApi();
+    await deleteBlog(id);
+    await createViaApi();
+
+    expect((await restore('blog', id)).status).toBe(200);
+    expect(await inner.findById(id)).toMatchObject({ slug: 'catatan-2', previousSlugs: ['catatan'], version: 2 });
+  });
+
+  test('hard delete is admin-only and limited to items already in the trash', async () => {
+    const blog = await createBlog('Sementara');
+    const purge = async (role: 'admin' | 'editor') =>
+      ctx.app.request(`/api/trash/blog/${blog.id}`, { method: 'DELETE', headers: await authHeaders(role) });
+
+    expect((await purge('admin')).status).toBe(404);
+    await deleteBlog(blog.id);
+    expect((await purge('editor')).status).toBe(403);
+    expect((await purge('admin')).status).toBe(200);
+
+    expect(await ctx.blogs.findDeleted(blog.id)).toBeNull();
+    expect((await restore('blog', blog.id)).status).toBe(404);
+  });
+
+  test('the trash is not visible to viewers or anonymous callers', async () => {
+    expect((await ctx.app.request('/api/trash')).status).toBe(401);
+    expect((await ctx.app.request('/api/trash', { headers: await authHeaders('viewer') })).status).toBe(403);
+  });
+
+  test('deleted images move to the trash with their variants and can be restored', async () => {
+    const filename = await uploadImage();
+    const removed = await ctx.app.request(`/api/upload/${filename}`, { method: 'DELETE', headers: await authHeaders('admin') });
+    expect(removed.status).toBe(200);
+
+    expect((await ctx.app.request(`/uploads/${filename}`)).status).toBe(404);
+    expect((await readJson(await ctx.app.request('/api/upload'))).data).toEqual([]);
+    expect((await ctx.trashStorage.list()).map(file => file.filename).sort()).toEqual([
+      filename.replace('.webp', '-320w.webp'),
+      filename.replace('.webp', '-768w.webp'),
+      filename
+    ]);
+
+    const trash = await listTrash('?type=image');
+    expect(trash.data).toEqual([expect.objectContaining({ type: 'image', id: filename, deletedBy: null })]);
+
+    const res = await restore('image', filename);
+    expect(res.status).toBe(200);
+    expect((await readJson(res)).data.url).toBe(`http://localhost:8787/uploads/${filename}`);
+    expect((await ctx.app.request(`/uploads/${filename}`)).status).toBe(200);
+    expect(await ctx.storage.exists(filename.replace('.webp', '-320w.webp'))).toBe(true);
+    expect(await ctx.trashStorage.list()).toEqual([]);
+  });
+
+  test('the purger permanently removes items older than the retention period', async () => {
+    const blog = await createBlog('Lama');
+    await deleteBlog(blog.id);
+    const filename = await uploadImage();
+    await ctx.app.request(`/api/upload/${filename}`, { method: 'DELETE', headers: await authHeaders('admin') });
+
+    const purger = createTrashPurger({
+      sources: [['blog', ctx.blogs, ctx.revisions.blogs], ['project', ctx.projects, ctx.revisions.projects]],
+      images: ctx.trashStorage,
+      retentionDays: 30
+    });
+
+    expect(await purger.runOnce(new Date(Date.now() + 29 * DAY))).toBe(0);
+    expect((await listTrash()).data).toHaveLength(2);
+
+    expect(await purger.runOnce(new Date(Date.now() + 31 * DAY))).toBe(2);
+    expect((await listTrash()).data).toEqual([]);
+    expect(await ctx.trashStorage.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import sharp from 'sharp';
+import { authHeaders, createTestApp, readJson } from './helpers';
+
+type TestApp = Awaited<ReturnType<typeof createTestApp>>;
+
+// JPEG asli dengan metadata EXIF/GPS untuk memastikan metadata dibuang
+const createJpeg = (width = 1600, height = 900) =>
+  sharp({ create: { width, height, channels: 3, background: '#336699' } })
+    .withExif({ IFD0: { Copyright: 'Rahasia' }, IFD3: { GPSLatitudeRef: 'S', GPSLatitude: '6/1 12/1 0/1' } })
+    .jpeg()
+    .toBuffer();
+
+const imageForm = async (data?: Uint8Array, name = 'cover.jpg', type = 'image/jpeg') => {
+  const form = new FormData();
+  form.append('image', new File([data ?? await createJpeg()], name, { type }));
+  return form;
+};
+
+describe('Upload routes (local storage driver)', () => {
+  let ctx: TestApp;
+
+  beforeEach(async () => {
+    ctx = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await ctx.cleanup();
+  });
+
+  const upload = async (form: FormData) =>
+    ctx.app.request('/api/upload', { method: 'POST', body: form, headers: await authHeaders('editor') });
+
+  test('uploads, lists, serves and deletes an image', async () => {
+    const res = await upload(await imageForm());
+    expect(res.status).toBe(201);
+    const { data } = await readJson(res);
+    expect(data.url).toBe(`http://localhost:8787/uploads/${data.filename}`);
+
+    const list = await readJson(await ctx.app.request('/api/upload'));
+    expect(list.data.map((file: any) => file.filename)).toEqual([data.filename]);
+
+    const served = await ctx.app.request(`/uploads/${data.filename}`);
+    expect(served.status).toBe(200);
+    expect(served.headers.get('Content-Type')).toBe('image/webp');
+
+    const removed = await ctx.app.request(`/api/upload/${data.filename}`, { method: 'DELETE', headers: await authHeaders('admin') });
+    expect(removed.status).toBe(200);
+    expect(await ctx.storage.exists(data.filename)).toBe(false);
+    expect(await ctx.storage.list()).toEqual([]);
+  });
+
+  test('re-encodes to WebP with width variants and a srcset', async () => {
+    const { data } = await readJson(await upload(await imageForm()));
+    expect(data).toMatchObject({ contentType: 'image/webp', width: 1600, height: 900 });
+    expect(data.filename).toEndWith('.webp');
+    expect(data.variants.map((variant: any) => [variant.width, variant.height])).toEqual([[320, 180], [768, 432], [1280, 720]]);
+
+    const urls = data.variants.map((variant: any) => variant.url);
+    expect(data.srcset).toBe([...urls, data.url].map((url, i) => `${url} ${[320, 768, 1280, 1600][i]}w`).join(', '));
+  });
+
+  test('does not upscale small images', async () => {
+    const { data } = await readJson(await upload(await imageForm(await createJpeg(500, 250))));
+    expect(data.variants.map((variant: any) => variant.width)).toEqual([320]);
+  });
+
+  test('strips EXIF and GPS metadata', async () => {
+    const original = await createJpeg();
+    expect((await sharp(original).metadata()).exif).toBeDefined();
+
+    const { data } = await readJson(await upload(await imageForm(original)));
+    const stored = await ctx.storage.get(data.filename);
+    const metadata = await sharp(stored!.data).metadata();
+    expect(metadata.format).toBe('webp');
+    expect(metadata.exif).toBeUndefined();
+  });
+
+  test('validates by magic bytes instead of the client-supplied name and type', async () => {
+    const fake = await upload(await imageForm(new TextEncoder().encode('<?php echo 1; ?>'), 'evil.png', 'image/png'));
+    expect(fake.status).toBe(400);
+
+    const corrupt = await upload(await imageForm(new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0, 0]), 'broken.jpg'));
+    expect(corrupt.status).toBe(400);
+
+    const png = await sharp({ create: { width: 40, height: 40, channels: 4, background: '#ffffff' } }).png().toBuffer();
+    const mislabeled = await upload(await imageForm(png, 'notes.txt', 'text/plain'));
+    expect(mislabeled.status).toBe(201);
+  });
+
+  test('POST /api/upload requires authentication', async () => {
+    const res = await ctx.app.request('/api/upload', { method: 'POST', body: await imageForm() });
+    expect(res.status).toBe(401);
+  });
+
+  test('DELETE /api/upload/:filename returns 404 for missing files', async () => {
+    const res = await ctx.app.request('/api/upload/missing.png', { method: 'DELETE', headers: await authHeaders('admin') });
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,237 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { Timestamp } from 'firebase-admin/firestore';
+import { createMemoryRepository } from '../server/repositories/memory';
+import { VersionConflictError, createMemoryProjectRepository, createMemoryRevisionRepository, type ProjectRepository } from '../server/repositories';
+import { createPublishScheduler } from '../server/services/scheduler';
+import { authHeaders, createTestApp, jsonRequest, readJson } from './helpers';
+
+type TestApp = Awaited<ReturnType<typeof createTestApp>>;
+
+// Repository yang menjalankan penulisan lain tepat sebelum update atau bulkWrite berikutnya,
+// meniru editor lain yang menyimpan di antara pembacaan dan penulisan
+const createRacingRepository = () => {
+  const revisions = { blogs: createMemoryRevisionRepository(), projects: createMemoryRevisionRepository() };
+  const inner = createMemoryProjectRepository(revisions.projects);
+  let race: (() => Promise<unknown>) | null = null;
+  const afterRace = <A extends any[], R>(write: (...args: A) => Promise<R>) => async (...args: A) => {
+    const pending = race;
+    race = null;
+    await pending?.();
+    return write(...args);
+  };
+  const repository: ProjectRepository = { ...inner, update: afterRace(inner.update), bulkWrite: afterRace(inner.bulkWrite) };
+  return { repository, inner, revisions, raceNext: (edit: () => Promise<unknown>) => { race = edit; } };
+};
+
+describe('Document versions and optimistic concurrency', () => {
+  let ctx: TestApp;
+
+  beforeEach(async () => {
+    ctx = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await ctx.cleanup();
+  });
+
+  const createProject = async (title: string) => {
+    const res = await ctx.app.request('/api/projects', await jsonRequest('POST', {
+      title,
+      content: 'Isi',
+      projectLink: 'https://p.example.com',
+      githubLink: 'https://github.com/u/p',
+      documentationLink: null,
+      coverImageUrl: 'https://example.com/c.jpg',
+      isGroup: false,
+      status: 'published',
+      publishedAt: null
+    }, 'editor'));
+    return (await readJson(res)).data;
+  };
+
+  const update = async (id: string, body: Record<string, unknown>, ifMatch?: string) => {
+    const init = await jsonRequest('PUT', body, 'editor');
+    if (ifMatch) {
+      (init.headers as Record<string, string>)['If-Match'] = ifMatch;
+    }
+    return ctx.app.request(`/api/projects/${id}`, init);
+  };
+
+  test('versions start at 1, increase on every write and double as the detail ETag', async () => {
+    const project = await createProject('Versi');
+    expect(project.version).toBe(1);
+
+    const detail = await ctx.app.request(`/api/projects/${project.id}`);
+    expect(detail.headers.get('ETag')).toBe('"1"');
+    expect((await readJson(detail)).data.version).toBe(1);
+
+    const updated = await update(project.id, { content: 'Isi baru' });
+    expect(updated.status).toBe(200);
+    expect(updated.headers.get('ETag')).toBe('"2"');
+    expect((await readJson(updated)).data.version).toBe(2);
+
+    await ctx.app.request('/api/projects/bulk', await jsonRequest('POST', { operations: [{ op: 'setStatus', id: project.id, status: 'draft' }] }, 'admin'));
+    const afterBulk = await ctx.app.request(`/api/projects/${project.id}`, { headers: await authHeaders('editor') });
+    expect((await readJson(afterBulk)).data.version).toBe(3);
+
+    // Versi tidak ikut dicatat sebagai perubahan di riwayat revisi
+    const revisions = (await readJson(await ctx.app.request(`/api/projects/${project.id}/revisions`, { headers: await authHeaders('editor') }))).data;
+    expect(revisions.flatMap((revision: any) => revision.changedFields)).not.toContain('version');
+  });
+
+  test('a stale If-Match or body version is rejected with 412 and the current document', async () => {
+    const project = await createProject('Bentrok');
+    expect((await update(project.id, { title: 'Penulis Pertama' }, '"1"')).status).toBe(200);
+
+    const stale = await update(project.id, { title: 'Penulis Kedua' }, '"1"');
+    expect(stale.status).toBe(412);
+    expect(stale.headers.get('ETag')).toBe('"2"');
+    const body = await readJson(stale);
+    expect(body).toMatchObject({ success: false, code: 'VERSION_CONFLICT', data: { id: project.id, title: 'Penulis Pertama', version: 2 } });
+    expect(body.error).toContain('versi 2');
+
+    expect((await update(project.id, { title: 'Penulis Kedua', version: 1 })).status).toBe(412);
+    // If-Match memakai perbandingan kuat, jadi ETag lemah selalu ditolak
+    expect((await update(project.id, { title: 'Penulis Kedua' }, 'W/"2"')).status).toBe(412);
+
+    const detail = await readJson(await ctx.app.request(`/api/projects/${project.id}`));
+    expect(detail.data).toMatchObject({ title: 'Penulis Pertama', version: 2 });
+    const revisions = (await readJson(await ctx.app.request(`/api/projects/${project.id}/revisions`, { headers: await authHeaders('editor') }))).data;
+    expect(revisions).toHaveLength(1);
+  });
+
+  test('matching versions and If-Match: * succeed, and If-Match takes precedence over the body', async () => {
+    const project = await createProject('Cocok');
+    expect((await update(project.id, { title: 'Dua', version: 1 })).status).toBe(200);
+    expect((await update(project.id, { title: 'Tiga' }, '*')).status).toBe(200);
+
+    const res = await update(project.id, { title: 'Empat', version: 1 }, '"3"');
+    expect(res.status).toBe(200);
+    expect((await readJson(res)).data).toMatchObject({ title: 'Empat', version: 4 });
+
+    const bulk = await ctx.app.request('/api/projects/bulk', await jsonRequest('POST', {
+      mode: 'bestEffort',
+      operations: [{ op: 'update', id: project.id, data: { title: 'Lima', version: 3 } }]
+    }, 'admin'));
+    expect((await readJson(bulk)).data.results[0]).toMatchObject({ success: false, code: 'VERSION_CONFLICT' });
+  });
+
+  test('in best-effort mode a conflicting update does not hold back the rest of its batch', async () => {
+    await ctx.cleanup();
+    const racing = createRacingRepository();
+    ctx = await createTestApp({ projects: racing.repository, revisions: racing.revisions });
+    const raced = await createProject('Direbut');
+    const other = await createProject('Aman');
+
+    racing.raceNext(() => racing.inner.update(raced.id, { title: 'Editor Lain' }));
+    const bulk = await ctx.app.request('/api/projects/bulk', await jsonRequest('POST', {
+      mode: 'bestEffort',
+      operations: [
+        { op: 'update', id: raced.id, data: { title: 'Massal' } },
+        { op: 'update', id: other.id, data: { title: 'Massal Juga' } },
+        { op: 'create', data: { title: 'Baru' } }
+      ]
+    }, 'editor'));
+    expect(bulk.status).toBe(200);
+    const { data } = await readJson(bulk);
+    expect(data.summary).toEqual({ total: 3, succeeded: 2, failed: 1 });
+    expect(data.results[0]).toMatchObject({ success: false, code: 'VERSION_CONFLICT' });
+    expect(await racing.inner.findById(raced.id)).toMatchObject({ title: 'Editor Lain', version: 2 });
+    expect(await racing.inner.findById(other.id)).toMatchObject({ title: 'Massal Juga', version: 2 });
+    expect(await racing.inner.findById(data.results[2].id)).toMatchObject({ title: 'Baru', version: 1 });
+  });
+
+  test('overwriting a document through import continues its version', async () => {
+    const project = await createProject('Ditimpa');
+    await update(project.id, { content: 'Dua' });
+    await update(project.id, { content: 'Tiga' });
+    const exported = await (await ctx.app.request('/api/admin/export', { headers: await authHeaders('admin') })).text();
+
+    const imported = await ctx.app.request('/api/admin/import?onConflict=overwrite', {
+      method: 'POST',
+      body: exported.replace('"content":"Tiga"', '"content":"Empat"'),
+      headers: { ...(await authHeaders('admin')), 'Content-Type': 'application/x-ndjson' }
+    });
+    expect((await readJson(imported)).data.summary.overwritten).toBe(1);
+
+    const detail = await ctx.app.request(`/api/projects/${project.id}`, { headers: { 'If-None-Match': '"3"' } });
+    expect(detail.status).toBe(200);
+    expect(detail.headers.get('ETag')).toBe('"4"');
+    expect((await readJson(detail)).data).toMatchObject({ content: 'Empat', version: 4 });
+    expect((await update(project.id, { title: 'Usang' }, '"3"')).status).toBe(412);
+  });
+
+  test('bulk updates are rejected when the document changes before the batch is written', async () => {
+    await ctx.cleanup();
+    const racing = createRacingRepository();
+    ctx = await createTestApp({ projects: racing.repository, revisions: racing.revisions });
+    const project = await createProject('Balapan');
+
+    racing.raceNext(() => racing.inner.update(project.id, { title: 'Editor Lain' }));
+    const bulk = await ctx.app.request('/api/projects/bulk', await jsonRequest('POST', {
+      operations: [{ op: 'update', id: project.id, data: { title: 'Massal' } }]
+    }, 'editor'));
+    expect(bulk.status).toBe(400);
+    expect((await readJson(bulk)).data.results[0]).toMatchObject({ success: false, code: 'VERSION_CONFLICT' });
+    expect(await racing.inner.findById(project.id)).toMatchObject({ title: 'Editor Lain', version: 2 });
+  });
+
+  test('revision restores are rejected when the document changes before they are written', async () => {
+    await ctx.cleanup();
+    const racing = createRacingRepository();
+    ctx = await createTestApp({ projects: racing.repository, revisions: racing.revisions });
+    const project = await createProject('Balapan');
+    await update(project.id, { title: 'Balapan Dua' });
+    const [revision] = (await readJson(await ctx.app.request(`/api/projects/${project.id}/revisions`, { headers: await authHeaders('editor') }))).data;
+
+    racing.raceNext(() => racing.inner.update(project.id, { title: 'Editor Lain' }));
+    const restored = await ctx.app.request(`/api/projects/${project.id}/revisions/${revision.id}/restore`, { method: 'POST', headers: await authHeaders('editor') });
+    expect(restored.status).toBe(412);
+    expect((await readJson(restored)).data).toMatchObject({ title: 'Editor Lain', version: 3 });
+
+    const restoredWithStaleEtag = await ctx.app.request(`/api/projects/${project.id}/revisions/${revision.id}/restore`, {
+      method: 'POST',
+      headers: { ...(await authHeaders('editor')), 'If-Match': '"2"' }
+    });
+    expect(restoredWithStaleEtag.status).toBe(412);
+  });
+
+  test('the scheduler skips an item that was edited after it was listed', async () => {
+    const racing = createRacingRepository();
+    const now = Timestamp.now();
+    const item = await racing.inner.create({ title: 'Terjadwal', status: 'scheduled', publishedAt: Timestamp.fromMillis(Date.now() - 1000), createdAt: now, updatedAt: now } as any);
+    const scheduler = createPublishScheduler({ sources: [['project', racing.repository]], search: ctx.search, events: ctx.events });
+
+    racing.raceNext(() => racing.inner.update(item.id, { status: 'draft' }));
+    expect(await scheduler.runOnce()).toBe(0);
+    expect(await racing.inner.findById(item.id)).toMatchObject({ status: 'draft', version: 2 });
+  });
+
+  test('comment counters change the ETag but not the version held by editors', async () => {
+    const blog = (await readJson(await ctx.app.request('/api/blogs', await jsonRequest('POST', { title: 'Dikomentari', content: 'Isi', status: 'published' }, 'editor')))).data;
+    await ctx.app.request(`/api/blogs/${blog.id}/comments`, await jsonRequest('POST', { content: 'Komentar pertama' }));
+    const [pending] = (await readJson(await ctx.app.request('/api/comments?status=pending', { headers: await authHeaders('admin') }))).data;
+    await ctx.app.request(`/api/comments/${pending.id}/approve`, { method: 'POST', headers: await authHeaders('admin') });
+
+    const detail = await ctx.app.request(`/api/blogs/${blog.id}`, { headers: { 'If-None-Match': '"1"' } });
+    expect(detail.status).toBe(200);
+    expect(detail.headers.get('ETag')).toBe('"1-1"');
+    expect((await readJson(detail)).data).toMatchObject({ version: 1, commentCount: 1 });
+    expect((await ctx.app.request(`/api/blogs/${blog.id}`, { headers: { 'If-None-Match': '"1-1"' } })).status).toBe(304);
+
+    const init = await jsonRequest('PUT', { title: 'Masih Versi Satu' }, 'editor');
+    (init.headers as Record<string, string>)['If-Match'] = '"1"';
+    expect((await ctx.app.request(`/api/blogs/${blog.id}`, init)).status).toBe(200);
+  });
+
+  test('the repository rejects an update whose expected version is stale', async () => {
+    const repository = createMemoryRepository<{ id: string; title: string; version?: number }>();
+    const created = await repository.create({ title: 'Awal' } as any);
+    await repository.update(created.id, { title: 'Kedua' }, { expectedVersion: 1 });
+
+    const conflict = await repository.update(created.id, { title: 'Ketiga' }, { expectedVersion: 1 }).catch(error => error);
+    expect(conflict).toBeInstanceOf(VersionConflictError);
+    expect(conflict.current).toMatchObject({ title: 'Kedua', version: 2 });
+    expect(await repository.update('tidak-ada', { title: 'X' }, { expectedVersion: 1 })).toBeNull();
+  });
+});
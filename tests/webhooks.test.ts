@@ -0,0 +1,198 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { Server } from 'bun';
+import { createWebhookDispatcher, signWebhookPayload, type WebhookDispatcher } from '../server/services/webhooks';
+import { authHeaders, createTestApp, jsonRequest, readJson } from './helpers';
+
+type TestApp = Awaited<ReturnType<typeof createTestApp>>;
+
+interface Received {
+  headers: Headers;
+  body: string;
+}
+
+describe('Webhooks', () => {
+  let ctx: TestApp;
+  let server: Server;
+  let received: Received[];
+  // Status yang dibalas penerima untuk request berikutnya
+  let replyStatus: number;
+  let dispatcher: WebhookDispatcher;
+
+  beforeEach(async () => {
+    ctx = await createTestApp();
+    received = [];
+    replyStatus = 204;
+    server = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        received.push({ headers: req.headers, body: await req.text() });
+        return new Response(null, { status: replyStatus });
+      }
+    });
+    dispatcher = createWebhookDispatcher({
+      webhooks: ctx.webhooks.repository,
+      deliveries: ctx.webhooks.deliveries,
+      events: ctx.events,
+      maxAttempts: 3,
+      retryBaseMs: 1000
+    });
+    dispatcher.start();
+  });
+
+  afterEach(async () => {
+    await dispatcher.stop();
+    server.stop(true);
+    await ctx.cleanup();
+  });
+
+  const register = async (body: Record<string, unknown>) => {
+    const res = await ctx.app.request('/api/webhooks', await jsonRequest('POST', { url: server.url.href, ...body }, 'admin'));
+    expect(res.status).toBe(201);
+    return (await readJson(res)).data;
+  };
+
+  const deliveriesOf = async (webhookId: string) => {
+    const res = await ctx.app.request(`/api/webhooks/${webhookId}/deliveries`, { headers: await authHeaders('admin') });
+    expect(res.status).toBe(200);
+    return (await readJson(res)).data;
+  };
+
+  test('blog.published is delivered once, signed with the webhook secret', async () => {
+    const webhook = await register({ events: ['blog.published'], secret: 'rahasia-yang-cukup-panjang' });
+    expect(webhook.secret).toBe('rahasia-yang-cukup-panjang');
+
+    const created = await ctx.app.request('/api/blogs', await jsonRequest('POST', { title: 'Segera Terbit', content: 'Isi', status: 'draft' }, 'editor'));
+    const blogId = (await readJson(created)).data.id;
+    await ctx.app.request(`/api/blogs/${blogId}`, await jsonRequest('PUT', { status: 'published' }, 'editor'));
+    // Sudah published sebelumnya, jadi tidak memicu blog.published lagi
+    await ctx.app.request(`/api/blogs/${blogId}`, await jsonRequest('PUT', { title: 'Sudah Terbit' }, 'editor'));
+    await dispatcher.drain();
+
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received;
+    const timestamp = Number(headers.get('X-Webhook-Timestamp'));
+    expect(headers.get('Content-Type')).toBe('application/json');
+    expect(headers.get('X-Webhook-Event')).toBe('blog.published');
+    expect(headers.get('X-Webhook-Signature')).toBe(`sha256=${signWebhookPayload('rahasia-yang-cukup-panjang', timestamp, body)}`);
+    expect(Math.abs(Date.now() / 1000 - timestamp)).toBeLessThan(60);
+    expect(JSON.parse(body)).toMatchObject({ type: 'blog.published', data: { id: blogId, title: 'Segera Terbit', status: 'published', userId: 'editor-user' } });
+
+    const [delivery] = await deliveriesOf(webhook.id);
+    expect(headers.get('X-Webhook-Id')).toBe(delivery.id);
+    expect(delivery).toMatchObject({ eventType: 'blog.published', status: 'succeeded', attempts: 1, responseStatus: 204, error: null, nextAttemptAt: null, payload: body });
+  });
+
+  test('failed deliveries are retried with exponential backoff until they give up', async () => {
+    const webhook = await register({ events: ['project.deleted'] });
+    replyStatus = 500;
+    ctx.events.publish('project.deleted', { id: 'p1' });
+    await dispatcher.drain();
+
+    let [delivery] = await deliveriesOf(webhook.id);
+    expect(delivery).toMatchObject({ status: 'pending', attempts: 1, responseStatus: 500, error: 'HTTP 500' });
+    const firstRetry = Date.parse(delivery.nextAttemptAt);
+    expect(firstRetry - Date.parse(delivery.lastAttemptAt)).toBeGreaterThanOrEqual(1000);
+
+    // Belum jatuh tempo
+    expect(await dispatcher.runOnce()).toBe(0);
+    expect(await dispatcher.runOnce(new Date(firstRetry + 1))).toBe(1);
+    [delivery] = await deliveriesOf(webhook.id);
+    expect(delivery).toMatchObject({ status: 'pending', attempts: 2 });
+    // Jeda kedua dua kali lipat jeda pertama
+    expect(Date.parse(delivery.nextAttemptAt) - Date.parse(delivery.lastAttemptAt)).toBeGreaterThanOrEqual(2000);
+
+    expect(await dispatcher.runOnce(new Date(Date.now() + 60_000))).toBe(1);
+    [delivery] = await deliveriesOf(webhook.id);
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 3, nextAttemptAt: null });
+    expect(await dispatcher.runOnce(new Date(Date.now() + 3_600_000))).toBe(0);
+    expect(received).toHaveLength(3);
+  });
+
+  test('unreachable receivers and deactivated webhooks are recorded in the delivery log', async () => {
+    const webhook = await register({ events: ['upload.deleted'] });
+    await ctx.webhooks.repository.update(webhook.id, { url: 'http://127.0.0.1:1/tidak-ada' });
+    ctx.events.publish('upload.deleted', { filename: 'a.webp' });
+    await dispatcher.drain();
+
+    let [delivery] = await deliveriesOf(webhook.id);
+    expect(delivery).toMatchObject({ status: 'pending', attempts: 1, responseStatus: null });
+    expect(delivery.error).toBeString();
+
+    await ctx.app.request(`/api/webhooks/${webhook.id}`, await jsonRequest('PUT', { active: false }, 'admin'));
+    expect(await dispatcher.runOnce(new Date(Date.now() + 60_000))).toBe(0);
+    [delivery] = await deliveriesOf(webhook.id);
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 1, error: 'Webhook tidak aktif' });
+
+    // Webhook nonaktif tidak menerima event baru
+    ctx.events.publish('upload.deleted', { filename: 'b.webp' });
+    await dispatcher.drain();
+    expect(await deliveriesOf(webhook.id)).toHaveLength(1);
+  });
+
+  test('a delivery can be redelivered manually as a new log entry', async () => {
+    const webhook = await register({ events: ['blog.deleted'] });
+    replyStatus = 503;
+    ctx.events.publish('blog.deleted', { id: 'b1' });
+    await dispatcher.drain();
+    const [failed] = await deliveriesOf(webhook.id);
+
+    replyStatus = 200;
+    const res = await ctx.app.request(`/api/webhooks/${webhook.id}/deliveries/${failed.id}/redeliver`, { method: 'POST', headers: await authHeaders('admin') });
+    expect(res.status).toBe(200);
+    const redelivered = (await readJson(res)).data;
+    expect(redelivered).toMatchObject({ status: 'succeeded', attempts: 1, redeliveryOf: failed.id, eventId: failed.eventId, payload: failed.payload });
+    expect(received.map(request => request.body)).toEqual([failed.payload, failed.payload]);
+    expect(received[1].headers.get('X-Webhook-Id')).toBe(redelivered.id);
+
+    const log = await deliveriesOf(webhook.id);
+    expect(log.map((delivery: any) => delivery.id)).toEqual([redelivered.id, failed.id]);
+    const limited = await ctx.app.request(`/api/webhooks/${webhook.id}/deliveries?limit=1`, { headers: await authHeaders('admin') });
+    expect((await readJson(limited)).pagination).toMatchObject({ limit: 1, hasMore: true });
+
+    const other = await register({ events: ['blog.deleted'] });
+    const mismatched = await ctx.app.request(`/api/webhooks/${other.id}/deliveries/${failed.id}/redeliver`, { method: 'POST', headers: await authHeaders('admin') });
+    expect(mismatched.status).toBe(404);
+    expect((await readJson(mismatched)).code).toBe('WEBHOOK_DELIVERY_NOT_FOUND');
+  });
+
+  test('the registry hides secrets, rotates them on request and is limited to admins', async () => {
+    const webhook = await register({ events: ['blog.published', 'blog.published', 'project.published'], description: 'Bangun ulang situs' });
+    expect(webhook.secret).toStartWith('whsec_');
+    expect(webhook.events).toEqual(['blog.published', 'project.published']);
+
+    const list = await ctx.app.request('/api/webhooks', { headers: await authHeaders('admin') });
+    const [listed] = (await readJson(list)).data;
+    expect(listed).toMatchObject({ id: webhook.id, description: 'Bangun ulang situs', active: true, createdBy: 'admin-user' });
+    expect(listed.secret).toBeUndefined();
+
+    const updated = await ctx.app.request(`/api/webhooks/${webhook.id}`, await jsonRequest('PUT', { events: ['blog.deleted'] }, 'admin'));
+    expect((await readJson(updated)).data.secret).toBeUndefined();
+    const rotated = await ctx.app.request(`/api/webhooks/${webhook.id}`, await jsonRequest('PUT', { rotateSecret: true }, 'admin'));
+    const rotatedSecret = (await readJson(rotated)).data.secret;
+    expect(rotatedSecret).toStartWith('whsec_');
+    expect(rotatedSecret).not.toBe(webhook.secret);
+    expect((await ctx.webhooks.repository.findById(webhook.id))?.events).toEqual(['blog.deleted']);
+
+    for (const body of [
+      { url: 'ftp://example.com/hook', events: ['blog.published'] },
+      { url: 'https://example.com/hook', events: [] },
+      { url: 'https://example.com/hook', events: ['komentar.created'] },
+      { url: 'https://example.com/hook', events: ['blog.published'], secret: 'pendek' }
+    ]) {
+      const invalid = await ctx.app.request('/api/webhooks', await jsonRequest('POST', body, 'admin'));
+      expect(invalid.status).toBe(400);
+    }
+
+    expect((await ctx.app.request('/api/webhooks')).status).toBe(401);
+    expect((await ctx.app.request('/api/webhooks', { headers: await authHeaders('editor') })).status).toBe(403);
+
+    ctx.events.publish('blog.deleted', { id: 'b1' });
+    await dispatcher.drain();
+    const removed = await ctx.app.request(`/api/webhooks/${webhook.id}`, { method: 'DELETE', headers: await authHeaders('admin') });
+    expect(removed.status).toBe(200);
+    const missing = await ctx.app.request(`/api/webhooks/${webhook.id}`, { headers: await authHeaders('admin') });
+    expect(missing.status).toBe(404);
+    expect((await readJson(missing)).code).toBe('WEBHOOK_NOT_FOUND');
+    expect((await ctx.webhooks.deliveries.listByWebhook(webhook.id)).items).toEqual([]);
+  });
+});